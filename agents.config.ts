@@ -4,4 +4,62 @@ export default {
     'customer-support': 'src/agents/customer-support.ts',
     // Additional agents can be added here as needed
   },
-} as const;
\ No newline at end of file
+  // Agents each agent can hand the conversation to. The agent a conversation was
+  // handed to keeps handling it on later turns, e.g.
+  // handoffs: { 'customer-support': ['billing'], 'billing': ['customer-support'] }
+  handoffs: {
+    'customer-support': []
+  },
+  // Which agent a new conversation starts with. Rules are checked in order and the
+  // first match wins; `defaultAgent` handles everything else. Paths are rooted at
+  // `channel`, `to` (the Twilio number contacted), `from`, `profile` (resolved customer
+  // profile) or `time` (`hour`, `minute`, `weekday` in `timezone`), e.g.
+  // { name: 'premium-voice', agent: 'premium-support', when: { all: [
+  //   { path: 'channel', op: 'eq', value: 'voice' },
+  //   { path: 'profile.customerTier', op: 'eq', value: 'premium' }
+  // ] } },
+  // { name: 'billing-line', agent: 'billing', when: { path: 'to', op: 'eq', value: '+15550001111' } },
+  // { name: 'after-hours', agent: 'after-hours', when: { any: [
+  //   { path: 'time.hour', op: 'lt', value: 9 },
+  //   { path: 'time.hour', op: 'gte', value: 17 },
+  //   { path: 'time.weekday', op: 'in', value: ['sat', 'sun'] }
+  // ] } }
+  routing: {
+    timezone: 'UTC',
+    rules: []
+  },
+  // Tool approval rules per agent. A listed tool needs approval when any rule matches;
+  // paths are rooted at `args` (tool arguments) or `context` (CustomerContext).
+  // Rules marked `approver: 'customer'` can be confirmed by the caller on voice.
+  approvalPolicies: {
+    'customer-support': {
+      process_refund: [
+        {
+          name: 'refund-over-200',
+          description: 'Refunds over $200',
+          when: { path: 'args.amount', op: 'gt', value: 200 }
+        },
+        {
+          name: 'basic-tier-refund',
+          description: 'Any refund for a basic tier customer, confirmed by the customer',
+          approver: 'customer',
+          when: { path: 'context.metadata.customerProfile.customerTier', op: 'eq', value: 'basic' }
+        }
+      ],
+      escalate_to_human: [
+        {
+          name: 'urgent-escalation',
+          description: 'Escalations marked urgent',
+          when: { path: 'args.priority', op: 'eq', value: 'urgent' }
+        }
+      ],
+      send_sms: [
+        {
+          name: 'sms-to-unknown-number',
+          description: "SMS to a number other than the one the customer contacted us from",
+          when: { path: 'args.to', op: 'neq', valuePath: 'context.verifiedPhone' }
+        }
+      ]
+    }
+  }
+} as const;
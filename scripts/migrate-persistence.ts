@@ -0,0 +1,266 @@
+#!/usr/bin/env tsx
+
+/**
+ * Persistence migration and export script
+ *
+ * Copies run states, customer contexts and phone-to-subject mappings between
+ * persistence adapters, or dumps them to a portable JSONL archive and imports
+ * them again. Every write is verified against per-record checksums.
+ *
+ * Usage:
+ *   npm run migrate -- copy --from file --to sqlite
+ *   npm run migrate -- export --from redis --out ./backup/states.jsonl
+ *   npm run migrate -- import --in ./backup/states.jsonl --to postgres
+ *   npm run migrate -- --help
+ */
+
+import { createPersistenceStore, PersistenceAdapter } from '../src/config/persistence';
+import {
+  collectRecords,
+  writeRecords,
+  verifyRecords,
+  writeArchive,
+  readArchive,
+  countRecords,
+  MigrationCounts,
+  MigrationRecord
+} from '../src/services/persistence/migration';
+import { logger } from '../src/utils/logger';
+
+type Command = 'copy' | 'export' | 'import';
+
+interface MigrateOptions {
+  command?: Command;
+  from?: PersistenceAdapter;
+  to?: PersistenceAdapter;
+  input?: string;
+  output?: string;
+  subjectIds: string[];
+  subjectMap: string;
+  targetSubjectMap?: string;
+  dryRun: boolean;
+  help: boolean;
+}
+
+const ADAPTERS: PersistenceAdapter[] = ['file', 'redis', 'postgres', 'sqlite'];
+
+function parseArgs(): MigrateOptions {
+  const args = process.argv.slice(2);
+  const options: MigrateOptions = {
+    subjectIds: [],
+    subjectMap: './data/subject-map.json',
+    dryRun: false,
+    help: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case 'copy':
+      case 'export':
+      case 'import':
+        options.command = args[i] as Command;
+        break;
+      case '--from':
+        options.from = args[++i] as PersistenceAdapter;
+        break;
+      case '--to':
+        options.to = args[++i] as PersistenceAdapter;
+        break;
+      case '--in':
+        options.input = args[++i];
+        break;
+      case '--out':
+        options.output = args[++i];
+        break;
+      case '--subject':
+        options.subjectIds.push(args[++i]);
+        break;
+      case '--subject-map':
+        options.subjectMap = args[++i];
+        break;
+      case '--target-subject-map':
+        options.targetSubjectMap = args[++i];
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--help':
+        options.help = true;
+        break;
+    }
+  }
+
+  return options;
+}
+
+function showHelp(): void {
+  console.log(`
+Persistence Migration Script
+
+Usage:
+  npm run migrate -- copy --from <adapter> --to <adapter> [options]
+  npm run migrate -- export --from <adapter> --out <file.jsonl> [options]
+  npm run migrate -- import --in <file.jsonl> --to <adapter> [options]
+
+Adapters: ${ADAPTERS.join(', ')}
+Each adapter reads its usual environment variables (STATE_PERSISTENCE_DIR,
+REDIS_URL, DATABASE_URL, SQLITE_PATH, ENCRYPTION_KEYS, ...).
+
+Options:
+  --subject <id>                 Only migrate this subject (repeatable)
+  --dry-run                      Show what would be written without writing
+  --subject-map <path>           Subject map to read (default: ./data/subject-map.json)
+  --target-subject-map <path>    Subject map to write (default: same as --subject-map)
+  --help                         Show this help message
+
+Examples:
+  npm run migrate -- copy --from file --to sqlite --dry-run
+  npm run migrate -- copy --from file --to postgres --subject phone_15551234567
+  npm run migrate -- export --from file --out ./backup/states.jsonl
+`);
+}
+
+function formatCounts(counts: MigrationCounts): string {
+  return `${counts.states} states, ${counts.contexts} contexts, ${counts.mappings} subject mappings`;
+}
+
+function requireAdapter(name: string, adapter?: PersistenceAdapter): PersistenceAdapter {
+  if (!adapter || !ADAPTERS.includes(adapter)) {
+    throw new Error(`--${name} must be one of: ${ADAPTERS.join(', ')}`);
+  }
+  return adapter;
+}
+
+async function openStore(adapter: PersistenceAdapter) {
+  const store = createPersistenceStore(adapter);
+  await store.init();
+  return store;
+}
+
+/**
+ * Write records into an adapter and verify them, returning false on mismatches
+ */
+async function writeAndVerify(records: MigrationRecord[], adapter: PersistenceAdapter, options: MigrateOptions): Promise<boolean> {
+  if (options.dryRun) {
+    // Don't open the target: some adapters create their database on init()
+    console.log(`🔍 Dry run: would write ${formatCounts(countRecords(records))} to ${adapter}`);
+    return true;
+  }
+
+  const target = await openStore(adapter);
+  const subjectMapPath = options.targetSubjectMap || options.subjectMap;
+  const counts = await writeRecords(target, records, { subjectMapPath });
+
+  console.log(`📥 Wrote ${formatCounts(counts)} to ${adapter}`);
+
+  const mismatches = await verifyRecords(target, records, subjectMapPath);
+  if (mismatches.length > 0) {
+    console.error(`❌ Verification failed for ${mismatches.length} records:`);
+    mismatches.forEach(mismatch => console.error(`   - ${mismatch}`));
+    return false;
+  }
+
+  console.log(`✅ Verified ${records.length} records by checksum`);
+  return true;
+}
+
+async function run(options: MigrateOptions): Promise<boolean> {
+  const collectOptions = {
+    subjectIds: options.subjectIds.length > 0 ? options.subjectIds : undefined,
+    subjectMapPath: options.subjectMap
+  };
+
+  switch (options.command) {
+    case 'copy': {
+      const from = requireAdapter('from', options.from);
+      const to = requireAdapter('to', options.to);
+      if (from === to) {
+        throw new Error('--from and --to must be different adapters');
+      }
+
+      const records = await collectRecords(await openStore(from), collectOptions);
+      console.log(`📤 Read ${formatCounts(countRecords(records))} from ${from}`);
+
+      return writeAndVerify(records, to, options);
+    }
+
+    case 'export': {
+      const from = requireAdapter('from', options.from);
+      if (!options.output) {
+        throw new Error('export requires --out <file.jsonl>');
+      }
+
+      const records = await collectRecords(await openStore(from), collectOptions);
+
+      if (options.dryRun) {
+        console.log(`🔍 Dry run: would export ${formatCounts(countRecords(records))} to ${options.output}`);
+        return true;
+      }
+
+      await writeArchive(options.output, records);
+      console.log(`✅ Exported ${formatCounts(countRecords(records))} to ${options.output}`);
+      return true;
+    }
+
+    case 'import': {
+      const to = requireAdapter('to', options.to);
+      if (!options.input) {
+        throw new Error('import requires --in <file.jsonl>');
+      }
+
+      const records = (await readArchive(options.input)).filter(record =>
+        !collectOptions.subjectIds || collectOptions.subjectIds.includes(record.subjectId)
+      );
+      console.log(`📤 Read ${formatCounts(countRecords(records))} from ${options.input}`);
+
+      return writeAndVerify(records, to, options);
+    }
+
+    default:
+      throw new Error('Specify a command: copy, export or import (see --help)');
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  if (options.help) {
+    showHelp();
+    process.exit(0);
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const succeeded = await run(options);
+
+    logger.info('Persistence migration finished', {
+      operation: 'persistence_migration'
+    }, {
+      command: options.command,
+      from: options.from,
+      to: options.to,
+      dryRun: options.dryRun,
+      succeeded,
+      durationMs: Date.now() - startTime
+    });
+
+    process.exit(succeeded ? 0 : 1);
+
+  } catch (error) {
+    console.error(`❌ Migration failed:`, (error as Error).message);
+
+    logger.error('Persistence migration failed', error as Error, {
+      operation: 'persistence_migration'
+    }, {
+      command: options.command,
+      durationMs: Date.now() - startTime
+    });
+
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -3,6 +3,8 @@ import { ChannelAdapter } from './ChannelAdapter';
 import { conversationService, ProcessingOptions } from '../services/conversationService';
 import { logger } from '../utils/logger';
 import { SubjectResolver, SubjectId, SubjectResolverRegistry } from '../identity/subject-resolver';
+import { agentRegistry } from '../registry/agent-registry';
+import { CustomerContext } from '../context/types';
 
 /**
  * Base implementation providing common functionality for all channel adapters.
@@ -27,14 +29,14 @@ export abstract class BaseAdapter implements ChannelAdapter {
    * 
    * @param req - The raw channel-specific request
    * @param res - The channel-specific response object  
-   * @param agent - The agent to process the request with
+   * @param agent - The agent to process the request with; chosen by the routing rules when omitted
    * @param options - Optional threading configuration
    * @returns Promise that resolves when the response has been fully sent
    */
   async processRequest(
     req: any,
     res: any,
-    agent: Agent,
+    agent?: Agent,
     options: ProcessingOptions = {}
   ): Promise<void> {
     const startTime = Date.now();
@@ -77,6 +79,12 @@ export abstract class BaseAdapter implements ChannelAdapter {
         context.customerPhone = metadata.phone;
         contextUpdated = true;
       }
+
+      const verifiedPhone = this.getVerifiedPhone(metadata);
+      if (verifiedPhone && context.verifiedPhone !== verifiedPhone) {
+        context.verifiedPhone = verifiedPhone;
+        contextUpdated = true;
+      }
       
       // Add enriched customer profile data from Segment to context metadata
       if (metadata.customerProfile) {
@@ -115,17 +123,24 @@ export abstract class BaseAdapter implements ChannelAdapter {
 
       // Process with unified conversation service
       const result = await conversationService.processConversationTurn(
-        agent,
+        agent || await this.routeAgent(subjectId, context, metadata),
         subjectId,
         userMessage,
         { 
           showProgress: false, 
           enableDebugLogs: false, 
           stream: false,
+          channel: this.getChannelName(),
           ...options 
         }
       );
 
+      // Answered as part of the turn for an earlier message; that request delivers the reply
+      if (result.coalesced) {
+        await this.sendResponse(res, this.createTextStream([]));
+        return;
+      }
+
       // Handle tool approval workflow if needed
       if (result.awaitingApprovals) {
         logger.info('Tool approvals required', {
@@ -134,8 +149,7 @@ export abstract class BaseAdapter implements ChannelAdapter {
           adapterName: this.getChannelName()
         });
         
-        const approvalMessage = 'Some actions require approval. This feature is in development. Please restate your request to continue.';
-        await this.sendResponse(res, this.createTextStream([approvalMessage]));
+        await this.sendResponse(res, this.createTextStream([this.getAwaitingApprovalMessage()]));
         return;
       }
 
@@ -145,8 +159,11 @@ export abstract class BaseAdapter implements ChannelAdapter {
       // Get the final response
       const responseText = result.finalOutput || result.response || 'I apologize, but I\'m having trouble processing your request right now.';
 
+      // Deliver messages queued while the customer was away (e.g. expired approval follow-ups)
+      const queuedMessages = await conversationService.takeQueuedMessages(subjectId);
+
       // Stream the response back to the channel
-      await this.sendResponse(res, this.createTextStream([responseText]));
+      await this.sendResponse(res, this.createTextStream([[...queuedMessages, responseText].join('\n\n')]));
       
       // End session if user said goodbye
       if (isGoodbye) {
@@ -198,6 +215,65 @@ export abstract class BaseAdapter implements ChannelAdapter {
     }
   }
 
+  /**
+   * Message telling the customer their request is waiting on a reviewer.
+   * 
+   * The agent's reply is delivered to this channel once the request is reviewed.
+   * Override to word it for the channel.
+   * 
+   * @returns The message sent when a turn ends awaiting approval
+   */
+  protected getAwaitingApprovalMessage(): string {
+    return 'I\'ve passed your request to our team for review. I\'ll get back to you here as soon as it has been reviewed.';
+  }
+
+  /**
+   * Phone number the channel's transport vouches for, recorded as the
+   * context's `verifiedPhone`. Channels whose metadata the client controls
+   * must not override this.
+   * 
+   * @param metadata - Metadata from getSubjectMetadata
+   * @returns The verified number, or undefined when the channel has none
+   */
+  protected getVerifiedPhone(_metadata: Record<string, any>): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Pick the agent for a turn from the routing rules in agents.config.ts.
+   * 
+   * Routing only chooses the agent a conversation starts with; once the
+   * context records a `lastAgent`, ConversationService resumes with it.
+   * 
+   * @param subjectId - Resolved subject ID
+   * @param context - The subject's conversation context
+   * @param metadata - Channel metadata, including the customer profile if resolved
+   * @returns Registry name of the selected agent
+   */
+  protected async routeAgent(
+    subjectId: SubjectId,
+    context: CustomerContext,
+    metadata: Record<string, any>
+  ): Promise<string> {
+    const decision = await agentRegistry.route({
+      channel: this.getChannelName(),
+      to: metadata.to,
+      from: metadata.from || metadata.phone,
+      profile: metadata.customerProfile || context.metadata?.customerProfile
+    });
+
+    logger.debug('Agent selected by routing rules', {
+      subjectId,
+      agentName: decision.agentName,
+      operation: 'agent_routing',
+      adapterName: this.getChannelName()
+    }, {
+      matchedRule: decision.matchedRule,
+      lastAgent: context.lastAgent
+    });
+
+    return decision.agentName;
+  }
 
   /**
    * Check if a user message indicates they want to end the conversation.
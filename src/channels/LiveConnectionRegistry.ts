@@ -0,0 +1,76 @@
+import { logger } from '../utils/logger';
+import { SubjectId } from '../types/common';
+
+/**
+ * Sends a message over an open customer connection
+ */
+export type LiveMessageSender = (message: string) => Promise<void>;
+
+/**
+ * Registry of open customer connections (live voice calls, web chat streams)
+ * so messages produced outside a customer turn can be pushed to them.
+ */
+export class LiveConnectionRegistry {
+  private connections = new Map<SubjectId, Map<string, LiveMessageSender>>();
+
+  /**
+   * Register an open connection for a subject on a channel. A connection that
+   * is already open for the subject on that channel is kept, not replaced.
+   *
+   * @returns Function that unregisters this connection, or undefined if another
+   * connection is already open
+   */
+  register(subjectId: SubjectId, channel: string, send: LiveMessageSender): (() => void) | undefined {
+    const channels = this.connections.get(subjectId) || new Map<string, LiveMessageSender>();
+
+    if (channels.has(channel)) {
+      logger.warn('Live connection already open, keeping it', {
+        subjectId,
+        operation: 'live_connection_register',
+        adapterName: channel
+      });
+      return undefined;
+    }
+
+    channels.set(channel, send);
+    this.connections.set(subjectId, channels);
+
+    logger.debug('Live connection registered', {
+      subjectId,
+      operation: 'live_connection_register',
+      adapterName: channel
+    });
+
+    return () => this.unregister(subjectId, channel, send);
+  }
+
+  /**
+   * Get the open connection for a subject on a channel, if any
+   */
+  get(subjectId: SubjectId, channel: string): LiveMessageSender | undefined {
+    return this.connections.get(subjectId)?.get(channel);
+  }
+
+  private unregister(subjectId: SubjectId, channel: string, send: LiveMessageSender): void {
+    const channels = this.connections.get(subjectId);
+
+    // Only the connection that was registered may remove itself
+    if (!channels || channels.get(channel) !== send) {
+      return;
+    }
+
+    channels.delete(channel);
+    if (channels.size === 0) {
+      this.connections.delete(subjectId);
+    }
+
+    logger.debug('Live connection unregistered', {
+      subjectId,
+      operation: 'live_connection_unregister',
+      adapterName: channel
+    });
+  }
+}
+
+// Export singleton instance
+export const liveConnections = new LiveConnectionRegistry();
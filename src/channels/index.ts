@@ -3,4 +3,8 @@ export type { ChannelAdapter } from './ChannelAdapter';
 export { BaseAdapter } from './BaseAdapter';
 
 // Export individual adapters for direct use
-export { SmsAdapter } from './sms/adapter';
\ No newline at end of file
+export { SmsAdapter } from './sms/adapter';
+
+// Export live connection registry for pushing messages outside a turn
+export { LiveConnectionRegistry, liveConnections } from './LiveConnectionRegistry';
+export type { LiveMessageSender } from './LiveConnectionRegistry';
\ No newline at end of file
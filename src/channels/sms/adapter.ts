@@ -273,15 +273,26 @@ export class SmsAdapter extends BaseAdapter {
    * 
    * @param req - Express request object
    * @param res - Express response object
-   * @param agent - Agent to process the request with
+   * @param agent - Agent to process the request with; chosen by the routing rules when omitted
    */
-  async processSmsWebhook(req: TwilioSmsRequest, res: express.Response, agent: any): Promise<void> {
+  async processSmsWebhook(req: TwilioSmsRequest, res: express.Response, agent?: any): Promise<void> {
     // Store original request for use in sendResponse
     res.locals.originalRequest = req;
     
     await this.processRequest(req, res, agent);
   }
 
+  protected getAwaitingApprovalMessage(): string {
+    return 'I\'ve passed your request to our team for review. I\'ll text you as soon as it has been reviewed.';
+  }
+
+  /**
+   * The sender number Twilio reports for the message
+   */
+  protected getVerifiedPhone(metadata: Record<string, any>): string | undefined {
+    return metadata.phone;
+  }
+
   protected getChannelName(): string {
     return 'sms';
   }
@@ -6,14 +6,21 @@ import { SubjectResolver } from '../../identity/subject-resolver';
 import { TwilioVoiceMessage, TwilioVoiceResponse } from './types';
 import { VoiceSession } from './voiceSession';
 import { Agent } from '@openai/agents';
-import { conversationService } from '../../services/conversationService';
+import { conversationService, PendingApproval, TurnCancelledError } from '../../services/conversationService';
+import { liveConnections } from '../LiveConnectionRegistry';
+import { buildConfirmationPrompt, interpretConfirmation, CONFIRMATION_RETRY_PROMPT } from './confirmation';
 
 interface WebSocketWithSession extends WebSocket {
   voiceSession?: VoiceSession;
   subjectId?: string; // Track the resolved subject ID for conversation service
   customerProfile?: any; // Cache customer profile data from initial subject resolution
+  unregisterLiveConnection?: () => void; // Stop pushing out-of-turn messages to this call
+  pendingConfirmation?: PendingApproval[]; // Tool calls read back to the caller, awaiting yes/no
+  activeTurns?: Map<AbortController, Promise<unknown>>; // In-flight turns, aborted on interrupt or hang-up
 }
 
+const CALLER_DECLINED_REASON = 'The customer declined when asked to confirm on the call.';
+
 /**
  * Voice Channel Adapter for Twilio ConversationRelay WebSockets.
  * 
@@ -24,6 +31,7 @@ interface WebSocketWithSession extends WebSocket {
  * - Transcript batching for better conversation flow
  * - Real-time TTS streaming with optimized chunking
  * - Session management with automatic cleanup
+ * - Verbal (or keypad) confirmation of tool calls the caller may approve
  * 
  * @example
  * ```ts
@@ -75,6 +83,7 @@ export class VoiceAdapter extends BaseAdapter {
     return {
       phone: setup?.from,
       from: setup?.from,
+      to: setup?.to,
       callSid: setup?.callSid,
       channel: 'voice',
       adapterName: 'voice',
@@ -196,7 +205,7 @@ export class VoiceAdapter extends BaseAdapter {
     sessionId: string,
     message: TwilioVoiceMessage,
     ws: WebSocketWithSession,
-    agent: any
+    agent?: any
   ): Promise<void> {
     const transcript = message.transcript || message.data?.transcript || '';
     
@@ -237,7 +246,7 @@ export class VoiceAdapter extends BaseAdapter {
   private async processBatchedTranscripts(
     sessionId: string,
     ws: WebSocketWithSession,
-    agent: any
+    agent?: any
   ): Promise<void> {
     const batch = this.transcriptBatches.get(sessionId);
 
@@ -324,7 +333,7 @@ export class VoiceAdapter extends BaseAdapter {
   async processVoiceWebhook(
     req: express.Request, 
     res: express.Response, 
-    agent: Agent
+    agent?: Agent
   ): Promise<void> {
     const isPost = req.method === 'POST';
     const logData = isPost ? {
@@ -373,12 +382,12 @@ export class VoiceAdapter extends BaseAdapter {
    * 
    * @param ws - WebSocket connection from Twilio ConversationRelay
    * @param req - Express request object containing connection metadata
-   * @param agent - Agent instance to process voice messages
+   * @param agent - Agent instance to process voice messages; chosen by the routing rules when omitted
    */
   async processConversationRelay(
     ws: WebSocketWithSession,
     req: express.Request,
-    agent: Agent
+    agent?: Agent
   ): Promise<void> {
     const sessionId = `voice-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
@@ -444,6 +453,9 @@ export class VoiceAdapter extends BaseAdapter {
         reason: reason.toString()
       });
 
+      // Stop the turn in flight; wait for it so its message is not saved with the session
+      await this.cancelActiveTurns(ws, 'websocket_closed');
+
       // Clean up session and adapter state
       if (ws.voiceSession) {
         ws.voiceSession.cleanup();
@@ -451,6 +463,9 @@ export class VoiceAdapter extends BaseAdapter {
         this.voiceSessions.delete(sessionId);
       }
 
+      // Messages for this caller are queued for their next call from now on
+      ws.unregisterLiveConnection?.();
+
       // End conversation session using the tracked subject ID
       if (ws.subjectId) {
         try {
@@ -505,7 +520,7 @@ export class VoiceAdapter extends BaseAdapter {
     session: VoiceSession, 
     message: TwilioVoiceMessage,
     ws: WebSocketWithSession,
-    agent: Agent
+    agent?: Agent
   ): Promise<void> {
     
     switch (message.type) {
@@ -546,6 +561,13 @@ export class VoiceAdapter extends BaseAdapter {
         
       case 'dtmf':
         const dtmf = message.digits?.digit || message.data?.dtmf || '';
+
+        // Keypad answer (1 = yes, 2 = no) to a read-back confirmation
+        if (ws.pendingConfirmation && ws.subjectId && await this.isConfirmationPending(ws, ws.subjectId)) {
+          await this.handleConfirmationAnswer(ws, ws.subjectId, dtmf);
+          break;
+        }
+
         const dtmfResponse = await session.handleDtmf(dtmf);
         if (dtmfResponse) {
           ws.send(JSON.stringify(dtmfResponse));
@@ -553,6 +575,9 @@ export class VoiceAdapter extends BaseAdapter {
         break;
         
       case 'interrupt':
+        // The caller talked over the agent: drop the reply being generated
+        await this.cancelActiveTurns(ws, 'interrupt');
+
         const interruptResponse = await session.handleInterrupt();
         if (interruptResponse) {
           ws.send(JSON.stringify(interruptResponse));
@@ -575,13 +600,20 @@ export class VoiceAdapter extends BaseAdapter {
   private async processRequestWithSubjectCaching(
     req: any,
     ws: WebSocketWithSession,
-    agent: Agent
+    agent?: Agent
   ): Promise<void> {
     // Check if we already have a cached subject ID for this WebSocket
     if (!ws.subjectId) {
       // First message - resolve subject ID and cache it
       const metadata = this.getSubjectMetadata(req);
       ws.subjectId = await this.subjectResolver.resolve(metadata);
+
+      // Let approval outcomes reach the caller while the call is still up
+      ws.unregisterLiveConnection = liveConnections.register(
+        ws.subjectId,
+        this.getChannelName(),
+        (message) => this.sendResponse(ws, this.createTextStream([message]))
+      );
       
       // Cache the customer profile data if it was enriched during subject resolution
       if ((metadata as any).customerProfile) {
@@ -620,7 +652,7 @@ export class VoiceAdapter extends BaseAdapter {
   private async processRequestWithKnownSubject(
     req: any,
     res: WebSocketWithSession,
-    agent: Agent,
+    agent: Agent | undefined,
     knownSubjectId: string
   ): Promise<void> {
     const startTime = Date.now();
@@ -655,6 +687,12 @@ export class VoiceAdapter extends BaseAdapter {
 
       // Use the known subject ID instead of resolving again
       const subjectId = knownSubjectId;
+
+      // The caller is answering a read-back, not talking to the agent
+      if (res.pendingConfirmation && await this.isConfirmationPending(res, subjectId)) {
+        await this.handleConfirmationAnswer(res, subjectId, userMessage);
+        return;
+      }
       
       logger.info('Processing channel request', {
         subjectId,
@@ -674,6 +712,12 @@ export class VoiceAdapter extends BaseAdapter {
         context.customerPhone = metadata.phone;
         contextUpdated = true;
       }
+
+      const verifiedPhone = this.getVerifiedPhone(metadata);
+      if (verifiedPhone && context.verifiedPhone !== verifiedPhone) {
+        context.verifiedPhone = verifiedPhone;
+        contextUpdated = true;
+      }
       
       // Add enriched customer profile data from Segment to context metadata
       if (metadata.customerProfile) {
@@ -710,17 +754,44 @@ export class VoiceAdapter extends BaseAdapter {
         await conversationService.saveContext(subjectId, context);
       }
 
-      // Process with unified conversation service
-      const result = await conversationService.processConversationTurn(
-        agent,
+      // Process with unified conversation service; aborted if the caller interrupts or hangs up
+      const turnController = new AbortController();
+      const turn = conversationService.processConversationTurn(
+        agent || await this.routeAgent(subjectId, context, metadata),
         subjectId,
         userMessage,
         { 
           showProgress: false, 
           enableDebugLogs: false, 
-          stream: false
+          stream: false,
+          channel: this.getChannelName(),
+          signal: turnController.signal
         }
       );
+      if (!res.activeTurns) {
+        res.activeTurns = new Map();
+      }
+      res.activeTurns.set(turnController, turn);
+
+      let result: Awaited<typeof turn>;
+      try {
+        result = await turn;
+      } finally {
+        res.activeTurns.delete(turnController);
+      }
+
+      // A timed-out run finishing in the background can still be cancelled by interrupt or hang-up
+      if (result.lateDelivery) {
+        const activeTurns = res.activeTurns;
+        activeTurns.set(turnController, result.lateDelivery);
+        void result.lateDelivery.finally(() => activeTurns.delete(turnController));
+      }
+
+      // Answered as part of the turn for an earlier message; that request delivers the reply
+      if (result.coalesced) {
+        await this.sendResponse(res, this.createTextStream([]));
+        return;
+      }
 
       // Handle tool approval workflow if needed
       if (result.awaitingApprovals) {
@@ -730,8 +801,7 @@ export class VoiceAdapter extends BaseAdapter {
           adapterName: this.getChannelName()
         });
         
-        const approvalMessage = 'Some actions require approval. This feature is in development. Please restate your request to continue.';
-        await this.sendResponse(res, this.createTextStream([approvalMessage]));
+        await this.requestApproval(res, subjectId);
         return;
       }
 
@@ -741,8 +811,11 @@ export class VoiceAdapter extends BaseAdapter {
       // Get the final response
       const responseText = result.finalOutput || result.response || 'I apologize, but I\'m having trouble processing your request right now.';
 
+      // Deliver messages queued while the customer was away (e.g. expired approval follow-ups)
+      const queuedMessages = await conversationService.takeQueuedMessages(subjectId);
+
       // Stream the response back to the channel
-      await this.sendResponse(res, this.createTextStream([responseText]));
+      await this.sendResponse(res, this.createTextStream([[...queuedMessages, responseText].join('\n\n')]));
       
       // End session if user said goodbye
       if (isGoodbye) {
@@ -774,6 +847,18 @@ export class VoiceAdapter extends BaseAdapter {
       });
 
     } catch (error) {
+      // Interrupted or hung up: there is nobody waiting for this reply
+      if (error instanceof TurnCancelledError) {
+        logger.debug('Voice turn cancelled', {
+          subjectId: knownSubjectId,
+          operation: 'voice_turn_cancelled',
+          adapterName: this.getChannelName()
+        }, {
+          reason: error.reason
+        });
+        return;
+      }
+
       logger.error('Channel request processing failed', error as Error, {
         subjectId: knownSubjectId,
         operation: 'base_adapter_process',
@@ -794,6 +879,157 @@ export class VoiceAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Abort every turn in flight on the call and wait for them to wind down
+   * 
+   * @param ws - WebSocket connection of the call
+   * @param reason - Why the turns are cancelled, reported in the turn_cancelled event
+   */
+  private async cancelActiveTurns(ws: WebSocketWithSession, reason: string): Promise<void> {
+    if (!ws.activeTurns || ws.activeTurns.size === 0) {
+      return;
+    }
+
+    const turns = [...ws.activeTurns.entries()];
+    logger.info('Cancelling in-flight voice turns', {
+      subjectId: ws.subjectId,
+      operation: 'voice_turn_cancel',
+      adapterName: this.getChannelName()
+    }, {
+      reason,
+      turnCount: turns.length
+    });
+
+    for (const [controller] of turns) {
+      controller.abort(reason);
+    }
+    await Promise.allSettled(turns.map(([, turn]) => turn));
+  }
+
+  /**
+   * Ask the caller to confirm pending tool calls they are allowed to approve,
+   * otherwise tell them the request has gone to our team for review.
+   * 
+   * Calls are only read back when every pending call is customer-approvable,
+   * so a single answer never settles something a supervisor must decide.
+   */
+  private async requestApproval(ws: WebSocketWithSession, subjectId: string): Promise<void> {
+    const pending = await conversationService.listPendingApprovals(subjectId);
+
+    if (pending.length > 0 && pending.every(approval => approval.approver === 'customer')) {
+      ws.pendingConfirmation = pending;
+
+      logger.info('Asking caller to confirm tool calls', {
+        subjectId,
+        operation: 'voice_confirmation_request',
+        adapterName: this.getChannelName()
+      }, {
+        toolCallIds: pending.map(approval => approval.toolCallId),
+        toolNames: pending.map(approval => approval.toolName)
+      });
+
+      await this.sendResponse(ws, this.createTextStream([buildConfirmationPrompt(pending)]));
+      return;
+    }
+
+    await this.sendResponse(ws, this.createTextStream([this.getAwaitingApprovalMessage()]));
+  }
+
+  /**
+   * Whether the calls read back to the caller still await a decision. A
+   * supervisor or approval expiry may have settled them first; the read-back
+   * is then dropped and the caller's words go to the agent as usual.
+   */
+  private async isConfirmationPending(ws: WebSocketWithSession, subjectId: string): Promise<boolean> {
+    const pendingIds = (await conversationService.listPendingApprovals(subjectId))
+      .map(approval => approval.toolCallId);
+    const stillPending = (ws.pendingConfirmation || [])
+      .filter(approval => pendingIds.includes(approval.toolCallId));
+
+    if (stillPending.length > 0) {
+      ws.pendingConfirmation = stillPending;
+      return true;
+    }
+
+    logger.info('Tool calls read back to the caller were settled elsewhere', {
+      subjectId,
+      operation: 'voice_confirmation_stale',
+      adapterName: this.getChannelName()
+    }, {
+      toolCallIds: ws.pendingConfirmation?.map(approval => approval.toolCallId)
+    });
+
+    ws.pendingConfirmation = undefined;
+    return false;
+  }
+
+  /**
+   * Feed the caller's yes/no (spoken or DTMF 1/2) into the approval workflow
+   * and speak the agent's reply
+   */
+  private async handleConfirmationAnswer(
+    ws: WebSocketWithSession,
+    subjectId: string,
+    answer: string
+  ): Promise<void> {
+    const approved = interpretConfirmation(answer);
+    if (approved === null) {
+      await this.sendResponse(ws, this.createTextStream([CONFIRMATION_RETRY_PROMPT]));
+      return;
+    }
+
+    const pending = ws.pendingConfirmation || [];
+    ws.pendingConfirmation = undefined;
+
+    logger.info('Caller answered tool call confirmation', {
+      subjectId,
+      operation: 'voice_confirmation_answer',
+      adapterName: this.getChannelName()
+    }, {
+      approved,
+      toolCallIds: pending.map(approval => approval.toolCallId)
+    });
+
+    try {
+      const result = await conversationService.handleToolApprovals(subjectId, pending.map(approval => ({
+        toolCall: { id: approval.toolCallId },
+        approved,
+        reviewer: 'customer',
+        ...(approved ? {} : { reason: CALLER_DECLINED_REASON })
+      })));
+
+      if (result.awaitingApprovals) {
+        await this.requestApproval(ws, subjectId);
+        return;
+      }
+
+      const responseText = result.response || 'I apologize, but I\'m having trouble processing your request right now.';
+      await this.sendResponse(ws, this.createTextStream([responseText]));
+
+    } catch (error) {
+      logger.error('Failed to apply caller confirmation', error as Error, {
+        subjectId,
+        operation: 'voice_confirmation_answer',
+        adapterName: this.getChannelName()
+      });
+
+      await this.sendResponse(ws, this.createTextStream([
+        'I\'m sorry, I couldn\'t complete that just now. Our team will follow up with you.'
+      ]));
+    }
+  }
+
+  protected getAwaitingApprovalMessage(): string {
+    return 'I\'ve passed your request to our team for review. If we\'re still on the call when they respond I\'ll let you know, otherwise I\'ll tell you next time you call.';
+  }
+
+  /**
+   * The caller ID Twilio reports for the call
+   */
+  protected getVerifiedPhone(metadata: Record<string, any>): string | undefined {
+    return metadata.phone;
+  }
+
   protected getChannelName(): string {
     return 'voice';
   }
@@ -0,0 +1,77 @@
+import { PendingApproval } from '../../services/conversationService';
+
+/**
+ * Helpers for asking a caller to confirm tool calls they are allowed to approve
+ * themselves (tool approval rules with `approver: 'customer'`).
+ */
+
+const YES_WORDS = "yes|yeah|yep|yup|sure|ok|okay|correct|please do|go ahead|do it|that's right";
+const NO_WORDS = "no|nope|nah|don't|do not|cancel|stop|never mind|not now";
+
+const YES_PATTERN = new RegExp(`^(${YES_WORDS}|1)\\b`, 'i');
+const NO_PATTERN = new RegExp(`^(${NO_WORDS}|2)\\b`, 'i');
+const YES_ANYWHERE = new RegExp(`\\b(${YES_WORDS})\\b`, 'i');
+const NO_ANYWHERE = new RegExp(`\\b(${NO_WORDS})\\b`, 'i');
+
+// Phrases that contain "no" but agree, e.g. "no problem, go ahead"
+const AGREEING_PHRASES = /\b(no problem|no worries|not a problem)\b/gi;
+
+export const CONFIRMATION_RETRY_PROMPT = 'Sorry, I didn\'t catch that. Please say yes or no, or press 1 for yes and 2 for no.';
+
+/**
+ * Interpret a caller's answer to a confirmation prompt
+ *
+ * @param answer - Transcribed speech, or the DTMF digit pressed
+ * @returns true for yes, false for no, null if the answer is unclear
+ */
+export function interpretConfirmation(answer: string): boolean | null {
+  const normalized = answer.trim().replace(/^dtmf:\s*/i, '').replace(/[.!,]+$/, '');
+  const withoutAgreeing = normalized.replace(AGREEING_PHRASES, '');
+  const agreeing = withoutAgreeing !== normalized;
+  const remainder = withoutAgreeing.replace(/^[\s.!,]+/, '');
+
+  if (agreeing && !remainder) {
+    return true;
+  }
+  // Answers that say both, like "no wait, yes", are asked again
+  if (YES_PATTERN.test(remainder)) {
+    return NO_ANYWHERE.test(remainder) ? null : true;
+  }
+  if (NO_PATTERN.test(remainder)) {
+    return YES_ANYWHERE.test(remainder) ? null : false;
+  }
+  return null;
+}
+
+function formatAmount(amount: unknown): string {
+  return typeof amount === 'number' ? `$${amount.toFixed(2)}` : String(amount);
+}
+
+/**
+ * Spoken descriptions of tool calls, keyed by tool name
+ */
+const ACTION_DESCRIPTIONS: Record<string, (args: Record<string, any>) => string> = {
+  process_refund: (args) => `refund ${formatAmount(args.amount)} on order ${args.orderId}`,
+  escalate_to_human: (args) => `pass your case to one of our team with ${args.priority} priority`,
+  send_sms: (args) => `send a text message to ${args.to}`
+};
+
+/**
+ * Describe a pending tool call the way it should be read back to the caller
+ */
+export function describeToolCall(approval: PendingApproval): string {
+  const describe = ACTION_DESCRIPTIONS[approval.toolName];
+  return describe ? describe(approval.arguments) : approval.toolName.replace(/_/g, ' ');
+}
+
+/**
+ * Build the read-back prompt for one or more pending tool calls
+ */
+export function buildConfirmationPrompt(approvals: PendingApproval[]): string {
+  const actions = approvals.map(describeToolCall);
+  const summary = actions.length > 1
+    ? `${actions.slice(0, -1).join(', ')} and ${actions[actions.length - 1]}`
+    : actions[0];
+
+  return `I'm about to ${summary}. Shall I go ahead? You can say yes or no, or press 1 for yes and 2 for no.`;
+}
@@ -1,6 +1,10 @@
 import express from 'express';
+import { createHmac, timingSafeEqual } from 'crypto';
 import { BaseAdapter } from '../BaseAdapter';
 import { logger } from '../../utils/logger';
+import { liveConnections } from '../LiveConnectionRegistry';
+import { SubjectId } from '../../types/common';
+import { loadWebChatConfig, WebChatConfig } from '../../config/webChat';
 
 /**
  * Interface for WebChat request body
@@ -242,6 +246,51 @@ export class WebChatAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Open a Server-Sent Events stream that receives messages produced outside a
+   * chat turn, such as the agent's reply once a pending approval is reviewed.
+   * A stream already open for the subject is kept and this one is refused with 409.
+   * 
+   * This does not authenticate the request; `createUpdateStreamHandler` checks
+   * the stream token before calling it.
+   * 
+   * 
+   * @param subjectId - Subject whose messages should be pushed to this stream
+   * @param res - Express response object kept open for the stream
+   */
+  openUpdateStream(subjectId: SubjectId, res: express.Response): void {
+    const unregister = liveConnections.register(subjectId, this.getChannelName(), async (message) => {
+      const eventData = JSON.stringify({
+        type: 'message',
+        content: message,
+        timestamp: new Date().toISOString()
+      });
+      res.write(`data: ${eventData}\n\n`);
+    });
+
+    if (!unregister) {
+      res.status(409).json({
+        error: 'Stream already open',
+        message: 'An update stream is already open for this conversation.'
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+
+    res.write('data: {"type":"connected"}\n\n');
+
+    res.on('close', unregister);
+
+    logger.info('Web chat update stream opened', {
+      subjectId,
+      operation: 'webchat_update_stream',
+      adapterName: 'web'
+    });
+  }
+
   protected getChannelName(): string {
     return 'web';
   }
@@ -273,4 +322,87 @@ export function createWebChatHandler(agent: any) {
   return async (req: express.Request, res: express.Response) => {
     await adapter.processWebChatRequest(req as WebChatRequest, res, agent);
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Sign a token that lets a browser open the update stream for one subject.
+ * Issue it from a backend that has already authenticated the customer.
+ */
+export function createUpdateStreamToken(
+  subjectId: SubjectId,
+  secret: string,
+  ttlMs: number = loadWebChatConfig().updateTokenTtlMs
+): string {
+  const expiresAt = Date.now() + ttlMs;
+  return `${expiresAt}.${signUpdateStreamToken(subjectId, expiresAt, secret)}`;
+}
+
+/**
+ * Check that a token was signed for this subject and has not expired
+ */
+export function verifyUpdateStreamToken(subjectId: SubjectId, token: string, secret: string): boolean {
+  const [expiresAtPart, signature] = token.split('.');
+  const expiresAt = Number(expiresAtPart);
+
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signUpdateStreamToken(subjectId, expiresAt, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function signUpdateStreamToken(subjectId: SubjectId, expiresAt: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${subjectId}.${expiresAt}`).digest('base64url');
+}
+
+/**
+ * Express handler that opens a web chat update stream for the `:subjectId`
+ * route parameter. The request must carry a token from `createUpdateStreamToken`,
+ * as the `token` query parameter (EventSource cannot set headers) or a bearer
+ * token, and only origins listed in `WEB_CHAT_ALLOWED_ORIGINS` may read it.
+ * 
+ * @example
+ * ```ts
+ * app.get('/web/:subjectId/updates', createUpdateStreamHandler(new WebChatAdapter()));
+ * ```
+ */
+export function createUpdateStreamHandler(
+  adapter: WebChatAdapter = new WebChatAdapter(),
+  config: WebChatConfig = loadWebChatConfig()
+) {
+  return (req: express.Request<{ subjectId: string }>, res: express.Response) => {
+    const { subjectId } = req.params;
+
+    // Replace any wildcard set by app-wide CORS middleware
+    const origin = req.get('Origin');
+    res.removeHeader('Access-Control-Allow-Origin');
+    res.vary('Origin');
+    if (origin && config.allowedOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+    }
+
+    const token = typeof req.query.token === 'string'
+      ? req.query.token
+      : req.get('Authorization')?.replace(/^Bearer /, '');
+
+    if (!config.updateTokenSecret || !token || !verifyUpdateStreamToken(subjectId, token, config.updateTokenSecret)) {
+      logger.warn('Web chat update stream refused', {
+        subjectId,
+        operation: 'webchat_update_stream',
+        adapterName: 'web'
+      }, {
+        hasSecret: !!config.updateTokenSecret,
+        hasToken: !!token
+      });
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'A valid update stream token is required.'
+      });
+      return;
+    }
+
+    adapter.openUpdateStream(subjectId, res);
+  };
+}
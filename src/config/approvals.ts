@@ -0,0 +1,70 @@
+/**
+ * Configuration for pending tool approvals
+ */
+export interface ApprovalConfig {
+  /**
+   * How long a tool call may wait for a decision before it is auto-rejected
+   */
+  defaultTtlMs: number;
+
+  /**
+   * Per-tool overrides of defaultTtlMs, keyed by tool name
+   */
+  toolTtlMs: Record<string, number>;
+
+  /**
+   * How often pending approvals are checked for expiry
+   */
+  sweepIntervalMs: number;
+
+  /**
+   * Phone number that receives pending approvals by SMS and may answer them
+   */
+  supervisorPhone?: string;
+
+  /**
+   * Twilio auth token used to check that supervisor replies were sent by Twilio
+   */
+  twilioAuthToken?: string;
+}
+
+/**
+ * Per-tool TTLs used unless overridden through the environment
+ */
+const DEFAULT_TOOL_TTL_MS: Record<string, number> = {
+  escalate_to_human: 15 * 60 * 1000 // Escalations go stale quickly
+};
+
+const TOOL_TTL_ENV_PATTERN = /^APPROVAL_TTL_(.+)_MS$/;
+
+/**
+ * Load approval configuration from environment variables.
+ *
+ * Per-tool TTLs are read from `APPROVAL_TTL_<TOOL_NAME>_MS`,
+ * e.g. `APPROVAL_TTL_PROCESS_REFUND_MS=3600000`.
+ */
+export function loadApprovalConfig(env: NodeJS.ProcessEnv = process.env): ApprovalConfig {
+  const toolTtlMs = { ...DEFAULT_TOOL_TTL_MS };
+
+  for (const [key, value] of Object.entries(env)) {
+    const match = key.match(TOOL_TTL_ENV_PATTERN);
+    if (match && value) {
+      toolTtlMs[match[1].toLowerCase()] = parseInt(value);
+    }
+  }
+
+  return {
+    defaultTtlMs: parseInt(env.APPROVAL_TTL_MS || '1800000'), // 30 minutes default
+    toolTtlMs,
+    sweepIntervalMs: parseInt(env.APPROVAL_SWEEP_INTERVAL_MS || '60000'), // 1 minute default
+    supervisorPhone: env.SUPERVISOR_PHONE_NUMBER || undefined,
+    twilioAuthToken: env.TWILIO_AUTH_TOKEN || undefined
+  };
+}
+
+/**
+ * Resolve the approval TTL for a tool
+ */
+export function getApprovalTtl(config: ApprovalConfig, toolName: string): number {
+  return config.toolTtlMs[toolName] ?? config.defaultTtlMs;
+}
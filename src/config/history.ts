@@ -0,0 +1,39 @@
+/**
+ * Configuration for conversation history compaction
+ */
+export interface HistoryCompactionConfig {
+  enabled: boolean;
+
+  /**
+   * Compact once the history holds more items than this
+   */
+  maxMessages: number;
+
+  /**
+   * Compact once the history's estimated token count exceeds this
+   */
+  maxTokens: number;
+
+  /**
+   * Most recent items kept verbatim after compaction
+   */
+  keepRecentMessages: number;
+
+  /**
+   * Model used by the default summarizer
+   */
+  summaryModel: string;
+}
+
+/**
+ * Load history compaction configuration from environment variables
+ */
+export function loadHistoryCompactionConfig(env: NodeJS.ProcessEnv = process.env): HistoryCompactionConfig {
+  return {
+    enabled: env.HISTORY_COMPACTION_ENABLED !== 'false',
+    maxMessages: parseInt(env.HISTORY_MAX_MESSAGES || '50'),
+    maxTokens: parseInt(env.HISTORY_MAX_TOKENS || '8000'),
+    keepRecentMessages: parseInt(env.HISTORY_KEEP_RECENT_MESSAGES || '10'),
+    summaryModel: env.HISTORY_SUMMARY_MODEL || env.AGENT_MODEL || 'gpt-4o-mini'
+  };
+}
@@ -1,13 +1,32 @@
-import { RunStateStore, CustomerContextStore } from '../services/persistence/types';
+import { RunStateStore, CustomerContextStore, AuditStore, TranscriptStore } from '../services/persistence/types';
 import { FileStateStore } from '../services/persistence/fileStore';
+import { FileAuditStore } from '../services/persistence/fileAuditStore';
+import { FileTranscriptStore } from '../services/persistence/fileTranscriptStore';
 import { RedisStateStore } from '../services/persistence/redisStore';
 import { PostgresStateStore } from '../services/persistence/postgresStore';
+import { SqliteStateStore } from '../services/persistence/sqliteStore';
+import {
+  EncryptedStateStore,
+  EncryptedStoreConfig,
+  EnvelopeCipher,
+  parseEncryptionKeys
+} from '../services/persistence/encryptedStore';
 import { logger } from '../utils/logger';
 
 /**
  * Supported persistence adapter types
  */
-export type PersistenceAdapter = 'file' | 'redis' | 'postgres';
+export type PersistenceAdapter = 'file' | 'redis' | 'postgres' | 'sqlite';
+
+/**
+ * Supported audit log adapter types
+ */
+export type AuditAdapter = 'file';
+
+/**
+ * Supported transcript adapter types
+ */
+export type TranscriptAdapter = 'file';
 
 /**
  * Configuration for different persistence adapters
@@ -17,14 +36,17 @@ export interface PersistenceConfig {
   file?: {
     dataDir?: string;
     maxAge?: number;
+    contextMaxAge?: number;
   };
   redis?: {
+    url?: string;
     host?: string;
     port?: number;
     password?: string;
     db?: number;
     keyPrefix?: string;
     maxAge?: number;
+    contextMaxAge?: number;
   };
   postgres?: {
     connectionString?: string;
@@ -34,41 +56,83 @@ export interface PersistenceConfig {
     username?: string;
     password?: string;
     tableName?: string;
+    contextTableName?: string;
     maxAge?: number;
+    contextMaxAge?: number;
     ssl?: boolean;
   };
+  sqlite?: {
+    filePath?: string;
+    maxAge?: number;
+    contextMaxAge?: number;
+  };
 }
 
 /**
  * Create a persistence store instance that implements both RunStateStore and CustomerContextStore
+ *
+ * When ENCRYPTION_KEYS is set, the store is wrapped in an EncryptedStateStore.
+ *
+ * @param adapter - Adapter to create (default: PERSISTENCE_ADAPTER, then 'file')
  */
-export function createPersistenceStore(): RunStateStore & CustomerContextStore {
-  const adapter = (process.env.PERSISTENCE_ADAPTER as PersistenceAdapter) || 'file';
-  
+export function createPersistenceStore(
+  adapter: PersistenceAdapter = (process.env.PERSISTENCE_ADAPTER as PersistenceAdapter) || 'file'
+): RunStateStore & CustomerContextStore {
   logger.info('Initializing persistence store', {
     operation: 'persistence_config'
   }, { adapter });
 
+  const store = createAdapterStore(adapter);
+  const encryption = loadEncryptionConfig();
+
+  return encryption ? new EncryptedStateStore(store, encryption) : store;
+}
+
+/**
+ * Load encryption at rest settings; undefined when ENCRYPTION_KEYS is not set
+ */
+export function loadEncryptionConfig(env: NodeJS.ProcessEnv = process.env): EncryptedStoreConfig | undefined {
+  if (!env.ENCRYPTION_KEYS) {
+    return undefined;
+  }
+
+  return {
+    keys: parseEncryptionKeys(env.ENCRYPTION_KEYS),
+    activeKeyId: env.ENCRYPTION_ACTIVE_KEY_ID,
+    allowPlaintext: env.ENCRYPTION_ALLOW_PLAINTEXT === 'true'
+  };
+}
+
+/**
+ * Cipher for the append-only logs, so they are encrypted whenever the state store is
+ */
+function createLogCipher(): EnvelopeCipher | undefined {
+  const encryption = loadEncryptionConfig();
+  return encryption ? new EnvelopeCipher(encryption) : undefined;
+}
+
+function createAdapterStore(adapter: PersistenceAdapter): RunStateStore & CustomerContextStore {
   switch (adapter) {
     case 'file':
       return new FileStateStore({
         dataDir: process.env.STATE_PERSISTENCE_DIR || './data/conversation-states',
-        maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000') // 24 hours default
+        maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000'), // 24 hours default
+        contextMaxAge: parseInt(process.env.CONTEXT_MAX_AGE_MS || '604800000') // 7 days default
       });
 
     case 'redis':
-      // TODO: Implement CustomerContextStore in RedisStateStore
       return new RedisStateStore({
+        url: process.env.REDIS_URL,
         host: process.env.REDIS_HOST || 'localhost',
         port: parseInt(process.env.REDIS_PORT || '6379'),
         password: process.env.REDIS_PASSWORD,
         db: parseInt(process.env.REDIS_DB || '0'),
         keyPrefix: process.env.REDIS_KEY_PREFIX || 'runstate:',
-        maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000')
-      }) as unknown as RunStateStore & CustomerContextStore;
+        maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000'),
+        contextMaxAge: parseInt(process.env.CONTEXT_MAX_AGE_MS || '604800000')
+      });
 
     case 'postgres':
-      // TODO: Implement CustomerContextStore in PostgresStateStore  
       return new PostgresStateStore({
         connectionString: process.env.DATABASE_URL,
         host: process.env.POSTGRES_HOST || 'localhost',
@@ -77,9 +141,18 @@ export function createPersistenceStore(): RunStateStore & CustomerContextStore {
         username: process.env.POSTGRES_USERNAME || 'postgres',
         password: process.env.POSTGRES_PASSWORD,
         tableName: process.env.POSTGRES_TABLE_NAME || 'conversation_states',
+        contextTableName: process.env.POSTGRES_CONTEXT_TABLE_NAME || 'customer_contexts',
         maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000'),
+        contextMaxAge: parseInt(process.env.CONTEXT_MAX_AGE_MS || '604800000'),
         ssl: process.env.POSTGRES_SSL === 'true'
-      }) as unknown as RunStateStore & CustomerContextStore;
+      });
+
+    case 'sqlite':
+      return new SqliteStateStore({
+        filePath: process.env.SQLITE_PATH || './data/conversation-states.sqlite',
+        maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000'),
+        contextMaxAge: parseInt(process.env.CONTEXT_MAX_AGE_MS || '604800000')
+      });
 
     default:
       logger.warn('Unknown persistence adapter, falling back to file store', {
@@ -88,11 +161,70 @@ export function createPersistenceStore(): RunStateStore & CustomerContextStore {
       
       return new FileStateStore({
         dataDir: process.env.STATE_PERSISTENCE_DIR || './data/conversation-states',
-        maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000')
+        maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000'),
+        contextMaxAge: parseInt(process.env.CONTEXT_MAX_AGE_MS || '604800000')
       });
   }
 }
 
+/**
+ * Create the append-only audit store used for approval records
+ *
+ * When ENCRYPTION_KEYS is set, every record is encrypted like the state store.
+ */
+export function createAuditStore(): AuditStore {
+  const adapter = (process.env.AUDIT_ADAPTER as AuditAdapter) || 'file';
+  const filePath = process.env.AUDIT_LOG_PATH || './data/audit/approvals.jsonl';
+  const cipher = createLogCipher();
+
+  logger.info('Initializing audit store', {
+    operation: 'audit_config'
+  }, { adapter });
+
+  switch (adapter) {
+    case 'file':
+      return new FileAuditStore({ filePath, cipher });
+
+    default:
+      logger.warn('Unknown audit adapter, falling back to file store', {
+        operation: 'audit_config'
+      }, { adapter, fallback: 'file' });
+
+      return new FileAuditStore({ filePath, cipher });
+  }
+}
+
+/**
+ * Create the append-only transcript store used to record every conversation turn
+ *
+ * Retention (TRANSCRIPT_RETENTION_MS) is independent of STATE_MAX_AGE and context expiry.
+ * When ENCRYPTION_KEYS is set, every record is encrypted like the state store.
+ */
+export function createTranscriptStore(): TranscriptStore {
+  const adapter = (process.env.TRANSCRIPT_ADAPTER as TranscriptAdapter) || 'file';
+  const config = {
+    dataDir: process.env.TRANSCRIPT_DIR || './data/transcripts',
+    retentionMs: parseInt(process.env.TRANSCRIPT_RETENTION_MS || '7776000000'), // 90 days default
+    cipher: createLogCipher()
+  };
+
+  logger.info('Initializing transcript store', {
+    operation: 'transcript_config'
+  }, { adapter });
+
+  switch (adapter) {
+    case 'file':
+      return new FileTranscriptStore(config);
+
+    default:
+      logger.warn('Unknown transcript adapter, falling back to file store', {
+        operation: 'transcript_config'
+      }, { adapter, fallback: 'file' });
+
+      return new FileTranscriptStore(config);
+  }
+}
+
 /**
  * Get the configured persistence config for documentation/validation purposes
  */
@@ -103,15 +235,18 @@ export function getPersistenceConfig(): PersistenceConfig {
     adapter,
     file: {
       dataDir: process.env.STATE_PERSISTENCE_DIR || './data/conversation-states',
-      maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000')
+      maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000'),
+      contextMaxAge: parseInt(process.env.CONTEXT_MAX_AGE_MS || '604800000')
     },
     redis: {
+      url: process.env.REDIS_URL,
       host: process.env.REDIS_HOST || 'localhost',
       port: parseInt(process.env.REDIS_PORT || '6379'),
       password: process.env.REDIS_PASSWORD,
       db: parseInt(process.env.REDIS_DB || '0'),
       keyPrefix: process.env.REDIS_KEY_PREFIX || 'runstate:',
-      maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000')
+      maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000'),
+      contextMaxAge: parseInt(process.env.CONTEXT_MAX_AGE_MS || '604800000')
     },
     postgres: {
       connectionString: process.env.DATABASE_URL,
@@ -121,8 +256,15 @@ export function getPersistenceConfig(): PersistenceConfig {
       username: process.env.POSTGRES_USERNAME || 'postgres',
       password: process.env.POSTGRES_PASSWORD,
       tableName: process.env.POSTGRES_TABLE_NAME || 'conversation_states',
+      contextTableName: process.env.POSTGRES_CONTEXT_TABLE_NAME || 'customer_contexts',
       maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000'),
+      contextMaxAge: parseInt(process.env.CONTEXT_MAX_AGE_MS || '604800000'),
       ssl: process.env.POSTGRES_SSL === 'true'
+    },
+    sqlite: {
+      filePath: process.env.SQLITE_PATH || './data/conversation-states.sqlite',
+      maxAge: parseInt(process.env.STATE_MAX_AGE || '86400000'),
+      contextMaxAge: parseInt(process.env.CONTEXT_MAX_AGE_MS || '604800000')
     }
   };
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+/**
+ * Configuration for conversation turns that run past their timeout
+ */
+export interface TimeoutFallbackConfig {
+  /**
+   * Holding reply sent when a turn times out, keyed by channel; `default` covers other channels
+   */
+  holdingReplies: Record<string, string>;
+
+  /**
+   * Let a timed-out run finish in the background and deliver its reply to the
+   * customer. Off unless enabled, since the run keeps using model and tool calls.
+   */
+  deliverLateResults: boolean;
+
+  /**
+   * How long a timed-out run may keep going before it is aborted
+   */
+  lateResultTimeoutMs: number;
+}
+
+/**
+ * Holding replies used unless overridden through the environment. They promise
+ * a follow-up only when late results are delivered.
+ */
+const LATE_DELIVERY_REPLIES: Record<string, string> = {
+  default: "I'm still checking on that and will get back to you here shortly.",
+  sms: "I'm still checking on that, I'll text you shortly.",
+  voice: "I'm still checking on that. Bear with me, I'll tell you as soon as I have it."
+};
+
+const RETRY_REPLIES: Record<string, string> = {
+  default: "Sorry, that's taking longer than expected. Could you try asking again in a moment?"
+};
+
+const REPLY_ENV_PATTERN = /^TURN_TIMEOUT_REPLY_(.+)$/;
+
+/**
+ * Load timeout fallback configuration from environment variables.
+ *
+ * Per-channel replies are read from `TURN_TIMEOUT_REPLY_<CHANNEL>`,
+ * e.g. `TURN_TIMEOUT_REPLY_SMS="Still on it, I'll text you."`; `TURN_TIMEOUT_REPLY`
+ * sets the reply for every other channel.
+ */
+export function loadTimeoutFallbackConfig(env: NodeJS.ProcessEnv = process.env): TimeoutFallbackConfig {
+  const deliverLateResults = env.TURN_TIMEOUT_LATE_DELIVERY === 'true';
+  const holdingReplies = { ...(deliverLateResults ? LATE_DELIVERY_REPLIES : RETRY_REPLIES) };
+
+  for (const [key, value] of Object.entries(env)) {
+    const match = key.match(REPLY_ENV_PATTERN);
+    if (match && value) {
+      holdingReplies[match[1].toLowerCase()] = value;
+    }
+  }
+  if (env.TURN_TIMEOUT_REPLY) {
+    holdingReplies.default = env.TURN_TIMEOUT_REPLY;
+  }
+
+  return {
+    holdingReplies,
+    deliverLateResults,
+    lateResultTimeoutMs: parseInt(env.TURN_TIMEOUT_LATE_MAX_MS || '120000') // 2 minutes default
+  };
+}
+
+/**
+ * Resolve the holding reply for a channel
+ */
+export function getHoldingReply(config: TimeoutFallbackConfig, channel?: string): string {
+  return (channel && config.holdingReplies[channel]) || config.holdingReplies.default;
+}
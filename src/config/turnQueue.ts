@@ -0,0 +1,93 @@
+import { TurnLockProvider, InMemoryTurnLockProvider, RedisTurnLockProvider, RedisLockClient } from '../services/turnQueue';
+import { logger } from '../utils/logger';
+
+/**
+ * Supported turn lock adapter types
+ */
+export type TurnLockAdapter = 'memory' | 'redis';
+
+/**
+ * Configuration for per-subject turn serialization
+ */
+export interface TurnQueueConfig {
+  /**
+   * Turns that may wait behind the running one for the same subject; further turns are rejected
+   */
+  maxQueueDepth: number;
+
+  /**
+   * How long a turn may wait (behind local turns and for the lock) before it is rejected
+   */
+  queueTimeoutMs: number;
+
+  /**
+   * Merge user messages that arrive while a turn is waiting into that turn
+   */
+  coalesceMessages: boolean;
+}
+
+/**
+ * Load turn queue configuration from environment variables
+ */
+export function loadTurnQueueConfig(env: NodeJS.ProcessEnv = process.env): TurnQueueConfig {
+  return {
+    maxQueueDepth: parseInt(env.TURN_QUEUE_MAX_DEPTH || '5'),
+    queueTimeoutMs: parseInt(env.TURN_QUEUE_TIMEOUT_MS || '60000'), // 1 minute default
+    coalesceMessages: env.TURN_QUEUE_COALESCE === 'true'
+  };
+}
+
+/**
+ * Create the lock provider that serializes turns (TURN_LOCK_ADAPTER)
+ *
+ * Use 'redis' when several server instances handle the same subjects.
+ */
+export function createTurnLockProvider(
+  adapter: TurnLockAdapter = (process.env.TURN_LOCK_ADAPTER as TurnLockAdapter) || 'memory'
+): TurnLockProvider {
+  switch (adapter) {
+    case 'memory':
+      return new InMemoryTurnLockProvider();
+
+    case 'redis':
+      return new RedisTurnLockProvider(createRedisLockClient(), {
+        keyPrefix: process.env.TURN_LOCK_KEY_PREFIX || 'turnlock:',
+        lockTtlMs: parseInt(process.env.TURN_LOCK_TTL_MS || '120000')
+      });
+
+    default:
+      logger.warn('Unknown turn lock adapter, falling back to in-memory locks', {
+        operation: 'turn_queue_config'
+      }, { adapter, fallback: 'memory' });
+
+      return new InMemoryTurnLockProvider();
+  }
+}
+
+/**
+ * Create a client with the `redis` package, which is only needed for Redis turn locks
+ */
+function createRedisLockClient(): RedisLockClient {
+  let redis: { createClient(options: Record<string, unknown>): RedisLockClient & { connect(): Promise<unknown> } };
+  try {
+    redis = require('redis');
+  } catch {
+    throw new Error('TURN_LOCK_ADAPTER=redis requires the redis package. Install it with: npm install redis');
+  }
+
+  const client = redis.createClient(process.env.REDIS_URL ? {
+    url: process.env.REDIS_URL
+  } : {
+    socket: { host: process.env.REDIS_HOST || 'localhost', port: parseInt(process.env.REDIS_PORT || '6379') },
+    password: process.env.REDIS_PASSWORD
+  });
+
+  // Commands are queued until the connection is established
+  client.connect().catch((error: Error) => {
+    logger.error('Failed to connect turn lock Redis client', error, {
+      operation: 'turn_queue_config'
+    });
+  });
+
+  return client;
+}
@@ -0,0 +1,33 @@
+/**
+ * Configuration for the web chat update stream
+ */
+export interface WebChatConfig {
+  /**
+   * Secret used to sign update stream tokens; streams are refused without one
+   */
+  updateTokenSecret?: string;
+
+  /**
+   * How long an update stream token stays valid
+   */
+  updateTokenTtlMs: number;
+
+  /**
+   * Browser origins allowed to open the update stream
+   */
+  allowedOrigins: string[];
+}
+
+/**
+ * Load web chat configuration from environment variables
+ */
+export function loadWebChatConfig(env: NodeJS.ProcessEnv = process.env): WebChatConfig {
+  return {
+    updateTokenSecret: env.WEB_CHAT_TOKEN_SECRET || undefined,
+    updateTokenTtlMs: parseInt(env.WEB_CHAT_TOKEN_TTL_MS || '3600000'),
+    allowedOrigins: (env.WEB_CHAT_ALLOWED_ORIGINS || '')
+      .split(',')
+      .map(origin => origin.trim())
+      .filter(Boolean)
+  };
+}
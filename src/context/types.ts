@@ -4,6 +4,12 @@ export interface CustomerContext {
   customerName?: string;
   customerEmail?: string;
   customerPhone?: string;
+
+  /**
+   * Phone number the channel itself reported (SMS sender, caller ID); unlike
+   * customerPhone it is never taken from message text
+   */
+  verifiedPhone?: string;
   currentOrder?: string;
   conversationHistory: any[];
   escalationLevel: number;
@@ -11,7 +17,62 @@ export interface CustomerContext {
   sessionStartTime: Date;
   lastActiveAt: Date;
   resolvedIssues: string[];
+  queuedMessages?: string[];
   metadata: Record<string, any>;
+
+  /**
+   * Summary of older turns that were compacted out of conversationHistory
+   */
+  conversationSummary?: ConversationSummary;
+
+  /**
+   * Version of the stored context this copy was loaded from or last saved as;
+   * maintained by the persistence store for compare-and-set writes
+   */
+  version?: number;
+}
+
+/**
+ * Model-generated summary standing in for compacted conversation turns
+ */
+export interface ConversationSummary {
+  text: string;
+
+  /**
+   * Facts kept verbatim across compactions (order numbers, emails, resolved issues)
+   */
+  keyFacts: string[];
+
+  /**
+   * History items folded into the summary so far
+   */
+  summarizedItemCount: number;
+
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Who may decide a pending tool call: the customer themselves (e.g. by
+ * confirming on a voice call) or only a supervisor/reviewer
+ */
+export type ToolApprover = 'customer' | 'supervisor';
+
+/**
+ * Context object passed to each agent run; serialized with the RunState
+ */
+export interface AgentRunContext {
+  subjectId: string;
+
+  /**
+   * Approver required for each tool call awaiting approval, keyed by call ID
+   */
+  approvers?: Record<string, ToolApprover>;
+
+  /**
+   * Aborted when the turn is cancelled or times out; tools can pass it on to
+   * their own requests. Not serialized with the RunState.
+   */
+  readonly signal?: AbortSignal;
 }
 
 export interface CustomerData {
@@ -62,6 +62,65 @@ class EventLogger {
       });
     });
 
+    // Log approval_requested events
+    eventBus.on('approval_requested', (payload) => {
+      logger.info('Tool approval requested', {
+        subjectId: payload.subjectId,
+        toolName: payload.toolName,
+        agentName: payload.agentName,
+        operation: 'approval_requested',
+        eventType: 'lifecycle'
+      }, {
+        toolCallId: payload.toolCallId,
+        channel: payload.channel,
+        eventPayload: payload
+      });
+    });
+
+    // Log approval_expired events
+    eventBus.on('approval_expired', (payload) => {
+      logger.warn('Tool approval expired', {
+        subjectId: payload.subjectId,
+        toolName: payload.toolName,
+        agentName: payload.agentName,
+        operation: 'approval_expired',
+        eventType: 'lifecycle'
+      }, {
+        toolCallId: payload.toolCallId,
+        channel: payload.channel,
+        ttlMs: payload.ttlMs,
+        eventPayload: payload
+      });
+    });
+
+    // Log handoff events
+    eventBus.on('handoff', (payload) => {
+      logger.info('Agent handoff', {
+        subjectId: payload.subjectId,
+        operation: 'agent_handoff',
+        eventType: 'lifecycle'
+      }, {
+        fromAgent: payload.fromAgent,
+        toAgent: payload.toAgent,
+        channel: payload.channel,
+        eventPayload: payload
+      });
+    });
+
+    // Log turn_cancelled events
+    eventBus.on('turn_cancelled', (payload) => {
+      logger.info('Conversation turn cancelled', {
+        subjectId: payload.subjectId,
+        agentName: payload.agentName,
+        operation: 'turn_cancelled',
+        eventType: 'lifecycle'
+      }, {
+        reason: payload.reason,
+        channel: payload.channel,
+        eventPayload: payload
+      });
+    });
+
     logger.info('Event logging initialized', {
       operation: 'event_logger_init'
     });
@@ -78,7 +137,11 @@ class EventLogger {
       listenersCount: {
         conversation_start: eventBus.listenerCount('conversation_start'),
         conversation_end: eventBus.listenerCount('conversation_end'),
-        escalation: eventBus.listenerCount('escalation')
+        escalation: eventBus.listenerCount('escalation'),
+        approval_requested: eventBus.listenerCount('approval_requested'),
+        approval_expired: eventBus.listenerCount('approval_expired'),
+        handoff: eventBus.listenerCount('handoff'),
+        turn_cancelled: eventBus.listenerCount('turn_cancelled')
       },
       isActive: true
     };
@@ -91,6 +154,10 @@ class EventLogger {
     eventBus.removeAllListeners('conversation_start');
     eventBus.removeAllListeners('conversation_end');
     eventBus.removeAllListeners('escalation');
+    eventBus.removeAllListeners('approval_requested');
+    eventBus.removeAllListeners('approval_expired');
+    eventBus.removeAllListeners('handoff');
+    eventBus.removeAllListeners('turn_cancelled');
     
     logger.info('Event logging stopped', {
       operation: 'event_logger_stop'
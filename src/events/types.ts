@@ -19,6 +19,37 @@ export interface EscalationEvent {
   level: number;
 }
 
+export interface ApprovalRequestedEvent {
+  subjectId: string;
+  toolCallId: string;
+  toolName: string;
+  agentName?: string;
+  channel?: string;
+}
+
+export interface ApprovalExpiredEvent {
+  subjectId: string;
+  toolCallId: string;
+  toolName: string;
+  agentName?: string;
+  channel?: string;
+  ttlMs: number;
+}
+
+export interface HandoffEvent {
+  subjectId: string;
+  fromAgent: string;
+  toAgent: string;
+  channel?: string;
+}
+
+export interface TurnCancelledEvent {
+  subjectId: string;
+  reason: string;
+  agentName?: string;
+  channel?: string;
+}
+
 /**
  * Complete event interface mapping event names to their payload types
  */
@@ -26,6 +57,10 @@ export interface Events {
   conversation_start: ConversationStartEvent;
   conversation_end: ConversationEndEvent;
   escalation: EscalationEvent;
+  approval_requested: ApprovalRequestedEvent;
+  approval_expired: ApprovalExpiredEvent;
+  handoff: HandoffEvent;
+  turn_cancelled: TurnCancelledEvent;
 }
 
 /**
@@ -0,0 +1,99 @@
+import { logger } from '../utils/logger';
+import { SubjectId } from './subject-resolver';
+
+/**
+ * Result of asking an identity provider to delete a subject
+ */
+export interface SegmentDeletionResult {
+  status: 'requested' | 'skipped';
+  requestId?: string; // Provider reference for following up on the request
+  reason?: string;    // Why the request was skipped
+}
+
+/**
+ * Asks Segment to delete (and suppress) everything it holds about a subject.
+ * Kept behind an interface so erasure can be tested and other CDPs swapped in.
+ */
+export interface SegmentDeletionClient {
+  requestDeletion(subjectId: SubjectId): Promise<SegmentDeletionResult>;
+}
+
+export interface SegmentRegulationConfig {
+  apiToken: string;
+  region?: 'us' | 'eu';
+  regulationType?: string;
+}
+
+/**
+ * Creates a workspace regulation through the Segment Public API
+ *
+ * Only subjects resolved by SegmentSubjectResolver can be mapped to a Segment
+ * user or anonymous ID; other subjects are skipped.
+ */
+export class SegmentRegulationClient implements SegmentDeletionClient {
+  constructor(private config: SegmentRegulationConfig) {}
+
+  async requestDeletion(subjectId: SubjectId): Promise<SegmentDeletionResult> {
+    const subject = this.toSegmentSubject(subjectId);
+    if (!subject) {
+      return { status: 'skipped', reason: 'Subject was not resolved by Segment' };
+    }
+
+    const baseUrl = this.config.region === 'eu' ? 'https://eu1.api.segmentapis.com' : 'https://api.segmentapis.com';
+    const response = await fetch(`${baseUrl}/regulations`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.apiToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        regulationType: this.config.regulationType || 'SUPPRESS_WITH_DELETE',
+        subjectType: subject.type,
+        subjectIds: [subject.id]
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new Error(`Segment regulation request failed: ${response.status} ${errorText}`);
+    }
+
+    const body: any = await response.json().catch(() => ({}));
+    const requestId = body?.data?.regulateId;
+
+    logger.info('Segment deletion requested', {
+      operation: 'segment_regulation'
+    }, {
+      subjectType: subject.type,
+      regulationType: this.config.regulationType || 'SUPPRESS_WITH_DELETE',
+      requestId
+    });
+
+    return { status: 'requested', requestId };
+  }
+
+  private toSegmentSubject(subjectId: SubjectId): { type: 'USER_ID' | 'ANONYMOUS_ID'; id: string } | null {
+    if (subjectId.startsWith('segment_user_')) {
+      return { type: 'USER_ID', id: subjectId.slice('segment_user_'.length) };
+    }
+    if (subjectId.startsWith('segment_')) {
+      return { type: 'ANONYMOUS_ID', id: subjectId.slice('segment_'.length) };
+    }
+    return null;
+  }
+}
+
+/**
+ * Build the Segment deletion client from the environment, if a Public API token is configured
+ */
+export function createSegmentDeletionClient(env: NodeJS.ProcessEnv = process.env): SegmentDeletionClient | undefined {
+  if (!env.SEGMENT_PUBLIC_API_TOKEN) {
+    return undefined;
+  }
+
+  return new SegmentRegulationClient({
+    apiToken: env.SEGMENT_PUBLIC_API_TOKEN,
+    region: env.SEGMENT_REGION === 'eu' ? 'eu' : 'us',
+    regulationType: env.SEGMENT_REGULATION_TYPE
+  });
+}
@@ -1,6 +1,7 @@
 import { Analytics } from '@segment/analytics-node';
 import { SubjectResolver, SubjectId } from './subject-resolver';
 import { logger } from '../utils/logger';
+import { SubjectDataSource } from '../types/common';
 import { createHash } from 'crypto';
 
 interface SegmentProfile {
@@ -18,7 +19,8 @@ interface SegmentConfig {
   region?: 'us' | 'eu';
 }
 
-export class SegmentSubjectResolver implements SubjectResolver {
+export class SegmentSubjectResolver implements SubjectResolver, SubjectDataSource {
+  readonly name = 'segment_profile_cache';
   private analytics: Analytics;
   private config: SegmentConfig;
   private profileCache = new Map<string, { profile: SegmentProfile | null, timestamp: number }>();
@@ -735,6 +737,30 @@ export class SegmentSubjectResolver implements SubjectResolver {
     return sanitized;
   }
   
+  /**
+   * Cached Segment profiles that resolve to the subject
+   */
+  async exportSubject(subjectId: SubjectId): Promise<unknown> {
+    const profiles = this.cachedProfileKeysFor(subjectId).map(key => this.profileCache.get(key)?.profile);
+    return profiles.length > 0 ? { profiles } : null;
+  }
+
+  /**
+   * Drop cached Segment profiles that resolve to the subject. The profiles
+   * themselves live in Segment; see SegmentRegulationClient.
+   */
+  async eraseSubject(subjectId: SubjectId): Promise<number> {
+    const keys = this.cachedProfileKeysFor(subjectId);
+    keys.forEach(key => this.profileCache.delete(key));
+    return keys.length;
+  }
+
+  private cachedProfileKeysFor(subjectId: SubjectId): string[] {
+    return Array.from(this.profileCache.entries())
+      .filter(([, cached]) => cached.profile && this.extractProfileId(cached.profile) === subjectId)
+      .map(([key]) => key);
+  }
+  
   async close(): Promise<void> {
     await this.analytics.closeAndFlush();
     logger.info('Segment analytics client closed');
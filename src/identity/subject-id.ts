@@ -0,0 +1,16 @@
+import { SubjectId } from '../types/common';
+
+/**
+ * Characters that can appear in subject IDs from the built-in resolvers
+ * (`phone_15551234567`, `segment_user_abc-123`, ...). IDs are used in file
+ * names and storage keys, so anything else is refused.
+ */
+const SUBJECT_ID_PATTERN = /^[A-Za-z0-9_.:@+-]{1,200}$/;
+
+/**
+ * Whether a subject ID taken from outside the application, such as a URL
+ * parameter, is well formed and cannot escape a storage directory
+ */
+export function isValidSubjectId(subjectId: SubjectId): boolean {
+  return SUBJECT_ID_PATTERN.test(subjectId) && !subjectId.includes('..');
+}
@@ -2,6 +2,7 @@ import { promises as fs } from 'fs';
 import { join } from 'path';
 import { logger } from '../utils/logger';
 import { SegmentSubjectResolver } from './segment-resolver';
+import { SubjectDataSource } from '../types/common';
 
 export type SubjectId = string;
 
@@ -15,7 +16,8 @@ export interface SubjectResolver {
 /**
  * Default phone-based subject resolver that persists mappings to ensure stability.
  */
-export class DefaultPhoneSubjectResolver implements SubjectResolver {
+export class DefaultPhoneSubjectResolver implements SubjectResolver, SubjectDataSource {
+  readonly name = 'subject_map';
   private readonly dataDir = './data';
   private readonly mapFile = join(this.dataDir, 'subject-map.json');
   private phoneToSubjectMap: Map<string, SubjectId> = new Map();
@@ -49,6 +51,37 @@ export class DefaultPhoneSubjectResolver implements SubjectResolver {
     return subjectId;
   }
 
+  /**
+   * Phone numbers mapped to the subject
+   */
+  async exportSubject(subjectId: SubjectId): Promise<unknown> {
+    await this.ensureInitialized();
+
+    const phoneNumbers = this.phonesFor(subjectId);
+    return phoneNumbers.length > 0 ? { phoneNumbers } : null;
+  }
+
+  /**
+   * Remove the subject's phone mappings; the phone gets a fresh mapping if it
+   * contacts us again
+   */
+  async eraseSubject(subjectId: SubjectId): Promise<number> {
+    await this.ensureInitialized();
+
+    const phoneNumbers = this.phonesFor(subjectId);
+    if (phoneNumbers.length > 0) {
+      phoneNumbers.forEach(phone => this.phoneToSubjectMap.delete(phone));
+      await this.persistMap();
+    }
+    return phoneNumbers.length;
+  }
+
+  private phonesFor(subjectId: SubjectId): string[] {
+    return Array.from(this.phoneToSubjectMap.entries())
+      .filter(([, mapped]) => mapped === subjectId)
+      .map(([phone]) => phone);
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (this.initialized) return;
 
@@ -0,0 +1,78 @@
+import { PolicyCondition, matchesCondition } from './approval-policy';
+
+/**
+ * A named rule; conversations matching its condition start with `agent`.
+ *
+ * Paths in the condition are rooted at `channel`, `to` (the Twilio number
+ * that was contacted), `from`, `profile` (the resolved customer profile) or
+ * `time` (`hour`, `minute` and `weekday` in the routing time zone).
+ */
+export interface RoutingRule {
+  readonly name: string;
+  readonly description?: string;
+  readonly agent: string;
+  readonly when: PolicyCondition;
+}
+
+/**
+ * Agent routing rules, evaluated in order; the first match wins and
+ * `defaultAgent` is used when none match.
+ */
+export interface AgentRouting {
+  readonly timezone?: string; // IANA time zone for time-of-day rules (default UTC)
+  readonly rules: readonly RoutingRule[];
+}
+
+export interface RouteRequest {
+  channel?: string;
+  to?: string;
+  from?: string;
+  profile?: Record<string, any>;
+}
+
+export interface RoutingScope extends RouteRequest {
+  time: {
+    hour: number;
+    minute: number;
+    weekday: string; // 'mon' ... 'sun'
+  };
+}
+
+export interface RouteDecision {
+  agentName: string;
+  matchedRule?: string; // Unset when the default agent was used
+}
+
+/**
+ * Pick the agent for a conversation from the routing rules
+ */
+export function selectAgent(
+  routing: AgentRouting | undefined,
+  defaultAgent: string,
+  request: RouteRequest,
+  now: Date = new Date()
+): RouteDecision {
+  const scope: RoutingScope = { ...request, time: timeOfDay(now, routing?.timezone) };
+  const rule = routing?.rules.find(candidate => matchesCondition(candidate.when, scope));
+
+  return rule
+    ? { agentName: rule.agent, matchedRule: rule.name }
+    : { agentName: defaultAgent };
+}
+
+function timeOfDay(now: Date, timeZone = 'UTC'): RoutingScope['time'] {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    hour: Number(part('hour')),
+    minute: Number(part('minute')),
+    weekday: part('weekday').toLowerCase()
+  };
+}
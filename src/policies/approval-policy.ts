@@ -0,0 +1,200 @@
+import { Agent, RunContext } from '@openai/agents';
+import { CustomerContext, AgentRunContext, ToolApprover } from '../context/types';
+import { logger } from '../utils/logger';
+
+/**
+ * Comparison operators available to policy conditions
+ */
+export type ConditionOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'exists';
+
+/**
+ * A single comparison against the evaluation scope.
+ *
+ * `path` is a dotted path rooted at `args` (the tool call arguments) or
+ * `context` (the subject's CustomerContext). The right-hand side is either a
+ * literal `value` or another path given as `valuePath`.
+ */
+export interface ComparisonCondition {
+  readonly path: string;
+  readonly op: ConditionOperator;
+  readonly value?: unknown;
+  readonly valuePath?: string;
+}
+
+export type PolicyCondition =
+  | ComparisonCondition
+  | { readonly all: readonly PolicyCondition[] }
+  | { readonly any: readonly PolicyCondition[] };
+
+/**
+ * A named rule; the tool call needs approval when its condition matches.
+ *
+ * `approver` says who may give that approval (default `supervisor`). A call
+ * is left to the customer only when every matching rule allows it.
+ */
+export interface ApprovalRule {
+  readonly name: string;
+  readonly description?: string;
+  readonly approver?: ToolApprover;
+  readonly when: PolicyCondition;
+}
+
+/**
+ * Approval rules for one agent, keyed by tool name.
+ *
+ * A listed tool needs approval when any of its rules match. Tools that are not
+ * listed keep the `needsApproval` setting they were defined with.
+ */
+export type ApprovalPolicy = Readonly<Record<string, readonly ApprovalRule[]>>;
+
+export interface PolicyScope {
+  args: Record<string, any>;
+  context: CustomerContext | null;
+}
+
+export interface PolicyDecision {
+  requiresApproval: boolean;
+  matchedRules: string[];
+  approver?: ToolApprover;
+}
+
+export type CustomerContextLoader = (subjectId: string) => Promise<CustomerContext | null>;
+
+/**
+ * Evaluate a tool's rules against its arguments and the customer context
+ */
+export function evaluateApprovalRules(rules: readonly ApprovalRule[], scope: PolicyScope): PolicyDecision {
+  const matched = rules.filter(rule => matchesCondition(rule.when, scope));
+
+  if (matched.length === 0) {
+    return { requiresApproval: false, matchedRules: [] };
+  }
+
+  return {
+    requiresApproval: true,
+    matchedRules: matched.map(rule => rule.name),
+    approver: matched.every(rule => rule.approver === 'customer') ? 'customer' : 'supervisor'
+  };
+}
+
+/**
+ * Evaluate a condition against a scope object; paths are resolved from the scope root
+ */
+export function matchesCondition(condition: PolicyCondition, scope: object): boolean {
+  if ('all' in condition) {
+    return condition.all.every(inner => matchesCondition(inner, scope));
+  }
+  if ('any' in condition) {
+    return condition.any.some(inner => matchesCondition(inner, scope));
+  }
+
+  const actual = resolvePath(scope, condition.path);
+  const expected = condition.valuePath !== undefined
+    ? resolvePath(scope, condition.valuePath)
+    : condition.value;
+
+  switch (condition.op) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'gte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected ?? true);
+    default:
+      throw new Error(`Unknown policy operator '${(condition as ComparisonCondition).op}'`);
+  }
+}
+
+function resolvePath(scope: object, path: string): unknown {
+  return path.split('.').reduce<any>(
+    (value, key) => (value === undefined || value === null ? undefined : value[key]),
+    scope
+  );
+}
+
+/**
+ * Default loader: read the subject's context from the conversation service.
+ * Imported lazily because the service depends on the agent registry.
+ */
+const loadCustomerContext: CustomerContextLoader = async (subjectId) => {
+  const { conversationService } = await import('../services/conversationService');
+  return conversationService.getContext(subjectId);
+};
+
+/**
+ * Return a copy of the agent whose tools ask for approval according to the policy
+ *
+ * @param agent - Agent loaded from agents.config.ts
+ * @param agentName - Registry name of the agent, used for audit logging
+ * @param policy - Approval rules for the agent's tools
+ * @param loadContext - Loads the CustomerContext for the run's subject
+ */
+export function applyApprovalPolicy(
+  agent: Agent,
+  agentName: string,
+  policy: ApprovalPolicy | undefined,
+  loadContext: CustomerContextLoader = loadCustomerContext
+): Agent {
+  if (!policy || Object.keys(policy).length === 0) {
+    return agent;
+  }
+
+  const tools = agent.tools.map((tool: any) => {
+    const rules = policy[tool.name];
+    if (tool.type !== 'function' || !rules) {
+      return tool;
+    }
+
+    return {
+      ...tool,
+      needsApproval: async (runContext: RunContext<AgentRunContext>, args: Record<string, any>, callId?: string) => {
+        const subjectId = runContext.context?.subjectId;
+
+        // A recorded decision must be honoured when the run resumes, even if the
+        // policy would now decide differently
+        if (callId && runContext.isToolApproved({ toolName: tool.name, callId }) !== undefined) {
+          return true;
+        }
+
+        const context = subjectId ? await loadContext(subjectId) : null;
+        const decision = evaluateApprovalRules(rules, { args, context });
+
+        logger.info('Approval policy evaluated', {
+          subjectId,
+          agentName,
+          toolName: tool.name,
+          operation: 'approval_policy_decision',
+          eventType: 'audit'
+        }, {
+          callId,
+          requiresApproval: decision.requiresApproval,
+          matchedRules: decision.matchedRules,
+          approver: decision.approver,
+          evaluatedRules: rules.map(rule => rule.name)
+        });
+
+        // Remember who may decide this call; the run context is saved with the RunState
+        if (decision.approver && callId && runContext.context) {
+          runContext.context.approvers = {
+            ...runContext.context.approvers,
+            [callId]: decision.approver
+          };
+        }
+
+        return decision.requiresApproval;
+      }
+    };
+  });
+
+  return agent.clone({ tools });
+}
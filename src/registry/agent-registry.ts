@@ -1,11 +1,57 @@
-import { Agent } from '@openai/agents';
+import { Agent, RunContext } from '@openai/agents';
 import { resolve } from 'path';
 import { logger } from '../utils/logger';
+import { applyApprovalPolicy, ApprovalPolicy } from '../policies/approval-policy';
+import { AgentRouting, RouteDecision, RouteRequest, selectAgent } from '../policies/agent-routing';
+import { AgentRunContext } from '../context/types';
+
+interface AgentsConfig {
+  defaultAgent: string;
+  agents: Record<string, string>;
+  approvalPolicies?: Record<string, ApprovalPolicy>;
+  handoffs?: Record<string, readonly string[]>;
+  routing?: AgentRouting;
+}
+
+/**
+ * Return a copy of the agent whose function tools refuse to start once the
+ * turn has been cancelled or timed out, and stop waiting on a tool that is
+ * still running when that happens. Tools get the same signal as
+ * `runContext.context.signal` to cancel their own requests.
+ */
+function withCancellableTools(agent: Agent): Agent {
+  const tools = agent.tools.map((tool: any) => {
+    if (tool.type !== 'function') {
+      return tool;
+    }
+
+    return {
+      ...tool,
+      invoke: async (runContext: RunContext<AgentRunContext>, input: string) => {
+        const signal = runContext.context?.signal;
+        if (!signal) {
+          return tool.invoke(runContext, input);
+        }
+
+        signal.throwIfAborted();
+        return new Promise((resolve, reject) => {
+          const onAbort = () => reject(signal.reason);
+          signal.addEventListener('abort', onAbort, { once: true });
+          Promise.resolve(tool.invoke(runContext, input))
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener('abort', onAbort));
+        });
+      }
+    };
+  });
+
+  return agent.clone({ tools });
+}
 
 export class AgentRegistry {
   private static instance: AgentRegistry | null = null;
   private agentCache: Map<string, Agent> = new Map();
-  private config: { defaultAgent: string; agents: Record<string, string> } | null = null;
+  private config: AgentsConfig | null = null;
   private initialized = false;
 
   private constructor() {}
@@ -33,11 +79,28 @@ export class AgentRegistry {
         throw new Error(`Default agent '${this.config!.defaultAgent}' not found in agents configuration`);
       }
 
+      // Validate that every handoff source and target exists in the config
+      for (const [source, targets] of Object.entries(this.config!.handoffs || {})) {
+        for (const name of [source, ...targets]) {
+          if (!this.config!.agents[name]) {
+            throw new Error(`Handoff agent '${name}' not found in agents configuration`);
+          }
+        }
+      }
+
+      // Validate that every routing rule targets a configured agent
+      for (const rule of this.config!.routing?.rules || []) {
+        if (!this.config!.agents[rule.agent]) {
+          throw new Error(`Routing rule '${rule.name}' targets unknown agent '${rule.agent}'`);
+        }
+      }
+
       logger.info('Agent registry initialized', {
         operation: 'agent_registry_init'
       }, {
         agentCount: Object.keys(this.config!.agents).length,
-        defaultAgent: this.config!.defaultAgent
+        defaultAgent: this.config!.defaultAgent,
+        routingRules: this.config!.routing?.rules.length || 0
       });
 
       this.initialized = true;
@@ -99,18 +162,32 @@ export class AgentRegistry {
         throw new Error(`No Agent instance found in module ${this.config!.agents[name]}`);
       }
 
-      // Cache the agent
+      // Apply the agent's tool approval policy from agents.config.ts
+      const approvalPolicy = this.config!.approvalPolicies?.[name];
+      agent = applyApprovalPolicy(agent, name, approvalPolicy);
+      agent = withCancellableTools(agent);
+
+      // Cache the agent before resolving its handoffs, so agents that hand off
+      // to each other share the same instances
       this.agentCache.set(name, agent);
+
+      const handoffTargets = this.config!.handoffs?.[name] || [];
+      for (const target of handoffTargets) {
+        agent.handoffs = [...agent.handoffs, await this.get(target)];
+      }
       
       logger.info('Agent loaded successfully', {
         operation: 'agent_load',
         agentName: name
       }, {
-        entryPath: this.config!.agents[name]
+        entryPath: this.config!.agents[name],
+        approvalPolicyTools: approvalPolicy ? Object.keys(approvalPolicy) : [],
+        handoffTargets
       });
 
       return agent;
     } catch (error) {
+      this.agentCache.delete(name);
       logger.error(`Failed to load agent '${name}'`, error as Error, {
         operation: 'agent_load',
         agentName: name
@@ -119,6 +196,18 @@ export class AgentRegistry {
     }
   }
 
+  /**
+   * Find the registry name of an agent instance that was loaded through this registry
+   */
+  getNameForAgent(agent: Agent): string | undefined {
+    for (const [name, cachedAgent] of this.agentCache.entries()) {
+      if (cachedAgent === agent) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
   list(): string[] {
     if (!this.config) {
       return [];
@@ -138,6 +227,15 @@ export class AgentRegistry {
     return this.get(this.config!.defaultAgent);
   }
 
+  /**
+   * Pick the agent a new conversation starts with from the routing rules in
+   * agents.config.ts, falling back to the default agent
+   */
+  async route(request: RouteRequest, now?: Date): Promise<RouteDecision> {
+    await this.ensureInitialized();
+    return selectAgent(this.config!.routing, this.config!.defaultAgent, request, now);
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (!this.initialized) {
       await this.init();
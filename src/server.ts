@@ -24,10 +24,19 @@ import expressWs from 'express-ws';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { logger } from './utils/logger';
+import { requireAdminToken } from './utils/adminAuth';
 import { conversationService } from './services/conversationService';
+import { ApprovalExpiryService } from './services/approvalExpiry';
+import { CustomerNotifier, DeliveryResult } from './services/customerNotifier';
+import { SupervisorApprovalService } from './services/supervisorApprovals';
+import { DataSubjectService, LogFileDataSource } from './services/dataSubjectService';
 import { SmsAdapter } from './channels/sms/adapter';
+import { WebChatAdapter, createUpdateStreamHandler } from './channels/web/adapter';
 import { DefaultPhoneSubjectResolver, SubjectResolver } from './identity/subject-resolver';
 import { SegmentSubjectResolver } from './identity/segment-resolver';
+import { createSegmentDeletionClient } from './identity/segment-deletion';
+import { isValidSubjectId } from './identity/subject-id';
+import { SubjectDataSource } from './types/common';
 import { agentRegistry } from './registry/agent-registry';
 
 // Load environment variables
@@ -43,7 +52,7 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 // Subject resolver for customer identification
-function createSubjectResolver(): SubjectResolver {
+function createSubjectResolver(): SubjectResolver & SubjectDataSource {
   const resolverType = process.env.SUBJECT_RESOLVER?.toLowerCase();
   
   if (resolverType === 'segment') {
@@ -93,6 +102,29 @@ import { WebSocket } from 'ws';
 
 const voiceAdapter = new VoiceAdapter(subjectResolver);
 
+const webChatAdapter = new WebChatAdapter(subjectResolver);
+
+// Delivers agent replies produced outside a customer turn (e.g. after approvals)
+const customerNotifier = new CustomerNotifier();
+conversationService.setLateResultNotifier(customerNotifier);
+
+// Auto-rejects pending approvals once their TTL lapses
+const approvalExpiryService = new ApprovalExpiryService(conversationService, customerNotifier);
+
+// Lets the supervisor number approve or reject pending tool calls by SMS
+const supervisorApprovals = new SupervisorApprovalService(customerNotifier, conversationService);
+
+// Privacy requests: export or erase everything held about a subject. The phone
+// subject map is always included since it may predate a switch to Segment, and
+// logs go last to catch lines written while the other sources are erased.
+const dataSubjectService = new DataSubjectService([
+  conversationService,
+  ...(subjectResolver instanceof DefaultPhoneSubjectResolver ? [] : [new DefaultPhoneSubjectResolver()]),
+  subjectResolver,
+  new LogFileDataSource()
+], {
+  segmentDeletion: createSegmentDeletionClient()
+});
 
 /**
  * SMS Webhook Endpoint
@@ -111,11 +143,33 @@ app.post('/sms', async (req, res) => {
       messageSid: req.body.MessageSid
     });
 
-    // Get the default agent from the registry
-    const agent = await agentRegistry.getDefault();
-    
-    // Process the SMS through our adapter
-    await smsAdapter.processSmsWebhook(req, res, agent);
+    // Supervisor replies are approval decisions, not customer conversations
+    if (supervisorApprovals.isSupervisor(req.body.From)) {
+      const protocol = req.get('x-forwarded-proto') || (req.secure ? 'https' : 'http');
+      const url = `${protocol}://${req.get('host')}${req.originalUrl}`;
+
+      if (!supervisorApprovals.isSignedByTwilio(req.get('X-Twilio-Signature'), url, req.body)) {
+        logger.warn('Rejected supervisor reply without a valid Twilio signature', {
+          operation: 'sms_webhook',
+          adapterName: 'sms'
+        }, {
+          from: req.body.From,
+          messageSid: req.body.MessageSid
+        });
+        res.status(403).send('Invalid Twilio signature');
+        return;
+      }
+
+      const reply = await supervisorApprovals.handleReply(req.body.Body || '');
+      await customerNotifier.sendSmsTo(req.body.From, reply);
+
+      res.set('Content-Type', 'application/xml');
+      res.send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+      return;
+    }
+
+    // Process the SMS through our adapter; the agent is picked by the routing rules
+    await smsAdapter.processSmsWebhook(req, res);
     
     const duration = Date.now() - startTime;
     logger.info('SMS processed successfully', {
@@ -148,8 +202,7 @@ app.post('/sms', async (req, res) => {
  */
 app.get('/voice', async (req, res) => {
   try {
-    const agent = await agentRegistry.getDefault();
-    await voiceAdapter.processVoiceWebhook(req, res, agent);
+    await voiceAdapter.processVoiceWebhook(req, res);
   } catch (error) {
     logger.error('Voice GET webhook processing failed', error as Error, {
       operation: 'voice_webhook_error',
@@ -165,8 +218,7 @@ app.get('/voice', async (req, res) => {
 
 app.post('/voice', async (req, res) => {
   try {
-    const agent = await agentRegistry.getDefault();
-    await voiceAdapter.processVoiceWebhook(req, res, agent);
+    await voiceAdapter.processVoiceWebhook(req, res);
   } catch (error) {
     logger.error('Voice POST webhook processing failed', error as Error, {
       operation: 'voice_webhook_error',
@@ -186,8 +238,8 @@ app.post('/voice', async (req, res) => {
  */
 (app as any).ws('/conversation-relay', async (ws: WebSocket, req: express.Request) => {
   try {
-    const agent = await agentRegistry.getDefault();
-    await voiceAdapter.processConversationRelay(ws, req, agent);
+    // The agent is picked by the routing rules once the caller is resolved
+    await voiceAdapter.processConversationRelay(ws, req);
   } catch (error) {
     logger.error('Voice WebSocket connection processing failed', error as Error, {
       operation: 'voice_websocket_connection_error',
@@ -211,7 +263,8 @@ app.post('/voice', async (req, res) => {
  * {
  *   "subjectId": "customer-phone-number", 
  *   "decisions": [
- *     { "toolCallId": "call_123", "approved": true }
+ *     { "toolCallId": "call_123", "approved": true },
+ *     { "toolCallId": "call_456", "approved": false, "reason": "Refund exceeds policy" }
  *   ]
  * }
  */
@@ -223,7 +276,7 @@ app.post('/approvals', async (req, res) => {
       body: req.body
     });
 
-    const { subjectId, decisions } = req.body;
+    const { subjectId, decisions, reviewer } = req.body;
     
     if (!subjectId || !Array.isArray(decisions)) {
       return res.status(400).json({
@@ -235,16 +288,32 @@ app.post('/approvals', async (req, res) => {
     // Convert decisions format for threading service
     const approvals = decisions.map((decision: any) => ({
       toolCall: { id: decision.toolCallId },
-      approved: decision.approved
+      approved: decision.approved,
+      reason: decision.reason,
+      reviewer: decision.reviewer || reviewer
     }));
 
     const result = await conversationService.handleToolApprovals(subjectId, approvals);
+
+    // Push the agent's reply to the channel the customer made the request on
+    let delivery: DeliveryResult | undefined;
+    if (!result.awaitingApprovals && result.response) {
+      try {
+        delivery = await customerNotifier.deliver(subjectId, result.response, result.channel);
+      } catch (deliveryError) {
+        logger.error('Failed to deliver approval outcome to customer', deliveryError as Error, {
+          subjectId,
+          operation: 'approval_delivery'
+        });
+      }
+    }
     
     res.json({ 
       success: true, 
       message: 'Approval processed',
       subjectId,
-      result 
+      result,
+      delivery
     });
 
   } catch (error) {
@@ -260,6 +329,242 @@ app.post('/approvals', async (req, res) => {
   }
 });
 
+/**
+ * Pending Approvals Inbox
+ * Lists every tool call awaiting a human decision, oldest first
+ */
+app.get('/approvals', async (req, res) => {
+  try {
+    const approvals = await conversationService.listPendingApprovals();
+
+    res.json({
+      success: true,
+      count: approvals.length,
+      approvals
+    });
+
+  } catch (error) {
+    logger.error('Failed to list pending approvals', error as Error, {
+      operation: 'approvals_list'
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list pending approvals',
+      message: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Pending Approvals for a single subject
+ */
+app.get('/approvals/:subjectId', async (req, res) => {
+  const { subjectId } = req.params;
+
+  try {
+    const approvals = await conversationService.listPendingApprovals(subjectId);
+
+    res.json({
+      success: true,
+      subjectId,
+      count: approvals.length,
+      approvals
+    });
+
+  } catch (error) {
+    logger.error('Failed to list pending approvals', error as Error, {
+      subjectId,
+      operation: 'approvals_list'
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list pending approvals',
+      message: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Web Chat Update Stream
+ * Server-Sent Events carrying messages produced outside a chat turn, such as the
+ * agent's reply once a pending approval is reviewed. The chat page keeps it open.
+ */
+app.get('/web/:subjectId/updates', createUpdateStreamHandler(webChatAdapter));
+
+/**
+ * Approval Audit Log
+ * Query recorded approval requests, decisions and tool results
+ * Filters: subjectId, toolName, from, to (ISO dates), limit
+ */
+app.get('/audit', async (req, res) => {
+  const { subjectId, toolName, from, to, limit } = req.query as Record<string, string | undefined>;
+
+  const fromDate = from ? new Date(from) : undefined;
+  const toDate = to ? new Date(to) : undefined;
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid date range. Use ISO 8601 dates for from and to'
+    });
+  }
+
+  try {
+    const records = await conversationService.getAuditLog({
+      subjectId,
+      toolName,
+      from: fromDate,
+      to: toDate,
+      limit: limit ? parseInt(limit) : undefined
+    });
+
+    res.json({
+      success: true,
+      count: records.length,
+      records
+    });
+
+  } catch (error) {
+    logger.error('Failed to query approval audit log', error as Error, {
+      subjectId,
+      operation: 'audit_query'
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to query approval audit log',
+      message: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Conversation Transcripts
+ * Query recorded turns (messages, agent output, tool calls, guardrail results)
+ * Filters: subjectId, sessionId, from, to (ISO dates), limit
+ */
+app.get('/transcripts', async (req, res) => {
+  const { subjectId, sessionId, from, to, limit } = req.query as Record<string, string | undefined>;
+
+  const fromDate = from ? new Date(from) : undefined;
+  const toDate = to ? new Date(to) : undefined;
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid date range. Use ISO 8601 dates for from and to'
+    });
+  }
+
+  try {
+    const records = await conversationService.getTranscripts({
+      subjectId,
+      sessionId,
+      from: fromDate,
+      to: toDate,
+      limit: limit ? parseInt(limit) : undefined
+    });
+
+    res.json({
+      success: true,
+      count: records.length,
+      records
+    });
+
+  } catch (error) {
+    logger.error('Failed to query conversation transcripts', error as Error, {
+      subjectId,
+      operation: 'transcript_query'
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to query conversation transcripts',
+      message: (error as Error).message
+    });
+  }
+});
+
+// Privacy endpoints require `Authorization: Bearer <ADMIN_API_TOKEN>`
+const requireAdmin = requireAdminToken();
+
+/**
+ * Data Subject Export
+ * Everything held about a subject across stores, resolver mappings, caches and logs
+ */
+app.get('/subjects/:subjectId/export', requireAdmin, async (req, res) => {
+  const { subjectId } = req.params;
+
+  if (!isValidSubjectId(subjectId)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid subject ID'
+    });
+    return;
+  }
+
+  try {
+    const bundle = await dataSubjectService.exportSubject(subjectId);
+
+    res.json({
+      success: true,
+      ...bundle
+    });
+
+  } catch (error) {
+    logger.error('Failed to export subject data', error as Error, {
+      subjectId,
+      operation: 'subject_export'
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export subject data',
+      message: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Data Subject Erasure
+ * Erases the subject everywhere and returns the erasure receipt
+ * Pass ?segment=false to skip the Segment delete/suppress request
+ */
+app.delete('/subjects/:subjectId', requireAdmin, async (req, res) => {
+  const { subjectId } = req.params;
+
+  if (!isValidSubjectId(subjectId)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid subject ID'
+    });
+    return;
+  }
+
+  try {
+    const receipt = await dataSubjectService.eraseSubject(subjectId, {
+      segment: req.query.segment !== 'false'
+    });
+
+    res.status(receipt.complete ? 200 : 207).json({
+      success: receipt.complete,
+      receipt
+    });
+
+  } catch (error) {
+    // Not logged with the subject ID, which would put it back into the logs
+    logger.error('Failed to erase subject data', error as Error, {
+      operation: 'subject_erase'
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to erase subject data',
+      message: (error as Error).message
+    });
+  }
+});
+
 /**
  * Health Check Endpoint
  */
@@ -277,10 +582,22 @@ app.get('/health', (req, res) => {
 app.get('/status', async (req, res) => {
   try {
     const agents = agentRegistry.list();
+
+    // Agent a new conversation on the configured number would start with right now
+    const phoneNumber = process.env.TWILIO_PHONE_NUMBER;
+    const [smsRoute, voiceRoute] = await Promise.all([
+      agentRegistry.route({ channel: 'sms', to: phoneNumber }),
+      agentRegistry.route({ channel: 'voice', to: phoneNumber })
+    ]);
     
     res.json({
       status: 'running',
       agents: agents,
+      routing: {
+        defaultAgent: agentRegistry.getDefaultAgent(),
+        sms: smsRoute,
+        voice: voiceRoute
+      },
       configuration: {
         twilioConfigured: !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_API_KEY_SID),
         openaiConfigured: !!process.env.OPENAI_API_KEY,
@@ -337,6 +654,12 @@ async function startServer() {
       process.exit(0);
     }
 
+    // Auto-reject approvals that outlive their TTL
+    approvalExpiryService.start();
+
+    // Text pending approvals to the supervisor, if one is configured
+    supervisorApprovals.start();
+
     // Start the server
     app.listen(PORT, () => {
       logger.info('Twilio OpenAI Agents SDK server started', {
@@ -347,7 +670,13 @@ async function startServer() {
         endpoints: [
           `http://localhost:${PORT}/sms (POST)`,
           `http://localhost:${PORT}/voice (GET/POST)`,
-          `http://localhost:${PORT}/approvals (POST)`,
+          `http://localhost:${PORT}/approvals (GET/POST)`,
+          `http://localhost:${PORT}/approvals/:subjectId (GET)`,
+          `http://localhost:${PORT}/web/:subjectId/updates (GET, SSE)`,
+          `http://localhost:${PORT}/audit (GET)`,
+          `http://localhost:${PORT}/transcripts (GET)`,
+          `http://localhost:${PORT}/subjects/:subjectId/export (GET)`,
+          `http://localhost:${PORT}/subjects/:subjectId (DELETE)`,
           `http://localhost:${PORT}/health (GET)`,
           `http://localhost:${PORT}/status (GET)`
         ]
@@ -359,6 +688,11 @@ async function startServer() {
       console.log(`📞 Voice webhook: http://localhost:${PORT}/voice (ConversationRelay)`);
       console.log(`🎧 Voice WebSocket: ws://localhost:${PORT}/conversation-relay`);
       console.log(`✅ Approvals webhook: http://localhost:${PORT}/approvals`);
+      console.log(`📥 Pending approvals: http://localhost:${PORT}/approvals (GET)`);
+      console.log(`💬 Web chat updates: http://localhost:${PORT}/web/:subjectId/updates (SSE)`);
+      console.log(`🧾 Approval audit log: http://localhost:${PORT}/audit (GET)`);
+      console.log(`📜 Transcripts: http://localhost:${PORT}/transcripts (GET)`);
+      console.log(`🔒 Subject export/erasure: http://localhost:${PORT}/subjects/:subjectId (GET /export, DELETE)`);
       console.log(`📊 Status: http://localhost:${PORT}/status`);
       console.log(`🩺 Health: http://localhost:${PORT}/health`);
       console.log('');
@@ -379,6 +713,9 @@ async function startServer() {
 process.on('SIGINT', async () => {
   logger.info('Shutting down server...');
   
+  approvalExpiryService.stop();
+  supervisorApprovals.stop();
+
   // Cleanup any active conversations
   await conversationService.cleanup(0); // Clean up all sessions
   
@@ -0,0 +1,150 @@
+import { ConversationService, conversationService, PendingApproval } from './conversationService';
+import { CustomerNotifier } from './customerNotifier';
+import { ApprovalConfig, getApprovalTtl, loadApprovalConfig } from '../config/approvals';
+import { eventBus } from '../events';
+import { logger } from '../utils/logger';
+import { SubjectId } from '../types/common';
+
+export const APPROVAL_EXPIRED_REASON = 'No reviewer responded before the approval request expired';
+
+/**
+ * ApprovalExpiryService - Auto-rejects tool calls that wait too long for a decision
+ *
+ * Each sweep lists the pending approvals, rejects those older than their tool's TTL
+ * and resumes the run so the agent can write a follow-up. The follow-up is delivered
+ * to the customer over the channel they were last on.
+ */
+export class ApprovalExpiryService {
+  private sweepTimer?: NodeJS.Timeout;
+  private sweeping = false;
+
+  constructor(
+    private service: ConversationService = conversationService,
+    private notifier: CustomerNotifier = new CustomerNotifier({ conversationService: service }),
+    private config: ApprovalConfig = loadApprovalConfig()
+  ) {}
+
+  /**
+   * Start sweeping for expired approvals on the configured interval
+   */
+  start(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((error: Error) => {
+        logger.error('Approval expiry sweep failed', error, {
+          operation: 'approval_expiry_sweep'
+        });
+      });
+    }, this.config.sweepIntervalMs);
+    this.sweepTimer.unref();
+
+    logger.info('Approval expiry sweeper started', {
+      operation: 'approval_expiry_start'
+    }, {
+      defaultTtlMs: this.config.defaultTtlMs,
+      toolTtlMs: this.config.toolTtlMs,
+      sweepIntervalMs: this.config.sweepIntervalMs
+    });
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  /**
+   * Expire every pending approval that has outlived its TTL
+   *
+   * @returns Number of tool calls that were auto-rejected
+   */
+  async sweep(now: number = Date.now()): Promise<number> {
+    // Skip if the previous sweep is still resuming runs
+    if (this.sweeping) {
+      return 0;
+    }
+
+    this.sweeping = true;
+    try {
+      const pending = await this.service.listPendingApprovals();
+      const expiredBySubject = new Map<SubjectId, PendingApproval[]>();
+
+      for (const approval of pending) {
+        const ttlMs = getApprovalTtl(this.config, approval.toolName);
+        if (now - approval.requestedAt.getTime() >= ttlMs) {
+          expiredBySubject.set(approval.subjectId, [
+            ...(expiredBySubject.get(approval.subjectId) || []),
+            approval
+          ]);
+        }
+      }
+
+      let expiredCount = 0;
+      for (const [subjectId, expired] of expiredBySubject) {
+        try {
+          await this.expire(subjectId, expired);
+          expiredCount += expired.length;
+        } catch (error) {
+          logger.error('Failed to expire pending approvals', error as Error, {
+            subjectId,
+            operation: 'approval_expiry'
+          });
+        }
+      }
+
+      return expiredCount;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async expire(subjectId: SubjectId, expired: PendingApproval[]): Promise<void> {
+    logger.info('Auto-rejecting expired tool approvals', {
+      subjectId,
+      operation: 'approval_expiry'
+    }, {
+      toolCallIds: expired.map(approval => approval.toolCallId)
+    });
+
+    const result = await this.service.handleToolApprovals(
+      subjectId,
+      expired.map(approval => ({
+        toolCall: { id: approval.toolCallId },
+        approved: false,
+        reason: APPROVAL_EXPIRED_REASON,
+        reviewer: 'system:approval-expiry'
+      }))
+    );
+
+    for (const approval of expired) {
+      eventBus.emit('approval_expired', {
+        subjectId,
+        toolCallId: approval.toolCallId,
+        toolName: approval.toolName,
+        agentName: approval.agentName,
+        channel: approval.channel,
+        ttlMs: getApprovalTtl(this.config, approval.toolName)
+      });
+    }
+
+    // Other calls from the same run may still be waiting on a reviewer;
+    // the agent replies once the run can complete.
+    if (result.awaitingApprovals || !result.response) {
+      return;
+    }
+
+    const delivery = await this.notifier.deliver(subjectId, result.response, expired[0].channel);
+
+    logger.info('Approval expiry follow-up delivered', {
+      subjectId,
+      operation: 'approval_expiry_delivery'
+    }, {
+      method: delivery.method,
+      channel: expired[0].channel
+    });
+  }
+}
@@ -1,22 +1,48 @@
+import { randomUUID } from 'crypto';
 import {
   Agent,
   Runner,
   RunState,
   type AgentInputItem,
 } from '@openai/agents';
-import { RunStateStore, CustomerContextStore } from './persistence/types';
-import { statePersistence } from './persistence/index';
+import {
+  RunStateStore,
+  CustomerContextStore,
+  RunStateRecord,
+  RunStateMetadata,
+  AuditStore,
+  AuditEntry,
+  AuditQuery,
+  AuditRecord,
+  ContextVersionConflictError,
+  TranscriptStore,
+  TranscriptEntry,
+  TranscriptRecord,
+  TranscriptQuery,
+  TranscriptToolCall,
+  TranscriptGuardrailOutcome
+} from './persistence/types';
+import { statePersistence, auditStore, transcriptStore } from './persistence/index';
 import { logger } from '../utils/logger';
-import { CustomerContext } from '../context/types';
-import { SubjectId } from '../types/common';
+import { CustomerContext, AgentRunContext, ToolApprover } from '../context/types';
+import { SubjectId, SubjectDataSource } from '../types/common';
 import { eventBus } from '../events';
 import { agentRegistry } from '../registry/agent-registry';
+import { TurnQueue } from './turnQueue';
+import { loadTurnQueueConfig, createTurnLockProvider } from '../config/turnQueue';
+import { HistoryCompactor } from './historyCompactor';
+import { loadHistoryCompactionConfig } from '../config/history';
+import { TimeoutFallbackConfig, loadTimeoutFallbackConfig, getHoldingReply } from '../config/timeouts';
+// Type-only: the notifier module imports this one
+import type { CustomerNotifier, DeliveryResult } from './customerNotifier';
 
 export interface ProcessingOptions {
   showProgress?: boolean;
   enableDebugLogs?: boolean;
   timeoutMs?: number;
   stream?: boolean;
+  channel?: string;
+  signal?: AbortSignal; // Aborts the run and its tool calls; the turn then fails with TurnCancelledError
 }
 
 export interface ConversationResult {
@@ -27,11 +53,83 @@ export interface ConversationResult {
   currentAgent: Agent;
   newItems: any[];
   state?: RunState<any, any>;
+  channel?: string;
+  coalesced?: boolean; // This message was answered as part of an earlier caller's turn
+  timedOut?: boolean; // The run passed timeoutMs; response is the channel's holding reply
+  lateDelivery?: Promise<void>; // Settles once the timed-out run has finished in the background and its result is delivered or dropped
 }
 
 export interface ToolApproval {
   toolCall: any;
   approved: boolean;
+  reason?: string;
+  reviewer?: string; // Who made the decision, recorded in the audit log
+}
+
+export interface PendingApproval {
+  subjectId: SubjectId;
+  toolCallId: string;
+  toolName: string;
+  arguments: Record<string, any>;
+  agentName?: string;
+  channel?: string;
+  requestedAt: Date;
+  customerName?: string;
+  approver: ToolApprover;
+}
+
+/**
+ * Thrown when a turn's AbortSignal fires before the run finished. Nothing
+ * from the cancelled turn is added to the conversation history.
+ */
+export class TurnCancelledError extends Error {
+  constructor(public readonly subjectId: SubjectId, public readonly reason: string) {
+    super(`Turn for ${subjectId} was cancelled (${reason})`);
+    this.name = 'TurnCancelledError';
+  }
+}
+
+/**
+ * Thrown when a run takes longer than its timeout. When late results are
+ * delivered, `lateResult` settles once the run finishes in the background,
+ * and `cancelLateRun` aborts it.
+ */
+export class TurnTimeoutError extends Error {
+  constructor(
+    public readonly subjectId: SubjectId,
+    public readonly timeoutMs: number,
+    public readonly lateResult?: Promise<any>,
+    public readonly cancelLateRun?: (reason: string) => void
+  ) {
+    super('Operation timeout');
+    this.name = 'TurnTimeoutError';
+  }
+}
+
+/**
+ * What a late result needs from the turn that timed out
+ */
+interface LateTurn {
+  /**
+   * Sequence number of the timed-out turn; the result is dropped once a newer turn has started
+   */
+  turnNumber: number;
+  channel?: string;
+  agentName?: string;
+  startingAgent: Agent;
+  userMessage: string;
+  startTime: number;
+}
+
+/**
+ * A context as it was last loaded from or saved to the store: the common
+ * ancestor when a save conflicts with another writer
+ */
+interface ContextBase {
+  historyLength: number;
+  summarizedItemCount: number;
+  fields: Record<string, string>;
+  metadata: Record<string, string>;
 }
 
 export interface SessionInfo {
@@ -55,21 +153,49 @@ export interface SessionInfo {
  * - Runner instance management
  * - Tool approval workflows
  * - Session lifecycle management
+ * - Per-subject turn serialization
+ * - Data subject export and erasure
  * - Event emission and logging
  */
-export class ConversationService {
+export class ConversationService implements SubjectDataSource {
+  readonly name = 'conversation';
+
   private contexts: Map<SubjectId, CustomerContext> = new Map();
   private runnerCache: Map<SubjectId, Runner> = new Map();
   private stateStore: RunStateStore;
   private contextStore: CustomerContextStore;
+  private auditStore: AuditStore;
+  private transcriptStore: TranscriptStore;
+  private transcriptSessions: Map<SubjectId, string> = new Map();
+  private latestTurns: Map<SubjectId, number> = new Map(); // Latest turn started per subject
+  private lateRuns: Map<SubjectId, { turnNumber: number; cancel: (reason: string) => void }> = new Map(); // Timed-out runs still going, per subject
+  private lateResultNotifier?: CustomerNotifier;
+  private turnSequence = 0;
+  private turnQueue: TurnQueue;
+  private historyCompactor: HistoryCompactor;
+  private timeoutFallback: TimeoutFallbackConfig;
+  private contextBases: WeakMap<CustomerContext, ContextBase> = new WeakMap();
   private readonly SLOW_OPERATION_THRESHOLD_MS = 200;
-
-  constructor(storeInstance?: RunStateStore & CustomerContextStore) {
+  private readonly MAX_CONTEXT_SAVE_ATTEMPTS = 3;
+
+  constructor(
+    storeInstance?: RunStateStore & CustomerContextStore,
+    auditInstance?: AuditStore,
+    turnQueueInstance?: TurnQueue,
+    historyCompactorInstance?: HistoryCompactor,
+    transcriptInstance?: TranscriptStore,
+    timeoutFallback: TimeoutFallbackConfig = loadTimeoutFallbackConfig()
+  ) {
     // Use the same store instance for both RunState and CustomerContext
     // The FileStateStore implements both interfaces
     const store = storeInstance || statePersistence;
     this.stateStore = store;
     this.contextStore = store as CustomerContextStore;
+    this.auditStore = auditInstance || auditStore;
+    this.turnQueue = turnQueueInstance || new TurnQueue(loadTurnQueueConfig(), createTurnLockProvider());
+    this.historyCompactor = historyCompactorInstance || new HistoryCompactor(loadHistoryCompactionConfig());
+    this.transcriptStore = transcriptInstance || transcriptStore;
+    this.timeoutFallback = timeoutFallback;
     
     // Initialize persistence
     this.stateStore.init().catch((error: Error) => {
@@ -77,13 +203,33 @@ export class ConversationService {
         operation: 'conversation_service_init'
       });
     });
+    this.auditStore.init().catch((error: Error) => {
+      logger.error('Failed to initialize approval audit log', error, {
+        operation: 'conversation_service_init'
+      });
+    });
+    this.transcriptStore.init().catch((error: Error) => {
+      logger.error('Failed to initialize transcript store', error, {
+        operation: 'conversation_service_init'
+      });
+    });
 
     // Setup cleanup interval for old runners, states, and contexts
-    setInterval(() => {
+    const cleanupTimer = setInterval(() => {
       this.cleanupOldRunners();
       this.stateStore.cleanupOldStates();
       this.contextStore.cleanupOldContexts();
+      this.transcriptStore.cleanupOldEntries(); // Own retention, independent of context expiry
     }, 60 * 60 * 1000); // Run every hour
+    cleanupTimer.unref(); // Don't keep the process alive just for cleanup
+  }
+
+  /**
+   * Set the notifier that sends late results to the customer. Without one,
+   * late replies are queued for the customer's next turn.
+   */
+  setLateResultNotifier(notifier: CustomerNotifier): void {
+    this.lateResultNotifier = notifier;
   }
 
   /**
@@ -91,24 +237,51 @@ export class ConversationService {
    * 
    * This replaces the separate calls to getContext, handleTurn, and saveContext
    * from the old architecture with a single unified method.
+   * 
+   * Turns for the same subject are queued and run one at a time. With message
+   * coalescing enabled, messages arriving while a turn is queued join that turn;
+   * their callers get its result with `coalesced: true`.
    */
   async processConversationTurn(
     agent: Agent | string,
     subjectId: SubjectId,
     userMessage: string,
     options: ProcessingOptions = {}
+  ): Promise<ConversationResult> {
+    const { result, coalesced } = await this.turnQueue.runTurn(subjectId, userMessage, message =>
+      this.runConversationTurn(agent, subjectId, message, options)
+    );
+
+    return coalesced ? { ...result, coalesced } : result;
+  }
+
+  private async runConversationTurn(
+    agent: Agent | string,
+    subjectId: SubjectId,
+    userMessage: string,
+    options: ProcessingOptions
   ): Promise<ConversationResult> {
     // Resolve agent if string name was provided
-    const resolvedAgent = typeof agent === 'string' 
+    let resolvedAgent = typeof agent === 'string' 
       ? await agentRegistry.get(agent)
       : agent;
+    let agentName = typeof agent === 'string'
+      ? agent
+      : agentRegistry.getNameForAgent(agent);
 
     const { 
       showProgress = true, 
       enableDebugLogs = false, 
       timeoutMs = 30000,
-      stream = true 
+      stream = true,
+      channel,
+      signal
     } = options;
+    const turnStartTime = Date.now();
+    const turnNumber = this.startTurn(subjectId);
+    const userMessageItem = { role: 'user' as const, content: userMessage };
+    let turnContext: CustomerContext | undefined;
+    let previousCallIds: string[] = [];
 
     logger.info('Processing conversation turn', {
       subjectId,
@@ -121,33 +294,54 @@ export class ConversationService {
     try {
       // Get or create conversation context
       const context = await this.getContext(subjectId);
+      turnContext = context;
+
+      // Resume with the agent the conversation was last handed to
+      if (context.lastAgent && context.lastAgent !== agentName) {
+        const lastAgent = await this.resolveLastAgent(subjectId, context);
+        if (lastAgent) {
+          resolvedAgent = lastAgent;
+          agentName = context.lastAgent;
+        }
+      }
 
       // Extract and update customer information from the message
       const extracted = this.extractCustomerInfo(userMessage);
       if (extracted.email || extracted.orderNumber || extracted.phone) {
         context.customerEmail = extracted.email || context.customerEmail;
         context.currentOrder = extracted.orderNumber || context.currentOrder;  
-        context.customerPhone = extracted.phone || context.customerPhone;
+        // A number typed in a message is only a contact detail; it never replaces one we have
+        context.customerPhone = context.customerPhone || extracted.phone;
       }
 
       // Add user message to conversation history
-      const userMessageItem = { role: 'user' as const, content: userMessage };
       context.conversationHistory.push(userMessageItem);
 
       // Get Runner for this conversation
       const runner = this.getRunner(subjectId);
 
       // Check for pending state (from previous tool approvals)
-      const pendingStateStr = await this.getRunState(subjectId);
+      const pendingState = await this.getRunState(subjectId);
       
-      let input: AgentInputItem[] | RunState<any, any>;
+      // Input for a resumed run; otherwise it is built from the history once compacted
+      let restoredInput: RunState<any, any> | undefined;
+      let includeProfile = true;
+      let startingAgent: Agent = resolvedAgent;
       
-      if (pendingStateStr) {
+      if (pendingState) {
         try {
-          // Resume from saved state
-          input = await RunState.fromString(resolvedAgent, pendingStateStr);
+          // Resume from saved state with the agent that owns it
+          startingAgent = await this.resolveStateAgent(pendingState, resolvedAgent);
+          const restoredState = await RunState.fromString(startingAgent, pendingState.runState);
+          previousCallIds = (restoredState.getInterruptions() || [])
+            .map((interruption: any) => interruption.rawItem?.callId || interruption.rawItem?.id);
+          // The model sees the customer's message once the pending calls are decided
+          this.appendInput(restoredState, { type: 'message', role: 'user', content: userMessage });
+          restoredInput = restoredState;
+          agentName = pendingState.agentName || agentName;
           logger.info('Resuming from saved state', {
             subjectId,
+            agentName: startingAgent.name,
             operation: 'state_resume'
           });
           
@@ -163,63 +357,88 @@ export class ConversationService {
           
           // Clean up corrupted state
           await this.deleteRunState(subjectId);
+          startingAgent = resolvedAgent;
           
           // Fall back to starting with fresh conversation
-          if (context && Array.isArray(context.conversationHistory) && context.conversationHistory.length > 0) {
-            input = context.conversationHistory
-              .filter((i: any) => i && i.role && i.content)
-              .map((i: any) => ({ role: i.role, content: i.content })) as AgentInputItem[];
-          } else {
-            input = [{ role: 'user', content: userMessage }];
-          }
+          includeProfile = false;
           
           if (showProgress) {
             console.log('⚠️  Previous state was corrupted, starting fresh...');
           }
         }
-      } else {
-        // Start new turn with user message
-        // Use full conversation history if provided to maintain context
-        if (context && Array.isArray(context.conversationHistory) && context.conversationHistory.length > 0) {
-          // Filter history to only include plain message items (role + content) to avoid non-cloneable data
-          input = context.conversationHistory
-            .filter((i: any) => i && i.role && i.content)
-            .map((i: any) => ({ role: i.role, content: i.content })) as AgentInputItem[];
-        } else {
-          input = [{ role: 'user', content: userMessage }];
-        }
-        
-        // Inject customer profile context if available
-        input = this.enrichInputWithCustomerProfile(input, context);
-        
-        if (showProgress) {
-          console.log(`🔄 Processing with ${resolvedAgent.name}: "${userMessage.substring(0, 50)}${userMessage.length > 50 ? '...' : ''}"`);
-        }
+      } else if (showProgress) {
+        console.log(`🔄 Processing with ${resolvedAgent.name}: "${userMessage.substring(0, 50)}${userMessage.length > 50 ? '...' : ''}"`);
       }
 
+      // Run context travels with the RunState so tool approval policies can find the subject
+      const runContext: AgentRunContext = { subjectId };
+
+      // A timed-out run may keep going in the background when its result is delivered late
+      const lateRunMs = this.timeoutFallback.deliverLateResults
+        ? this.timeoutFallback.lateResultTimeoutMs
+        : undefined;
+
+      // Compaction counts against the turn's timeout and stops with the run when it is aborted
+      const prepareInput = async (runSignal: AbortSignal): Promise<AgentInputItem[] | RunState<any, any>> => {
+        // Replace older turns with a summary once the history is over budget
+        await this.historyCompactor.compact(subjectId, context, runSignal);
+        return restoredInput || this.buildHistoryInput(context, userMessage, includeProfile);
+      };
+
       // Run the agent with threading - handle stream vs non-stream separately
       let result: any;
-      if (stream) {
-        result = await this.executeWithTimeout(
-          () => runner.run(resolvedAgent, input, { stream: true }),
-          timeoutMs
-        );
-      } else {
-        result = await this.executeWithTimeout(
-          () => runner.run(resolvedAgent, input, { stream: false }),
-          timeoutMs
-        );
-      }
-
-      // Handle streaming output
-      if (stream && 'toTextStream' in result) {
-        await this.handleStreamingOutput(result, showProgress, enableDebugLogs, subjectId, resolvedAgent.name);
+      try {
+        if (stream) {
+          result = await this.executeWithTimeout(
+            subjectId,
+            async runSignal => runner.run(startingAgent, await prepareInput(runSignal), {
+              stream: true,
+              context: this.attachSignal(runContext, runSignal),
+              signal: runSignal
+            }).then(streamed => {
+              // Show output as it arrives; the turn still waits for the run to complete
+              this.handleStreamingOutput(streamed, showProgress, enableDebugLogs, subjectId, resolvedAgent.name);
+              return streamed;
+            }),
+            timeoutMs,
+            signal,
+            lateRunMs
+          );
+        } else {
+          result = await this.executeWithTimeout(
+            subjectId,
+            async runSignal => runner.run(startingAgent, await prepareInput(runSignal), {
+              stream: false,
+              context: this.attachSignal(runContext, runSignal),
+              signal: runSignal
+            }),
+            timeoutMs,
+            signal,
+            lateRunMs
+          );
+        }
+      } catch (error) {
+        if (error instanceof TurnTimeoutError) {
+          return await this.holdTimedOutTurn(subjectId, context, error, {
+            turnNumber,
+            channel,
+            agentName,
+            startingAgent,
+            userMessage,
+            startTime: turnStartTime
+          });
+        }
+        throw error;
       }
 
       // Check for interruptions (tool approvals)
       if ('interruptions' in result && result.interruptions && result.interruptions.length > 0) {
         // Save state for resumption after approvals
-        await this.saveRunState(subjectId, result.state);
+        await this.saveRunState(subjectId, result.state, {
+          agentName,
+          channel,
+          requestedAt: this.keptRequestTime(pendingState, previousCallIds, result.interruptions)
+        });
         
         logger.info('Interruptions detected, state saved', {
           subjectId,
@@ -234,13 +453,35 @@ export class ConversationService {
           context.conversationHistory.push(item);
         });
 
+        const interruptedAgent = ('currentAgent' in result && result.currentAgent) ? result.currentAgent : startingAgent;
+        this.trackHandoffs(subjectId, context, result.newItems || [], interruptedAgent, channel);
+
         // Save context
         await this.saveContext(subjectId, context);
 
+        // Calls the customer was already waiting on have been announced
+        await this.emitApprovalRequests(
+          subjectId,
+          result.interruptions.filter((interruption: any) =>
+            !previousCallIds.includes(interruption.rawItem?.callId || interruption.rawItem?.id)
+          ),
+          channel
+        );
+        await this.recordTurn(subjectId, {
+          trigger: 'message',
+          status: 'awaiting_approval',
+          channel,
+          agentName: interruptedAgent.name,
+          userMessage,
+          startTime: turnStartTime,
+          result,
+          newItems: result.newItems || []
+        });
+
         return {
           awaitingApprovals: true,
           history: 'history' in result ? result.history : [],
-          currentAgent: ('currentAgent' in result && result.currentAgent) ? result.currentAgent : resolvedAgent,
+          currentAgent: interruptedAgent,
           newItems: ('newItems' in result ? result.newItems : null) || []
         };
       }
@@ -248,7 +489,7 @@ export class ConversationService {
       // Only save state if there are pending tool approvals or interruptions
       // Completed states should not be persisted to avoid repetitive responses
       if ('state' in result && result.state && result.awaitingApprovals) {
-        await this.saveRunState(subjectId, result.state);
+        await this.saveRunState(subjectId, result.state, { agentName, channel });
         
         logger.info('RunState saved for tool approvals', {
           subjectId,
@@ -269,10 +510,22 @@ export class ConversationService {
         context.conversationHistory.push(item);
       });
 
+      const currentAgent = ('currentAgent' in result && result.currentAgent) ? result.currentAgent : startingAgent;
+      this.trackHandoffs(subjectId, context, result.newItems || [], currentAgent, channel);
+
       // Save context (without state since it's handled above)
       await this.saveContext(subjectId, context);
 
-      const currentAgent = ('currentAgent' in result && result.currentAgent) ? result.currentAgent : resolvedAgent;
+      await this.recordTurn(subjectId, {
+        trigger: 'message',
+        status: 'completed',
+        channel,
+        agentName: currentAgent.name,
+        userMessage,
+        startTime: turnStartTime,
+        result,
+        newItems: result.newItems || []
+      });
       
       logger.info('Conversation turn completed', {
         subjectId,
@@ -294,12 +547,34 @@ export class ConversationService {
       };
 
     } catch (error) {
+      if (error instanceof TurnCancelledError) {
+        await this.handleCancelledTurn(subjectId, {
+          trigger: 'message',
+          channel,
+          agentName: resolvedAgent.name,
+          userMessage,
+          startTime: turnStartTime,
+          error
+        }, turnContext, userMessageItem);
+        throw error;
+      }
+
       logger.error('Conversation turn failed', error as Error, {
         subjectId,
         agentName: resolvedAgent.name,
         operation: 'conversation_turn'
       });
 
+      await this.recordTurn(subjectId, {
+        trigger: 'message',
+        status: 'failed',
+        channel,
+        agentName: resolvedAgent.name,
+        userMessage,
+        startTime: turnStartTime,
+        error
+      });
+
       // End session on uncaught error escalation
       try {
         await this.endSession(subjectId);
@@ -321,11 +596,28 @@ export class ConversationService {
 
   /**
    * Handle tool approval workflow
+   * 
+   * Restores the pending RunState, applies the approval decisions to its
+   * interruptions and resumes the run so the approved tools actually execute.
+   * Queued behind any running turn for the subject.
    */
   async handleToolApprovals(
     subjectId: SubjectId,
-    approvals: ToolApproval[]
+    approvals: ToolApproval[],
+    options: ProcessingOptions = {}
+  ): Promise<ConversationResult> {
+    return this.turnQueue.run(subjectId, () => this.resumeWithApprovals(subjectId, approvals, options));
+  }
+
+  private async resumeWithApprovals(
+    subjectId: SubjectId,
+    approvals: ToolApproval[],
+    options: ProcessingOptions
   ): Promise<ConversationResult> {
+    const { timeoutMs = 30000, signal } = options;
+    const turnStartTime = Date.now();
+    this.startTurn(subjectId);
+
     logger.info('Processing tool approvals', {
       subjectId,
       operation: 'tool_approvals'
@@ -333,20 +625,26 @@ export class ConversationService {
       approvalCount: approvals.length 
     });
 
-    const pendingStateStr = await this.getRunState(subjectId);
-    if (!pendingStateStr) {
+    const pendingState = await this.getRunState(subjectId);
+    if (!pendingState) {
       throw new Error('No pending state found for conversation');
     }
 
     const runner = this.getRunner(subjectId);
     
-    // We need to restore the state with the customer support agent 
-    // since we don't store agent context separately
-    const { customerSupportAgent } = await import('../agents/customer-support');
+    // Restore the state with the agent that owned the run when it was interrupted
+    let owningAgent: Agent;
+    try {
+      owningAgent = await this.resolveStateAgent(pendingState);
+    } catch (error) {
+      // The state can never be resumed without its agent
+      await this.deleteRunState(subjectId);
+      throw error;
+    }
     let runState: RunState<any, any>;
     
     try {
-      runState = await RunState.fromString(customerSupportAgent, pendingStateStr);
+      runState = await RunState.fromString(owningAgent, pendingState.runState);
       logger.debug('RunState restored for approval processing', {
         subjectId,
         operation: 'approval_state_restore'
@@ -361,27 +659,6 @@ export class ConversationService {
       throw new Error('Pending state was corrupted, please restart your request');
     }
 
-    // Check if any tools were rejected
-    const rejectedApprovals = approvals.filter(a => !a.approved);
-    if (rejectedApprovals.length > 0) {
-      // If any tool is rejected, clean up state and return
-      await this.deleteRunState(subjectId);
-      
-      logger.info('Tool approvals rejected by user', {
-        subjectId,
-        operation: 'tool_approvals_rejected'
-      }, { 
-        rejectedCount: rejectedApprovals.length 
-      });
-      
-      return {
-        response: "I understand you don't want me to proceed with those actions. How else can I help you?",
-        history: [],
-        currentAgent: customerSupportAgent,
-        newItems: []
-      };
-    }
-
     try {
       logger.debug('Continuing execution with approvals', {
         subjectId,
@@ -390,49 +667,756 @@ export class ConversationService {
         approvalCount: approvals.length 
       });
 
-      // For now, since the SDK may not support direct approval continuation,
-      // we'll implement a simplified approach: if all tools are approved,
-      // we simulate successful execution and clean up state
-      logger.info('All tools approved - simulating successful execution', {
+      // Apply each decision to its matching interruption on the restored state.
+      // Approved calls execute on resume; rejected calls are returned to the model
+      // as not approved so the agent can explain and carry on.
+      const pendingInterruptions: any[] = runState.getInterruptions() || [];
+      const previousCallIds = pendingInterruptions
+        .map((interruption: any) => interruption.rawItem?.callId || interruption.rawItem?.id);
+      this.applyApprovalDecisions(subjectId, runState, approvals);
+      await this.recordDecisions(subjectId, pendingInterruptions, approvals, pendingState.channel);
+
+      const rejectedApprovals = approvals.filter(a => !a.approved);
+      if (rejectedApprovals.length > 0) {
+        logger.info('Tool calls rejected by reviewer', {
+          subjectId,
+          operation: 'tool_approvals_rejected'
+        }, {
+          rejectedCount: rejectedApprovals.length,
+          approvedCount: approvals.length - rejectedApprovals.length
+        });
+      }
+
+      // Items generated before the interruption were already added to history
+      // when the state was saved; only the items produced after resuming are new.
+      // Approval items are dropped by the SDK once the interruption is resolved.
+      const priorItemCount = (runState._generatedItems || [])
+        .filter((item: any) => item.type !== 'tool_approval_item').length;
+
+      // Resume the run from the approved state so the approved tools actually execute
+      const result: any = await this.executeWithTimeout(
         subjectId,
-        operation: 'approval_simulation'
+        runSignal => {
+          const runContext = (runState as any)._context?.context;
+          if (runContext) {
+            this.attachSignal(runContext, runSignal);
+          }
+          return runner.run(owningAgent, runState, { stream: false, signal: runSignal });
+        },
+        timeoutMs,
+        signal
+      );
+
+      const newItems: any[] = (result.newItems || []).slice(priorItemCount);
+      const context = await this.getContext(subjectId);
+      newItems.forEach((item: any) => {
+        context.conversationHistory.push(item);
       });
 
-      // Clean up saved state when approvals are processed
+      const currentAgent = result.currentAgent || result.lastAgent || owningAgent;
+      this.trackHandoffs(subjectId, context, newItems, currentAgent, pendingState.channel);
+
+      await this.recordToolResults(subjectId, pendingInterruptions, approvals, newItems, pendingState.channel);
+
+      // The resumed run may itself request further approvals
+      if (result.interruptions && result.interruptions.length > 0) {
+        await this.saveRunState(subjectId, result.state, {
+          agentName: pendingState.agentName,
+          channel: pendingState.channel,
+          requestedAt: this.keptRequestTime(pendingState, previousCallIds, result.interruptions)
+        });
+        await this.saveContext(subjectId, context);
+
+        logger.info('Further interruptions detected after approvals, state saved', {
+          subjectId,
+          operation: 'tool_approvals_interruption'
+        }, {
+          interruptionCount: result.interruptions.length
+        });
+
+        // Calls that were left undecided have already been announced
+        await this.emitApprovalRequests(
+          subjectId,
+          result.interruptions.filter((interruption: any) =>
+            !previousCallIds.includes(interruption.rawItem?.callId || interruption.rawItem?.id)
+          ),
+          pendingState.channel
+        );
+
+        await this.recordTurn(subjectId, {
+          trigger: 'approval',
+          status: 'awaiting_approval',
+          channel: pendingState.channel,
+          agentName: currentAgent.name,
+          startTime: turnStartTime,
+          result,
+          newItems
+        });
+
+        return {
+          awaitingApprovals: true,
+          history: result.history || [],
+          currentAgent,
+          newItems,
+          channel: pendingState.channel
+        };
+      }
+
+      // Clean up saved state once the approved run has completed
       await this.deleteRunState(subjectId);
+      await this.saveContext(subjectId, context);
+
+      await this.recordTurn(subjectId, {
+        trigger: 'approval',
+        status: 'completed',
+        channel: pendingState.channel,
+        agentName: currentAgent.name,
+        startTime: turnStartTime,
+        result,
+        newItems
+      });
       
       logger.info('Tool approvals processed successfully', {
         subjectId,
         operation: 'tool_approvals_success'
+      }, {
+        newItemsCount: newItems.length,
+        finalOutput: result.finalOutput?.substring(0, 200)
       });
 
-      // Return a success message indicating tools were approved
       return {
-        response: "Thank you for your approval. The requested actions have been processed successfully.",
+        response: result.finalOutput || '',
+        history: result.history || [],
+        finalOutput: result.finalOutput || '',
+        currentAgent,
+        newItems,
+        state: result.state,
+        channel: pendingState.channel
+      };
+
+    } catch (error) {
+      if (error instanceof TurnCancelledError) {
+        // The saved state is kept, so the decisions can be submitted again
+        await this.handleCancelledTurn(subjectId, {
+          trigger: 'approval',
+          channel: pendingState.channel,
+          agentName: owningAgent.name,
+          startTime: turnStartTime,
+          error
+        });
+        throw error;
+      }
+
+      logger.error('Tool approval processing failed', error as Error, {
+        subjectId,
+        operation: 'tool_approvals'
+      });
+
+      await this.recordTurn(subjectId, {
+        trigger: 'approval',
+        status: 'failed',
+        channel: pendingState.channel,
+        agentName: owningAgent.name,
+        startTime: turnStartTime,
+        error
+      });
+
+      // Clean up state on error
+      await this.deleteRunState(subjectId);
+      
+      // Return error message to user
+      return {
+        response: "I encountered an error while processing the approved actions. Please try your request again.",
         history: [],
-        finalOutput: "Thank you for your approval. The requested actions have been processed successfully.",
-        currentAgent: customerSupportAgent,
+        currentAgent: owningAgent,
         newItems: [],
-        state: undefined
+        channel: pendingState.channel
       };
+    }
+  }
+
+  /**
+   * Apply approval decisions to the pending interruptions of a restored RunState
+   */
+  private applyApprovalDecisions(
+    subjectId: SubjectId,
+    runState: RunState<any, any>,
+    approvals: ToolApproval[]
+  ): void {
+    const interruptions: any[] = runState.getInterruptions() || [];
+    const reviewerNotes: string[] = [];
+
+    for (const interruption of interruptions) {
+      const callId = interruption.rawItem?.callId || interruption.rawItem?.id;
+      const decision = approvals.find(a => a.toolCall?.id && a.toolCall.id === callId);
+
+      if (!decision) {
+        // Undecided calls stay pending and will interrupt the resumed run again
+        logger.warn('No decision provided for pending tool call', {
+          subjectId,
+          toolName: interruption.rawItem?.name,
+          operation: 'approval_decision_missing'
+        }, { callId });
+        continue;
+      }
+
+      if (decision.approved) {
+        runState.approve(interruption);
+      } else {
+        runState.reject(interruption);
+        if (decision.reason) {
+          reviewerNotes.push(
+            `The ${interruption.rawItem?.name} call (${callId}) was rejected by a reviewer: ${decision.reason}`
+          );
+        }
+      }
+
+      logger.debug('Approval decision applied', {
+        subjectId,
+        toolName: interruption.rawItem?.name,
+        operation: 'approval_decision'
+      }, { callId, approved: decision.approved, reason: decision.reason });
+    }
+
+    if (reviewerNotes.length > 0) {
+      this.addReviewerNotes(runState, reviewerNotes);
+    }
+  }
+
+  /**
+   * Announce tool calls that are now waiting for a human decision
+   */
+  private async emitApprovalRequests(subjectId: SubjectId, interruptions: any[], channel?: string): Promise<void> {
+    await this.recordAudit(interruptions.map((interruption: any) => ({
+      type: 'approval_requested' as const,
+      subjectId,
+      toolCallId: interruption.rawItem?.callId || interruption.rawItem?.id,
+      toolName: interruption.rawItem?.name,
+      agentName: interruption.agent?.name,
+      channel,
+      arguments: this.parseToolArguments(interruption.rawItem?.arguments, subjectId)
+    })));
+
+    for (const interruption of interruptions) {
+      eventBus.emit('approval_requested', {
+        subjectId,
+        toolCallId: interruption.rawItem?.callId || interruption.rawItem?.id,
+        toolName: interruption.rawItem?.name,
+        agentName: interruption.agent?.name,
+        channel
+      });
+    }
+  }
+
+  /**
+   * Record the decision made for each pending tool call
+   */
+  private async recordDecisions(
+    subjectId: SubjectId,
+    interruptions: any[],
+    approvals: ToolApproval[],
+    channel?: string
+  ): Promise<void> {
+    const entries: AuditEntry[] = [];
+
+    for (const interruption of interruptions) {
+      const callId = interruption.rawItem?.callId || interruption.rawItem?.id;
+      const decision = approvals.find(a => a.toolCall?.id && a.toolCall.id === callId);
+      if (!decision) {
+        continue;
+      }
+
+      entries.push({
+        type: 'approval_decided',
+        subjectId,
+        toolCallId: callId,
+        toolName: interruption.rawItem?.name,
+        agentName: interruption.agent?.name,
+        channel,
+        reviewer: decision.reviewer,
+        approved: decision.approved,
+        reason: decision.reason
+      });
+    }
+
+    await this.recordAudit(entries);
+  }
+
+  /**
+   * Record the output of approved tool calls that executed on the resumed run
+   */
+  private async recordToolResults(
+    subjectId: SubjectId,
+    interruptions: any[],
+    approvals: ToolApproval[],
+    newItems: any[],
+    channel?: string
+  ): Promise<void> {
+    const entries: AuditEntry[] = [];
+
+    for (const item of newItems) {
+      if (item.type !== 'tool_call_output_item') {
+        continue;
+      }
+
+      const callId = item.rawItem?.callId;
+      const approved = approvals.some(a => a.approved && a.toolCall?.id === callId);
+      const interruption = interruptions.find((pending: any) =>
+        (pending.rawItem?.callId || pending.rawItem?.id) === callId
+      );
+      if (!approved || !interruption) {
+        continue;
+      }
+
+      entries.push({
+        type: 'tool_result',
+        subjectId,
+        toolCallId: callId,
+        toolName: interruption.rawItem?.name,
+        agentName: interruption.agent?.name,
+        channel,
+        result: item.output ?? item.rawItem?.output
+      });
+    }
+
+    await this.recordAudit(entries);
+  }
+
+  /**
+   * Append entries to the approval audit log. Failures are logged rather than
+   * thrown so an audit outage does not leave the customer without a reply.
+   */
+  private async recordAudit(entries: AuditEntry[]): Promise<void> {
+    for (const entry of entries) {
+      try {
+        await this.auditStore.append(entry);
+      } catch (error) {
+        logger.error('Failed to record approval audit entry', error as Error, {
+          subjectId: entry.subjectId,
+          toolName: entry.toolName,
+          operation: 'audit_record'
+        }, { type: entry.type, toolCallId: entry.toolCallId });
+      }
+    }
+  }
+
+  /**
+   * Announce a cancelled turn and take the user's message back out of the
+   * in-memory history, so nothing from the turn is saved with the next one
+   */
+  private async handleCancelledTurn(
+    subjectId: SubjectId,
+    turn: Pick<TranscriptEntry, 'trigger' | 'channel' | 'agentName' | 'userMessage'> & {
+      startTime: number;
+      error: TurnCancelledError;
+    },
+    context?: CustomerContext,
+    userMessageItem?: object
+  ): Promise<void> {
+    if (context && userMessageItem) {
+      const index = context.conversationHistory.lastIndexOf(userMessageItem);
+      if (index !== -1) {
+        context.conversationHistory.splice(index, 1);
+      }
+    }
+
+    logger.info('Conversation turn cancelled', {
+      subjectId,
+      agentName: turn.agentName,
+      operation: 'conversation_turn_cancelled'
+    }, {
+      reason: turn.error.reason,
+      trigger: turn.trigger,
+      durationMs: Date.now() - turn.startTime
+    });
+
+    await this.recordTurn(subjectId, { ...turn, status: 'cancelled' });
+
+    eventBus.emit('turn_cancelled', {
+      subjectId,
+      reason: turn.error.reason,
+      agentName: turn.agentName,
+      channel: turn.channel
+    });
+  }
+
+  /**
+   * Answer a timed-out turn with the channel's holding reply. The session is
+   * kept, and a run still going in the background is delivered when it finishes.
+   */
+  private async holdTimedOutTurn(
+    subjectId: SubjectId,
+    context: CustomerContext,
+    error: TurnTimeoutError,
+    turn: LateTurn
+  ): Promise<ConversationResult> {
+    const reply = getHoldingReply(this.timeoutFallback, turn.channel);
+    const replyItem = { role: 'assistant' as const, content: reply };
+
+    context.conversationHistory.push(replyItem);
+    await this.saveContext(subjectId, context);
+
+    logger.warn('Conversation turn timed out, holding reply sent', {
+      subjectId,
+      agentName: turn.startingAgent.name,
+      operation: 'conversation_turn_timeout'
+    }, {
+      timeoutMs: error.timeoutMs,
+      channel: turn.channel,
+      lateDelivery: !!error.lateResult
+    });
+
+    await this.recordTurn(subjectId, {
+      trigger: 'message',
+      status: 'timed_out',
+      channel: turn.channel,
+      agentName: turn.startingAgent.name,
+      userMessage: turn.userMessage,
+      startTime: turn.startTime,
+      result: { finalOutput: reply },
+      error
+    });
+
+    // Kept so a newer turn, or the end of the session, can stop the run
+    if (error.lateResult && error.cancelLateRun) {
+      this.lateRuns.set(subjectId, { turnNumber: turn.turnNumber, cancel: error.cancelLateRun });
+    }
+    const lateDelivery = error.lateResult
+      ? this.deliverLateResult(subjectId, error.lateResult, turn)
+      : undefined;
+
+    return {
+      response: reply,
+      history: [],
+      finalOutput: reply,
+      currentAgent: turn.startingAgent,
+      newItems: [replyItem],
+      channel: turn.channel,
+      timedOut: true,
+      lateDelivery
+    };
+  }
+
+  /**
+   * Wait for a timed-out run to finish, add its result to the conversation and
+   * send the reply to the customer. Failures are logged; the customer already
+   * has the holding reply.
+   */
+  private async deliverLateResult(subjectId: SubjectId, lateResult: Promise<any>, turn: LateTurn): Promise<void> {
+    let result: any;
+    try {
+      result = await lateResult;
+    } catch (error) {
+      this.forgetLateRun(subjectId, turn.turnNumber);
+      logger.warn('Timed-out run did not complete', {
+        subjectId,
+        agentName: turn.startingAgent.name,
+        operation: 'late_result'
+      }, { error: (error as Error).message });
+
+      await this.recordTurn(subjectId, {
+        trigger: 'message',
+        status: error instanceof TurnCancelledError ? 'cancelled' : 'failed',
+        channel: turn.channel,
+        agentName: turn.startingAgent.name,
+        userMessage: turn.userMessage,
+        startTime: turn.startTime,
+        error
+      });
+      return;
+    }
+    this.forgetLateRun(subjectId, turn.turnNumber);
+
+    try {
+      const reply = await this.turnQueue.run(subjectId, () => this.commitLateResult(subjectId, result, turn));
+      if (!reply) {
+        return;
+      }
+
+      let delivery: DeliveryResult = { subjectId, method: 'queued' };
+      if (this.lateResultNotifier) {
+        delivery = await this.lateResultNotifier.deliver(subjectId, reply, turn.channel);
+      } else {
+        await this.queueCustomerMessage(subjectId, reply);
+      }
+
+      logger.info('Late result delivered', {
+        subjectId,
+        agentName: turn.startingAgent.name,
+        operation: 'late_result'
+      }, {
+        method: delivery.method,
+        durationMs: Date.now() - turn.startTime
+      });
+    } catch (error) {
+      logger.error('Failed to deliver late result', error as Error, {
+        subjectId,
+        operation: 'late_result'
+      });
+    }
+  }
+
+  /**
+   * Commit a late result the way a completed turn would. Returns the reply to
+   * send, or undefined when the run stopped for tool approvals or was dropped
+   * because a newer turn has started or the session has ended since.
+   */
+  private async commitLateResult(subjectId: SubjectId, result: any, turn: LateTurn): Promise<string | undefined> {
+    if (this.latestTurns.get(subjectId) !== turn.turnNumber) {
+      logger.info('Late result dropped, the conversation has moved on', {
+        subjectId,
+        agentName: turn.startingAgent.name,
+        operation: 'late_result'
+      }, { durationMs: Date.now() - turn.startTime });
+
+      await this.recordTurn(subjectId, {
+        trigger: 'message',
+        status: 'cancelled',
+        channel: turn.channel,
+        agentName: turn.startingAgent.name,
+        userMessage: turn.userMessage,
+        startTime: turn.startTime,
+        result,
+        newItems: result.newItems || [],
+        error: new TurnCancelledError(subjectId, 'superseded')
+      });
+      return undefined;
+    }
+
+    const context = await this.getContext(subjectId);
+    const awaitingApprovals = result.interruptions?.length > 0;
+
+    if (awaitingApprovals) {
+      await this.saveRunState(subjectId, result.state, { agentName: turn.agentName, channel: turn.channel });
+    } else if (result.state) {
+      await this.deleteRunState(subjectId);
+    }
+
+    result.newItems?.forEach((item: any) => {
+      context.conversationHistory.push(item);
+    });
+
+    const currentAgent = result.currentAgent || turn.startingAgent;
+    this.trackHandoffs(subjectId, context, result.newItems || [], currentAgent, turn.channel);
+
+    await this.saveContext(subjectId, context);
+
+    if (awaitingApprovals) {
+      await this.emitApprovalRequests(subjectId, result.interruptions, turn.channel);
+    }
+    await this.recordTurn(subjectId, {
+      trigger: 'message',
+      status: awaitingApprovals ? 'awaiting_approval' : 'completed',
+      channel: turn.channel,
+      agentName: currentAgent.name,
+      userMessage: turn.userMessage,
+      startTime: turn.startTime,
+      result,
+      newItems: result.newItems || []
+    });
+
+    const finalOutput = result.finalOutput;
+    return awaitingApprovals || !finalOutput
+      ? undefined
+      : typeof finalOutput === 'string' ? finalOutput : JSON.stringify(finalOutput);
+  }
+
+  /**
+   * Append a turn to the transcript. Failures are logged rather than thrown so
+   * a transcript outage does not leave the customer without a reply.
+   */
+  private async recordTurn(
+    subjectId: SubjectId,
+    turn: Pick<TranscriptEntry, 'trigger' | 'status' | 'channel' | 'agentName' | 'userMessage'> & {
+      startTime: number;
+      result?: any;
+      newItems?: any[];
+      error?: unknown;
+    }
+  ): Promise<void> {
+    const finalOutput = turn.result?.finalOutput;
+    const entry: TranscriptEntry = {
+      subjectId,
+      sessionId: this.getTranscriptSessionId(subjectId),
+      trigger: turn.trigger,
+      status: turn.status,
+      channel: turn.channel,
+      agentName: turn.agentName,
+      userMessage: turn.userMessage,
+      agentOutput: typeof finalOutput === 'string' || finalOutput === undefined ? finalOutput : JSON.stringify(finalOutput),
+      toolCalls: this.extractToolCalls(subjectId, turn.newItems || []),
+      guardrails: this.extractGuardrailOutcomes(turn.result, turn.error),
+      latencyMs: Date.now() - turn.startTime,
+      error: turn.error ? (turn.error as Error).message : undefined
+    };
+
+    try {
+      await this.transcriptStore.append(entry);
+    } catch (error) {
+      logger.error('Failed to record conversation transcript', error as Error, {
+        subjectId,
+        operation: 'transcript_record'
+      }, { trigger: entry.trigger, status: entry.status });
+    }
+  }
+
+  /**
+   * Record that a turn has started for the subject
+   *
+   * @returns The turn's sequence number
+   */
+  private startTurn(subjectId: SubjectId): number {
+    const turnNumber = ++this.turnSequence;
+    this.latestTurns.set(subjectId, turnNumber);
+    // The held run's result would be dropped anyway; stop it now
+    this.cancelLateRun(subjectId, 'superseded');
+    return turnNumber;
+  }
+
+  /**
+   * Abort the subject's timed-out run still going in the background, if any
+   */
+  private cancelLateRun(subjectId: SubjectId, reason: string): void {
+    const lateRun = this.lateRuns.get(subjectId);
+    if (lateRun) {
+      this.lateRuns.delete(subjectId);
+      lateRun.cancel(reason);
+    }
+  }
+
+  private forgetLateRun(subjectId: SubjectId, turnNumber: number): void {
+    if (this.lateRuns.get(subjectId)?.turnNumber === turnNumber) {
+      this.lateRuns.delete(subjectId);
+    }
+  }
+
+  /**
+   * Transcript session for the subject; a new one starts after endSession
+   */
+  private getTranscriptSessionId(subjectId: SubjectId): string {
+    let sessionId = this.transcriptSessions.get(subjectId);
+    if (!sessionId) {
+      sessionId = randomUUID();
+      this.transcriptSessions.set(subjectId, sessionId);
+    }
+    return sessionId;
+  }
+
+  /**
+   * Tool calls made during a turn, matched with their outputs
+   */
+  private extractToolCalls(subjectId: SubjectId, items: any[]): TranscriptToolCall[] {
+    const calls: TranscriptToolCall[] = [];
+
+    for (const item of items) {
+      const callId = item.rawItem?.callId || item.rawItem?.id;
+
+      if (item.type === 'tool_call_item' || item.type === 'tool_approval_item') {
+        calls.push({
+          callId,
+          name: item.rawItem?.name,
+          arguments: this.parseToolArguments(item.rawItem?.arguments, subjectId),
+          awaitingApproval: item.type === 'tool_approval_item' || undefined
+        });
+      } else if (item.type === 'tool_call_output_item') {
+        const call = calls.find(candidate => candidate.callId === callId);
+        const output = item.output ?? item.rawItem?.output;
+        if (call) {
+          call.output = output;
+        } else {
+          // Output of a call made on an earlier turn, e.g. approved while the run was paused
+          calls.push({ callId, name: item.rawItem?.name, output });
+        }
+      }
+    }
+
+    return calls;
+  }
+
+  /**
+   * Guardrail results reported by the run, or the guardrail whose tripwire ended it
+   */
+  private extractGuardrailOutcomes(result?: any, error?: any): TranscriptGuardrailOutcome[] {
+    const outcome = (guardrailResult: any, stage: 'input' | 'output'): TranscriptGuardrailOutcome => ({
+      name: guardrailResult?.guardrail?.name,
+      stage,
+      triggered: !!guardrailResult?.output?.tripwireTriggered,
+      info: guardrailResult?.output?.outputInfo
+    });
+
+    if (error?.result?.guardrail) {
+      return [outcome(error.result, 'agentOutput' in error.result ? 'output' : 'input')];
+    }
+
+    return [
+      ...(result?.inputGuardrailResults || []).map((r: any) => outcome(r, 'input')),
+      ...(result?.outputGuardrailResults || []).map((r: any) => outcome(r, 'output'))
+    ];
+  }
+
+  /**
+   * Make reviewer reasons visible to the model on the resumed turn.
+   * 
+   * The SDK reports a rejected call to the model with a fixed "not approved"
+   * output, so the reasons are added to the run input as a system message.
+   */
+  private addReviewerNotes(runState: RunState<any, any>, notes: string[]): void {
+    this.appendInput(runState, {
+      type: 'message',
+      role: 'system',
+      content: `Tool call review notes. Explain these to the customer and continue helping them:\n${notes.join('\n')}`
+    });
+  }
+
+  /**
+   * Add an item to the input of an interrupted run, seen by the model when it resumes
+   */
+  private appendInput(runState: RunState<any, any>, item: AgentInputItem): void {
+    const originalInput = typeof runState._originalInput === 'string'
+      ? [{ type: 'message', role: 'user', content: runState._originalInput } as AgentInputItem]
+      : [...runState._originalInput];
+
+    originalInput.push(item);
+    runState._originalInput = originalInput;
+  }
+
+  /**
+   * Build agent input from the conversation history and its summary
+   */
+  private buildHistoryInput(context: CustomerContext, userMessage: string, includeProfile: boolean): AgentInputItem[] {
+    let input: AgentInputItem[];
+
+    // Use full conversation history if provided to maintain context
+    if (context && Array.isArray(context.conversationHistory) && context.conversationHistory.length > 0) {
+      // Filter history to only include plain message items (role + content) to avoid non-cloneable data
+      input = context.conversationHistory
+        .filter((i: any) => i && i.role && i.content)
+        .map((i: any) => ({ role: i.role, content: i.content })) as AgentInputItem[];
+    } else {
+      input = [{ role: 'user', content: userMessage }];
+    }
 
-    } catch (error) {
-      logger.error('Tool approval processing failed', error as Error, {
-        subjectId,
-        operation: 'tool_approvals'
-      });
+    // Inject the summary of compacted turns and customer profile context if available
+    input = this.enrichInputWithConversationSummary(input, context);
+    return includeProfile ? this.enrichInputWithCustomerProfile(input, context) : input;
+  }
 
-      // Clean up state on error
-      await this.deleteRunState(subjectId);
-      
-      // Return error message to user
-      return {
-        response: "I encountered an error while processing the approved actions. Please try your request again.",
-        history: [],
-        currentAgent: customerSupportAgent,
-        newItems: []
-      };
+  /**
+   * Prepend the summary of compacted conversation turns to agent input
+   */
+  private enrichInputWithConversationSummary(input: AgentInputItem[], context: CustomerContext): AgentInputItem[] {
+    const summary = context.conversationSummary;
+
+    if (!summary) {
+      return input;
+    }
+
+    let summaryMessage = `Summary of the earlier conversation:\n${summary.text}`;
+    if (summary.keyFacts.length > 0) {
+      summaryMessage += `\n\nKey facts:\n${summary.keyFacts.map(fact => `- ${fact}`).join('\n')}`;
     }
+
+    return [{ role: 'system', content: summaryMessage }, ...input];
   }
 
   /**
@@ -564,6 +1548,7 @@ export class ConversationService {
           // Update lastActiveAt and put in memory cache
           context.lastActiveAt = new Date();
           this.contexts.set(subjectId, context);
+          this.contextBases.set(context, this.snapshotContext(context));
           
           logger.info('Existing conversation context loaded', {
             subjectId,
@@ -597,6 +1582,7 @@ export class ConversationService {
       };
       
       this.contexts.set(subjectId, context);
+      this.contextBases.set(context, this.snapshotContext(context));
       
       logger.info('New conversation context created', {
         subjectId,
@@ -618,6 +1604,10 @@ export class ConversationService {
 
   /**
    * Save CustomerContext both in-memory and to persistent storage.
+   * 
+   * Contexts obtained from getContext are written with compare-and-set on their
+   * version. If another writer (e.g. the same customer on another channel) saved
+   * in the meantime, the latest stored context is merged in and the save retried.
    */
   async saveContext(subjectId: SubjectId, context: CustomerContext): Promise<void> {
     try {
@@ -628,7 +1618,7 @@ export class ConversationService {
       this.contexts.set(subjectId, context);
 
       // Persist context to storage for cross-session continuity
-      await this.contextStore.saveContext(subjectId, context);
+      await this.persistContext(subjectId, context);
       
       logger.debug('Conversation context saved', {
         subjectId,
@@ -646,6 +1636,239 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Write a context to the store, merging and retrying on version conflicts.
+   * 
+   * Contexts this service did not load or create (no base snapshot) are
+   * written unconditionally.
+   */
+  private async persistContext(subjectId: SubjectId, context: CustomerContext): Promise<void> {
+    let base = this.contextBases.get(context);
+
+    if (!base) {
+      await this.contextStore.saveContext(subjectId, context);
+      this.contextBases.set(context, this.snapshotContext(context));
+      return;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.contextStore.saveContext(subjectId, context, { expectedVersion: context.version ?? 0 });
+        this.contextBases.set(context, this.snapshotContext(context));
+        return;
+      } catch (error) {
+        if (!(error instanceof ContextVersionConflictError) || attempt >= this.MAX_CONTEXT_SAVE_ATTEMPTS) {
+          throw error;
+        }
+
+        const latest = await this.contextStore.loadContext(subjectId);
+
+        logger.warn('Conversation context changed since it was loaded, merging', {
+          subjectId,
+          operation: 'context_conflict'
+        }, {
+          attempt,
+          expectedVersion: error.expectedVersion,
+          actualVersion: error.actualVersion,
+          localTurns: context.conversationHistory.length - base.historyLength,
+          storedHistoryLength: latest?.conversationHistory.length ?? 0
+        });
+
+        if (latest) {
+          this.mergeContext(context, base, latest);
+          base = this.snapshotContext(latest);
+        } else {
+          // Deleted or expired in the meantime: write ours as a fresh context
+          context.version = 0;
+          base = { historyLength: 0, summarizedItemCount: 0, fields: {}, metadata: {} };
+        }
+      }
+    }
+  }
+
+  /**
+   * Three-way merge of a stored context into a local one, in place.
+   * 
+   * History is append-only, so the turns added locally since the base are
+   * appended to the stored history. Other fields (and metadata keys) keep
+   * the local value if it changed since the base, otherwise take the stored one.
+   * When either side compacted its history, the summary covering more turns
+   * wins and the stored turns it covers are dropped.
+   */
+  private mergeContext(local: CustomerContext, base: ContextBase, latest: CustomerContext): void {
+    // History positions are counted from the start of the conversation, including summarized items
+    const summarized = (context: { conversationSummary?: CustomerContext['conversationSummary'] }) =>
+      context.conversationSummary?.summarizedItemCount || 0;
+    const localTurns = local.conversationHistory.slice(
+      Math.max(base.summarizedItemCount + base.historyLength - summarized(local), 0)
+    );
+    const merged: Record<string, any> = { ...latest };
+
+    const keys = new Set([...Object.keys(local), ...Object.keys(base.fields)]);
+    for (const key of keys) {
+      if (key === 'conversationHistory' || key === 'metadata' || key === 'version') {
+        continue;
+      }
+      const value = (local as Record<string, any>)[key];
+      if (this.serializeField(value) !== (base.fields[key] ?? 'undefined')) {
+        merged[key] = value;
+      }
+    }
+
+    const metadata: Record<string, any> = { ...latest.metadata };
+    const metadataKeys = new Set([...Object.keys(local.metadata || {}), ...Object.keys(base.metadata)]);
+    for (const key of metadataKeys) {
+      const value = local.metadata?.[key];
+      if (this.serializeField(value) !== (base.metadata[key] ?? 'undefined')) {
+        if (value === undefined) {
+          delete metadata[key];
+        } else {
+          metadata[key] = value;
+        }
+      }
+    }
+
+    if (summarized(latest) > summarized(merged)) {
+      merged.conversationSummary = latest.conversationSummary;
+    }
+
+    merged.metadata = metadata;
+    merged.conversationHistory = [
+      ...latest.conversationHistory.slice(Math.max(summarized(merged) - summarized(latest), 0)),
+      ...localTurns
+    ];
+    merged.lastActiveAt = local.lastActiveAt;
+    merged.version = latest.version;
+
+    for (const key of Object.keys(local)) {
+      if (merged[key] === undefined) {
+        delete (local as Record<string, any>)[key];
+      }
+    }
+    Object.assign(local, merged);
+  }
+
+  private snapshotContext(context: CustomerContext): ContextBase {
+    const fields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(context)) {
+      if (key !== 'conversationHistory' && key !== 'metadata' && key !== 'version') {
+        fields[key] = this.serializeField(value);
+      }
+    }
+
+    const metadata: Record<string, string> = {};
+    for (const [key, value] of Object.entries(context.metadata || {})) {
+      metadata[key] = this.serializeField(value);
+    }
+
+    return {
+      historyLength: context.conversationHistory.length,
+      summarizedItemCount: context.conversationSummary?.summarizedItemCount || 0,
+      fields,
+      metadata
+    };
+  }
+
+  private serializeField(value: unknown): string {
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+  }
+
+  /**
+   * List tool calls that are waiting for a human decision.
+   * 
+   * Reads the pending RunStates from the state store and joins each interruption
+   * with the subject's CustomerContext. Pass a subjectId to limit the inbox to one subject.
+   */
+  async listPendingApprovals(subjectId?: SubjectId): Promise<PendingApproval[]> {
+    let records: RunStateRecord[];
+    if (subjectId) {
+      const record = await this.getRunState(subjectId);
+      records = record ? [record] : [];
+    } else {
+      records = await this.stateStore.listStates();
+    }
+
+    const approvals: PendingApproval[] = [];
+
+    for (const record of records) {
+      const { interruptions, approvers } = this.extractInterruptions(record);
+      if (interruptions.length === 0) {
+        continue;
+      }
+
+      const context = await this.peekContext(record.subjectId);
+
+      for (const interruption of interruptions) {
+        const rawItem = interruption.rawItem || {};
+        const toolCallId = rawItem.callId || rawItem.id;
+        approvals.push({
+          subjectId: record.subjectId,
+          toolCallId,
+          toolName: rawItem.name,
+          arguments: this.parseToolArguments(rawItem.arguments, record.subjectId),
+          agentName: interruption.agent?.name || record.currentAgentName,
+          channel: record.channel,
+          requestedAt: new Date(record.requestedAt ?? record.timestamp),
+          customerName: context?.customerName,
+          approver: approvers[toolCallId] || 'supervisor'
+        });
+      }
+    }
+
+    // Oldest requests first so reviewers work through the queue in order
+    approvals.sort((a, b) => a.requestedAt.getTime() - b.requestedAt.getTime());
+
+    logger.debug('Pending approvals listed', {
+      subjectId,
+      operation: 'approvals_list'
+    }, {
+      stateCount: records.length,
+      approvalCount: approvals.length
+    });
+
+    return approvals;
+  }
+
+  /**
+   * Queue a message for the customer's next turn on a channel that cannot
+   * receive outbound messages (e.g. voice or web chat).
+   */
+  async queueCustomerMessage(subjectId: SubjectId, message: string): Promise<void> {
+    const context = await this.getContext(subjectId);
+    context.queuedMessages = [...(context.queuedMessages || []), message];
+    await this.saveContext(subjectId, context);
+
+    logger.info('Customer message queued for next turn', {
+      subjectId,
+      operation: 'message_queue'
+    }, {
+      queuedCount: context.queuedMessages.length
+    });
+  }
+
+  /**
+   * Remove and return any messages queued for the customer
+   */
+  async takeQueuedMessages(subjectId: SubjectId): Promise<string[]> {
+    const context = await this.peekContext(subjectId);
+    if (!context?.queuedMessages?.length) {
+      return [];
+    }
+
+    const messages = context.queuedMessages;
+    context.queuedMessages = [];
+    await this.saveContext(subjectId, context);
+
+    logger.debug('Queued customer messages delivered', {
+      subjectId,
+      operation: 'message_queue_take'
+    }, {
+      messageCount: messages.length
+    });
+
+    return messages;
+  }
+
   /**
    * Get session information for a subject
    */
@@ -668,7 +1891,9 @@ export class ConversationService {
    * End a conversation session while preserving customer context for future sessions.
    * 
    * This method saves the customer context to persistent storage so returning customers
-   * get continuity, but cleans up temporary resources like runners and RunState.
+   * get continuity, but cleans up temporary resources like runners. A persisted RunState
+   * waiting on a reviewer is kept so the outcome can still be delivered after the
+   * customer leaves; approval expiry cleans up abandoned ones.
    */
   async endSession(subjectId: SubjectId): Promise<void> {
     try {
@@ -708,7 +1933,7 @@ export class ConversationService {
       // Save customer context to persistent storage before ending session
       if (context) {
         try {
-          await this.contextStore.saveContext(subjectId, context);
+          await this.persistContext(subjectId, context);
           logger.debug('Customer context persisted before session end', {
             subjectId,
             operation: 'session_end_context_save'
@@ -729,9 +1954,13 @@ export class ConversationService {
       
       // Remove runner from cache
       this.runnerCache.delete(subjectId);
-      
-      // Delete persistent RunState (tool approvals are session-specific)
-      await this.deleteRunState(subjectId);
+
+      // The customer's next turn starts a new transcript session
+      this.transcriptSessions.delete(subjectId);
+
+      // A run still finishing in the background is not delivered to an ended session
+      this.latestTurns.delete(subjectId);
+      this.cancelLateRun(subjectId, 'session_ended');
       
       logger.info('Conversation session ended', {
         subjectId,
@@ -879,12 +2108,224 @@ export class ConversationService {
   }
 
   /**
-   * Get the RunState for a given subject/conversation ID
+   * Resolve the agent that owns a persisted RunState through the agent registry.
+   * 
+   * Records saved before agent names were persisted fall back to the provided
+   * agent or the registry default.
+   */
+  private async resolveStateAgent(record: RunStateRecord, fallback?: Agent): Promise<Agent> {
+    if (!record.agentName) {
+      return fallback || agentRegistry.getDefault();
+    }
+
+    if (fallback && agentRegistry.getNameForAgent(fallback) === record.agentName) {
+      return fallback;
+    }
+
+    try {
+      return await agentRegistry.get(record.agentName);
+    } catch (error) {
+      logger.error('Agent owning pending RunState is no longer available', error as Error, {
+        subjectId: record.subjectId,
+        agentName: record.agentName,
+        operation: 'runstate_agent_resolve'
+      });
+      throw new Error(`Agent '${record.agentName}' that owns the pending state is no longer registered`);
+    }
+  }
+
+  /**
+   * Load the agent a conversation was last handed to. Agents that are no
+   * longer registered are forgotten so the turn falls back to the given agent.
+   */
+  private async resolveLastAgent(subjectId: SubjectId, context: CustomerContext): Promise<Agent | null> {
+    try {
+      return await agentRegistry.get(context.lastAgent!);
+    } catch (error) {
+      logger.warn('Last agent is no longer available, falling back', {
+        subjectId,
+        agentName: context.lastAgent,
+        operation: 'last_agent_resolve'
+      }, { error: (error as Error).message });
+
+      context.lastAgent = undefined;
+      return null;
+    }
+  }
+
+  /**
+   * Emit a handoff event for each handoff in the turn's items and remember
+   * the agent the run ended with, so the next turn resumes with it
+   */
+  private trackHandoffs(
+    subjectId: SubjectId,
+    context: CustomerContext,
+    newItems: any[],
+    currentAgent: Agent,
+    channel?: string
+  ): void {
+    const nameOf = (agent: Agent) => agentRegistry.getNameForAgent(agent) || agent.name;
+
+    for (const item of newItems) {
+      if (item?.type !== 'handoff_output_item' || !item.sourceAgent || !item.targetAgent) {
+        continue;
+      }
+
+      eventBus.emit('handoff', {
+        subjectId,
+        fromAgent: nameOf(item.sourceAgent),
+        toAgent: nameOf(item.targetAgent),
+        channel
+      });
+    }
+
+    // Only registered agents can be loaded again on the next turn
+    const currentAgentName = agentRegistry.getNameForAgent(currentAgent);
+    if (currentAgentName) {
+      context.lastAgent = currentAgentName;
+    }
+  }
+
+  /**
+   * Query the approval audit log, e.g. for compliance reviews of refunds
+   */
+  async getAuditLog(filter: AuditQuery = {}): Promise<AuditRecord[]> {
+    return this.auditStore.query(filter);
+  }
+
+  /**
+   * Query recorded conversation turns by subject, session and time range
+   */
+  async getTranscripts(filter: TranscriptQuery = {}): Promise<TranscriptRecord[]> {
+    return this.transcriptStore.query(filter);
+  }
+
+  /**
+   * Everything the conversation layer holds about a subject: the customer
+   * context, any run paused for approval, the approval audit trail and the
+   * transcript
+   */
+  async exportSubject(subjectId: SubjectId): Promise<unknown> {
+    const [context, runState, auditRecords, transcript] = await Promise.all([
+      this.contexts.get(subjectId) || this.contextStore.loadContext(subjectId),
+      this.stateStore.loadStateRecord(subjectId),
+      this.auditStore.query({ subjectId }),
+      this.transcriptStore.query({ subjectId })
+    ]);
+
+    if (!context && !runState && auditRecords.length === 0 && transcript.length === 0) {
+      return null;
+    }
+    return { context, runState, auditRecords, transcript };
+  }
+
+  /**
+   * Remove the subject's context, paused run, audit records and transcript.
+   * Waits for any turn in progress so it cannot write the context back afterwards.
+   */
+  async eraseSubject(subjectId: SubjectId): Promise<number> {
+    return this.turnQueue.run(subjectId, async () => {
+      let erased = 0;
+
+      const context = this.contexts.get(subjectId) || await this.contextStore.loadContext(subjectId);
+      this.contexts.delete(subjectId);
+      this.runnerCache.delete(subjectId);
+      this.transcriptSessions.delete(subjectId);
+      this.latestTurns.delete(subjectId);
+      this.cancelLateRun(subjectId, 'erased');
+      if (context) {
+        await this.contextStore.deleteContext(subjectId);
+        erased++;
+      }
+
+      if (await this.stateStore.loadStateRecord(subjectId)) {
+        await this.stateStore.deleteState(subjectId);
+        erased++;
+      }
+
+      erased += await this.auditStore.deleteSubject(subjectId);
+      return erased + await this.transcriptStore.deleteSubject(subjectId);
+    });
+  }
+
+  /**
+   * Read the pending tool approval items, and who may decide them, out of a
+   * serialized RunState without rehydrating it, so agents that are no longer
+   * loaded do not block the inbox.
+   */
+  private extractInterruptions(record: RunStateRecord): {
+    interruptions: any[];
+    approvers: Record<string, ToolApprover>;
+  } {
+    try {
+      const state = JSON.parse(record.runState);
+      const approvers = (state.context?.context as AgentRunContext | undefined)?.approvers || {};
+
+      if (state.currentStep?.type === 'next_step_interruption') {
+        return { interruptions: state.currentStep.data?.interruptions || [], approvers };
+      }
+
+      return {
+        interruptions: (state.generatedItems || []).filter(
+          (item: any) => item.type === 'tool_approval_item'
+        ),
+        approvers
+      };
+    } catch (error) {
+      logger.warn('Failed to parse pending RunState', {
+        subjectId: record.subjectId,
+        operation: 'approvals_list'
+      }, { error: (error as Error).message });
+      return { interruptions: [], approvers: {} };
+    }
+  }
+
+  /**
+   * Parse the JSON arguments string of a function call
+   */
+  private parseToolArguments(args: unknown, subjectId: SubjectId): Record<string, any> {
+    if (typeof args !== 'string') {
+      return (args as Record<string, any>) || {};
+    }
+
+    try {
+      return JSON.parse(args);
+    } catch {
+      logger.warn('Tool call arguments are not valid JSON', {
+        subjectId,
+        operation: 'approvals_list'
+      });
+      return { raw: args };
+    }
+  }
+
+  /**
+   * Look up a CustomerContext without creating one or starting a session
+   */
+  private async peekContext(subjectId: SubjectId): Promise<CustomerContext | null> {
+    const cached = this.contexts.get(subjectId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      return await this.contextStore.loadContext(subjectId);
+    } catch (error) {
+      logger.warn('Failed to load context for pending approval', {
+        subjectId,
+        operation: 'approvals_list'
+      }, { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  /**
+   * Get the RunState record for a given subject/conversation ID
    */
-  private async getRunState(subjectId: string): Promise<string | null> {
+  private async getRunState(subjectId: string): Promise<RunStateRecord | null> {
     try {
       const startTime = Date.now();
-      const stateString = await this.stateStore.loadState(subjectId);
+      const stateRecord = await this.stateStore.loadStateRecord(subjectId);
       const duration = Date.now() - startTime;
       
       if (duration > this.SLOW_OPERATION_THRESHOLD_MS) {
@@ -897,18 +2338,19 @@ export class ConversationService {
         });
       }
       
-      if (!stateString) {
+      if (!stateRecord) {
         return null;
       }
       
       logger.debug('RunState loaded for conversation', {
         subjectId,
+        agentName: stateRecord.agentName,
         operation: 'runstate_get'
       }, {
         durationMs: duration
       });
       
-      return stateString;
+      return stateRecord;
     } catch (error) {
       logger.error('Failed to get RunState', error as Error, {
         subjectId,
@@ -921,11 +2363,19 @@ export class ConversationService {
   /**
    * Save the RunState for a given subject/conversation ID
    */
-  private async saveRunState(subjectId: string, runState: RunState<any, any>): Promise<void> {
+  private async saveRunState(
+    subjectId: string,
+    runState: RunState<any, any>,
+    metadata: Pick<RunStateMetadata, 'agentName' | 'channel' | 'requestedAt'> = {}
+  ): Promise<void> {
     try {
       const stateString = runState.toString();
       const startTime = Date.now();
-      await this.stateStore.saveState(subjectId, stateString);
+      await this.stateStore.saveState(subjectId, stateString, {
+        ...metadata,
+        currentAgentName: runState._currentAgent?.name,
+        requestedAt: metadata.requestedAt ?? startTime
+      });
       const duration = Date.now() - startTime;
       
       if (duration > this.SLOW_OPERATION_THRESHOLD_MS) {
@@ -954,6 +2404,21 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Original request time of a pending state that is saved again while some of
+   * its calls are still waiting, so re-saving does not restart approval TTLs
+   */
+  private keptRequestTime(
+    pendingState: RunStateRecord | null,
+    previousCallIds: string[],
+    interruptions: any[]
+  ): number | undefined {
+    const stillPending = interruptions.some((interruption: any) =>
+      previousCallIds.includes(interruption.rawItem?.callId || interruption.rawItem?.id)
+    );
+    return pendingState && stillPending ? pendingState.requestedAt ?? pendingState.timestamp : undefined;
+  }
+
   /**
    * Delete RunState for a given subject/conversation ID
    */
@@ -989,28 +2454,115 @@ export class ConversationService {
 
   /**
    * Execute function with timeout
+   *
+   * A streamed run resolves as soon as its stream starts, so it only counts as
+   * finished once its `completed` promise settles; the timeout and `signal`
+   * apply until then.
+   *
+   * With `lateRunMs`, a timed-out run is left to finish in the background for
+   * up to that long and handed back as the TurnTimeoutError's `lateResult`.
+   * `signal` can still cancel it until it finishes.
    */
   private async executeWithTimeout<T>(
-    fn: () => Promise<T>, 
-    timeoutMs: number
+    subjectId: SubjectId,
+    fn: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    signal?: AbortSignal,
+    lateRunMs?: number
   ): Promise<T> {
-    const timeoutPromise = new Promise<never>((_, reject) => 
-      setTimeout(() => reject(new Error('Operation timeout')), timeoutMs)
-    );
+    // Aborted on timeout or cancellation so the run stops instead of finishing in the background
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    let runningLate = false;
+    const detachSignal = () => {
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    };
+    const run = Promise.resolve(fn(controller.signal)).then(async result => {
+      const completed = (result as any)?.completed;
+      if (completed) {
+        await completed;
+      }
+      return result;
+    });
+
+    const stopped = new Promise<never>((_, reject) => {
+      const stop = (error: Error) => {
+        controller.abort(error);
+        reject(error);
+      };
+
+      timer = setTimeout(() => {
+        if (lateRunMs === undefined) {
+          stop(new TurnTimeoutError(subjectId, timeoutMs));
+          return;
+        }
+
+        runningLate = true;
+        const limit = setTimeout(() => controller.abort(new TurnTimeoutError(subjectId, lateRunMs)), lateRunMs);
+        // Settles on abort too; a cancelled stream's `completed` never does
+        const aborted = new Promise<never>((_, rejectLate) => {
+          controller.signal.addEventListener('abort', () => rejectLate(controller.signal.reason), { once: true });
+        });
+        const lateResult = Promise.race([run, aborted]).finally(() => {
+          clearTimeout(limit);
+          detachSignal();
+        });
+        reject(new TurnTimeoutError(
+          subjectId,
+          timeoutMs,
+          lateResult,
+          reason => controller.abort(new TurnCancelledError(subjectId, reason))
+        ));
+      }, timeoutMs);
+      onAbort = () => stop(new TurnCancelledError(subjectId, this.abortReason(signal!)));
+
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+
+    try {
+      return await Promise.race([run, stopped]);
+    } finally {
+      clearTimeout(timer);
+      if (!runningLate) {
+        detachSignal();
+      }
+    }
+  }
 
-    return Promise.race([fn(), timeoutPromise]);
+  private abortReason(signal: AbortSignal): string {
+    const reason = signal.reason;
+    if (typeof reason === 'string') {
+      return reason;
+    }
+    return reason instanceof Error && reason.name !== 'AbortError' ? reason.message : 'aborted';
+  }
+
+  /**
+   * Expose the run's abort signal to tools through the run context. Kept
+   * non-enumerable so it is not serialized with the RunState.
+   */
+  private attachSignal(runContext: AgentRunContext, signal: AbortSignal): AgentRunContext {
+    Object.defineProperty(runContext, 'signal', { value: signal, enumerable: false, configurable: true });
+    return runContext;
   }
 
   /**
    * Handle streaming output from agent execution
    */
-  private async handleStreamingOutput(
+  private handleStreamingOutput(
     result: any, 
     showProgress: boolean, 
     enableDebugLogs: boolean,
     subjectId: SubjectId,
     agentName: string
-  ): Promise<void> {
+  ): void {
     if (!showProgress) return;
 
     try {
@@ -1039,9 +2591,11 @@ export class ConversationService {
         });
       });
 
+      textStream.on('end', () => {
+        console.log('\n'); // New line after streaming
+      });
+
       textStream.pipe(process.stdout);
-      await result.completed;
-      console.log('\n'); // New line after streaming
       
     } catch (error) {
       logger.error('Streaming output failed', error as Error, {
@@ -0,0 +1,159 @@
+import twilio from 'twilio';
+import { ConversationService, conversationService } from './conversationService';
+import { LiveConnectionRegistry, liveConnections } from '../channels/LiveConnectionRegistry';
+import { logger } from '../utils/logger';
+import { SubjectId } from '../types/common';
+
+export type DeliveryMethod = 'sms' | 'live' | 'queued';
+
+export interface DeliveryResult {
+  subjectId: SubjectId;
+  method: DeliveryMethod;
+}
+
+export interface CustomerNotifierOptions {
+  conversationService?: ConversationService;
+  liveConnections?: LiveConnectionRegistry;
+  twilioClient?: twilio.Twilio;
+  fromNumber?: string;
+}
+
+/**
+ * CustomerNotifier - Delivers agent messages produced outside a customer turn
+ *
+ * SMS customers are messaged directly via the Twilio REST API. Voice and web chat
+ * customers get the message pushed over their open connection (a live call or
+ * chat stream). When neither is possible the message is queued for their next turn.
+ */
+export class CustomerNotifier {
+  private conversationService: ConversationService;
+  private liveConnections: LiveConnectionRegistry;
+  private twilioClient?: twilio.Twilio;
+  private fromNumber?: string;
+
+  constructor(options: CustomerNotifierOptions = {}) {
+    this.conversationService = options.conversationService || conversationService;
+    this.liveConnections = options.liveConnections || liveConnections;
+    this.twilioClient = options.twilioClient || this.createTwilioClient();
+    this.fromNumber = options.fromNumber || process.env.TWILIO_PHONE_NUMBER;
+  }
+
+  private createTwilioClient(): twilio.Twilio | undefined {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const apiKeySid = process.env.TWILIO_API_KEY_SID;
+    const apiKeySecret = process.env.TWILIO_API_KEY_SECRET;
+
+    if (accountSid && apiKeySid && apiKeySecret) {
+      return twilio(apiKeySid, apiKeySecret, { accountSid });
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Deliver a message to the customer over the channel they were last on
+   *
+   * @param subjectId - Subject to notify
+   * @param message - Message text
+   * @param channel - Channel the customer was last on (e.g. 'sms', 'voice', 'web')
+   */
+  async deliver(subjectId: SubjectId, message: string, channel?: string): Promise<DeliveryResult> {
+    if (channel === 'sms' && await this.sendSms(subjectId, message)) {
+      return { subjectId, method: 'sms' };
+    }
+
+    if (channel && channel !== 'sms' && await this.sendLive(subjectId, message, channel)) {
+      return { subjectId, method: 'live' };
+    }
+
+    await this.conversationService.queueCustomerMessage(subjectId, message);
+    return { subjectId, method: 'queued' };
+  }
+
+  private async sendLive(subjectId: SubjectId, message: string, channel: string): Promise<boolean> {
+    const send = this.liveConnections.get(subjectId, channel);
+    if (!send) {
+      return false;
+    }
+
+    try {
+      await send(message);
+
+      logger.info('Message pushed to live customer connection', {
+        subjectId,
+        operation: 'customer_notify_live',
+        adapterName: channel
+      });
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to push message to live connection, queueing message instead', error as Error, {
+        subjectId,
+        operation: 'customer_notify_live',
+        adapterName: channel
+      });
+      return false;
+    }
+  }
+
+  private async sendSms(subjectId: SubjectId, message: string): Promise<boolean> {
+    const context = await this.conversationService.getContext(subjectId);
+
+    // Only text the number the customer contacted us from, never one typed into a message
+    if (!context.verifiedPhone) {
+      logger.warn('No verified phone number on file, queueing message instead', {
+        subjectId,
+        operation: 'customer_notify_sms',
+        adapterName: 'sms'
+      });
+      return false;
+    }
+
+    return this.sendSmsTo(context.verifiedPhone, message, subjectId);
+  }
+
+  /**
+   * Send an SMS to any number from the configured Twilio number
+   *
+   * @returns True if Twilio accepted the message
+   */
+  async sendSmsTo(to: string, message: string, subjectId?: SubjectId): Promise<boolean> {
+    if (!this.twilioClient || !this.fromNumber) {
+      logger.warn('Cannot send outbound SMS, Twilio is not configured', {
+        subjectId,
+        operation: 'customer_notify_sms',
+        adapterName: 'sms'
+      }, {
+        hasTwilioClient: !!this.twilioClient,
+        hasFromNumber: !!this.fromNumber
+      });
+      return false;
+    }
+
+    try {
+      const smsResponse = await this.twilioClient.messages.create({
+        body: message,
+        from: this.fromNumber,
+        to
+      });
+
+      logger.info('Outbound SMS sent', {
+        subjectId,
+        operation: 'customer_notify_sms',
+        adapterName: 'sms'
+      }, {
+        sid: smsResponse.sid,
+        status: smsResponse.status
+      });
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to send outbound SMS', error as Error, {
+        subjectId,
+        operation: 'customer_notify_sms',
+        adapterName: 'sms'
+      });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import { SubjectId, SubjectDataSource } from '../types/common';
+import { SegmentDeletionClient } from '../identity/segment-deletion';
+
+/**
+ * Everything held about a subject, keyed by data source name
+ */
+export interface SubjectExportBundle {
+  subjectId: SubjectId;
+  exportedAt: string;
+  sources: Record<string, unknown>;
+  errors: Record<string, string>; // Sources that could not be read, so the bundle is known to be partial
+}
+
+export interface ErasureSourceResult {
+  name: string;
+  status: 'erased' | 'failed';
+  itemsErased: number;
+  error?: string;
+}
+
+/**
+ * Record that an erasure request was carried out. Identifies the subject by
+ * hash only, so keeping the receipt does not retain the identifier.
+ */
+export interface ErasureReceipt {
+  receiptId: string;
+  subjectHash: string;
+  requestedAt: string;
+  completedAt: string;
+  sources: ErasureSourceResult[];
+  segment: {
+    status: 'requested' | 'skipped' | 'failed';
+    requestId?: string;
+    reason?: string;
+  };
+  complete: boolean; // Every source was erased and no Segment request failed
+}
+
+export interface DataSubjectServiceOptions {
+  receiptDir?: string;
+  segmentDeletion?: SegmentDeletionClient;
+}
+
+export interface EraseOptions {
+  /**
+   * Also ask Segment to delete and suppress the subject (default true when a client is configured)
+   */
+  segment?: boolean;
+}
+
+/**
+ * Log files written by the application logger. JSON lines whose `subjectId`
+ * field is the subject are exported and removed; files are rewritten in place
+ * because the logger keeps them open for appending.
+ */
+export class LogFileDataSource implements SubjectDataSource {
+  readonly name = 'logs';
+
+  constructor(private logDir = 'logs') {}
+
+  async exportSubject(subjectId: SubjectId): Promise<unknown> {
+    const lines: string[] = [];
+    for (const file of await this.listLogFiles()) {
+      const content = await fs.readFile(file, 'utf-8');
+      lines.push(...content.split('\n').filter(line => this.isSubjectLine(line, subjectId)));
+    }
+    return lines.length > 0 ? { lines } : null;
+  }
+
+  async eraseSubject(subjectId: SubjectId): Promise<number> {
+    let removed = 0;
+    for (const file of await this.listLogFiles()) {
+      const lines = (await fs.readFile(file, 'utf-8')).split('\n');
+      const kept = lines.filter(line => !this.isSubjectLine(line, subjectId));
+      if (kept.length < lines.length) {
+        removed += lines.length - kept.length;
+        await fs.writeFile(file, kept.join('\n'));
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Exact match on the logged subject, so IDs that contain this one are left alone
+   */
+  private isSubjectLine(line: string, subjectId: SubjectId): boolean {
+    if (!line.trim()) {
+      return false;
+    }
+    try {
+      return JSON.parse(line).subjectId === subjectId;
+    } catch {
+      return false; // Not written by the application logger
+    }
+  }
+
+  private async listLogFiles(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.logDir);
+      return files.filter(file => file.endsWith('.log')).map(file => join(this.logDir, file));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * DataSubjectService - data subject export and erasure
+ *
+ * Fans privacy requests out to every registered data source (conversation
+ * stores, resolver mappings, caches, logs) and records erasures in a receipt.
+ * Sources are erased in registration order, so register the log source last
+ * to also remove lines written while erasing the others.
+ */
+export class DataSubjectService {
+  private receiptDir: string;
+  private segmentDeletion?: SegmentDeletionClient;
+
+  constructor(private sources: SubjectDataSource[], options: DataSubjectServiceOptions = {}) {
+    this.receiptDir = options.receiptDir || process.env.ERASURE_RECEIPT_DIR || './data/erasure-receipts';
+    this.segmentDeletion = options.segmentDeletion;
+  }
+
+  /**
+   * Collect everything held about the subject from every source
+   */
+  async exportSubject(subjectId: SubjectId): Promise<SubjectExportBundle> {
+    const bundle: SubjectExportBundle = {
+      subjectId,
+      exportedAt: new Date().toISOString(),
+      sources: {},
+      errors: {}
+    };
+
+    for (const source of this.sources) {
+      try {
+        const data = await source.exportSubject(subjectId);
+        if (data !== null && data !== undefined) {
+          bundle.sources[source.name] = data;
+        }
+      } catch (error) {
+        bundle.errors[source.name] = (error as Error).message;
+        logger.error('Failed to export subject data from source', error as Error, {
+          subjectId,
+          operation: 'subject_export'
+        }, {
+          source: source.name
+        });
+      }
+    }
+
+    logger.info('Subject data exported', {
+      subjectId,
+      operation: 'subject_export'
+    }, {
+      sources: Object.keys(bundle.sources),
+      failedSources: Object.keys(bundle.errors)
+    });
+
+    return bundle;
+  }
+
+  /**
+   * Erase everything held about the subject and write a receipt. A failing
+   * source does not stop the others; the receipt records what failed so the
+   * request can be retried.
+   */
+  async eraseSubject(subjectId: SubjectId, options: EraseOptions = {}): Promise<ErasureReceipt> {
+    const receiptId = randomUUID();
+    const requestedAt = new Date().toISOString();
+    const sources: ErasureSourceResult[] = [];
+
+    // Logged by receipt only: the subject ID would otherwise land back in the logs being erased
+    for (const source of this.sources) {
+      try {
+        sources.push({ name: source.name, status: 'erased', itemsErased: await source.eraseSubject(subjectId) });
+      } catch (error) {
+        sources.push({ name: source.name, status: 'failed', itemsErased: 0, error: (error as Error).message });
+        logger.error('Failed to erase subject data from source', error as Error, {
+          operation: 'subject_erase'
+        }, {
+          receiptId,
+          source: source.name
+        });
+      }
+    }
+
+    const segment = await this.requestSegmentDeletion(subjectId, receiptId, options);
+
+    const receipt: ErasureReceipt = {
+      receiptId,
+      subjectHash: createHash('sha256').update(subjectId).digest('hex'),
+      requestedAt,
+      completedAt: new Date().toISOString(),
+      sources,
+      segment,
+      complete: sources.every(result => result.status === 'erased') && segment.status !== 'failed'
+    };
+
+    await fs.mkdir(this.receiptDir, { recursive: true });
+    await fs.writeFile(join(this.receiptDir, `${receiptId}.json`), JSON.stringify(receipt, null, 2));
+
+    logger.info('Subject data erased', {
+      operation: 'subject_erase'
+    }, {
+      receiptId,
+      complete: receipt.complete,
+      itemsErased: sources.reduce((total, result) => total + result.itemsErased, 0)
+    });
+
+    return receipt;
+  }
+
+  private async requestSegmentDeletion(
+    subjectId: SubjectId,
+    receiptId: string,
+    options: EraseOptions
+  ): Promise<ErasureReceipt['segment']> {
+    if (!this.segmentDeletion) {
+      return { status: 'skipped', reason: 'Segment deletion is not configured' };
+    }
+    if (options.segment === false) {
+      return { status: 'skipped', reason: 'Not requested' };
+    }
+
+    try {
+      return await this.segmentDeletion.requestDeletion(subjectId);
+    } catch (error) {
+      logger.error('Failed to request Segment deletion', error as Error, {
+        operation: 'subject_erase'
+      }, {
+        receiptId
+      });
+      return { status: 'failed', reason: (error as Error).message };
+    }
+  }
+}
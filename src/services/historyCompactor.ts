@@ -0,0 +1,204 @@
+import { Agent, Runner } from '@openai/agents';
+import { logger } from '../utils/logger';
+import { CustomerContext, ConversationSummary } from '../context/types';
+import { SubjectId } from '../types/common';
+import { HistoryCompactionConfig } from '../config/history';
+
+/**
+ * Turns a slice of conversation history into a short summary
+ */
+export interface HistorySummarizer {
+  /**
+   * @param items - History items being compacted, oldest first
+   * @param previous - Summary of the items compacted before these, if any
+   * @param signal - Aborted when the turn that needs the summary is cancelled or times out
+   * @returns Summary covering both the previous summary and the items
+   */
+  summarize(items: any[], previous?: ConversationSummary, signal?: AbortSignal): Promise<string>;
+}
+
+const SUMMARIZER_INSTRUCTIONS = `You summarize customer support conversations so an agent can continue them later.
+
+Write a concise summary in plain sentences covering:
+- What the customer asked for and why
+- What was looked up, done or promised, and the outcome
+- Anything still open or awaiting follow-up
+
+Keep order numbers, tracking numbers, amounts and dates exactly as written. Do not invent details.`;
+
+/**
+ * Default summarizer: asks a small agent to summarize the transcript
+ */
+export class AgentHistorySummarizer implements HistorySummarizer {
+  private agent?: Agent;
+
+  constructor(private model: string) {}
+
+  async summarize(items: any[], previous?: ConversationSummary, signal?: AbortSignal): Promise<string> {
+    if (!this.agent) {
+      this.agent = new Agent({
+        name: 'Conversation Summarizer',
+        instructions: SUMMARIZER_INSTRUCTIONS,
+        model: this.model
+      });
+    }
+
+    const transcript = items
+      .map(item => `${item.role || item.type || 'item'}: ${itemText(item)}`)
+      .filter(line => !line.endsWith(': '))
+      .join('\n');
+
+    const prompt = previous
+      ? `Summary of the conversation so far:\n${previous.text}\n\nLater messages:\n${transcript}\n\nWrite one updated summary covering everything.`
+      : `Conversation:\n${transcript}`;
+
+    const result = await new Runner().run(this.agent, prompt, { signal });
+    const text = typeof result.finalOutput === 'string' ? result.finalOutput.trim() : '';
+
+    if (!text) {
+      throw new Error('Summarizer returned an empty summary');
+    }
+    return text;
+  }
+}
+
+/**
+ * Rough token estimate for budget checks (about four characters per token)
+ */
+export function estimateTokens(items: any[]): number {
+  return Math.ceil(items.reduce((total, item) => total + itemText(item).length, 0) / 4);
+}
+
+/**
+ * Facts that must survive summarization word for word
+ */
+export function extractKeyFacts(items: any[], context: CustomerContext): string[] {
+  const facts: string[] = [];
+  const text = items.map(itemText).join('\n');
+
+  for (const match of text.matchAll(/\b(ORD[_-][A-Za-z0-9]+)\b/g)) {
+    facts.push(`Order number: ${match[1]}`);
+  }
+  for (const match of text.matchAll(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g)) {
+    facts.push(`Email: ${match[0]}`);
+  }
+  if (context.currentOrder) {
+    facts.push(`Current order: ${context.currentOrder}`);
+  }
+  for (const issue of context.resolvedIssues || []) {
+    facts.push(`Resolved issue: ${issue}`);
+  }
+
+  return facts;
+}
+
+/**
+ * HistoryCompactor - keeps replayed conversation history within budget
+ *
+ * Once a context's history grows past the configured size or token budget,
+ * the older turns are replaced by a summary stored in
+ * `CustomerContext.conversationSummary` and only recent turns are kept
+ * verbatim. Key facts are carried forward across compactions.
+ */
+export class HistoryCompactor {
+  private summarizer: HistorySummarizer;
+
+  constructor(private config: HistoryCompactionConfig, summarizer?: HistorySummarizer) {
+    this.summarizer = summarizer || new AgentHistorySummarizer(config.summaryModel);
+  }
+
+  needsCompaction(context: CustomerContext): boolean {
+    const history = context.conversationHistory;
+    return this.config.enabled && history.length > this.config.keepRecentMessages && (
+      history.length > this.config.maxMessages || estimateTokens(history) > this.config.maxTokens
+    );
+  }
+
+  /**
+   * Compact the context's history in place if it is over budget
+   *
+   * @param signal - The turn's abort signal; once aborted, summarization stops and its reason is thrown
+   * @returns true if the history was compacted; a failed summarization leaves it unchanged
+   */
+  async compact(subjectId: SubjectId, context: CustomerContext, signal?: AbortSignal): Promise<boolean> {
+    if (!this.needsCompaction(context)) {
+      return false;
+    }
+
+    const history = context.conversationHistory;
+
+    // Keep recent turns from a user message onwards so tool calls stay with their results
+    let cut = history.length - this.config.keepRecentMessages;
+    while (cut > 0 && history[cut]?.role !== 'user') {
+      cut--;
+    }
+    if (cut === 0) {
+      return false;
+    }
+
+    const older = history.slice(0, cut);
+    const previous = context.conversationSummary;
+
+    let text: string;
+    try {
+      text = await this.summarizer.summarize(older, previous, signal);
+    } catch (error) {
+      // The turn was cancelled or timed out; it is not a summarization failure
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      logger.error('Failed to summarize conversation history', error as Error, {
+        subjectId,
+        operation: 'history_compaction'
+      }, {
+        historyLength: history.length
+      });
+      return false;
+    }
+
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+
+    const keyFacts = Array.from(new Set([...(previous?.keyFacts || []), ...extractKeyFacts(older, context)]));
+
+    context.conversationSummary = {
+      text,
+      keyFacts,
+      summarizedItemCount: (previous?.summarizedItemCount || 0) + cut,
+      updatedAt: new Date().toISOString()
+    };
+    history.splice(0, cut);
+
+    logger.info('Conversation history compacted', {
+      subjectId,
+      operation: 'history_compaction'
+    }, {
+      summarizedItems: cut,
+      keptItems: history.length,
+      keyFactCount: keyFacts.length,
+      totalSummarizedItems: context.conversationSummary.summarizedItemCount
+    });
+
+    return true;
+  }
+}
+
+function itemText(item: any): string {
+  if (!item) {
+    return '';
+  }
+  if (typeof item.content === 'string') {
+    return item.content;
+  }
+  if (Array.isArray(item.content)) {
+    return item.content.map((part: any) => part?.text || part?.transcript || '').join(' ');
+  }
+  if (typeof item.output === 'string') {
+    return item.output;
+  }
+  if (typeof item.arguments === 'string') {
+    return `${item.name || ''}(${item.arguments})`;
+  }
+  return '';
+}
@@ -1 +1,7 @@
-export * from './conversationService';
\ No newline at end of file
+export * from './conversationService';
+export * from './customerNotifier';
+export * from './approvalExpiry';
+export * from './supervisorApprovals';
+export * from './turnQueue';
+export * from './historyCompactor';
+export * from './dataSubjectService';
@@ -0,0 +1,319 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { logger } from '../../utils/logger';
+import { RunStateStore, CustomerContextStore, RunStateMetadata, RunStateRecord, SaveContextOptions } from './types';
+import { CustomerContext } from '../../context/types';
+
+type StateStore = RunStateStore & CustomerContextStore;
+
+/**
+ * A 256-bit AES key and the ID it is tagged with in ciphertexts
+ */
+export interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface EncryptedStoreConfig {
+  /**
+   * Every key that may have encrypted stored data; old keys stay here until
+   * the data they protect has been re-saved or has expired
+   */
+  keys: EncryptionKey[];
+
+  /**
+   * Key used for new writes (default: the first key)
+   */
+  activeKeyId?: string;
+
+  /**
+   * Accept values written before encryption was enabled, while migrating
+   * existing data. Otherwise unencrypted values are rejected.
+   */
+  allowPlaintext?: boolean;
+}
+
+/**
+ * A stored value could not be decrypted: it was written with a key that is
+ * no longer configured, was tampered with or moved to another subject, or is
+ * unencrypted while plaintext is not allowed
+ */
+export class StateDecryptionError extends Error {
+  constructor(public readonly subjectId: string | undefined, reason: string) {
+    super(`Cannot decrypt stored data${subjectId ? ` for subject ${subjectId}` : ''}: ${reason}`);
+    this.name = 'StateDecryptionError';
+  }
+}
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Parse `ENCRYPTION_KEYS`-style configuration: comma-separated `id:base64key` pairs
+ *
+ * @example parseEncryptionKeys('2024-06:q3Vx...,2024-01:Zm9v...')
+ */
+export function parseEncryptionKeys(spec: string): EncryptionKey[] {
+  return spec.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid encryption key entry '${entry.slice(0, 8)}...': expected id:base64key`);
+    }
+    return { id: entry.slice(0, separator), key: Buffer.from(entry.slice(separator + 1), 'base64') };
+  });
+}
+
+/**
+ * Encryption-at-rest decorator for any RunStateStore & CustomerContextStore
+ *
+ * Run states and customer contexts are sealed with AES-256-GCM before they
+ * reach the wrapped store, and opened again on load. Each ciphertext carries
+ * the ID of the key that produced it, so keys can be rotated by adding a new
+ * active key while keeping the old ones for reading. The subject ID is bound
+ * as additional authenticated data, so a ciphertext moved to another subject
+ * fails to decrypt.
+ *
+ * Contexts are stored as a shell holding only the session dates (which the
+ * wrapped stores need for expiry) with everything else sealed in
+ * `metadata.encrypted`. Values written before encryption was enabled are
+ * only read with `allowPlaintext` set, and are encrypted on their next save.
+ * Anything that cannot be decrypted raises a StateDecryptionError rather than
+ * reading as missing, so callers never mistake it for an empty conversation.
+ *
+ * Subject IDs are used as storage keys and are not encrypted.
+ */
+export class EncryptedStateStore implements RunStateStore, CustomerContextStore {
+  private cipher: EnvelopeCipher;
+
+  constructor(private inner: StateStore, config: EncryptedStoreConfig) {
+    this.cipher = new EnvelopeCipher(config);
+  }
+
+  async init(): Promise<void> {
+    await this.inner.init();
+
+    logger.info('Encryption at rest enabled for persistence store', {
+      operation: 'persistence_init'
+    }, this.cipher.describe());
+  }
+
+  async saveState(subjectId: string, runState: string, metadata?: RunStateMetadata): Promise<void> {
+    await this.inner.saveState(subjectId, this.cipher.seal(runState, `state:${subjectId}`), metadata);
+  }
+
+  async loadState(subjectId: string): Promise<string | null> {
+    const record = await this.loadStateRecord(subjectId);
+    return record ? record.runState : null;
+  }
+
+  async loadStateRecord(subjectId: string): Promise<RunStateRecord | null> {
+    const record = await this.inner.loadStateRecord(subjectId);
+    return record ? this.openRecord(record) : null;
+  }
+
+  /**
+   * List states that can be decrypted; the others are logged and skipped so
+   * one unreadable record does not hide the rest
+   */
+  async listStates(): Promise<RunStateRecord[]> {
+    const records = await this.inner.listStates();
+    const opened: RunStateRecord[] = [];
+
+    for (const record of records) {
+      try {
+        opened.push(this.openRecord(record));
+      } catch (error) {
+        if (!(error instanceof StateDecryptionError)) {
+          throw error;
+        }
+      }
+    }
+
+    return opened;
+  }
+
+  async deleteState(subjectId: string): Promise<void> {
+    await this.inner.deleteState(subjectId);
+  }
+
+  async cleanupOldStates(maxAgeMs?: number): Promise<number> {
+    return this.inner.cleanupOldStates(maxAgeMs);
+  }
+
+  async saveContext(subjectId: string, context: CustomerContext, options?: SaveContextOptions): Promise<void> {
+    const { version: _version, ...unversioned } = context;
+    const shell: CustomerContext = {
+      sessionId: '',
+      conversationHistory: [],
+      escalationLevel: 0,
+      sessionStartTime: context.sessionStartTime,
+      lastActiveAt: context.lastActiveAt,
+      resolvedIssues: [],
+      metadata: {
+        encrypted: this.cipher.seal(JSON.stringify(unversioned), `context:${subjectId}`)
+      }
+    };
+
+    // Versions live on the wrapped store's record, outside the ciphertext
+    await this.inner.saveContext(subjectId, shell, options);
+    context.version = shell.version;
+  }
+
+  async loadContext(subjectId: string): Promise<CustomerContext | null> {
+    const stored = await this.inner.loadContext(subjectId);
+    const sealed = stored?.metadata?.encrypted;
+
+    if (!stored) {
+      return null;
+    }
+
+    if (typeof sealed !== 'string') {
+      // Written before encryption was enabled
+      this.cipher.checkPlaintextAllowed(subjectId);
+      return stored;
+    }
+
+    const plaintext = this.cipher.open(sealed, `context:${subjectId}`, subjectId);
+    const context = JSON.parse(plaintext);
+    return {
+      ...context,
+      sessionStartTime: new Date(context.sessionStartTime),
+      lastActiveAt: new Date(context.lastActiveAt),
+      version: stored.version
+    };
+  }
+
+  async deleteContext(subjectId: string): Promise<void> {
+    await this.inner.deleteContext(subjectId);
+  }
+
+  async listContextSubjects(): Promise<string[]> {
+    return this.inner.listContextSubjects();
+  }
+
+  async cleanupOldContexts(maxAgeMs?: number): Promise<number> {
+    return this.inner.cleanupOldContexts(maxAgeMs);
+  }
+
+  private openRecord(record: RunStateRecord): RunStateRecord {
+    return { ...record, runState: this.cipher.open(record.runState, `state:${record.subjectId}`, record.subjectId) };
+  }
+}
+
+/**
+ * AES-256-GCM envelope encryption shared by the encrypted stores
+ *
+ * Seals values as `enc:v1:<keyId>:<iv>:<tag>:<ciphertext>` with the active key
+ * and opens them with whichever configured key produced them. The caller's
+ * additional authenticated data must match on open, so a value cannot be
+ * moved to another subject or store.
+ */
+export class EnvelopeCipher {
+  private keys: Map<string, Buffer>;
+  private activeKeyId: string;
+  private allowPlaintext: boolean;
+
+  constructor(config: EncryptedStoreConfig) {
+    if (config.keys.length === 0) {
+      throw new Error('Encryption at rest requires at least one encryption key');
+    }
+
+    this.keys = new Map();
+    for (const { id, key } of config.keys) {
+      if (!KEY_ID_PATTERN.test(id)) {
+        throw new Error(`Invalid encryption key ID '${id}': use letters, digits, '-' or '_'`);
+      }
+      if (key.length !== 32) {
+        throw new Error(`Encryption key '${id}' must be 32 bytes (AES-256), got ${key.length}`);
+      }
+      this.keys.set(id, key);
+    }
+
+    this.activeKeyId = config.activeKeyId || config.keys[0].id;
+    if (!this.keys.has(this.activeKeyId)) {
+      throw new Error(`Active encryption key '${this.activeKeyId}' is not configured`);
+    }
+
+    this.allowPlaintext = config.allowPlaintext ?? false;
+  }
+
+  /**
+   * Key details for logging; never includes key material
+   */
+  describe(): Record<string, unknown> {
+    return {
+      activeKeyId: this.activeKeyId,
+      keyCount: this.keys.size,
+      allowPlaintext: this.allowPlaintext
+    };
+  }
+
+  /**
+   * Encrypt with the active key: `enc:v1:<keyId>:<iv>:<tag>:<ciphertext>` (base64 parts)
+   */
+  seal(plaintext: string, aad: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', this.keys.get(this.activeKeyId)!, iv, { authTagLength: AUTH_TAG_LENGTH });
+    cipher.setAAD(Buffer.from(aad));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return ENVELOPE_PREFIX + [
+      this.activeKeyId,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      ciphertext.toString('base64')
+    ].join(':');
+  }
+
+  /**
+   * Decrypt an envelope; plaintext values pass through only when allowed
+   *
+   * @throws StateDecryptionError when the value cannot be decrypted
+   */
+  open(value: string, aad: string, subjectId?: string): string {
+    if (!value.startsWith(ENVELOPE_PREFIX)) {
+      this.checkPlaintextAllowed(subjectId);
+      return value;
+    }
+
+    const [keyId, iv, tag, ciphertext] = value.slice(ENVELOPE_PREFIX.length).split(':');
+    const key = this.keys.get(keyId);
+
+    if (!key) {
+      return this.fail(subjectId, `unknown encryption key '${keyId}'`);
+    }
+
+    const authTag = Buffer.from(tag || '', 'base64');
+    if (authTag.length !== AUTH_TAG_LENGTH) {
+      return this.fail(subjectId, `authentication tag is ${authTag.length} bytes, expected ${AUTH_TAG_LENGTH}`, keyId);
+    }
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'), { authTagLength: AUTH_TAG_LENGTH });
+      decipher.setAAD(Buffer.from(aad));
+      decipher.setAuthTag(authTag);
+      return Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+    } catch {
+      return this.fail(subjectId, 'ciphertext failed authentication', keyId);
+    }
+  }
+
+  checkPlaintextAllowed(subjectId?: string): void {
+    if (!this.allowPlaintext) {
+      this.fail(subjectId, 'value is not encrypted and ENCRYPTION_ALLOW_PLAINTEXT is not set');
+    }
+  }
+
+  private fail(subjectId: string | undefined, reason: string, keyId?: string): never {
+    const error = new StateDecryptionError(subjectId, reason);
+    logger.error('Failed to decrypt stored value', error, {
+      subjectId,
+      operation: 'persistence_decrypt'
+    }, { keyId });
+    throw error;
+  }
+}
@@ -0,0 +1,193 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from '../../utils/logger';
+import { AuditStore, AuditEntry, AuditRecord, AuditQuery } from './types';
+import { EnvelopeCipher } from './encryptedStore';
+
+export interface FileAuditStoreConfig {
+  filePath: string;
+
+  /**
+   * Seals each line when encryption at rest is enabled
+   */
+  cipher?: EnvelopeCipher;
+}
+
+const AUDIT_AAD = 'audit';
+
+/**
+ * File-based implementation of AuditStore
+ *
+ * Appends one JSON record per line (JSONL) to a single log file. The file is
+ * only opened for appending, except when a subject's records are erased, and
+ * writes are queued so concurrent entries never interleave. With a cipher,
+ * each line is an encrypted envelope instead of plain JSON.
+ */
+export class FileAuditStore implements AuditStore {
+  private config: FileAuditStoreConfig;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(config: Partial<FileAuditStoreConfig> = {}) {
+    this.config = {
+      filePath: config.filePath || './data/audit/approvals.jsonl',
+      cipher: config.cipher
+    };
+  }
+
+  async init(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.config.filePath), { recursive: true });
+      logger.info('File audit store initialized', {
+        operation: 'audit_init'
+      }, { filePath: this.config.filePath });
+    } catch (error) {
+      logger.error('Failed to initialize file audit store', error as Error, {
+        operation: 'audit_init'
+      });
+      throw error;
+    }
+  }
+
+  async append(entry: AuditEntry): Promise<AuditRecord> {
+    const record: AuditRecord = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry
+    };
+    const line = this.encode(record) + '\n';
+
+    const write = this.writeQueue.then(() => fs.appendFile(this.config.filePath, line));
+    // Keep the queue going even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+
+    try {
+      await write;
+    } catch (error) {
+      logger.error('Failed to append audit record', error as Error, {
+        subjectId: entry.subjectId,
+        toolName: entry.toolName,
+        operation: 'audit_append'
+      });
+      throw error;
+    }
+
+    logger.debug('Audit record appended', {
+      subjectId: entry.subjectId,
+      toolName: entry.toolName,
+      operation: 'audit_append'
+    }, { type: entry.type, toolCallId: entry.toolCallId });
+
+    return record;
+  }
+
+  async deleteSubject(subjectId: string): Promise<number> {
+    let removed = 0;
+
+    // Runs in the write queue so no append lands between the read and the rename
+    const rewrite = this.writeQueue.then(async () => {
+      let content: string;
+      try {
+        content = await fs.readFile(this.config.filePath, 'utf-8');
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return;
+        }
+        throw error;
+      }
+
+      const kept = content.split('\n').filter(line => {
+        if (!line.trim()) {
+          return false;
+        }
+        try {
+          if (this.decode(line).subjectId === subjectId) {
+            removed++;
+            return false;
+          }
+        } catch {
+          // Keep unreadable lines; they are skipped by query()
+        }
+        return true;
+      });
+
+      if (removed > 0) {
+        const tempPath = `${this.config.filePath}.tmp`;
+        await fs.writeFile(tempPath, kept.map(line => line + '\n').join(''));
+        await fs.rename(tempPath, this.config.filePath);
+      }
+    });
+    this.writeQueue = rewrite.catch(() => undefined);
+
+    try {
+      await rewrite;
+    } catch (error) {
+      logger.error('Failed to delete audit records for subject', error as Error, {
+        operation: 'audit_delete_subject'
+      });
+      throw error;
+    }
+
+    return removed;
+  }
+
+  async query(filter: AuditQuery = {}): Promise<AuditRecord[]> {
+    // Wait for queued writes so callers see their own entries
+    await this.writeQueue;
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.config.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        // Nothing has been audited yet
+        return [];
+      }
+      throw error;
+    }
+
+    const from = filter.from?.getTime();
+    const to = filter.to?.getTime();
+    const records: AuditRecord[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let record: AuditRecord;
+      try {
+        record = this.decode(line);
+      } catch {
+        logger.warn('Skipping unreadable audit record', {
+          operation: 'audit_query'
+        }, { filePath: this.config.filePath });
+        continue;
+      }
+
+      const time = Date.parse(record.timestamp);
+      if ((filter.subjectId && record.subjectId !== filter.subjectId) ||
+          (filter.toolName && record.toolName !== filter.toolName) ||
+          (from !== undefined && time < from) ||
+          (to !== undefined && time > to)) {
+        continue;
+      }
+
+      records.push(record);
+      if (filter.limit && records.length >= filter.limit) {
+        break;
+      }
+    }
+
+    return records;
+  }
+
+  private encode(record: AuditRecord): string {
+    const json = JSON.stringify(record);
+    return this.config.cipher ? this.config.cipher.seal(json, AUDIT_AAD) : json;
+  }
+
+  private decode(line: string): AuditRecord {
+    return JSON.parse(this.config.cipher ? this.config.cipher.open(line, AUDIT_AAD) : line);
+  }
+}
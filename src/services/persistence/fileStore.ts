@@ -1,8 +1,16 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { logger } from '../../utils/logger';
-import { RunStateStore, CustomerContextStore } from './types';
+import {
+  RunStateStore,
+  CustomerContextStore,
+  RunStateMetadata,
+  RunStateRecord,
+  SaveContextOptions,
+  ContextVersionConflictError
+} from './types';
 import { CustomerContext } from '../../context/types';
+import { isValidSubjectId } from '../../identity/subject-id';
 
 export interface FileStoreConfig {
   dataDir: string;
@@ -10,6 +18,18 @@ export interface FileStoreConfig {
   contextMaxAge?: number; // in milliseconds (for CustomerContext, default 7 days)
 }
 
+type FileIndex = { [subjectId: string]: number };
+
+/**
+ * Outcome of the startup integrity check
+ */
+export interface IntegrityReport {
+  stateFiles: number;
+  contextFiles: number;
+  quarantined: string[];    // Unreadable files moved to the quarantine directory
+  tempFilesRemoved: number; // Leftovers from writes interrupted by a crash
+}
+
 /**
  * File-based implementation of RunStateStore and CustomerContextStore
  * 
@@ -21,11 +41,20 @@ export interface FileStoreConfig {
  * - context-{subjectId}.json: Long-term customer context for continuity
  * - index.json: Index for RunStates
  * - context-index.json: Index for CustomerContexts
+ * - quarantine/: Unreadable files, kept for inspection instead of deleted
+ *
+ * Every file is written to a temp file and renamed into place, so a crash
+ * mid-write never leaves a half-written file. Index updates go through a
+ * write queue, and init() rebuilds both indexes from the files on disk.
  */
 export class FileStateStore implements RunStateStore, CustomerContextStore {
   private config: FileStoreConfig;
   private indexFilePath: string;
   private contextIndexFilePath: string;
+  private quarantineDir: string;
+  private contextWrites = new Map<string, Promise<void>>();
+  private indexWrites: Promise<void> = Promise.resolve();
+  private tempFileCounter = 0;
 
   constructor(config: Partial<FileStoreConfig> = {}) {
     this.config = {
@@ -35,14 +64,16 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
     };
     this.indexFilePath = path.join(this.config.dataDir, 'index.json');
     this.contextIndexFilePath = path.join(this.config.dataDir, 'context-index.json');
+    this.quarantineDir = path.join(this.config.dataDir, 'quarantine');
   }
 
   async init(): Promise<void> {
     try {
       await fs.mkdir(this.config.dataDir, { recursive: true });
+      const report = await this.checkIntegrity();
       logger.info('File state store initialized', {
         operation: 'persistence_init'
-      }, { dataDir: this.config.dataDir });
+      }, { dataDir: this.config.dataDir, ...report, quarantined: report.quarantined.length });
     } catch (error) {
       logger.error('Failed to initialize file state store', error as Error, {
         operation: 'persistence_init'
@@ -51,18 +82,72 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
     }
   }
 
-  async saveState(subjectId: string, runState: string): Promise<void> {
+  /**
+   * Remove temp files left by interrupted writes, quarantine files that no
+   * longer parse, and rebuild both indexes from the files that remain
+   */
+  async checkIntegrity(): Promise<IntegrityReport> {
+    return this.withIndexWriteLock(async () => {
+      const report: IntegrityReport = { stateFiles: 0, contextFiles: 0, quarantined: [], tempFilesRemoved: 0 };
+      const stateIndex: FileIndex = {};
+      const contextIndex: FileIndex = {};
+
+      for (const file of await fs.readdir(this.config.dataDir)) {
+        const filePath = path.join(this.config.dataDir, file);
+
+        if (file.endsWith('.tmp')) {
+          await fs.unlink(filePath).catch(() => undefined);
+          report.tempFilesRemoved++;
+          continue;
+        }
+
+        const parsed = this.parseDataFileName(file);
+        if (!parsed) {
+          continue;
+        }
+
+        const timestamp = await this.readTimestamp(filePath);
+        if (timestamp === null) {
+          await this.quarantine(filePath, 'integrity_check');
+          report.quarantined.push(file);
+        } else if (parsed.kind === 'state') {
+          stateIndex[parsed.subjectId] = timestamp;
+          report.stateFiles++;
+        } else {
+          contextIndex[parsed.subjectId] = timestamp;
+          report.contextFiles++;
+        }
+      }
+
+      await this.writeFileAtomic(this.indexFilePath, JSON.stringify(stateIndex, null, 2));
+      await this.writeFileAtomic(this.contextIndexFilePath, JSON.stringify(contextIndex, null, 2));
+
+      if (report.quarantined.length > 0 || report.tempFilesRemoved > 0) {
+        logger.warn('File state store recovered from interrupted writes', {
+          operation: 'persistence_integrity_check'
+        }, { ...report });
+      }
+
+      return report;
+    });
+  }
+
+  async saveState(subjectId: string, runState: string, metadata: RunStateMetadata = {}): Promise<void> {
     try {
       const timestamp = Date.now();
       const filePath = this.getStateFilePath(subjectId);
-      const stateData = {
+      const stateData: RunStateRecord = {
         subjectId,
         runState,
-        timestamp
+        timestamp,
+        agentName: metadata.agentName,
+        currentAgentName: metadata.currentAgentName,
+        channel: metadata.channel,
+        requestedAt: metadata.requestedAt
       };
 
       // Save state file
-      await fs.writeFile(filePath, JSON.stringify(stateData, null, 2));
+      await this.writeFileAtomic(filePath, JSON.stringify(stateData, null, 2));
       
       // Update index
       await this.updateIndex(subjectId, timestamp);
@@ -72,6 +157,7 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
         operation: 'state_save'
       }, { 
         stateLength: runState.length,
+        agentName: metadata.agentName,
         filePath 
       });
     } catch (error) {
@@ -84,6 +170,11 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
   }
 
   async loadState(subjectId: string): Promise<string | null> {
+    const record = await this.loadStateRecord(subjectId);
+    return record ? record.runState : null;
+  }
+
+  async loadStateRecord(subjectId: string): Promise<RunStateRecord | null> {
     try {
       const filePath = this.getStateFilePath(subjectId);
       
@@ -92,23 +183,25 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
         
         // Handle empty or corrupted JSON files
         if (!fileContent.trim()) {
-          logger.warn('Empty state file found, removing', {
+          logger.warn('Empty state file found, quarantining', {
             subjectId,
             operation: 'state_load'
           });
-          await this.deleteState(subjectId);
+          await this.quarantine(filePath, 'state_load');
+          await this.removeFromIndex(subjectId);
           return null;
         }
         
-        let stateData;
+        let stateData: RunStateRecord;
         try {
           stateData = JSON.parse(fileContent);
         } catch (parseError) {
-          logger.error('Corrupted JSON state file, removing and creating new', parseError as Error, {
+          logger.error('Corrupted JSON state file, quarantining and creating new', parseError as Error, {
             subjectId,
             operation: 'state_load'
           });
-          await this.deleteState(subjectId);
+          await this.quarantine(filePath, 'state_load');
+          await this.removeFromIndex(subjectId);
           return null;
         }
         
@@ -129,10 +222,11 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
           subjectId,
           operation: 'state_load'
         }, { 
-          stateLength: stateData.runState.length 
+          stateLength: stateData.runState.length,
+          agentName: stateData.agentName
         });
 
-        return stateData.runState;
+        return stateData;
       } catch (error: any) {
         if (error.code === 'ENOENT') {
           // File doesn't exist - this is normal for new conversations
@@ -149,6 +243,28 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
     }
   }
 
+  async listStates(): Promise<RunStateRecord[]> {
+    try {
+      const index = await this.loadIndex();
+      const records: RunStateRecord[] = [];
+
+      // Use index to find candidate states; loadStateRecord drops expired or corrupted ones
+      for (const subjectId of Object.keys(index)) {
+        const record = await this.loadStateRecord(subjectId);
+        if (record) {
+          records.push(record);
+        }
+      }
+
+      return records;
+    } catch (error) {
+      logger.error('Failed to list RunStates from file store', error as Error, {
+        operation: 'state_list'
+      });
+      return [];
+    }
+  }
+
   async deleteState(subjectId: string): Promise<void> {
     try {
       const filePath = this.getStateFilePath(subjectId);
@@ -175,33 +291,37 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
     const maxAge = maxAgeMs || this.config.maxAge;
     
     try {
-      const index = await this.loadIndex();
-      const now = Date.now();
-      let cleanedCount = 0;
-      const updatedIndex: { [key: string]: number } = {};
-      
-      // Use index for faster cleanup
-      for (const [subjectId, timestamp] of Object.entries(index)) {
-        if (now - timestamp > maxAge) {
-          try {
-            const filePath = this.getStateFilePath(subjectId);
-            await fs.unlink(filePath);
-            cleanedCount++;
-          } catch (error: any) {
-            if (error.code !== 'ENOENT') {
-              logger.warn('Failed to delete expired state file', {
-                operation: 'state_cleanup'
-              }, { subjectId, error: error.message });
+      // Hold the index lock so saves during cleanup are not dropped from the index
+      const cleanedCount = await this.withIndexWriteLock(async () => {
+        const index = await this.loadIndex();
+        const now = Date.now();
+        let cleaned = 0;
+        const updatedIndex: FileIndex = {};
+        
+        // Use index for faster cleanup
+        for (const [subjectId, timestamp] of Object.entries(index)) {
+          if (now - timestamp > maxAge) {
+            try {
+              const filePath = this.getStateFilePath(subjectId);
+              await fs.unlink(filePath);
+              cleaned++;
+            } catch (error: any) {
+              if (error.code !== 'ENOENT') {
+                logger.warn('Failed to delete expired state file', {
+                  operation: 'state_cleanup'
+                }, { subjectId, error: error.message });
+              }
             }
+          } else {
+            // Keep non-expired entries in the updated index
+            updatedIndex[subjectId] = timestamp;
           }
-        } else {
-          // Keep non-expired entries in the updated index
-          updatedIndex[subjectId] = timestamp;
         }
-      }
-      
-      // Update index with remaining entries
-      await this.saveIndex(updatedIndex);
+        
+        // Update index with remaining entries
+        await this.saveIndex(updatedIndex);
+        return cleaned;
+      });
       
       if (cleanedCount > 0) {
         logger.info('Old RunStates cleaned up from file store', {
@@ -218,28 +338,21 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
     }
   }
 
-  private async loadIndex(): Promise<{ [key: string]: number }> {
-    try {
-      const content = await fs.readFile(this.indexFilePath, 'utf-8');
-      return JSON.parse(content);
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        // Index file doesn't exist yet - return empty index
-        return {};
-      }
-      throw error;
-    }
+  private async loadIndex(): Promise<FileIndex> {
+    return this.readIndex(this.indexFilePath, 'state');
   }
 
-  private async saveIndex(index: { [key: string]: number }): Promise<void> {
-    await fs.writeFile(this.indexFilePath, JSON.stringify(index, null, 2));
+  private async saveIndex(index: FileIndex): Promise<void> {
+    await this.writeFileAtomic(this.indexFilePath, JSON.stringify(index, null, 2));
   }
 
   private async updateIndex(subjectId: string, timestamp: number): Promise<void> {
     try {
-      const index = await this.loadIndex();
-      index[subjectId] = timestamp;
-      await this.saveIndex(index);
+      await this.withIndexWriteLock(async () => {
+        const index = await this.loadIndex();
+        index[subjectId] = timestamp;
+        await this.saveIndex(index);
+      });
     } catch (error) {
       logger.warn('Failed to update index', {
         operation: 'index_update'
@@ -249,9 +362,11 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
 
   private async removeFromIndex(subjectId: string): Promise<void> {
     try {
-      const index = await this.loadIndex();
-      delete index[subjectId];
-      await this.saveIndex(index);
+      await this.withIndexWriteLock(async () => {
+        const index = await this.loadIndex();
+        delete index[subjectId];
+        await this.saveIndex(index);
+      });
     } catch (error) {
       logger.warn('Failed to remove from index', {
         operation: 'index_remove'
@@ -260,16 +375,27 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
   }
 
   // CustomerContextStore implementation
-  async saveContext(subjectId: string, context: CustomerContext): Promise<void> {
+  async saveContext(subjectId: string, context: CustomerContext, options: SaveContextOptions = {}): Promise<void> {
+    // Writes for a subject run one at a time so the version check and write are atomic
+    return this.withContextWriteLock(subjectId, () => this.writeContext(subjectId, context, options));
+  }
+
+  private async writeContext(subjectId: string, context: CustomerContext, options: SaveContextOptions): Promise<void> {
     try {
       const timestamp = Date.now();
       const filePath = this.getContextFilePath(subjectId);
+      const storedVersion = await this.readContextVersion(filePath);
+
+      if (options.expectedVersion !== undefined && options.expectedVersion !== storedVersion) {
+        throw new ContextVersionConflictError(subjectId, options.expectedVersion, storedVersion);
+      }
       
       // Create a serializable copy of the context
       const contextData = {
         subjectId,
         context: {
           ...context,
+          version: storedVersion + 1,
           // Convert Dates to ISO strings for JSON serialization
           sessionStartTime: context.sessionStartTime.toISOString(),
           lastActiveAt: context.lastActiveAt.toISOString()
@@ -278,7 +404,8 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
       };
 
       // Save context file
-      await fs.writeFile(filePath, JSON.stringify(contextData, null, 2));
+      await this.writeFileAtomic(filePath, JSON.stringify(contextData, null, 2));
+      context.version = storedVersion + 1;
       
       // Update context index
       await this.updateContextIndex(subjectId, timestamp);
@@ -291,14 +418,43 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
         filePath 
       });
     } catch (error) {
-      logger.error('Failed to save CustomerContext to file store', error as Error, {
-        subjectId,
-        operation: 'context_save'
-      });
+      if (!(error instanceof ContextVersionConflictError)) {
+        logger.error('Failed to save CustomerContext to file store', error as Error, {
+          subjectId,
+          operation: 'context_save'
+        });
+      }
       throw error;
     }
   }
 
+  /**
+   * Version of the stored context file, or 0 if there is none (or it is unreadable)
+   */
+  private async readContextVersion(filePath: string): Promise<number> {
+    try {
+      const contextData = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      return contextData.context?.version || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async withContextWriteLock(subjectId: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.contextWrites.get(subjectId) || Promise.resolve();
+    const current = previous.then(write);
+    const settled = current.catch(() => undefined);
+
+    this.contextWrites.set(subjectId, settled);
+    settled.then(() => {
+      if (this.contextWrites.get(subjectId) === settled) {
+        this.contextWrites.delete(subjectId);
+      }
+    });
+
+    return current;
+  }
+
   async loadContext(subjectId: string): Promise<CustomerContext | null> {
     try {
       const filePath = this.getContextFilePath(subjectId);
@@ -308,11 +464,12 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
         
         // Handle empty or corrupted JSON files
         if (!fileContent.trim()) {
-          logger.warn('Empty context file found, removing', {
+          logger.warn('Empty context file found, quarantining', {
             subjectId,
             operation: 'context_load'
           });
-          await this.deleteContext(subjectId);
+          await this.quarantine(filePath, 'context_load');
+          await this.removeFromContextIndex(subjectId);
           return null;
         }
         
@@ -320,11 +477,12 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
         try {
           contextData = JSON.parse(fileContent);
         } catch (parseError) {
-          logger.error('Corrupted JSON context file, removing and creating new', parseError as Error, {
+          logger.error('Corrupted JSON context file, quarantining and creating new', parseError as Error, {
             subjectId,
             operation: 'context_load'
           });
-          await this.deleteContext(subjectId);
+          await this.quarantine(filePath, 'context_load');
+          await this.removeFromContextIndex(subjectId);
           return null;
         }
         
@@ -395,37 +553,57 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
     }
   }
 
+  async listContextSubjects(): Promise<string[]> {
+    try {
+      const index = await this.loadContextIndex();
+      const now = Date.now();
+
+      return Object.entries(index)
+        .filter(([, timestamp]) => now - timestamp <= this.config.contextMaxAge!)
+        .map(([subjectId]) => subjectId);
+    } catch (error) {
+      logger.error('Failed to list CustomerContexts from file store', error as Error, {
+        operation: 'context_list'
+      });
+      return [];
+    }
+  }
+
   async cleanupOldContexts(maxAgeMs?: number): Promise<number> {
     const maxAge = maxAgeMs || this.config.contextMaxAge!;
     
     try {
-      const index = await this.loadContextIndex();
-      const now = Date.now();
-      let cleanedCount = 0;
-      const updatedIndex: { [key: string]: number } = {};
-      
-      // Use index for faster cleanup
-      for (const [subjectId, timestamp] of Object.entries(index)) {
-        if (now - timestamp > maxAge) {
-          try {
-            const filePath = this.getContextFilePath(subjectId);
-            await fs.unlink(filePath);
-            cleanedCount++;
-          } catch (error: any) {
-            if (error.code !== 'ENOENT') {
-              logger.warn('Failed to delete expired context file', {
-                operation: 'context_cleanup'
-              }, { subjectId, error: error.message });
+      // Hold the index lock so saves during cleanup are not dropped from the index
+      const cleanedCount = await this.withIndexWriteLock(async () => {
+        const index = await this.loadContextIndex();
+        const now = Date.now();
+        let cleaned = 0;
+        const updatedIndex: FileIndex = {};
+        
+        // Use index for faster cleanup
+        for (const [subjectId, timestamp] of Object.entries(index)) {
+          if (now - timestamp > maxAge) {
+            try {
+              const filePath = this.getContextFilePath(subjectId);
+              await fs.unlink(filePath);
+              cleaned++;
+            } catch (error: any) {
+              if (error.code !== 'ENOENT') {
+                logger.warn('Failed to delete expired context file', {
+                  operation: 'context_cleanup'
+                }, { subjectId, error: error.message });
+              }
             }
+          } else {
+            // Keep non-expired entries in the updated index
+            updatedIndex[subjectId] = timestamp;
           }
-        } else {
-          // Keep non-expired entries in the updated index
-          updatedIndex[subjectId] = timestamp;
         }
-      }
-      
-      // Update index with remaining entries
-      await this.saveContextIndex(updatedIndex);
+        
+        // Update index with remaining entries
+        await this.saveContextIndex(updatedIndex);
+        return cleaned;
+      });
       
       if (cleanedCount > 0) {
         logger.info('Old CustomerContexts cleaned up from file store', {
@@ -443,28 +621,21 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
   }
 
   // Context index management methods
-  private async loadContextIndex(): Promise<{ [key: string]: number }> {
-    try {
-      const content = await fs.readFile(this.contextIndexFilePath, 'utf-8');
-      return JSON.parse(content);
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        // Index file doesn't exist yet - return empty index
-        return {};
-      }
-      throw error;
-    }
+  private async loadContextIndex(): Promise<FileIndex> {
+    return this.readIndex(this.contextIndexFilePath, 'context');
   }
 
-  private async saveContextIndex(index: { [key: string]: number }): Promise<void> {
-    await fs.writeFile(this.contextIndexFilePath, JSON.stringify(index, null, 2));
+  private async saveContextIndex(index: FileIndex): Promise<void> {
+    await this.writeFileAtomic(this.contextIndexFilePath, JSON.stringify(index, null, 2));
   }
 
   private async updateContextIndex(subjectId: string, timestamp: number): Promise<void> {
     try {
-      const index = await this.loadContextIndex();
-      index[subjectId] = timestamp;
-      await this.saveContextIndex(index);
+      await this.withIndexWriteLock(async () => {
+        const index = await this.loadContextIndex();
+        index[subjectId] = timestamp;
+        await this.saveContextIndex(index);
+      });
     } catch (error) {
       logger.warn('Failed to update context index', {
         operation: 'context_index_update'
@@ -474,9 +645,11 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
 
   private async removeFromContextIndex(subjectId: string): Promise<void> {
     try {
-      const index = await this.loadContextIndex();
-      delete index[subjectId];
-      await this.saveContextIndex(index);
+      await this.withIndexWriteLock(async () => {
+        const index = await this.loadContextIndex();
+        delete index[subjectId];
+        await this.saveContextIndex(index);
+      });
     } catch (error) {
       logger.warn('Failed to remove from context index', {
         operation: 'context_index_remove'
@@ -484,14 +657,145 @@ export class FileStateStore implements RunStateStore, CustomerContextStore {
     }
   }
 
+  // Crash safety methods
+
+  /**
+   * Read an index file, rebuilding it from the data files if it is unreadable
+   */
+  private async readIndex(indexPath: string, kind: 'state' | 'context'): Promise<FileIndex> {
+    let content: string;
+    try {
+      content = await fs.readFile(indexPath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        // Index file doesn't exist yet - return empty index
+        return {};
+      }
+      throw error;
+    }
+
+    try {
+      const index = JSON.parse(content);
+      if (index && typeof index === 'object' && !Array.isArray(index) &&
+          Object.values(index).every(timestamp => typeof timestamp === 'number')) {
+        return index;
+      }
+    } catch {
+      // Fall through to rebuild
+    }
+
+    logger.warn('Unreadable index file, rebuilding from data files', {
+      operation: 'index_rebuild'
+    }, { indexPath });
+    return this.rebuildIndex(kind);
+  }
+
+  private async rebuildIndex(kind: 'state' | 'context'): Promise<FileIndex> {
+    const index: FileIndex = {};
+
+    for (const file of await fs.readdir(this.config.dataDir)) {
+      const parsed = this.parseDataFileName(file);
+      if (parsed?.kind !== kind) {
+        continue;
+      }
+
+      // Unreadable files are left for the next load or integrity check to quarantine
+      const timestamp = await this.readTimestamp(path.join(this.config.dataDir, file));
+      if (timestamp !== null) {
+        index[parsed.subjectId] = timestamp;
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Timestamp of a state or context file, or null if it does not parse
+   */
+  private async readTimestamp(filePath: string): Promise<number | null> {
+    try {
+      const data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      return typeof data?.timestamp === 'number' ? data.timestamp : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private parseDataFileName(file: string): { kind: 'state' | 'context'; subjectId: string } | null {
+    if (file === 'context-index.json' || !file.endsWith('.json')) {
+      return null;
+    }
+    if (file.startsWith('runstate-')) {
+      return { kind: 'state', subjectId: file.slice('runstate-'.length, -'.json'.length) };
+    }
+    if (file.startsWith('context-')) {
+      return { kind: 'context', subjectId: file.slice('context-'.length, -'.json'.length) };
+    }
+    return null;
+  }
+
+  /**
+   * Write to a temp file in the same directory and rename it into place, so
+   * readers see either the old or the new content, never a partial write
+   */
+  private async writeFileAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.${++this.tempFileCounter}.tmp`;
+    try {
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Move an unreadable file aside instead of deleting it, so it can be inspected
+   */
+  private async quarantine(filePath: string, operation: string): Promise<void> {
+    const target = path.join(this.quarantineDir, `${path.basename(filePath)}.${Date.now()}`);
+    try {
+      await fs.mkdir(this.quarantineDir, { recursive: true });
+      await fs.rename(filePath, target);
+      logger.warn('Unreadable file moved to quarantine', {
+        operation
+      }, { filePath, quarantinedAs: target });
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error('Failed to quarantine unreadable file', error as Error, {
+          operation
+        }, { filePath });
+      }
+    }
+  }
+
+  /**
+   * Index files are read, modified and rewritten; run those updates one at a time
+   */
+  private async withIndexWriteLock<T>(write: () => Promise<T>): Promise<T> {
+    const current = this.indexWrites.then(write);
+    this.indexWrites = current.then(() => undefined, () => undefined);
+    return current;
+  }
+
   // File path methods
   private getStateFilePath(subjectId: string): string {
-    const filename = `runstate-${subjectId}.json`;
+    const filename = `runstate-${this.checkSubjectId(subjectId)}.json`;
     return path.join(this.config.dataDir, filename);
   }
 
   private getContextFilePath(subjectId: string): string {
-    const filename = `context-${subjectId}.json`;
+    const filename = `context-${this.checkSubjectId(subjectId)}.json`;
     return path.join(this.config.dataDir, filename);
   }
+
+  /**
+   * Subject IDs become file names; refuse any that could point outside dataDir
+   */
+  private checkSubjectId(subjectId: string): string {
+    if (!isValidSubjectId(subjectId)) {
+      throw new Error(`Invalid subject ID for file storage: ${JSON.stringify(subjectId.slice(0, 50))}`);
+    }
+    return subjectId;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,243 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from '../../utils/logger';
+import { TranscriptStore, TranscriptEntry, TranscriptRecord, TranscriptQuery } from './types';
+import { EnvelopeCipher } from './encryptedStore';
+
+export interface FileTranscriptStoreConfig {
+  dataDir: string;
+  retentionMs: number;
+
+  /**
+   * Seals each line when encryption at rest is enabled
+   */
+  cipher?: EnvelopeCipher;
+}
+
+const TRANSCRIPT_AAD = 'transcript';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/**
+ * File-based implementation of TranscriptStore
+ *
+ * Appends one JSON record per line to a file per UTC day
+ * (`{dataDir}/YYYY-MM-DD.jsonl`), so retention cleanup removes whole days and
+ * time-range queries only read the days they cover. Writes are queued so
+ * concurrent turns never interleave. With a cipher, each line is an encrypted
+ * envelope instead of plain JSON.
+ */
+export class FileTranscriptStore implements TranscriptStore {
+  private config: FileTranscriptStoreConfig;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(config: Partial<FileTranscriptStoreConfig> = {}) {
+    this.config = {
+      dataDir: config.dataDir || './data/transcripts',
+      retentionMs: config.retentionMs || 90 * DAY_MS, // 90 days default
+      cipher: config.cipher
+    };
+  }
+
+  async init(): Promise<void> {
+    try {
+      await fs.mkdir(this.config.dataDir, { recursive: true });
+      logger.info('File transcript store initialized', {
+        operation: 'transcript_init'
+      }, { dataDir: this.config.dataDir, retentionMs: this.config.retentionMs });
+    } catch (error) {
+      logger.error('Failed to initialize file transcript store', error as Error, {
+        operation: 'transcript_init'
+      });
+      throw error;
+    }
+  }
+
+  async append(entry: TranscriptEntry): Promise<TranscriptRecord> {
+    const record: TranscriptRecord = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry
+    };
+    const filePath = path.join(this.config.dataDir, `${record.timestamp.slice(0, 10)}.jsonl`);
+    const line = this.encode(record) + '\n';
+
+    const write = this.writeQueue.then(() => fs.appendFile(filePath, line));
+    // Keep the queue going even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+
+    try {
+      await write;
+    } catch (error) {
+      logger.error('Failed to append transcript record', error as Error, {
+        subjectId: entry.subjectId,
+        operation: 'transcript_append'
+      });
+      throw error;
+    }
+
+    logger.debug('Transcript record appended', {
+      subjectId: entry.subjectId,
+      operation: 'transcript_append'
+    }, { sessionId: entry.sessionId, status: entry.status });
+
+    return record;
+  }
+
+  async query(filter: TranscriptQuery = {}): Promise<TranscriptRecord[]> {
+    // Wait for queued writes so callers see their own entries
+    await this.writeQueue;
+
+    const from = filter.from?.getTime();
+    const to = filter.to?.getTime();
+    const records: TranscriptRecord[] = [];
+
+    for (const day of await this.listDays()) {
+      const dayStart = Date.parse(day.date);
+      if ((from !== undefined && dayStart + DAY_MS <= from) || (to !== undefined && dayStart > to)) {
+        continue;
+      }
+
+      for (const record of await this.readDay(day.filePath)) {
+        const time = Date.parse(record.timestamp);
+        if ((filter.subjectId && record.subjectId !== filter.subjectId) ||
+            (filter.sessionId && record.sessionId !== filter.sessionId) ||
+            (from !== undefined && time < from) ||
+            (to !== undefined && time > to)) {
+          continue;
+        }
+
+        records.push(record);
+        if (filter.limit && records.length >= filter.limit) {
+          return records;
+        }
+      }
+    }
+
+    return records;
+  }
+
+  async cleanupOldEntries(maxAgeMs?: number): Promise<number> {
+    const cutoff = Date.now() - (maxAgeMs || this.config.retentionMs);
+    let removed = 0;
+
+    // Runs in the write queue so no append lands in a file being removed
+    const cleanup = this.writeQueue.then(async () => {
+      for (const day of await this.listDays()) {
+        // Only whole days are removed, once their last entry is past retention
+        if (Date.parse(day.date) + DAY_MS > cutoff) {
+          continue;
+        }
+        removed += (await this.readDay(day.filePath)).length;
+        await fs.unlink(day.filePath);
+      }
+    });
+    this.writeQueue = cleanup.catch(() => undefined);
+
+    try {
+      await cleanup;
+    } catch (error) {
+      logger.error('Failed to clean up old transcript records', error as Error, {
+        operation: 'transcript_cleanup'
+      });
+      return removed;
+    }
+
+    if (removed > 0) {
+      logger.info('Old transcript records cleaned up', {
+        operation: 'transcript_cleanup'
+      }, { removed });
+    }
+
+    return removed;
+  }
+
+  async deleteSubject(subjectId: string): Promise<number> {
+    let removed = 0;
+
+    // Runs in the write queue so no append lands between the read and the rename
+    const rewrite = this.writeQueue.then(async () => {
+      for (const day of await this.listDays()) {
+        const lines = (await fs.readFile(day.filePath, 'utf-8')).split('\n').filter(line => line.trim());
+        const kept = lines.filter(line => {
+          try {
+            return this.decode(line).subjectId !== subjectId;
+          } catch {
+            return true; // Keep unreadable lines; they are skipped by query()
+          }
+        });
+
+        if (kept.length < lines.length) {
+          removed += lines.length - kept.length;
+          const tempPath = `${day.filePath}.tmp`;
+          await fs.writeFile(tempPath, kept.map(line => line + '\n').join(''));
+          await fs.rename(tempPath, day.filePath);
+        }
+      }
+    });
+    this.writeQueue = rewrite.catch(() => undefined);
+
+    try {
+      await rewrite;
+    } catch (error) {
+      logger.error('Failed to delete transcript records for subject', error as Error, {
+        operation: 'transcript_delete_subject'
+      });
+      throw error;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Day files, oldest first
+   */
+  private async listDays(): Promise<Array<{ date: string; filePath: string }>> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.config.dataDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        // Nothing has been recorded yet
+        return [];
+      }
+      throw error;
+    }
+
+    return files
+      .map(file => DAY_FILE_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => ({ date: match[1], filePath: path.join(this.config.dataDir, match[0]) }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private async readDay(filePath: string): Promise<TranscriptRecord[]> {
+    const records: TranscriptRecord[] = [];
+
+    for (const line of (await fs.readFile(filePath, 'utf-8')).split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(this.decode(line));
+      } catch {
+        logger.warn('Skipping unreadable transcript record', {
+          operation: 'transcript_query'
+        }, { filePath });
+      }
+    }
+
+    return records;
+  }
+
+  private encode(record: TranscriptRecord): string {
+    const json = JSON.stringify(record);
+    return this.config.cipher ? this.config.cipher.seal(json, TRANSCRIPT_AAD) : json;
+  }
+
+  private decode(line: string): TranscriptRecord {
+    return JSON.parse(this.config.cipher ? this.config.cipher.open(line, TRANSCRIPT_AAD) : line);
+  }
+}
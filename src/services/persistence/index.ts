@@ -1,11 +1,15 @@
-import { RunStateStore, CustomerContextStore } from './types';
-import { createPersistenceStore } from '../../config/persistence';
+import { RunStateStore, CustomerContextStore, AuditStore, TranscriptStore } from './types';
+import { createPersistenceStore, createAuditStore, createTranscriptStore } from '../../config/persistence';
 
 // Export types for external use
 export * from './types';
 export { FileStateStore } from './fileStore';
 export { RedisStateStore } from './redisStore';
 export { PostgresStateStore } from './postgresStore';
+export { SqliteStateStore } from './sqliteStore';
+export { EncryptedStateStore, EnvelopeCipher, StateDecryptionError, parseEncryptionKeys } from './encryptedStore';
+export { FileAuditStore } from './fileAuditStore';
+export { FileTranscriptStore } from './fileTranscriptStore';
 
 /**
  * Singleton instance of the configured persistence store
@@ -13,4 +17,18 @@ export { PostgresStateStore } from './postgresStore';
  * This instance implements both RunStateStore and CustomerContextStore interfaces
  * and is created based on the PERSISTENCE_ADAPTER environment variable.
  */
-export const statePersistence: RunStateStore & CustomerContextStore = createPersistenceStore();
\ No newline at end of file
+export const statePersistence: RunStateStore & CustomerContextStore = createPersistenceStore();
+
+/**
+ * Singleton instance of the configured approval audit store
+ * 
+ * Created based on the AUDIT_ADAPTER environment variable.
+ */
+export const auditStore: AuditStore = createAuditStore();
+
+/**
+ * Singleton instance of the configured conversation transcript store
+ * 
+ * Created based on the TRANSCRIPT_ADAPTER environment variable.
+ */
+export const transcriptStore: TranscriptStore = createTranscriptStore();
@@ -0,0 +1,260 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { RunStateStore, CustomerContextStore, RunStateMetadata } from './types';
+import { CustomerContext } from '../../context/types';
+
+type StateStore = RunStateStore & CustomerContextStore;
+
+/**
+ * One unit of persisted data, as copied between stores or written to an archive
+ */
+export type MigrationRecord =
+  | { type: 'state'; subjectId: string; runState: string; metadata: RunStateMetadata; checksum: string }
+  | { type: 'context'; subjectId: string; context: CustomerContext; checksum: string }
+  | { type: 'subject_map'; phone: string; subjectId: string; checksum: string };
+
+export interface MigrationCounts {
+  states: number;
+  contexts: number;
+  mappings: number;
+}
+
+export interface CollectOptions {
+  /**
+   * Only include these subjects (default: all)
+   */
+  subjectIds?: string[];
+
+  /**
+   * Path of the phone-to-subject map written by the phone subject resolver
+   */
+  subjectMapPath?: string;
+}
+
+export interface WriteOptions {
+  subjectMapPath?: string;
+
+  /**
+   * Count what would be written without writing anything
+   */
+  dryRun?: boolean;
+}
+
+const ARCHIVE_VERSION = 1;
+
+/**
+ * Collect every non-expired state, context and subject mapping from a store
+ */
+export async function collectRecords(store: StateStore, options: CollectOptions = {}): Promise<MigrationRecord[]> {
+  const include = (subjectId: string) => !options.subjectIds || options.subjectIds.includes(subjectId);
+  const records: MigrationRecord[] = [];
+
+  for (const { subjectId, runState, agentName, currentAgentName, channel, requestedAt } of await store.listStates()) {
+    if (include(subjectId)) {
+      const metadata = { agentName, currentAgentName, channel, requestedAt };
+      records.push({ type: 'state', subjectId, runState, metadata, checksum: checksum({ runState, metadata }) });
+    }
+  }
+
+  for (const subjectId of await store.listContextSubjects()) {
+    if (!include(subjectId)) {
+      continue;
+    }
+    const loaded = await store.loadContext(subjectId);
+    if (loaded) {
+      const context = withoutVersion(loaded);
+      records.push({ type: 'context', subjectId, context, checksum: checksum(context) });
+    }
+  }
+
+  if (options.subjectMapPath) {
+    for (const [phone, subjectId] of Object.entries(await readSubjectMap(options.subjectMapPath))) {
+      if (include(subjectId)) {
+        records.push({ type: 'subject_map', phone, subjectId, checksum: checksum({ phone, subjectId }) });
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Write records into a store; subject mappings are merged into the target map file
+ */
+export async function writeRecords(store: StateStore, records: MigrationRecord[], options: WriteOptions = {}): Promise<MigrationCounts> {
+  const counts = countRecords(records);
+  if (options.dryRun) {
+    return counts;
+  }
+
+  const mappings: Record<string, string> = {};
+
+  for (const record of records) {
+    switch (record.type) {
+      case 'state':
+        await store.saveState(record.subjectId, record.runState, record.metadata);
+        break;
+      case 'context':
+        // Unconditional write; the target assigns its own version
+        await store.saveContext(record.subjectId, { ...record.context });
+        break;
+      case 'subject_map':
+        mappings[record.phone] = record.subjectId;
+        break;
+    }
+  }
+
+  if (options.subjectMapPath && Object.keys(mappings).length > 0) {
+    const existing = await readSubjectMap(options.subjectMapPath);
+    await fs.mkdir(path.dirname(options.subjectMapPath), { recursive: true });
+    await fs.writeFile(options.subjectMapPath, JSON.stringify({ ...existing, ...mappings }, null, 2));
+  }
+
+  return counts;
+}
+
+/**
+ * Re-read every record from the target and compare checksums
+ *
+ * @returns Descriptions of records that are missing or differ; empty when the copy is intact
+ */
+export async function verifyRecords(store: StateStore, records: MigrationRecord[], subjectMapPath?: string): Promise<string[]> {
+  const mismatches: string[] = [];
+  const subjectMap = subjectMapPath ? await readSubjectMap(subjectMapPath) : {};
+
+  for (const record of records) {
+    let actual: string | undefined;
+
+    switch (record.type) {
+      case 'state': {
+        const stored = await store.loadStateRecord(record.subjectId);
+        if (stored) {
+          const { runState, agentName, currentAgentName, channel, requestedAt } = stored;
+          actual = checksum({ runState, metadata: { agentName, currentAgentName, channel, requestedAt } });
+        }
+        break;
+      }
+      case 'context': {
+        const stored = await store.loadContext(record.subjectId);
+        actual = stored ? checksum(withoutVersion(stored)) : undefined;
+        break;
+      }
+      case 'subject_map': {
+        const subjectId = subjectMap[record.phone];
+        actual = subjectId ? checksum({ phone: record.phone, subjectId }) : undefined;
+        break;
+      }
+    }
+
+    const label = record.type === 'subject_map' ? `subject_map ${record.phone}` : `${record.type} ${record.subjectId}`;
+    if (actual === undefined) {
+      mismatches.push(`${label}: missing in target`);
+    } else if (actual !== record.checksum) {
+      mismatches.push(`${label}: checksum mismatch`);
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Write records to a JSONL archive: a header line, then one record per line
+ */
+export async function writeArchive(filePath: string, records: MigrationRecord[]): Promise<void> {
+  const header = {
+    type: 'header',
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    counts: countRecords(records)
+  };
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, [header, ...records].map(line => JSON.stringify(line)).join('\n') + '\n');
+}
+
+/**
+ * Read a JSONL archive, checking each record's checksum and the header counts
+ */
+export async function readArchive(filePath: string): Promise<MigrationRecord[]> {
+  const lines = (await fs.readFile(filePath, 'utf-8')).split('\n').filter(line => line.trim());
+  const header = lines.length > 0 ? JSON.parse(lines[0]) : undefined;
+
+  if (header?.type !== 'header' || header.version !== ARCHIVE_VERSION) {
+    throw new Error(`${filePath} is not a version ${ARCHIVE_VERSION} persistence archive`);
+  }
+
+  const records = lines.slice(1).map((line, i) => {
+    const record = JSON.parse(line) as MigrationRecord;
+    if (record.type === 'context') {
+      record.context.sessionStartTime = new Date(record.context.sessionStartTime);
+      record.context.lastActiveAt = new Date(record.context.lastActiveAt);
+    }
+    if (recordChecksum(record) !== record.checksum) {
+      throw new Error(`Checksum mismatch on line ${i + 2} of ${filePath}`);
+    }
+    return record;
+  });
+
+  const counts = countRecords(records);
+  if (JSON.stringify(counts) !== JSON.stringify(header.counts)) {
+    throw new Error(`Record counts in ${filePath} do not match its header: expected ${JSON.stringify(header.counts)}, found ${JSON.stringify(counts)}`);
+  }
+
+  return records;
+}
+
+export function countRecords(records: MigrationRecord[]): MigrationCounts {
+  return {
+    states: records.filter(record => record.type === 'state').length,
+    contexts: records.filter(record => record.type === 'context').length,
+    mappings: records.filter(record => record.type === 'subject_map').length
+  };
+}
+
+async function readSubjectMap(filePath: string): Promise<Record<string, string>> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Versions are assigned by each store, so they are not part of the migrated data
+ */
+function withoutVersion(context: CustomerContext): CustomerContext {
+  const { version: _version, ...rest } = context;
+  return rest;
+}
+
+function recordChecksum(record: MigrationRecord): string {
+  switch (record.type) {
+    case 'state':
+      return checksum({ runState: record.runState, metadata: record.metadata });
+    case 'context':
+      return checksum(record.context);
+    case 'subject_map':
+      return checksum({ phone: record.phone, subjectId: record.subjectId });
+  }
+}
+
+/**
+ * SHA-256 of a value's JSON with object keys sorted, so stores that reorder
+ * fields or drop undefined values still produce the same checksum
+ */
+function checksum(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(Object.keys(val).sort().map(key => [key, val[key]]));
+    }
+    return val;
+  });
+}
@@ -1,5 +1,13 @@
 import { logger } from '../../utils/logger';
-import { RunStateStore } from './types';
+import {
+  RunStateStore,
+  CustomerContextStore,
+  RunStateMetadata,
+  RunStateRecord,
+  SaveContextOptions,
+  ContextVersionConflictError
+} from './types';
+import { CustomerContext } from '../../context/types';
 
 export interface PostgresStoreConfig {
   connectionString?: string;
@@ -9,22 +17,118 @@ export interface PostgresStoreConfig {
   username?: string;
   password?: string;
   tableName?: string;
-  maxAge?: number; // in milliseconds
+  contextTableName?: string;
+  maxAge?: number; // in milliseconds (for RunState)
+  contextMaxAge?: number; // in milliseconds (for CustomerContext, default 7 days)
   ssl?: boolean;
 }
 
+export interface PostgresQueryResult {
+  rows: any[];
+  rowCount?: number | null;
+}
+
 /**
- * PostgreSQL-based implementation of RunStateStore
- * 
- * TODO: Implement PostgreSQL client integration for production use
- * Example integration with pg (node-postgres) client
+ * The subset of the `pg` (node-postgres) API used by PostgresStateStore.
+ *
+ * A `Pool` can be passed in directly; tests use an in-process pg-mem pool.
  */
-export class PostgresStateStore implements RunStateStore {
-  private config: PostgresStoreConfig;
-  // TODO: Add PostgreSQL client property
-  // private client: Pool;
+export interface PostgresClient {
+  query(text: string, params?: unknown[]): Promise<PostgresQueryResult>;
+  connect?(): Promise<PostgresClient & { release(): void }>;
+  end?(): Promise<void>;
+}
+
+interface TableNames {
+  states: string;
+  contexts: string;
+}
+
+/**
+ * A schema change, applied once and recorded in schema_migrations
+ */
+interface Migration {
+  version: number;
+  name: string;
+  statements: (tables: TableNames) => string[];
+}
+
+/**
+ * Schema migrations in the order they are applied. Never edit a migration
+ * that has been released; add a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_run_states',
+    statements: ({ states }) => [
+      `CREATE TABLE IF NOT EXISTS ${states} (
+        subject_id TEXT PRIMARY KEY,
+        run_state TEXT NOT NULL,
+        agent_name TEXT,
+        current_agent_name TEXT,
+        channel TEXT,
+        updated_at TIMESTAMPTZ NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_${states}_updated_at ON ${states} (updated_at)`
+    ]
+  },
+  {
+    version: 2,
+    name: 'create_customer_contexts',
+    statements: ({ contexts }) => [
+      `CREATE TABLE IF NOT EXISTS ${contexts} (
+        subject_id TEXT PRIMARY KEY,
+        profile JSONB NOT NULL,
+        conversation_history JSONB NOT NULL,
+        metadata JSONB NOT NULL,
+        session_start_time TIMESTAMPTZ NOT NULL,
+        last_active_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_${contexts}_updated_at ON ${contexts} (updated_at)`
+    ]
+  },
+  {
+    version: 3,
+    name: 'add_customer_context_version',
+    statements: ({ contexts }) => [
+      `ALTER TABLE ${contexts} ADD COLUMN version INTEGER NOT NULL DEFAULT 0`
+    ]
+  },
+  {
+    version: 4,
+    name: 'add_run_state_requested_at',
+    statements: ({ states }) => [
+      `ALTER TABLE ${states} ADD COLUMN requested_at TIMESTAMPTZ`
+    ]
+  }
+];
 
-  constructor(config: PostgresStoreConfig = {}) {
+/**
+ * Advisory lock key held while migrating, shared by every store on the database
+ */
+const MIGRATION_LOCK_KEY = 72917301;
+
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+/**
+ * PostgreSQL-based implementation of RunStateStore and CustomerContextStore
+ *
+ * Tables are created and upgraded by versioned migrations on init(). Each
+ * table keeps an indexed `updated_at` column, which backs expiry checks and
+ * cleanup. Customer contexts store `conversationHistory` and `metadata` as
+ * JSONB columns so they can be queried directly.
+ */
+export class PostgresStateStore implements RunStateStore, CustomerContextStore {
+  private config: PostgresStoreConfig & Required<Pick<PostgresStoreConfig, 'tableName' | 'contextTableName' | 'maxAge' | 'contextMaxAge'>>;
+  private client?: PostgresClient;
+
+  /**
+   * @param config - Connection, table and expiry settings
+   * @param client - Pre-configured pool; created from `pg` on init() if omitted
+   */
+  constructor(config: PostgresStoreConfig = {}, client?: PostgresClient) {
     this.config = {
       host: config.host || 'localhost',
       port: config.port || 5432,
@@ -32,118 +136,517 @@ export class PostgresStateStore implements RunStateStore {
       username: config.username || 'postgres',
       password: config.password,
       tableName: config.tableName || 'conversation_states',
-      maxAge: config.maxAge || 24 * 60 * 60 * 1000, // 24 hours default
+      contextTableName: config.contextTableName || 'customer_contexts',
+      maxAge: config.maxAge || 24 * 60 * 60 * 1000, // 24 hours default for RunState
+      contextMaxAge: config.contextMaxAge || 7 * 24 * 60 * 60 * 1000, // 7 days default for CustomerContext
       ssl: config.ssl || false,
       connectionString: config.connectionString
     };
+
+    for (const table of [this.config.tableName, this.config.contextTableName]) {
+      if (!IDENTIFIER_PATTERN.test(table)) {
+        throw new Error(`Invalid PostgreSQL table name '${table}'`);
+      }
+    }
+
+    this.client = client;
   }
 
   async init(): Promise<void> {
-    // TODO: Initialize PostgreSQL connection and create table if not exists
-    // Example:
-    // import { Pool } from 'pg';
-    // 
-    // this.client = new Pool({
-    //   connectionString: this.config.connectionString,
-    //   host: this.config.host,
-    //   port: this.config.port,
-    //   database: this.config.database,
-    //   user: this.config.username,
-    //   password: this.config.password,
-    //   ssl: this.config.ssl
-    // });
-    // 
-    // // Create table if not exists
-    // await this.client.query(`
-    //   CREATE TABLE IF NOT EXISTS ${this.config.tableName} (
-    //     subject_id VARCHAR(255) PRIMARY KEY,
-    //     run_state TEXT NOT NULL,
-    //     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    //     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    //   )
-    // `);
-    // 
-    // // Create index on updated_at for efficient cleanup
-    // await this.client.query(`
-    //   CREATE INDEX IF NOT EXISTS idx_${this.config.tableName}_updated_at 
-    //   ON ${this.config.tableName} (updated_at)
-    // `);
-    
-    logger.info('PostgreSQL state store initialized (stub)', {
-      operation: 'persistence_init'
-    }, { 
-      host: this.config.host, 
-      port: this.config.port,
-      database: this.config.database,
-      tableName: this.config.tableName 
-    });
-    
-    throw new Error('PostgresStateStore is not yet implemented. Please implement PostgreSQL client integration.');
+    try {
+      if (!this.client) {
+        this.client = this.createPool();
+      }
+
+      const applied = await this.migrate();
+
+      logger.info('PostgreSQL state store initialized', {
+        operation: 'persistence_init'
+      }, {
+        host: this.config.connectionString ? undefined : this.config.host,
+        database: this.config.database,
+        tableName: this.config.tableName,
+        contextTableName: this.config.contextTableName,
+        migrationsApplied: applied
+      });
+    } catch (error) {
+      logger.error('Failed to initialize PostgreSQL state store', error as Error, {
+        operation: 'persistence_init'
+      });
+      throw error;
+    }
   }
 
-  async saveState(subjectId: string, runState: string): Promise<void> {
-    // TODO: Implement PostgreSQL storage
-    // Example:
-    // await this.client.query(`
-    //   INSERT INTO ${this.config.tableName} (subject_id, run_state, updated_at) 
-    //   VALUES ($1, $2, CURRENT_TIMESTAMP)
-    //   ON CONFLICT (subject_id) 
-    //   DO UPDATE SET run_state = $2, updated_at = CURRENT_TIMESTAMP
-    // `, [subjectId, runState]);
-    
-    throw new Error('PostgresStateStore is not yet implemented. Please implement PostgreSQL client integration.');
+  /**
+   * Close the connection pool
+   */
+  async close(): Promise<void> {
+    await this.client?.end?.();
+  }
+
+  async saveState(subjectId: string, runState: string, metadata: RunStateMetadata = {}): Promise<void> {
+    try {
+      await this.getClient().query(
+        `INSERT INTO ${this.config.tableName} (subject_id, run_state, agent_name, current_agent_name, channel, requested_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (subject_id) DO UPDATE SET
+           run_state = EXCLUDED.run_state,
+           agent_name = EXCLUDED.agent_name,
+           current_agent_name = EXCLUDED.current_agent_name,
+           channel = EXCLUDED.channel,
+           requested_at = EXCLUDED.requested_at,
+           updated_at = EXCLUDED.updated_at`,
+        [
+          subjectId,
+          runState,
+          metadata.agentName ?? null,
+          metadata.currentAgentName ?? null,
+          metadata.channel ?? null,
+          metadata.requestedAt !== undefined ? new Date(metadata.requestedAt) : null,
+          new Date(Date.now())
+        ]
+      );
+
+      logger.debug('RunState saved to PostgreSQL store', {
+        subjectId,
+        operation: 'state_save'
+      }, {
+        stateLength: runState.length,
+        agentName: metadata.agentName
+      });
+    } catch (error) {
+      logger.error('Failed to save RunState to PostgreSQL store', error as Error, {
+        subjectId,
+        operation: 'state_save'
+      });
+      throw error;
+    }
   }
 
   async loadState(subjectId: string): Promise<string | null> {
-    // TODO: Implement PostgreSQL retrieval
-    // Example:
-    // const result = await this.client.query(`
-    //   SELECT run_state, updated_at FROM ${this.config.tableName}
-    //   WHERE subject_id = $1
-    // `, [subjectId]);
-    // 
-    // if (result.rows.length === 0) {
-    //   return null;
-    // }
-    // 
-    // const { run_state, updated_at } = result.rows[0];
-    // 
-    // // Check if expired
-    // const age = Date.now() - new Date(updated_at).getTime();
-    // if (age > this.config.maxAge!) {
-    //   await this.deleteState(subjectId);
-    //   return null;
-    // }
-    // 
-    // return run_state;
-    
-    throw new Error('PostgresStateStore is not yet implemented. Please implement PostgreSQL client integration.');
+    const record = await this.loadStateRecord(subjectId);
+    return record ? record.runState : null;
+  }
+
+  async loadStateRecord(subjectId: string): Promise<RunStateRecord | null> {
+    try {
+      const result = await this.getClient().query(
+        `SELECT subject_id, run_state, agent_name, current_agent_name, channel, requested_at, updated_at
+         FROM ${this.config.tableName} WHERE subject_id = $1`,
+        [subjectId]
+      );
+
+      if (result.rows.length === 0) {
+        // No row - this is normal for new conversations
+        return null;
+      }
+
+      const record = this.toStateRecord(result.rows[0]);
+
+      if (Date.now() - record.timestamp > this.config.maxAge) {
+        logger.info('RunState expired, removing from PostgreSQL store', {
+          subjectId,
+          operation: 'state_load'
+        }, {
+          age: Date.now() - record.timestamp
+        });
+
+        await this.deleteState(subjectId);
+        return null;
+      }
+
+      logger.debug('RunState loaded from PostgreSQL store', {
+        subjectId,
+        operation: 'state_load'
+      }, {
+        stateLength: record.runState.length,
+        agentName: record.agentName
+      });
+
+      return record;
+    } catch (error) {
+      logger.error('Failed to load RunState from PostgreSQL store', error as Error, {
+        subjectId,
+        operation: 'state_load'
+      });
+      return null; // Return null on error to allow conversation to continue
+    }
+  }
+
+  async listStates(): Promise<RunStateRecord[]> {
+    try {
+      const result = await this.getClient().query(
+        `SELECT subject_id, run_state, agent_name, current_agent_name, channel, requested_at, updated_at
+         FROM ${this.config.tableName} WHERE updated_at >= $1 ORDER BY updated_at`,
+        [new Date(Date.now() - this.config.maxAge)]
+      );
+
+      return result.rows.map(row => this.toStateRecord(row));
+    } catch (error) {
+      logger.error('Failed to list RunStates from PostgreSQL store', error as Error, {
+        operation: 'state_list'
+      });
+      return [];
+    }
   }
 
   async deleteState(subjectId: string): Promise<void> {
-    // TODO: Implement PostgreSQL deletion
-    // Example:
-    // await this.client.query(`
-    //   DELETE FROM ${this.config.tableName} WHERE subject_id = $1
-    // `, [subjectId]);
-    
-    throw new Error('PostgresStateStore is not yet implemented. Please implement PostgreSQL client integration.');
+    try {
+      await this.getClient().query(`DELETE FROM ${this.config.tableName} WHERE subject_id = $1`, [subjectId]);
+
+      logger.debug('RunState deleted from PostgreSQL store', {
+        subjectId,
+        operation: 'state_delete'
+      });
+    } catch (error) {
+      logger.error('Failed to delete RunState from PostgreSQL store', error as Error, {
+        subjectId,
+        operation: 'state_delete'
+      });
+    }
   }
 
   async cleanupOldStates(maxAgeMs?: number): Promise<number> {
-    const maxAge = maxAgeMs || this.config.maxAge!;
-    
-    // TODO: Implement PostgreSQL cleanup
-    // Example:
-    // const cutoffTime = new Date(Date.now() - maxAge);
-    // 
-    // const result = await this.client.query(`
-    //   DELETE FROM ${this.config.tableName} 
-    //   WHERE updated_at < $1
-    // `, [cutoffTime]);
-    // 
-    // return result.rowCount || 0;
-    
-    throw new Error('PostgresStateStore is not yet implemented. Please implement PostgreSQL client integration.');
-  }
-}
\ No newline at end of file
+    const maxAge = maxAgeMs || this.config.maxAge;
+
+    try {
+      // Uses the updated_at index
+      const result = await this.getClient().query(
+        `DELETE FROM ${this.config.tableName} WHERE updated_at < $1`,
+        [new Date(Date.now() - maxAge)]
+      );
+      const cleanedCount = result.rowCount || 0;
+
+      if (cleanedCount > 0) {
+        logger.info('Old RunStates cleaned up from PostgreSQL store', {
+          operation: 'state_cleanup'
+        }, { cleanedCount });
+      }
+
+      return cleanedCount;
+    } catch (error) {
+      logger.error('Failed to cleanup old states from PostgreSQL store', error as Error, {
+        operation: 'state_cleanup'
+      });
+      return 0;
+    }
+  }
+
+  // CustomerContextStore implementation
+  async saveContext(subjectId: string, context: CustomerContext, options: SaveContextOptions = {}): Promise<void> {
+    try {
+      const { conversationHistory, metadata, sessionStartTime, lastActiveAt, version: _version, ...profile } = context;
+      const table = this.config.contextTableName;
+      const { expectedVersion } = options;
+
+      // JSONB values are passed as JSON text; pg would otherwise send arrays as Postgres arrays
+      const values = [
+        subjectId,
+        JSON.stringify(profile),
+        JSON.stringify(conversationHistory),
+        JSON.stringify(metadata || {}),
+        sessionStartTime,
+        lastActiveAt,
+        new Date(Date.now())
+      ];
+
+      let result;
+      if (expectedVersion === undefined) {
+        result = await this.getClient().query(
+          `INSERT INTO ${table}
+             (subject_id, profile, conversation_history, metadata, session_start_time, last_active_at, updated_at, version)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, 1)
+           ON CONFLICT (subject_id) DO UPDATE SET
+             profile = EXCLUDED.profile,
+             conversation_history = EXCLUDED.conversation_history,
+             metadata = EXCLUDED.metadata,
+             session_start_time = EXCLUDED.session_start_time,
+             last_active_at = EXCLUDED.last_active_at,
+             updated_at = EXCLUDED.updated_at,
+             version = ${table}.version + 1
+           RETURNING version`,
+          values
+        );
+      } else {
+        // Each statement is atomic: the update only matches the expected version,
+        // and the insert (for "not stored yet") does nothing if another writer got there first
+        result = await this.getClient().query(
+          `UPDATE ${table} SET
+             profile = $2, conversation_history = $3, metadata = $4,
+             session_start_time = $5, last_active_at = $6, updated_at = $7,
+             version = version + 1
+           WHERE subject_id = $1 AND version = $8
+           RETURNING version`,
+          [...values, expectedVersion]
+        );
+
+        if (result.rows.length === 0 && expectedVersion === 0) {
+          result = await this.getClient().query(
+            `INSERT INTO ${table}
+               (subject_id, profile, conversation_history, metadata, session_start_time, last_active_at, updated_at, version)
+             SELECT $1, $2::jsonb, $3::jsonb, $4::jsonb, $5::timestamptz, $6::timestamptz, $7::timestamptz, 1
+             WHERE NOT EXISTS (SELECT 1 FROM ${table} WHERE subject_id = $1)
+             ON CONFLICT (subject_id) DO NOTHING
+             RETURNING version`,
+            values
+          );
+        }
+      }
+
+      if (result.rows.length === 0) {
+        const current = await this.getClient().query(`SELECT version FROM ${table} WHERE subject_id = $1`, [subjectId]);
+        throw new ContextVersionConflictError(subjectId, expectedVersion!, Number(current.rows[0]?.version ?? 0));
+      }
+
+      context.version = Number(result.rows[0].version);
+
+      logger.debug('CustomerContext saved to PostgreSQL store', {
+        subjectId,
+        operation: 'context_save'
+      }, {
+        historyLength: conversationHistory.length
+      });
+    } catch (error) {
+      if (!(error instanceof ContextVersionConflictError)) {
+        logger.error('Failed to save CustomerContext to PostgreSQL store', error as Error, {
+          subjectId,
+          operation: 'context_save'
+        });
+      }
+      throw error;
+    }
+  }
+
+  async loadContext(subjectId: string): Promise<CustomerContext | null> {
+    try {
+      const result = await this.getClient().query(
+        `SELECT profile, conversation_history, metadata, session_start_time, last_active_at, updated_at, version
+         FROM ${this.config.contextTableName} WHERE subject_id = $1`,
+        [subjectId]
+      );
+
+      if (result.rows.length === 0) {
+        // No row - this is normal for new customers
+        return null;
+      }
+
+      const row = result.rows[0];
+      const age = Date.now() - new Date(row.updated_at).getTime();
+
+      if (age > this.config.contextMaxAge) {
+        logger.info('CustomerContext expired, removing from PostgreSQL store', {
+          subjectId,
+          operation: 'context_load'
+        }, { age });
+
+        await this.deleteContext(subjectId);
+        return null;
+      }
+
+      const context: CustomerContext = {
+        ...this.parseJson(row.profile),
+        conversationHistory: this.parseJson(row.conversation_history),
+        metadata: this.parseJson(row.metadata),
+        sessionStartTime: new Date(row.session_start_time),
+        lastActiveAt: new Date(row.last_active_at),
+        version: Number(row.version)
+      };
+
+      logger.debug('CustomerContext loaded from PostgreSQL store', {
+        subjectId,
+        operation: 'context_load'
+      }, {
+        historyLength: context.conversationHistory.length
+      });
+
+      return context;
+    } catch (error) {
+      logger.error('Failed to load CustomerContext from PostgreSQL store', error as Error, {
+        subjectId,
+        operation: 'context_load'
+      });
+      return null;
+    }
+  }
+
+  async deleteContext(subjectId: string): Promise<void> {
+    try {
+      await this.getClient().query(`DELETE FROM ${this.config.contextTableName} WHERE subject_id = $1`, [subjectId]);
+
+      logger.debug('CustomerContext deleted from PostgreSQL store', {
+        subjectId,
+        operation: 'context_delete'
+      });
+    } catch (error) {
+      logger.error('Failed to delete CustomerContext from PostgreSQL store', error as Error, {
+        subjectId,
+        operation: 'context_delete'
+      });
+    }
+  }
+
+  async listContextSubjects(): Promise<string[]> {
+    try {
+      const result = await this.getClient().query(
+        `SELECT subject_id FROM ${this.config.contextTableName} WHERE updated_at >= $1 ORDER BY updated_at`,
+        [new Date(Date.now() - this.config.contextMaxAge)]
+      );
+
+      return result.rows.map(row => row.subject_id);
+    } catch (error) {
+      logger.error('Failed to list CustomerContexts from PostgreSQL store', error as Error, {
+        operation: 'context_list'
+      });
+      return [];
+    }
+  }
+
+  async cleanupOldContexts(maxAgeMs?: number): Promise<number> {
+    const maxAge = maxAgeMs || this.config.contextMaxAge;
+
+    try {
+      // Uses the updated_at index
+      const result = await this.getClient().query(
+        `DELETE FROM ${this.config.contextTableName} WHERE updated_at < $1`,
+        [new Date(Date.now() - maxAge)]
+      );
+      const cleanedCount = result.rowCount || 0;
+
+      if (cleanedCount > 0) {
+        logger.info('Old CustomerContexts cleaned up from PostgreSQL store', {
+          operation: 'context_cleanup'
+        }, { cleanedCount });
+      }
+
+      return cleanedCount;
+    } catch (error) {
+      logger.error('Failed to cleanup old contexts from PostgreSQL store', error as Error, {
+        operation: 'context_cleanup'
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Apply pending migrations in version order, each in its own transaction
+   *
+   * Holds an advisory lock for the whole run, so servers starting at the same
+   * time wait for each other instead of applying the same migration twice.
+   *
+   * @returns Versions applied by this call
+   */
+  private async migrate(): Promise<number[]> {
+    const pool = this.getClient();
+    // Session advisory locks belong to one connection; a pool hands one out with connect()
+    const connection = pool.connect ? await pool.connect() : undefined;
+    const client = connection || pool;
+    const tables: TableNames = {
+      states: this.config.tableName,
+      contexts: this.config.contextTableName
+    };
+
+    try {
+      await client.query(`SELECT pg_advisory_lock(${MIGRATION_LOCK_KEY})`);
+
+      try {
+        await client.query(`CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL
+        )`);
+
+        const result = await client.query('SELECT version FROM schema_migrations');
+        const appliedVersions = new Set(result.rows.map(row => Number(row.version)));
+        const applied: number[] = [];
+
+        for (const migration of MIGRATIONS) {
+          if (appliedVersions.has(migration.version)) {
+            continue;
+          }
+
+          await this.inTransaction(client, async () => {
+            for (const statement of migration.statements(tables)) {
+              await client.query(statement);
+            }
+            await client.query(
+              'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+              [migration.version, migration.name, new Date()]
+            );
+          });
+
+          applied.push(migration.version);
+          logger.info('PostgreSQL migration applied', {
+            operation: 'persistence_migration'
+          }, { version: migration.version, name: migration.name });
+        }
+
+        return applied;
+      } finally {
+        await client.query(`SELECT pg_advisory_unlock(${MIGRATION_LOCK_KEY})`);
+      }
+    } finally {
+      connection?.release();
+    }
+  }
+
+  /**
+   * Run work in a transaction on a single connection
+   */
+  private async inTransaction(client: PostgresClient, work: () => Promise<void>): Promise<void> {
+    try {
+      await client.query('BEGIN');
+      await work();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private toStateRecord(row: any): RunStateRecord {
+    return {
+      subjectId: row.subject_id,
+      runState: row.run_state,
+      timestamp: new Date(row.updated_at).getTime(),
+      agentName: row.agent_name ?? undefined,
+      currentAgentName: row.current_agent_name ?? undefined,
+      channel: row.channel ?? undefined,
+      requestedAt: row.requested_at ? new Date(row.requested_at).getTime() : undefined
+    };
+  }
+
+  private parseJson(value: unknown): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+
+  /**
+   * Create a pool with the `pg` package, which is only needed when this store is used
+   */
+  private createPool(): PostgresClient {
+    let pg: { Pool: new (options: Record<string, unknown>) => PostgresClient };
+    try {
+      pg = require('pg');
+    } catch {
+      throw new Error('PostgresStateStore requires the pg package. Install it with: npm install pg');
+    }
+
+    return new pg.Pool(this.config.connectionString ? {
+      connectionString: this.config.connectionString,
+      ssl: this.config.ssl
+    } : {
+      host: this.config.host,
+      port: this.config.port,
+      database: this.config.database,
+      user: this.config.username,
+      password: this.config.password,
+      ssl: this.config.ssl
+    });
+  }
+
+  private getClient(): PostgresClient {
+    if (!this.client) {
+      throw new Error('PostgresStateStore is not initialized. Call init() first.');
+    }
+    return this.client;
+  }
+}
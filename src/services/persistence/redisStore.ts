@@ -1,116 +1,531 @@
 import { logger } from '../../utils/logger';
-import { RunStateStore } from './types';
+import {
+  RunStateStore,
+  CustomerContextStore,
+  RunStateMetadata,
+  RunStateRecord,
+  SaveContextOptions,
+  ContextVersionConflictError
+} from './types';
+import { CustomerContext } from '../../context/types';
 
 export interface RedisStoreConfig {
+  url?: string;
   host?: string;
   port?: number;
   password?: string;
   db?: number;
   keyPrefix?: string;
-  maxAge?: number; // in milliseconds
+  maxAge?: number; // in milliseconds (for RunState)
+  contextMaxAge?: number; // in milliseconds (for CustomerContext, default 7 days)
 }
 
 /**
- * Redis-based implementation of RunStateStore
- * 
- * TODO: Implement Redis client integration for production use
- * Example integration with ioredis or node_redis client
+ * The subset of Redis commands used by RedisStateStore.
+ *
+ * Matches the `redis` (node-redis v4) client API, so a client from
+ * `createClient()` can be passed in directly; tests use an in-memory fake.
  */
-export class RedisStateStore implements RunStateStore {
-  private config: RedisStoreConfig;
-  // TODO: Add Redis client property
-  // private client: Redis;
+export interface RedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: { PX?: number }): Promise<unknown>;
+  del(key: string): Promise<number>;
+  sAdd(key: string, member: string): Promise<number>;
+  sRem(key: string, member: string): Promise<number>;
+  sMembers(key: string): Promise<string[]>;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+  connect?(): Promise<unknown>;
+  quit?(): Promise<unknown>;
+}
+
+interface StoredContext {
+  version?: number;
+  subjectId: string;
+  context: any;
+  timestamp: number;
+}
+
+/**
+ * Compare-and-set for contexts. The stored JSON always starts with
+ * `{"version":N,` so the current version is read without decoding the value.
+ *
+ * KEYS[1]: context key
+ * ARGV[1]: expected version, or '' to write unconditionally
+ * ARGV[2]: context JSON without the version field
+ * ARGV[3]: TTL in milliseconds
+ * Returns {1, newVersion} on success or {0, storedVersion} on conflict.
+ */
+const SAVE_CONTEXT_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local version = 0
+if current then
+  version = tonumber(string.match(current, '^{"version":(%d+),')) or 0
+end
+if ARGV[1] ~= '' and tonumber(ARGV[1]) ~= version then
+  return {0, version}
+end
+local nextVersion = version + 1
+redis.call('SET', KEYS[1], '{"version":' .. nextVersion .. ',' .. string.sub(ARGV[2], 2), 'PX', ARGV[3])
+return {1, nextVersion}
+`;
 
-  constructor(config: RedisStoreConfig = {}) {
+/**
+ * Redis-based implementation of RunStateStore and CustomerContextStore
+ *
+ * Suitable for running several server instances against shared state.
+ * Every value is written with a TTL so Redis expires it on its own; stored
+ * timestamps are still checked on load, matching FileStateStore. Context
+ * writes go through a Lua script so compare-and-set is atomic.
+ *
+ * Key Structure (under keyPrefix):
+ * - state:{subjectId}: Short-term RunState record for tool approvals
+ * - context:{subjectId}: Long-term customer context for continuity
+ * - index:states / index:contexts: Sets of subject IDs used for listing and cleanup
+ */
+export class RedisStateStore implements RunStateStore, CustomerContextStore {
+  private config: Required<Omit<RedisStoreConfig, 'url' | 'password'>> & Pick<RedisStoreConfig, 'url' | 'password'>;
+  private client?: RedisClient;
+
+  /**
+   * @param config - Connection and expiry settings
+   * @param client - Pre-configured client; created from `redis` on init() if omitted
+   */
+  constructor(config: RedisStoreConfig = {}, client?: RedisClient) {
     this.config = {
+      url: config.url,
       host: config.host || 'localhost',
       port: config.port || 6379,
       password: config.password,
       db: config.db || 0,
       keyPrefix: config.keyPrefix || 'runstate:',
-      maxAge: config.maxAge || 24 * 60 * 60 * 1000 // 24 hours default
+      maxAge: config.maxAge || 24 * 60 * 60 * 1000, // 24 hours default for RunState
+      contextMaxAge: config.contextMaxAge || 7 * 24 * 60 * 60 * 1000 // 7 days default for CustomerContext
     };
+    this.client = client;
   }
 
   async init(): Promise<void> {
-    // TODO: Initialize Redis connection
-    // Example:
-    // this.client = new Redis({
-    //   host: this.config.host,
-    //   port: this.config.port,
-    //   password: this.config.password,
-    //   db: this.config.db,
-    // });
-    
-    logger.info('Redis state store initialized (stub)', {
-      operation: 'persistence_init'
-    }, { 
-      host: this.config.host, 
-      port: this.config.port,
-      db: this.config.db 
-    });
-    
-    throw new Error('RedisStateStore is not yet implemented. Please implement Redis client integration.');
+    try {
+      if (!this.client) {
+        this.client = await this.createClient();
+      }
+
+      logger.info('Redis state store initialized', {
+        operation: 'persistence_init'
+      }, {
+        host: this.config.url ? undefined : this.config.host,
+        port: this.config.url ? undefined : this.config.port,
+        db: this.config.db,
+        keyPrefix: this.config.keyPrefix
+      });
+    } catch (error) {
+      logger.error('Failed to initialize Redis state store', error as Error, {
+        operation: 'persistence_init'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close the connection to Redis
+   */
+  async close(): Promise<void> {
+    await this.client?.quit?.();
   }
 
-  async saveState(subjectId: string, runState: string): Promise<void> {
-    // TODO: Implement Redis storage
-    // Example:
-    // const key = `${this.config.keyPrefix}${subjectId}`;
-    // const value = JSON.stringify({
-    //   runState,
-    //   timestamp: Date.now()
-    // });
-    // 
-    // await this.client.setex(key, Math.floor(this.config.maxAge! / 1000), value);
-    
-    throw new Error('RedisStateStore is not yet implemented. Please implement Redis client integration.');
+  async saveState(subjectId: string, runState: string, metadata: RunStateMetadata = {}): Promise<void> {
+    try {
+      const stateData: RunStateRecord = {
+        subjectId,
+        runState,
+        timestamp: Date.now(),
+        agentName: metadata.agentName,
+        currentAgentName: metadata.currentAgentName,
+        channel: metadata.channel,
+        requestedAt: metadata.requestedAt
+      };
+
+      await this.getClient().set(this.stateKey(subjectId), JSON.stringify(stateData), { PX: this.config.maxAge });
+      await this.getClient().sAdd(this.stateIndexKey(), subjectId);
+
+      logger.debug('RunState saved to Redis store', {
+        subjectId,
+        operation: 'state_save'
+      }, {
+        stateLength: runState.length,
+        agentName: metadata.agentName
+      });
+    } catch (error) {
+      logger.error('Failed to save RunState to Redis store', error as Error, {
+        subjectId,
+        operation: 'state_save'
+      });
+      throw error;
+    }
   }
 
   async loadState(subjectId: string): Promise<string | null> {
-    // TODO: Implement Redis retrieval
-    // Example:
-    // const key = `${this.config.keyPrefix}${subjectId}`;
-    // const value = await this.client.get(key);
-    // 
-    // if (!value) {
-    //   return null;
-    // }
-    // 
-    // const { runState, timestamp } = JSON.parse(value);
-    // 
-    // // Check if expired (Redis TTL should handle this, but double-check)
-    // if (Date.now() - timestamp > this.config.maxAge!) {
-    //   await this.client.del(key);
-    //   return null;
-    // }
-    // 
-    // return runState;
-    
-    throw new Error('RedisStateStore is not yet implemented. Please implement Redis client integration.');
+    const record = await this.loadStateRecord(subjectId);
+    return record ? record.runState : null;
+  }
+
+  async loadStateRecord(subjectId: string): Promise<RunStateRecord | null> {
+    try {
+      const value = await this.getClient().get(this.stateKey(subjectId));
+      if (!value) {
+        // Missing or expired by Redis - normal for new conversations
+        return null;
+      }
+
+      let stateData: RunStateRecord;
+      try {
+        stateData = JSON.parse(value);
+      } catch (parseError) {
+        logger.error('Corrupted RunState in Redis, removing', parseError as Error, {
+          subjectId,
+          operation: 'state_load'
+        });
+        await this.deleteState(subjectId);
+        return null;
+      }
+
+      // Redis TTL should handle this, but a shorter maxAge may have been configured since
+      if (Date.now() - stateData.timestamp > this.config.maxAge) {
+        logger.info('RunState expired, removing from Redis store', {
+          subjectId,
+          operation: 'state_load'
+        }, {
+          age: Date.now() - stateData.timestamp
+        });
+
+        await this.deleteState(subjectId);
+        return null;
+      }
+
+      logger.debug('RunState loaded from Redis store', {
+        subjectId,
+        operation: 'state_load'
+      }, {
+        stateLength: stateData.runState.length,
+        agentName: stateData.agentName
+      });
+
+      return stateData;
+    } catch (error) {
+      logger.error('Failed to load RunState from Redis store', error as Error, {
+        subjectId,
+        operation: 'state_load'
+      });
+      return null; // Return null on error to allow conversation to continue
+    }
+  }
+
+  async listStates(): Promise<RunStateRecord[]> {
+    try {
+      const subjectIds = await this.getClient().sMembers(this.stateIndexKey());
+      const records: RunStateRecord[] = [];
+
+      for (const subjectId of subjectIds) {
+        const record = await this.loadStateRecord(subjectId);
+        if (record) {
+          records.push(record);
+        } else {
+          // Expired by Redis; drop it from the index
+          await this.getClient().sRem(this.stateIndexKey(), subjectId);
+        }
+      }
+
+      return records;
+    } catch (error) {
+      logger.error('Failed to list RunStates from Redis store', error as Error, {
+        operation: 'state_list'
+      });
+      return [];
+    }
   }
 
   async deleteState(subjectId: string): Promise<void> {
-    // TODO: Implement Redis deletion
-    // Example:
-    // const key = `${this.config.keyPrefix}${subjectId}`;
-    // await this.client.del(key);
-    
-    throw new Error('RedisStateStore is not yet implemented. Please implement Redis client integration.');
+    try {
+      await this.getClient().del(this.stateKey(subjectId));
+      await this.getClient().sRem(this.stateIndexKey(), subjectId);
+
+      logger.debug('RunState deleted from Redis store', {
+        subjectId,
+        operation: 'state_delete'
+      });
+    } catch (error) {
+      logger.error('Failed to delete RunState from Redis store', error as Error, {
+        subjectId,
+        operation: 'state_delete'
+      });
+    }
   }
 
   async cleanupOldStates(maxAgeMs?: number): Promise<number> {
-    // TODO: Implement Redis cleanup
-    // Note: With proper TTL usage in Redis, this might not be necessary
-    // as Redis will automatically expire keys
-    // 
-    // Alternative approach: Use SCAN to find all keys with prefix
-    // and check their TTL or stored timestamp
-    
-    logger.info('Redis cleanup called (automatic TTL should handle this)', {
-      operation: 'state_cleanup'
+    const maxAge = maxAgeMs || this.config.maxAge;
+
+    try {
+      const cleanedCount = await this.cleanupIndex(this.stateIndexKey(), id => this.stateKey(id), maxAge);
+
+      if (cleanedCount > 0) {
+        logger.info('Old RunStates cleaned up from Redis store', {
+          operation: 'state_cleanup'
+        }, { cleanedCount });
+      }
+
+      return cleanedCount;
+    } catch (error) {
+      logger.error('Failed to cleanup old states from Redis store', error as Error, {
+        operation: 'state_cleanup'
+      });
+      return 0;
+    }
+  }
+
+  // CustomerContextStore implementation
+  async saveContext(subjectId: string, context: CustomerContext, options: SaveContextOptions = {}): Promise<void> {
+    try {
+      const { version: _version, ...unversioned } = context;
+      const contextData: StoredContext = {
+        subjectId,
+        context: {
+          ...unversioned,
+          // Convert Dates to ISO strings for JSON serialization
+          sessionStartTime: context.sessionStartTime.toISOString(),
+          lastActiveAt: context.lastActiveAt.toISOString()
+        },
+        timestamp: Date.now()
+      };
+
+      const [saved, version] = await this.getClient().eval(SAVE_CONTEXT_SCRIPT, {
+        keys: [this.contextKey(subjectId)],
+        arguments: [
+          options.expectedVersion === undefined ? '' : String(options.expectedVersion),
+          JSON.stringify(contextData),
+          String(this.config.contextMaxAge)
+        ]
+      }) as [number, number];
+
+      if (!saved) {
+        throw new ContextVersionConflictError(subjectId, options.expectedVersion!, version);
+      }
+
+      context.version = version;
+      await this.getClient().sAdd(this.contextIndexKey(), subjectId);
+
+      logger.debug('CustomerContext saved to Redis store', {
+        subjectId,
+        operation: 'context_save'
+      }, {
+        historyLength: context.conversationHistory.length
+      });
+    } catch (error) {
+      if (!(error instanceof ContextVersionConflictError)) {
+        logger.error('Failed to save CustomerContext to Redis store', error as Error, {
+          subjectId,
+          operation: 'context_save'
+        });
+      }
+      throw error;
+    }
+  }
+
+  async loadContext(subjectId: string): Promise<CustomerContext | null> {
+    try {
+      const value = await this.getClient().get(this.contextKey(subjectId));
+      if (!value) {
+        // Missing or expired by Redis - normal for new customers
+        return null;
+      }
+
+      let contextData: StoredContext;
+      try {
+        contextData = JSON.parse(value);
+      } catch (parseError) {
+        logger.error('Corrupted CustomerContext in Redis, removing', parseError as Error, {
+          subjectId,
+          operation: 'context_load'
+        });
+        await this.deleteContext(subjectId);
+        return null;
+      }
+
+      if (Date.now() - contextData.timestamp > this.config.contextMaxAge) {
+        logger.info('CustomerContext expired, removing from Redis store', {
+          subjectId,
+          operation: 'context_load'
+        }, {
+          age: Date.now() - contextData.timestamp
+        });
+
+        await this.deleteContext(subjectId);
+        return null;
+      }
+
+      // Deserialize the context, converting date strings back to Date objects
+      const context: CustomerContext = {
+        ...contextData.context,
+        sessionStartTime: new Date(contextData.context.sessionStartTime),
+        lastActiveAt: new Date(contextData.context.lastActiveAt),
+        version: contextData.version || 0
+      };
+
+      logger.debug('CustomerContext loaded from Redis store', {
+        subjectId,
+        operation: 'context_load'
+      }, {
+        historyLength: context.conversationHistory.length
+      });
+
+      return context;
+    } catch (error) {
+      logger.error('Failed to load CustomerContext from Redis store', error as Error, {
+        subjectId,
+        operation: 'context_load'
+      });
+      return null;
+    }
+  }
+
+  async deleteContext(subjectId: string): Promise<void> {
+    try {
+      await this.getClient().del(this.contextKey(subjectId));
+      await this.getClient().sRem(this.contextIndexKey(), subjectId);
+
+      logger.debug('CustomerContext deleted from Redis store', {
+        subjectId,
+        operation: 'context_delete'
+      });
+    } catch (error) {
+      logger.error('Failed to delete CustomerContext from Redis store', error as Error, {
+        subjectId,
+        operation: 'context_delete'
+      });
+    }
+  }
+
+  async listContextSubjects(): Promise<string[]> {
+    try {
+      const client = this.getClient();
+      const subjectIds: string[] = [];
+
+      for (const subjectId of await client.sMembers(this.contextIndexKey())) {
+        if (await client.get(this.contextKey(subjectId)) !== null) {
+          subjectIds.push(subjectId);
+        } else {
+          // Expired by Redis; drop it from the index
+          await client.sRem(this.contextIndexKey(), subjectId);
+        }
+      }
+
+      return subjectIds;
+    } catch (error) {
+      logger.error('Failed to list CustomerContexts from Redis store', error as Error, {
+        operation: 'context_list'
+      });
+      return [];
+    }
+  }
+
+  async cleanupOldContexts(maxAgeMs?: number): Promise<number> {
+    const maxAge = maxAgeMs || this.config.contextMaxAge;
+
+    try {
+      const cleanedCount = await this.cleanupIndex(this.contextIndexKey(), id => this.contextKey(id), maxAge);
+
+      if (cleanedCount > 0) {
+        logger.info('Old CustomerContexts cleaned up from Redis store', {
+          operation: 'context_cleanup'
+        }, { cleanedCount });
+      }
+
+      return cleanedCount;
+    } catch (error) {
+      logger.error('Failed to cleanup old contexts from Redis store', error as Error, {
+        operation: 'context_cleanup'
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Delete entries older than maxAge and drop index members whose key Redis
+   * has already expired. Only entries deleted here are counted.
+   */
+  private async cleanupIndex(indexKey: string, keyFor: (subjectId: string) => string, maxAge: number): Promise<number> {
+    const client = this.getClient();
+    const now = Date.now();
+    let cleanedCount = 0;
+
+    for (const subjectId of await client.sMembers(indexKey)) {
+      const value = await client.get(keyFor(subjectId));
+
+      if (value === null) {
+        await client.sRem(indexKey, subjectId);
+        continue;
+      }
+
+      let timestamp: number | undefined;
+      try {
+        timestamp = JSON.parse(value).timestamp;
+      } catch {
+        // Unreadable entries are removed along with expired ones
+      }
+
+      if (timestamp === undefined || now - timestamp > maxAge) {
+        await client.del(keyFor(subjectId));
+        await client.sRem(indexKey, subjectId);
+        cleanedCount++;
+      }
+    }
+
+    return cleanedCount;
+  }
+
+  /**
+   * Create a client with the `redis` package, which is only needed when this store is used
+   */
+  private async createClient(): Promise<RedisClient> {
+    let redis: { createClient(options: Record<string, unknown>): RedisClient };
+    try {
+      redis = require('redis');
+    } catch {
+      throw new Error('RedisStateStore requires the redis package. Install it with: npm install redis');
+    }
+
+    const client = redis.createClient(this.config.url ? {
+      url: this.config.url,
+      database: this.config.db
+    } : {
+      socket: { host: this.config.host, port: this.config.port },
+      password: this.config.password,
+      database: this.config.db
     });
-    
-    return 0; // Redis TTL handles expiration automatically
+
+    await client.connect?.();
+    return client;
+  }
+
+  private getClient(): RedisClient {
+    if (!this.client) {
+      throw new Error('RedisStateStore is not initialized. Call init() first.');
+    }
+    return this.client;
   }
-}
\ No newline at end of file
+
+  private stateKey(subjectId: string): string {
+    return `${this.config.keyPrefix}state:${subjectId}`;
+  }
+
+  private contextKey(subjectId: string): string {
+    return `${this.config.keyPrefix}context:${subjectId}`;
+  }
+
+  private stateIndexKey(): string {
+    return `${this.config.keyPrefix}index:states`;
+  }
+
+  private contextIndexKey(): string {
+    return `${this.config.keyPrefix}index:contexts`;
+  }
+}
@@ -0,0 +1,516 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { logger } from '../../utils/logger';
+import {
+  RunStateStore,
+  CustomerContextStore,
+  RunStateMetadata,
+  RunStateRecord,
+  SaveContextOptions,
+  ContextVersionConflictError
+} from './types';
+import { CustomerContext } from '../../context/types';
+
+export interface SqliteStoreConfig {
+  filePath?: string; // ':memory:' for a throwaway database
+  maxAge?: number; // in milliseconds (for RunState)
+  contextMaxAge?: number; // in milliseconds (for CustomerContext, default 7 days)
+}
+
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number };
+  get(...params: unknown[]): any;
+  all(...params: unknown[]): any[];
+}
+
+/**
+ * The subset of the better-sqlite3 Database API used by SqliteStateStore
+ */
+export interface SqliteDatabase {
+  prepare(sql: string): SqliteStatement;
+  exec(sql: string): void;
+  pragma(source: string, options?: { simple?: boolean }): unknown;
+  transaction<T extends (...args: any[]) => any>(fn: T): T;
+  close(): void;
+}
+
+/**
+ * Schema migrations in the order they are applied; the count of applied
+ * migrations is tracked in SQLite's `user_version` pragma.
+ */
+const MIGRATIONS: string[] = [
+  `CREATE TABLE run_states (
+    subject_id TEXT PRIMARY KEY,
+    run_state TEXT NOT NULL,
+    agent_name TEXT,
+    current_agent_name TEXT,
+    channel TEXT,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_run_states_updated_at ON run_states (updated_at);`,
+  `CREATE TABLE customer_contexts (
+    subject_id TEXT PRIMARY KEY,
+    profile TEXT NOT NULL,
+    conversation_history TEXT NOT NULL,
+    metadata TEXT NOT NULL,
+    session_start_time INTEGER NOT NULL,
+    last_active_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_customer_contexts_updated_at ON customer_contexts (updated_at);`,
+  `ALTER TABLE customer_contexts ADD COLUMN version INTEGER NOT NULL DEFAULT 0;`,
+  `ALTER TABLE run_states ADD COLUMN requested_at INTEGER;`
+];
+
+/**
+ * SQLite-based implementation of RunStateStore and CustomerContextStore
+ *
+ * Intended for single-node deployments: one database file, opened in WAL mode
+ * so reads don't block the writer. Every write is a single statement (or a
+ * transaction for migrations), and expiry queries use an `updated_at` index.
+ */
+export class SqliteStateStore implements RunStateStore, CustomerContextStore {
+  private config: Required<SqliteStoreConfig>;
+  private db?: SqliteDatabase;
+
+  /**
+   * @param config - Database path and expiry settings
+   * @param db - Pre-opened database; opened with better-sqlite3 on init() if omitted
+   */
+  constructor(config: SqliteStoreConfig = {}, db?: SqliteDatabase) {
+    this.config = {
+      filePath: config.filePath || './data/conversation-states.sqlite',
+      maxAge: config.maxAge || 24 * 60 * 60 * 1000, // 24 hours default for RunState
+      contextMaxAge: config.contextMaxAge || 7 * 24 * 60 * 60 * 1000 // 7 days default for CustomerContext
+    };
+    this.db = db;
+  }
+
+  async init(): Promise<void> {
+    try {
+      if (!this.db) {
+        this.db = await this.openDatabase();
+      }
+
+      const journalMode = this.db.pragma('journal_mode = WAL', { simple: true });
+      // NORMAL is durable across application crashes in WAL mode
+      this.db.pragma('synchronous = NORMAL');
+      this.db.pragma('busy_timeout = 5000');
+
+      const applied = this.migrate();
+
+      logger.info('SQLite state store initialized', {
+        operation: 'persistence_init'
+      }, {
+        filePath: this.config.filePath,
+        journalMode,
+        migrationsApplied: applied
+      });
+    } catch (error) {
+      logger.error('Failed to initialize SQLite state store', error as Error, {
+        operation: 'persistence_init'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close the database, checkpointing the WAL
+   */
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  async saveState(subjectId: string, runState: string, metadata: RunStateMetadata = {}): Promise<void> {
+    try {
+      this.getDb().prepare(
+        `INSERT INTO run_states (subject_id, run_state, agent_name, current_agent_name, channel, requested_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (subject_id) DO UPDATE SET
+           run_state = excluded.run_state,
+           agent_name = excluded.agent_name,
+           current_agent_name = excluded.current_agent_name,
+           channel = excluded.channel,
+           requested_at = excluded.requested_at,
+           updated_at = excluded.updated_at`
+      ).run(
+        subjectId,
+        runState,
+        metadata.agentName ?? null,
+        metadata.currentAgentName ?? null,
+        metadata.channel ?? null,
+        metadata.requestedAt ?? null,
+        Date.now()
+      );
+
+      logger.debug('RunState saved to SQLite store', {
+        subjectId,
+        operation: 'state_save'
+      }, {
+        stateLength: runState.length,
+        agentName: metadata.agentName
+      });
+    } catch (error) {
+      logger.error('Failed to save RunState to SQLite store', error as Error, {
+        subjectId,
+        operation: 'state_save'
+      });
+      throw error;
+    }
+  }
+
+  async loadState(subjectId: string): Promise<string | null> {
+    const record = await this.loadStateRecord(subjectId);
+    return record ? record.runState : null;
+  }
+
+  async loadStateRecord(subjectId: string): Promise<RunStateRecord | null> {
+    try {
+      const row = this.getDb().prepare('SELECT * FROM run_states WHERE subject_id = ?').get(subjectId);
+
+      if (!row) {
+        // No row - this is normal for new conversations
+        return null;
+      }
+
+      const record = this.toStateRecord(row);
+
+      if (Date.now() - record.timestamp > this.config.maxAge) {
+        logger.info('RunState expired, removing from SQLite store', {
+          subjectId,
+          operation: 'state_load'
+        }, {
+          age: Date.now() - record.timestamp
+        });
+
+        await this.deleteState(subjectId);
+        return null;
+      }
+
+      logger.debug('RunState loaded from SQLite store', {
+        subjectId,
+        operation: 'state_load'
+      }, {
+        stateLength: record.runState.length,
+        agentName: record.agentName
+      });
+
+      return record;
+    } catch (error) {
+      logger.error('Failed to load RunState from SQLite store', error as Error, {
+        subjectId,
+        operation: 'state_load'
+      });
+      return null; // Return null on error to allow conversation to continue
+    }
+  }
+
+  async listStates(): Promise<RunStateRecord[]> {
+    try {
+      const rows = this.getDb()
+        .prepare('SELECT * FROM run_states WHERE updated_at >= ? ORDER BY updated_at')
+        .all(Date.now() - this.config.maxAge);
+
+      return rows.map(row => this.toStateRecord(row));
+    } catch (error) {
+      logger.error('Failed to list RunStates from SQLite store', error as Error, {
+        operation: 'state_list'
+      });
+      return [];
+    }
+  }
+
+  async deleteState(subjectId: string): Promise<void> {
+    try {
+      this.getDb().prepare('DELETE FROM run_states WHERE subject_id = ?').run(subjectId);
+
+      logger.debug('RunState deleted from SQLite store', {
+        subjectId,
+        operation: 'state_delete'
+      });
+    } catch (error) {
+      logger.error('Failed to delete RunState from SQLite store', error as Error, {
+        subjectId,
+        operation: 'state_delete'
+      });
+    }
+  }
+
+  async cleanupOldStates(maxAgeMs?: number): Promise<number> {
+    const maxAge = maxAgeMs || this.config.maxAge;
+
+    try {
+      // Uses the updated_at index
+      const { changes } = this.getDb()
+        .prepare('DELETE FROM run_states WHERE updated_at < ?')
+        .run(Date.now() - maxAge);
+
+      if (changes > 0) {
+        logger.info('Old RunStates cleaned up from SQLite store', {
+          operation: 'state_cleanup'
+        }, { cleanedCount: changes });
+      }
+
+      return changes;
+    } catch (error) {
+      logger.error('Failed to cleanup old states from SQLite store', error as Error, {
+        operation: 'state_cleanup'
+      });
+      return 0;
+    }
+  }
+
+  // CustomerContextStore implementation
+  async saveContext(subjectId: string, context: CustomerContext, options: SaveContextOptions = {}): Promise<void> {
+    try {
+      const { conversationHistory, metadata, sessionStartTime, lastActiveAt, version: _version, ...profile } = context;
+      const { expectedVersion } = options;
+      const db = this.getDb();
+
+      const values = [
+        JSON.stringify(profile),
+        JSON.stringify(conversationHistory),
+        JSON.stringify(metadata || {}),
+        new Date(sessionStartTime).getTime(),
+        new Date(lastActiveAt).getTime(),
+        Date.now()
+      ];
+
+      let saved;
+      if (expectedVersion === undefined) {
+        saved = db.prepare(
+          `INSERT INTO customer_contexts
+             (subject_id, profile, conversation_history, metadata, session_start_time, last_active_at, updated_at, version)
+           VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+           ON CONFLICT (subject_id) DO UPDATE SET
+             profile = excluded.profile,
+             conversation_history = excluded.conversation_history,
+             metadata = excluded.metadata,
+             session_start_time = excluded.session_start_time,
+             last_active_at = excluded.last_active_at,
+             updated_at = excluded.updated_at,
+             version = customer_contexts.version + 1
+           RETURNING version`
+        ).get(subjectId, ...values);
+      } else {
+        // Each statement is atomic: the update only matches the expected version,
+        // and the insert (for "not stored yet") does nothing if another writer got there first
+        saved = db.prepare(
+          `UPDATE customer_contexts SET
+             profile = ?, conversation_history = ?, metadata = ?,
+             session_start_time = ?, last_active_at = ?, updated_at = ?,
+             version = version + 1
+           WHERE subject_id = ? AND version = ?
+           RETURNING version`
+        ).get(...values, subjectId, expectedVersion);
+
+        if (!saved && expectedVersion === 0) {
+          saved = db.prepare(
+            `INSERT INTO customer_contexts
+               (subject_id, profile, conversation_history, metadata, session_start_time, last_active_at, updated_at, version)
+             VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+             ON CONFLICT (subject_id) DO NOTHING
+             RETURNING version`
+          ).get(subjectId, ...values);
+        }
+      }
+
+      if (!saved) {
+        const current = db.prepare('SELECT version FROM customer_contexts WHERE subject_id = ?').get(subjectId);
+        throw new ContextVersionConflictError(subjectId, expectedVersion!, current?.version ?? 0);
+      }
+
+      context.version = saved.version;
+
+      logger.debug('CustomerContext saved to SQLite store', {
+        subjectId,
+        operation: 'context_save'
+      }, {
+        historyLength: conversationHistory.length
+      });
+    } catch (error) {
+      if (!(error instanceof ContextVersionConflictError)) {
+        logger.error('Failed to save CustomerContext to SQLite store', error as Error, {
+          subjectId,
+          operation: 'context_save'
+        });
+      }
+      throw error;
+    }
+  }
+
+  async loadContext(subjectId: string): Promise<CustomerContext | null> {
+    try {
+      const row = this.getDb().prepare('SELECT * FROM customer_contexts WHERE subject_id = ?').get(subjectId);
+
+      if (!row) {
+        // No row - this is normal for new customers
+        return null;
+      }
+
+      const age = Date.now() - row.updated_at;
+
+      if (age > this.config.contextMaxAge) {
+        logger.info('CustomerContext expired, removing from SQLite store', {
+          subjectId,
+          operation: 'context_load'
+        }, { age });
+
+        await this.deleteContext(subjectId);
+        return null;
+      }
+
+      let context: CustomerContext;
+      try {
+        context = {
+          ...JSON.parse(row.profile),
+          conversationHistory: JSON.parse(row.conversation_history),
+          metadata: JSON.parse(row.metadata),
+          sessionStartTime: new Date(row.session_start_time),
+          lastActiveAt: new Date(row.last_active_at),
+          version: row.version
+        };
+      } catch (parseError) {
+        logger.warn('Corrupted CustomerContext row, removing from SQLite store', {
+          subjectId,
+          operation: 'context_load'
+        }, {
+          error: (parseError as Error).message
+        });
+
+        await this.deleteContext(subjectId);
+        return null;
+      }
+
+      logger.debug('CustomerContext loaded from SQLite store', {
+        subjectId,
+        operation: 'context_load'
+      }, {
+        historyLength: context.conversationHistory.length
+      });
+
+      return context;
+    } catch (error) {
+      logger.error('Failed to load CustomerContext from SQLite store', error as Error, {
+        subjectId,
+        operation: 'context_load'
+      });
+      return null;
+    }
+  }
+
+  async deleteContext(subjectId: string): Promise<void> {
+    try {
+      this.getDb().prepare('DELETE FROM customer_contexts WHERE subject_id = ?').run(subjectId);
+
+      logger.debug('CustomerContext deleted from SQLite store', {
+        subjectId,
+        operation: 'context_delete'
+      });
+    } catch (error) {
+      logger.error('Failed to delete CustomerContext from SQLite store', error as Error, {
+        subjectId,
+        operation: 'context_delete'
+      });
+    }
+  }
+
+  async listContextSubjects(): Promise<string[]> {
+    try {
+      const rows = this.getDb()
+        .prepare('SELECT subject_id FROM customer_contexts WHERE updated_at >= ? ORDER BY updated_at')
+        .all(Date.now() - this.config.contextMaxAge);
+
+      return rows.map(row => row.subject_id);
+    } catch (error) {
+      logger.error('Failed to list CustomerContexts from SQLite store', error as Error, {
+        operation: 'context_list'
+      });
+      return [];
+    }
+  }
+
+  async cleanupOldContexts(maxAgeMs?: number): Promise<number> {
+    const maxAge = maxAgeMs || this.config.contextMaxAge;
+
+    try {
+      // Uses the updated_at index
+      const { changes } = this.getDb()
+        .prepare('DELETE FROM customer_contexts WHERE updated_at < ?')
+        .run(Date.now() - maxAge);
+
+      if (changes > 0) {
+        logger.info('Old CustomerContexts cleaned up from SQLite store', {
+          operation: 'context_cleanup'
+        }, { cleanedCount: changes });
+      }
+
+      return changes;
+    } catch (error) {
+      logger.error('Failed to cleanup old contexts from SQLite store', error as Error, {
+        operation: 'context_cleanup'
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Apply pending migrations in one transaction
+   *
+   * @returns Number of migrations applied by this call
+   */
+  private migrate(): number {
+    const db = this.getDb();
+    const version = Number(db.pragma('user_version', { simple: true }));
+    const pending = MIGRATIONS.slice(version);
+
+    if (pending.length > 0) {
+      db.transaction(() => {
+        for (const migration of pending) {
+          db.exec(migration);
+        }
+        db.pragma(`user_version = ${MIGRATIONS.length}`);
+      })();
+    }
+
+    return pending.length;
+  }
+
+  private toStateRecord(row: any): RunStateRecord {
+    return {
+      subjectId: row.subject_id,
+      runState: row.run_state,
+      timestamp: row.updated_at,
+      agentName: row.agent_name ?? undefined,
+      currentAgentName: row.current_agent_name ?? undefined,
+      channel: row.channel ?? undefined,
+      requestedAt: row.requested_at ?? undefined
+    };
+  }
+
+  /**
+   * Open the database with better-sqlite3, which is only needed when this store is used
+   */
+  private async openDatabase(): Promise<SqliteDatabase> {
+    let Database: new (filename: string) => SqliteDatabase;
+    try {
+      Database = require('better-sqlite3');
+    } catch {
+      throw new Error('SqliteStateStore requires the better-sqlite3 package. Install it with: npm install better-sqlite3');
+    }
+
+    if (this.config.filePath !== ':memory:') {
+      await fs.mkdir(path.dirname(this.config.filePath), { recursive: true });
+    }
+
+    return new Database(this.config.filePath);
+  }
+
+  private getDb(): SqliteDatabase {
+    if (!this.db) {
+      throw new Error('SqliteStateStore is not initialized. Call init() first.');
+    }
+    return this.db;
+  }
+}
@@ -1,5 +1,43 @@
 import { CustomerContext } from '../../context/types';
 
+/**
+ * Agent information stored alongside a serialized RunState
+ * 
+ * A RunState can only be rehydrated with the agent it was started with, so the
+ * owning agent is recorded to allow resumption for any registered agent.
+ */
+export interface RunStateMetadata {
+  /**
+   * Registry name of the agent the run was started with (key in agents.config.ts)
+   */
+  agentName?: string;
+
+  /**
+   * Name of the agent that was active when the run was interrupted (after handoffs)
+   */
+  currentAgentName?: string;
+
+  /**
+   * Channel the conversation turn that produced the state arrived on (e.g. 'sms', 'voice')
+   */
+  channel?: string;
+
+  /**
+   * When the pending tool calls were first requested (epoch ms). Unlike the
+   * record timestamp, it is kept when the state is saved again for the same calls.
+   */
+  requestedAt?: number;
+}
+
+/**
+ * A persisted RunState together with its metadata
+ */
+export interface RunStateRecord extends RunStateMetadata {
+  subjectId: string;
+  runState: string;
+  timestamp: number;
+}
+
 /**
  * RunStateStore interface for pluggable persistence layer
  * 
@@ -18,8 +56,9 @@ export interface RunStateStore {
    * 
    * @param subjectId - The unique identifier for the conversation/subject
    * @param runState - The serialized RunState string from OpenAI Agents SDK
+   * @param metadata - Optional agent information needed to resume the run
    */
-  saveState(subjectId: string, runState: string): Promise<void>;
+  saveState(subjectId: string, runState: string, metadata?: RunStateMetadata): Promise<void>;
 
   /**
    * Load the serialized RunState for a given subject ID
@@ -29,6 +68,21 @@ export interface RunStateStore {
    */
   loadState(subjectId: string): Promise<string | null>;
 
+  /**
+   * Load the full RunState record, including the owning agent, for a given subject ID
+   * 
+   * @param subjectId - The unique identifier for the conversation/subject
+   * @returns The stored record, or null if not found or expired
+   */
+  loadStateRecord(subjectId: string): Promise<RunStateRecord | null>;
+
+  /**
+   * List all non-expired RunState records across subjects
+   * 
+   * @returns The stored records, used to build the pending approvals inbox
+   */
+  listStates(): Promise<RunStateRecord[]>;
+
   /**
    * Delete the RunState for a given subject ID
    * 
@@ -45,6 +99,32 @@ export interface RunStateStore {
   cleanupOldStates(maxAgeMs?: number): Promise<number>;
 }
 
+/**
+ * Options for CustomerContextStore.saveContext
+ */
+export interface SaveContextOptions {
+  /**
+   * Compare-and-set: only write if the stored version equals this value
+   * (0 when no context is stored). Omit to overwrite unconditionally.
+   */
+  expectedVersion?: number;
+}
+
+/**
+ * Thrown by saveContext when the stored version differs from the expected one,
+ * i.e. another writer saved the context since it was loaded
+ */
+export class ContextVersionConflictError extends Error {
+  constructor(
+    public readonly subjectId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(`CustomerContext for ${subjectId} is at version ${actualVersion}, expected ${expectedVersion}`);
+    this.name = 'ContextVersionConflictError';
+  }
+}
+
 /**
  * CustomerContextStore interface for persisting customer conversation context
  * 
@@ -62,16 +142,21 @@ export interface CustomerContextStore {
   /**
    * Save the CustomerContext for a given subject ID
    * 
+   * Every save increments the stored version; the new version is written
+   * back to `context.version`.
+   * 
    * @param subjectId - The unique identifier for the customer/subject
    * @param context - The CustomerContext object to persist
+   * @param options - Compare-and-set options
+   * @throws ContextVersionConflictError when `expectedVersion` does not match
    */
-  saveContext(subjectId: string, context: CustomerContext): Promise<void>;
+  saveContext(subjectId: string, context: CustomerContext, options?: SaveContextOptions): Promise<void>;
 
   /**
    * Load the CustomerContext for a given subject ID
    * 
    * @param subjectId - The unique identifier for the customer/subject
-   * @returns The CustomerContext object, or null if not found or expired
+   * @returns The CustomerContext object with its stored `version`, or null if not found or expired
    */
   loadContext(subjectId: string): Promise<CustomerContext | null>;
 
@@ -82,6 +167,13 @@ export interface CustomerContextStore {
    */
   deleteContext(subjectId: string): Promise<void>;
 
+  /**
+   * List the subject IDs that have a non-expired CustomerContext
+   * 
+   * @returns Subject IDs, used to migrate and export stored contexts
+   */
+  listContextSubjects(): Promise<string[]>;
+
   /**
    * Clean up old/expired CustomerContexts
    * 
@@ -89,4 +181,218 @@ export interface CustomerContextStore {
    * @returns Number of contexts that were deleted
    */
   cleanupOldContexts(maxAgeMs?: number): Promise<number>;
-}
\ No newline at end of file
+}
+
+/**
+ * Kinds of entries written to the approval audit log
+ */
+export type AuditEventType = 'approval_requested' | 'approval_decided' | 'tool_result';
+
+/**
+ * An approval audit entry as provided by the caller
+ */
+export interface AuditEntry {
+  type: AuditEventType;
+  subjectId: string;
+  toolCallId: string;
+  toolName: string;
+  agentName?: string;
+  channel?: string;
+
+  /**
+   * Arguments of the tool call (approval_requested)
+   */
+  arguments?: Record<string, any>;
+
+  /**
+   * Who made the decision, e.g. a reviewer ID, `sms:+15551234567` or `customer` (approval_decided)
+   */
+  reviewer?: string;
+  approved?: boolean;
+  reason?: string;
+
+  /**
+   * Output of the tool once an approved call has executed (tool_result)
+   */
+  result?: unknown;
+}
+
+/**
+ * An audit entry as stored, with its ID and the time it was recorded
+ */
+export interface AuditRecord extends AuditEntry {
+  id: string;
+  timestamp: string; // ISO 8601
+}
+
+/**
+ * Filters for querying the audit log; all are optional and combined with AND
+ */
+export interface AuditQuery {
+  subjectId?: string;
+  toolName?: string;
+  from?: Date;
+  to?: Date;
+
+  /**
+   * Maximum number of records to return (oldest first)
+   */
+  limit?: number;
+}
+
+/**
+ * AuditStore interface for the append-only approval audit log
+ * 
+ * Records every approval request, decision and resulting tool output so that
+ * refunds and escalations can be reviewed later. Entries are never changed
+ * after they are written, and implementations must not offer a way to change
+ * or remove them other than `deleteSubject`, which erases a subject's records
+ * for a data subject erasure request.
+ */
+export interface AuditStore {
+  /**
+   * Initialize the audit backend (create files, tables, connections, etc.)
+   */
+  init(): Promise<void>;
+
+  /**
+   * Append an entry to the audit log
+   * 
+   * @param entry - The entry to record
+   * @returns The stored record including its ID and timestamp
+   */
+  append(entry: AuditEntry): Promise<AuditRecord>;
+
+  /**
+   * Read audit records matching the filter, oldest first
+   * 
+   * @param filter - Subject, tool and date range to match
+   */
+  query(filter?: AuditQuery): Promise<AuditRecord[]>;
+
+  /**
+   * Remove every record for a subject (data subject erasure); the only
+   * operation that rewrites the log
+   * 
+   * @returns Number of records removed
+   */
+  deleteSubject(subjectId: string): Promise<number>;
+}
+
+/**
+ * How a recorded turn ended
+ */
+export type TranscriptTurnStatus = 'completed' | 'awaiting_approval' | 'failed' | 'cancelled' | 'timed_out';
+
+/**
+ * A tool call made during a turn, with its output once it has run
+ */
+export interface TranscriptToolCall {
+  callId?: string;
+  name: string;
+  arguments?: unknown;
+  output?: unknown;
+  awaitingApproval?: boolean;
+}
+
+/**
+ * Result of an input or output guardrail check during a turn
+ */
+export interface TranscriptGuardrailOutcome {
+  name: string;
+  stage: 'input' | 'output';
+  triggered: boolean;
+  info?: unknown;
+}
+
+/**
+ * One conversation turn as provided by the caller
+ */
+export interface TranscriptEntry {
+  subjectId: string;
+
+  /**
+   * Groups the turns of one conversation session; a new session starts when
+   * the subject returns after their previous session ended
+   */
+  sessionId: string;
+
+  /**
+   * What started the turn: a customer message, or a resumed run after tool approvals
+   */
+  trigger: 'message' | 'approval';
+  status: TranscriptTurnStatus;
+  channel?: string;
+  agentName?: string;
+  userMessage?: string;
+  agentOutput?: string;
+  toolCalls: TranscriptToolCall[];
+  guardrails: TranscriptGuardrailOutcome[];
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * A transcript entry as stored, with its ID and the time it was recorded
+ */
+export interface TranscriptRecord extends TranscriptEntry {
+  id: string;
+  timestamp: string; // ISO 8601
+}
+
+/**
+ * Filters for querying transcripts; all are optional and combined with AND
+ */
+export interface TranscriptQuery {
+  subjectId?: string;
+  sessionId?: string;
+  from?: Date;
+  to?: Date;
+
+  /**
+   * Maximum number of records to return (oldest first)
+   */
+  limit?: number;
+}
+
+/**
+ * TranscriptStore interface for the append-only record of conversation turns
+ * 
+ * Unlike CustomerContext.conversationHistory, which is filtered on replay,
+ * compacted and expires with the context, transcript entries are never
+ * changed after they are written. They are kept for their own retention
+ * period and only removed by retention cleanup or data subject erasure.
+ */
+export interface TranscriptStore {
+  /**
+   * Initialize the transcript backend (create files, tables, connections, etc.)
+   */
+  init(): Promise<void>;
+
+  /**
+   * Record a turn
+   * 
+   * @returns The stored record including its ID and timestamp
+   */
+  append(entry: TranscriptEntry): Promise<TranscriptRecord>;
+
+  /**
+   * Read transcript records matching the filter, oldest first
+   */
+  query(filter?: TranscriptQuery): Promise<TranscriptRecord[]>;
+
+  /**
+   * Remove records older than the retention period
+   * 
+   * @param maxAgeMs - Maximum age in milliseconds (optional, uses implementation default if not provided)
+   * @returns Number of records removed
+   */
+  cleanupOldEntries(maxAgeMs?: number): Promise<number>;
+
+  /**
+   * Remove every record for a subject (data subject erasure)
+   * 
+   * @returns Number of records removed
+   */
+  deleteSubject(subjectId: string): Promise<number>;
+}
@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+import twilio from 'twilio';
+import { ConversationService, conversationService, PendingApproval } from './conversationService';
+import { CustomerNotifier } from './customerNotifier';
+import { ApprovalConfig, loadApprovalConfig } from '../config/approvals';
+import { ApprovalRequestedEvent, eventBus } from '../events';
+import { logger } from '../utils/logger';
+
+/**
+ * A parsed supervisor reply such as `YES 4821` or `NO 4821 over refund limit`
+ */
+export interface SupervisorReply {
+  approved: boolean;
+  code: string;
+  reason?: string;
+}
+
+const REPLY_PATTERN = /^\s*(yes|y|approve|no|n|reject)\s+(\d{4})(?:\s+(.+))?\s*$/i;
+
+export const SUPERVISOR_REPLY_HELP = 'Reply YES <code> to approve or NO <code> <reason> to reject.';
+
+/**
+ * Parse a supervisor's SMS reply
+ *
+ * @returns The decision, or null if the message is not a decision
+ */
+export function parseSupervisorReply(body: string): SupervisorReply | null {
+  const match = body.match(REPLY_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const reason = match[3]?.trim();
+  return {
+    approved: ['yes', 'y', 'approve'].includes(match[1].toLowerCase()),
+    code: match[2],
+    ...(reason ? { reason } : {})
+  };
+}
+
+/**
+ * Four-digit code a supervisor uses to refer to a pending tool call.
+ *
+ * Derived from the tool call ID so codes need no storage and survive restarts;
+ * a reply matching more than one pending call is refused as ambiguous.
+ */
+export function approvalShortCode(toolCallId: string): string {
+  const hash = createHash('sha256').update(toolCallId).digest();
+  return String(1000 + (hash.readUInt32BE(0) % 9000));
+}
+
+function normalizePhone(phone: string): string {
+  return phone.replace(/[^\d]/g, '');
+}
+
+/**
+ * SupervisorApprovalService - Lets a supervisor review tool calls by SMS
+ *
+ * Texts the configured supervisor number a summary of each pending tool call
+ * with a short code, and turns their `YES <code>` / `NO <code> <reason>` replies
+ * into approval decisions. The agent's reply is then delivered to the customer.
+ */
+export class SupervisorApprovalService {
+  private supervisorPhone?: string;
+  private twilioAuthToken?: string;
+  private subscribed = false;
+  private active = false;
+  private listener = (payload: ApprovalRequestedEvent) => {
+    if (!this.active) {
+      return;
+    }
+
+    this.notifySupervisor(payload).catch((error: Error) => {
+      logger.error('Failed to notify supervisor of pending approval', error, {
+        subjectId: payload.subjectId,
+        toolName: payload.toolName,
+        operation: 'supervisor_notify'
+      });
+    });
+  };
+
+  constructor(
+    private notifier: CustomerNotifier,
+    private service: ConversationService = conversationService,
+    config: ApprovalConfig = loadApprovalConfig()
+  ) {
+    this.supervisorPhone = config.supervisorPhone;
+    this.twilioAuthToken = config.twilioAuthToken;
+  }
+
+  /**
+   * Start texting the supervisor about new approval requests
+   */
+  start(): void {
+    if (!this.supervisorPhone) {
+      logger.info('No supervisor phone configured, SMS approvals disabled', {
+        operation: 'supervisor_approvals_start'
+      });
+      return;
+    }
+
+    // eventBus wraps listeners, so they cannot be removed with off();
+    // subscribe once and gate delivery on `active` instead
+    if (!this.subscribed) {
+      eventBus.on('approval_requested', this.listener);
+      this.subscribed = true;
+    }
+    this.active = true;
+
+    logger.info('Supervisor SMS approvals enabled', {
+      operation: 'supervisor_approvals_start'
+    });
+  }
+
+  stop(): void {
+    this.active = false;
+  }
+
+  /**
+   * Whether an inbound SMS came from the supervisor
+   */
+  isSupervisor(phone?: string): boolean {
+    return !!phone && !!this.supervisorPhone &&
+      normalizePhone(phone) === normalizePhone(this.supervisorPhone);
+  }
+
+  /**
+   * Whether an inbound SMS webhook carries a valid `X-Twilio-Signature`.
+   * The `From` number can be forged, so supervisor replies are only applied
+   * once this passes; without `TWILIO_AUTH_TOKEN` nothing passes.
+   *
+   * @param signature - Value of the `X-Twilio-Signature` header
+   * @param url - Full URL Twilio posted to, including any query string
+   * @param params - Form parameters of the webhook
+   */
+  isSignedByTwilio(signature: string | undefined, url: string, params: Record<string, any>): boolean {
+    if (!this.twilioAuthToken) {
+      logger.warn('TWILIO_AUTH_TOKEN is not set, cannot verify supervisor replies', {
+        operation: 'supervisor_verify_signature'
+      });
+      return false;
+    }
+
+    return !!signature && twilio.validateRequest(this.twilioAuthToken, signature, url, params);
+  }
+
+  /**
+   * Apply a supervisor's SMS reply
+   *
+   * @param body - Text of the supervisor's SMS
+   * @returns Confirmation text to send back to the supervisor
+   */
+  async handleReply(body: string): Promise<string> {
+    const reply = parseSupervisorReply(body);
+    if (!reply) {
+      return `Sorry, I didn't understand that. ${SUPERVISOR_REPLY_HELP}`;
+    }
+
+    const pending = await this.service.listPendingApprovals();
+    const matches = pending.filter(approval => approvalShortCode(approval.toolCallId) === reply.code);
+
+    if (matches.length === 0) {
+      return `No pending request with code ${reply.code}. It may have already been decided or expired.`;
+    }
+    if (matches.length > 1) {
+      logger.warn('Supervisor reply matches several pending approvals', {
+        operation: 'supervisor_reply'
+      }, {
+        code: reply.code,
+        toolCallIds: matches.map(approval => approval.toolCallId)
+      });
+      return `Code ${reply.code} matches more than one pending request. Please decide these from the approvals dashboard.`;
+    }
+
+    const approval = matches[0];
+    logger.info('Supervisor decision received by SMS', {
+      subjectId: approval.subjectId,
+      toolName: approval.toolName,
+      operation: 'supervisor_reply'
+    }, {
+      toolCallId: approval.toolCallId,
+      approved: reply.approved,
+      reason: reply.reason
+    });
+
+    const result = await this.service.handleToolApprovals(approval.subjectId, [{
+      toolCall: { id: approval.toolCallId },
+      approved: reply.approved,
+      reason: reply.reason,
+      reviewer: `sms:${this.supervisorPhone}`
+    }]);
+
+    if (!result.awaitingApprovals && result.response) {
+      await this.notifier.deliver(approval.subjectId, result.response, result.channel);
+    }
+
+    return `${reply.approved ? 'Approved' : 'Rejected'} ${approval.toolName} for ${approval.customerName || approval.subjectId} (${reply.code}).`;
+  }
+
+  private async notifySupervisor(request: ApprovalRequestedEvent): Promise<void> {
+    const pending = await this.service.listPendingApprovals(request.subjectId);
+    const approval = pending.find(item => item.toolCallId === request.toolCallId);
+
+    // Callers confirm their own customer-approvable actions on the line
+    if (!approval || (approval.approver === 'customer' && approval.channel === 'voice')) {
+      return;
+    }
+
+    await this.notifier.sendSmsTo(this.supervisorPhone!, this.summarize(approval));
+  }
+
+  private summarize(approval: PendingApproval): string {
+    const code = approvalShortCode(approval.toolCallId);
+    const customer = approval.customerName || approval.subjectId;
+    const channel = approval.channel ? ` via ${approval.channel}` : '';
+
+    return `Approval needed [${code}]: ${approval.toolName} for ${customer}${channel}\n` +
+      `${JSON.stringify(approval.arguments)}\n` +
+      SUPERVISOR_REPLY_HELP.replace(/<code>/g, code);
+  }
+}
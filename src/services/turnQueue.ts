@@ -0,0 +1,327 @@
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import { SubjectId } from '../types/common';
+import { TurnQueueConfig } from '../config/turnQueue';
+
+/**
+ * A held turn lock
+ */
+export interface TurnLock {
+  release(): Promise<void>;
+}
+
+/**
+ * Lock provider used to serialize turns for a subject
+ *
+ * The in-memory provider covers a single process; a shared provider (e.g.
+ * RedisTurnLockProvider) extends the guarantee across server instances.
+ */
+export interface TurnLockProvider {
+  /**
+   * Acquire the lock for a subject, waiting up to timeoutMs
+   *
+   * @throws TurnQueueTimeoutError if the lock was not acquired in time
+   */
+  acquire(subjectId: SubjectId, timeoutMs: number): Promise<TurnLock>;
+}
+
+/**
+ * Thrown when a subject already has the maximum number of turns waiting
+ */
+export class TurnQueueFullError extends Error {
+  constructor(public readonly subjectId: SubjectId, public readonly maxQueueDepth: number) {
+    super(`Turn queue for ${subjectId} is full (${maxQueueDepth} waiting)`);
+    this.name = 'TurnQueueFullError';
+  }
+}
+
+/**
+ * Thrown when a turn waited longer than the queue timeout
+ */
+export class TurnQueueTimeoutError extends Error {
+  constructor(public readonly subjectId: SubjectId, public readonly timeoutMs: number) {
+    super(`Turn for ${subjectId} waited more than ${timeoutMs}ms to start`);
+    this.name = 'TurnQueueTimeoutError';
+  }
+}
+
+/**
+ * Process-local lock provider: a FIFO mutex per subject
+ */
+export class InMemoryTurnLockProvider implements TurnLockProvider {
+  private holders = new Map<SubjectId, Array<() => void>>();
+
+  async acquire(subjectId: SubjectId, timeoutMs: number): Promise<TurnLock> {
+    const waiters = this.holders.get(subjectId);
+    const release = async () => this.release(subjectId);
+
+    if (!waiters) {
+      this.holders.set(subjectId, []);
+      return { release };
+    }
+
+    return new Promise<TurnLock>((resolve, reject) => {
+      const grant = () => {
+        clearTimeout(timer);
+        resolve({ release });
+      };
+      const timer = setTimeout(() => {
+        waiters.splice(waiters.indexOf(grant), 1);
+        reject(new TurnQueueTimeoutError(subjectId, timeoutMs));
+      }, timeoutMs);
+
+      waiters.push(grant);
+    });
+  }
+
+  private release(subjectId: SubjectId): void {
+    const waiters = this.holders.get(subjectId);
+    const next = waiters?.shift();
+
+    if (next) {
+      next();
+    } else {
+      this.holders.delete(subjectId);
+    }
+  }
+}
+
+/**
+ * The subset of the node-redis v4 client used for turn locks
+ */
+export interface RedisLockClient {
+  set(key: string, value: string, options: { NX: true; PX: number }): Promise<string | null>;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+}
+
+export interface RedisTurnLockConfig {
+  keyPrefix?: string;
+
+  /**
+   * Lock expiry, so a crashed instance cannot block a subject forever;
+   * must be longer than the longest turn
+   */
+  lockTtlMs?: number;
+
+  /**
+   * Delay between attempts while another instance holds the lock
+   */
+  retryIntervalMs?: number;
+}
+
+/**
+ * Only delete the lock if it still holds our token (it may have expired and been re-acquired)
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Lock provider shared by every server instance connected to the same Redis
+ */
+export class RedisTurnLockProvider implements TurnLockProvider {
+  private config: Required<RedisTurnLockConfig>;
+
+  constructor(private client: RedisLockClient, config: RedisTurnLockConfig = {}) {
+    this.config = {
+      keyPrefix: config.keyPrefix || 'turnlock:',
+      lockTtlMs: config.lockTtlMs || 120000,
+      retryIntervalMs: config.retryIntervalMs || 100
+    };
+  }
+
+  async acquire(subjectId: SubjectId, timeoutMs: number): Promise<TurnLock> {
+    const key = `${this.config.keyPrefix}${subjectId}`;
+    const token = randomUUID();
+    const deadline = Date.now() + timeoutMs;
+
+    while (await this.client.set(key, token, { NX: true, PX: this.config.lockTtlMs }) === null) {
+      if (Date.now() + this.config.retryIntervalMs > deadline) {
+        throw new TurnQueueTimeoutError(subjectId, timeoutMs);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.config.retryIntervalMs));
+    }
+
+    return {
+      release: async () => {
+        await this.client.eval(RELEASE_LOCK_SCRIPT, { keys: [key], arguments: [token] });
+      }
+    };
+  }
+}
+
+interface QueuedTurn {
+  messages: string[];
+  coalescable: boolean;
+  enqueuedAt: number;
+  run: (message: string) => Promise<unknown>;
+  callers: Array<{ resolve: (value: TurnOutcome<any>) => void; reject: (error: unknown) => void }>;
+  timer?: NodeJS.Timeout;
+}
+
+interface SubjectQueue {
+  waiting: QueuedTurn[];
+  running: boolean;
+}
+
+/**
+ * Result of a queued turn; `coalesced` is true for callers whose message was
+ * merged into a turn started by an earlier caller
+ */
+export interface TurnOutcome<T> {
+  result: T;
+  coalesced: boolean;
+}
+
+/**
+ * TurnQueue - runs turns for the same subject one at a time, in arrival order
+ *
+ * Turns for different subjects run concurrently. Within this process turns
+ * wait in a FIFO queue; each one then holds the provider's lock while it
+ * runs, so instances sharing a lock provider never overlap either.
+ */
+export class TurnQueue {
+  private queues = new Map<SubjectId, SubjectQueue>();
+
+  constructor(
+    private config: TurnQueueConfig,
+    private lockProvider: TurnLockProvider = new InMemoryTurnLockProvider()
+  ) {}
+
+  /**
+   * Queue a customer message; with coalescing enabled, messages arriving while
+   * a turn is waiting are joined into it and every caller gets its result
+   */
+  async runTurn<T>(subjectId: SubjectId, message: string, run: (message: string) => Promise<T>): Promise<TurnOutcome<T>> {
+    const queue = this.queues.get(subjectId);
+    const target = queue?.waiting[queue.waiting.length - 1];
+
+    if (this.config.coalesceMessages && target?.coalescable) {
+      target.messages.push(message);
+
+      logger.info('Message coalesced into queued turn', {
+        subjectId,
+        operation: 'turn_queue'
+      }, {
+        messageCount: target.messages.length
+      });
+
+      return new Promise<TurnOutcome<T>>((resolve, reject) => {
+        target.callers.push({ resolve: outcome => resolve({ ...outcome, coalesced: true }), reject });
+      });
+    }
+
+    return this.enqueue(subjectId, { messages: [message], coalescable: true, run });
+  }
+
+  /**
+   * Queue work that touches the subject's run (e.g. resuming after approvals); never coalesced
+   */
+  async run<T>(subjectId: SubjectId, run: () => Promise<T>): Promise<T> {
+    const outcome = await this.enqueue<T>(subjectId, { messages: [], coalescable: false, run: () => run() });
+    return outcome.result;
+  }
+
+  /**
+   * Turns currently waiting (not running) for a subject
+   */
+  getQueueDepth(subjectId: SubjectId): number {
+    return this.queues.get(subjectId)?.waiting.length || 0;
+  }
+
+  private enqueue<T>(
+    subjectId: SubjectId,
+    turn: Pick<QueuedTurn, 'messages' | 'coalescable' | 'run'>
+  ): Promise<TurnOutcome<T>> {
+    let queue = this.queues.get(subjectId);
+    if (!queue) {
+      queue = { waiting: [], running: false };
+      this.queues.set(subjectId, queue);
+    }
+
+    if (queue.running && queue.waiting.length >= this.config.maxQueueDepth) {
+      logger.warn('Turn rejected, queue is full', {
+        subjectId,
+        operation: 'turn_queue'
+      }, {
+        maxQueueDepth: this.config.maxQueueDepth
+      });
+      return Promise.reject(new TurnQueueFullError(subjectId, this.config.maxQueueDepth));
+    }
+
+    return new Promise<TurnOutcome<T>>((resolve, reject) => {
+      const queued: QueuedTurn = { ...turn, enqueuedAt: Date.now(), callers: [{ resolve, reject }] };
+      queue!.waiting.push(queued);
+
+      if (queue!.running) {
+        queued.timer = setTimeout(() => this.expire(subjectId, queued), this.config.queueTimeoutMs);
+
+        logger.debug('Turn queued behind running turn', {
+          subjectId,
+          operation: 'turn_queue'
+        }, {
+          queueDepth: queue!.waiting.length
+        });
+      } else {
+        this.drain(subjectId, queue!);
+      }
+    });
+  }
+
+  private expire(subjectId: SubjectId, turn: QueuedTurn): void {
+    const queue = this.queues.get(subjectId);
+    const index = queue ? queue.waiting.indexOf(turn) : -1;
+    if (index === -1) {
+      return;
+    }
+
+    queue!.waiting.splice(index, 1);
+
+    logger.warn('Queued turn timed out', {
+      subjectId,
+      operation: 'turn_queue'
+    }, {
+      timeoutMs: this.config.queueTimeoutMs,
+      messageCount: turn.messages.length
+    });
+
+    const error = new TurnQueueTimeoutError(subjectId, this.config.queueTimeoutMs);
+    turn.callers.forEach(caller => caller.reject(error));
+  }
+
+  private async drain(subjectId: SubjectId, queue: SubjectQueue): Promise<void> {
+    queue.running = true;
+
+    let turn: QueuedTurn | undefined;
+    while ((turn = queue.waiting.shift())) {
+      clearTimeout(turn.timer);
+
+      try {
+        const remainingMs = Math.max(turn.enqueuedAt + this.config.queueTimeoutMs - Date.now(), 0);
+        const lock = await this.lockProvider.acquire(subjectId, remainingMs);
+
+        let result: unknown;
+        try {
+          result = await turn.run(turn.messages.join('\n'));
+        } finally {
+          await lock.release().catch((error: Error) => {
+            logger.error('Failed to release turn lock', error, {
+              subjectId,
+              operation: 'turn_queue'
+            });
+          });
+        }
+
+        turn.callers.forEach(caller => caller.resolve({ result, coalesced: false }));
+      } catch (error) {
+        turn.callers.forEach(caller => caller.reject(error));
+      }
+    }
+
+    queue.running = false;
+    this.queues.delete(subjectId);
+  }
+}
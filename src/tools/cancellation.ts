@@ -0,0 +1,33 @@
+import { RunContext } from '@openai/agents';
+import { AgentRunContext } from '../context/types';
+
+/**
+ * The abort signal of the turn the tool runs in, if any. It is aborted when
+ * the customer interrupts or the turn times out, so tools should stop work
+ * and skip side effects once it fires.
+ */
+export function turnSignal(runContext?: RunContext): AbortSignal | undefined {
+  return (runContext?.context as AgentRunContext | undefined)?.signal;
+}
+
+/**
+ * Wait like a backend call would, rejecting with the abort reason as soon as the turn is aborted
+ */
+export function cancellableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
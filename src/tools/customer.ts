@@ -1,7 +1,8 @@
-import { tool } from '@openai/agents';
+import { tool, RunContext } from '@openai/agents';
 import { z } from 'zod/v3';
 import { logger } from '../utils/logger';
 import { CustomerData } from '../context/types';
+import { turnSignal, cancellableDelay } from './cancellation';
 
 // Mock database - in production, this would be real API calls
 const customerDatabase = new Map<string, CustomerData>([
@@ -45,8 +46,12 @@ export const customerLookupTool = tool({
     type: z.enum(['email', 'phone', 'customer_id']).describe('Type of identifier being used')
   }),
   
-  execute: async ({ identifier, type }: { identifier: string; type: 'email' | 'phone' | 'customer_id' }) => {
+  execute: async (
+    { identifier, type }: { identifier: string; type: 'email' | 'phone' | 'customer_id' },
+    runContext?: RunContext
+  ) => {
     const sessionId = 'current-session'; // In real implementation, get from context
+    const signal = turnSignal(runContext);
     
     logger.info('Customer lookup initiated', {
       sessionId,
@@ -56,7 +61,7 @@ export const customerLookupTool = tool({
 
     try {
       // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await cancellableDelay(500, signal);
       
       const customer = customerDatabase.get(identifier);
       
@@ -94,6 +99,10 @@ export const customerLookupTool = tool({
       };
 
     } catch (error) {
+      // A cancelled turn is not a lookup failure; let the run stop
+      if (signal?.aborted) {
+        throw error;
+      }
       logger.error('Customer lookup failed', error as Error, {
         sessionId,
         toolName: 'lookup_customer',
@@ -1,6 +1,7 @@
-import { tool } from '@openai/agents';
+import { tool, RunContext } from '@openai/agents';
 import { z } from 'zod/v3';
 import { logger } from '../utils/logger';
+import { turnSignal } from './cancellation';
 
 export const escalateToHumanTool = tool({
   name: 'escalate_to_human',
@@ -11,7 +12,13 @@ export const escalateToHumanTool = tool({
     summary: z.string().describe('Summary of the customer issue')
   }),
   needsApproval: true,
-  execute: async ({ reason, priority, summary }: { reason: string; priority: 'low' | 'medium' | 'high' | 'urgent'; summary: string }) => {
+  execute: async (
+    { reason, priority, summary }: { reason: string; priority: 'low' | 'medium' | 'high' | 'urgent'; summary: string },
+    runContext?: RunContext
+  ) => {
+    // Don't open a ticket for a turn that has been cancelled
+    turnSignal(runContext)?.throwIfAborted();
+
     const sessionId = 'current-session';
     const ticketId = `TICKET_${Date.now()}`;
     
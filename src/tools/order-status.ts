@@ -1,11 +1,12 @@
-import { tool } from '@openai/agents';
+import { tool, RunContext } from '@openai/agents';
 import { z } from 'zod/v3';
+import { turnSignal, cancellableDelay } from './cancellation';
 
 // Mock function to simulate fetching order data
 // In production, this would call a real API
-async function fetchOrder(orderId: string) {
+async function fetchOrder(orderId: string, signal?: AbortSignal) {
   // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 300));
+  await cancellableDelay(300, signal);
   
   // Mock order data
   const mockOrders: Record<string, any> = {
@@ -29,11 +30,15 @@ export const orderStatus = tool({
     orderId: z.string().describe('The order ID to look up'),
   }),
   
-  execute: async ({ orderId }: { orderId: string }) => {
+  execute: async ({ orderId }: { orderId: string }, runContext?: RunContext) => {
+    const signal = turnSignal(runContext);
     try {
-      const order = await fetchOrder(orderId);
+      const order = await fetchOrder(orderId, signal);
       return `Order ${order.id} is ${order.status}`;
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       return `Error: ${(error as Error).message}`;
     }
   },
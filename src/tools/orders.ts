@@ -1,7 +1,8 @@
-import { tool } from '@openai/agents';
+import { tool, RunContext } from '@openai/agents';
 import { z } from 'zod/v3';
 import { logger } from '../utils/logger';
 import { OrderData } from '../context/types';
+import { turnSignal, cancellableDelay } from './cancellation';
 
 // Mock order database - in production, this would be real API calls
 const orderDatabase = new Map<string, OrderData>([
@@ -36,8 +37,9 @@ export const orderLookupTool = tool({
     orderId: z.string().describe('The order ID to look up')
   }),
   
-  execute: async ({ orderId }: { orderId: string }) => {
+  execute: async ({ orderId }: { orderId: string }, runContext?: RunContext) => {
     const sessionId = 'current-session';
+    const signal = turnSignal(runContext);
     
     logger.info('Order lookup initiated', {
       sessionId,
@@ -46,7 +48,7 @@ export const orderLookupTool = tool({
     }, { orderId });
 
     try {
-      await new Promise(resolve => setTimeout(resolve, 300));
+      await cancellableDelay(300, signal);
       
       const order = orderDatabase.get(orderId);
       
@@ -81,6 +83,10 @@ export const orderLookupTool = tool({
       };
 
     } catch (error) {
+      // A cancelled turn is not a lookup failure; let the run stop
+      if (signal?.aborted) {
+        throw error;
+      }
       logger.error('Order lookup failed', error as Error, {
         sessionId,
         toolName: 'lookup_order',
@@ -178,8 +184,14 @@ export const processRefundTool = tool({
     // Require approval for refunds over $100
     return amount > 100;
   },
-  execute: async ({ orderId, amount, reason }: { orderId: string; amount: number; reason: string }) => {
+  execute: async (
+    { orderId, amount, reason }: { orderId: string; amount: number; reason: string },
+    runContext?: RunContext
+  ) => {
     const sessionId = 'current-session';
+
+    // Never issue a refund for a turn that has already been cancelled
+    turnSignal(runContext)?.throwIfAborted();
     
     logger.info('Refund processing initiated', {
       sessionId,
@@ -1,7 +1,8 @@
-import { tool } from '@openai/agents';
+import { tool, RunContext } from '@openai/agents';
 import { z } from 'zod/v3';
 import { logger } from '../utils/logger';
 import twilio from 'twilio';
+import { turnSignal } from './cancellation';
 
 export const sendSmsTool = tool({
   name: 'send_sms',
@@ -10,7 +11,7 @@ export const sendSmsTool = tool({
     to: z.string().describe('Destination phone number in E.164 format, e.g., +15551234567'),
     message: z.string().describe('Text message content to send (max 1600 characters)')
   }),
-  execute: async ({ to, message }: { to: string; message: string }) => {
+  execute: async ({ to, message }: { to: string; message: string }, runContext?: RunContext) => {
     const sessionId = 'current-session'; // In real implementation, get from context or session manager
 
     const accountSid = process.env.TWILIO_ACCOUNT_SID;
@@ -30,6 +31,9 @@ export const sendSmsTool = tool({
       };
     }
 
+    // Don't text the customer on behalf of a turn that has been cancelled
+    turnSignal(runContext)?.throwIfAborted();
+
     try {
       const client = twilio(apiKeySid as string, apiKeySecret as string, { accountSid });
 
@@ -49,4 +49,29 @@ export interface SubjectResolver {
    * ```
    */
   resolve(metadata: Record<string, any>): Promise<SubjectId>;
-}
\ No newline at end of file
+}
+
+/**
+ * A place that holds data about subjects, for data subject export and erasure requests.
+ * 
+ * Stores, resolvers and caches implement this so a privacy request can find and remove
+ * everything held about a customer in one pass.
+ */
+export interface SubjectDataSource {
+  /**
+   * Name used for this source in export bundles and erasure receipts
+   */
+  readonly name: string;
+
+  /**
+   * Everything this source holds about the subject, or null if it holds nothing
+   */
+  exportSubject(subjectId: SubjectId): Promise<unknown>;
+
+  /**
+   * Remove everything this source holds about the subject
+   * 
+   * @returns Number of items (records, mappings, lines) removed
+   */
+  eraseSubject(subjectId: SubjectId): Promise<number>;
+}
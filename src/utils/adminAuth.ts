@@ -0,0 +1,34 @@
+import express from 'express';
+import { timingSafeEqual } from 'crypto';
+import { logger } from './logger';
+
+/**
+ * Express middleware for administrative endpoints: admits requests that carry
+ * `Authorization: Bearer <token>`. Without a configured token every request
+ * is refused, so the endpoints are never left open by accident.
+ *
+ * @param token - Expected token (default: ADMIN_API_TOKEN)
+ */
+export function requireAdminToken(token: string | undefined = process.env.ADMIN_API_TOKEN) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const provided = Buffer.from(req.get('Authorization')?.replace(/^Bearer /, '') || '');
+    const expected = Buffer.from(token || '');
+
+    if (!token || provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      logger.warn('Admin request refused', {
+        operation: 'admin_auth'
+      }, {
+        method: req.method,
+        hasConfiguredToken: !!token
+      });
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'A valid admin API token is required.'
+      });
+      return;
+    }
+
+    next();
+  };
+}
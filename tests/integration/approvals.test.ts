@@ -1,8 +1,11 @@
 import request from 'supertest';
+import { RunState, Runner } from '@openai/agents';
 import { VoiceAdapter } from '../../src/channels/voice/adapter';
 import { conversationService } from '../../src/services/conversationService';
 // conversationManager is now part of conversationService
 import { processRefundTool } from '../../src/tools/orders';
+import { statePersistence } from '../../src/services/persistence/index';
+import { agentRegistry } from '../../src/registry/agent-registry';
 
 describe('Approval Workflow Integration', () => {
   let adapter: VoiceAdapter;
@@ -74,22 +77,38 @@ describe('Approval Workflow Integration', () => {
   });
 
   describe('ConversationService approval integration', () => {
-    it('should handle approval rejection gracefully', async () => {
-      // Create context first
-      await conversationService.getContext(testSubjectId);
+    it('should hand a rejection back to the agent and return its reply', async () => {
+      const interruption = {
+        type: 'tool_approval_item',
+        rawItem: { type: 'function_call', callId: 'call_123', name: 'process_refund', arguments: '{}' }
+      };
+      const pendingState = {
+        _generatedItems: [interruption],
+        getInterruptions: jest.fn().mockReturnValue([interruption]),
+        approve: jest.fn(),
+        reject: jest.fn(),
+        toString: jest.fn().mockReturnValue('serialized-state')
+      };
+      const run = jest.fn().mockResolvedValue({
+        finalOutput: "No problem, I won't process that refund. Anything else?",
+        newItems: [],
+        interruptions: [],
+        history: []
+      });
 
-      const approvals = [
+      const getDefault = jest.spyOn(agentRegistry, 'getDefault').mockResolvedValue({ name: 'Customer Support Agent' } as any);
+      (RunState.fromString as jest.Mock).mockResolvedValueOnce(pendingState);
+      (Runner as unknown as jest.Mock).mockImplementation(() => ({ run }));
+      await statePersistence.saveState(testSubjectId, 'serialized-pending-state');
+
+      const result = await conversationService.handleToolApprovals(testSubjectId, [
         { toolCall: { id: 'call_123' }, approved: false }
-      ];
+      ]).finally(() => getDefault.mockRestore());
 
-      // This will likely fail due to no pending state, but should handle rejection logic
-      try {
-        const result = await conversationService.handleToolApprovals(testSubjectId, approvals);
-        expect(result.response).toContain("I understand you don't want me to proceed");
-      } catch (error) {
-        // Expected due to no pending state - verify error handling
-        expect(error).toBeDefined();
-      }
+      expect(pendingState.reject).toHaveBeenCalledWith(interruption);
+      expect(pendingState.approve).not.toHaveBeenCalled();
+      expect(run).toHaveBeenCalledWith(expect.anything(), pendingState, expect.objectContaining({ stream: false }));
+      expect(result.response).toBe("No problem, I won't process that refund. Anything else?");
     });
 
     it('should handle missing pending state', async () => {
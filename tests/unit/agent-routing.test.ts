@@ -0,0 +1,79 @@
+import { selectAgent, AgentRouting } from '../../src/policies/agent-routing';
+
+describe('Agent Routing', () => {
+  const routing: AgentRouting = {
+    timezone: 'America/New_York',
+    rules: [
+      {
+        name: 'premium-voice',
+        agent: 'premium-support',
+        when: {
+          all: [
+            { path: 'channel', op: 'eq', value: 'voice' },
+            { path: 'profile.customerTier', op: 'eq', value: 'premium' }
+          ]
+        }
+      },
+      {
+        name: 'billing-line',
+        agent: 'billing',
+        when: { path: 'to', op: 'eq', value: '+15550001111' }
+      },
+      {
+        name: 'after-hours',
+        agent: 'after-hours',
+        when: {
+          any: [
+            { path: 'time.hour', op: 'lt', value: 9 },
+            { path: 'time.hour', op: 'gte', value: 17 },
+            { path: 'time.weekday', op: 'in', value: ['sat', 'sun'] }
+          ]
+        }
+      }
+    ]
+  };
+
+  // Wednesday 12:00 in New York
+  const businessHours = new Date('2024-06-12T16:00:00Z');
+
+  it('should fall back to the default agent when no rule matches', () => {
+    expect(selectAgent(routing, 'customer-support', { channel: 'sms', to: '+15559990000' }, businessHours))
+      .toEqual({ agentName: 'customer-support' });
+    expect(selectAgent(undefined, 'customer-support', { channel: 'sms' }, businessHours))
+      .toEqual({ agentName: 'customer-support' });
+  });
+
+  it('should route by channel and customer profile', () => {
+    const request = { channel: 'voice', profile: { customerTier: 'premium' } };
+
+    expect(selectAgent(routing, 'customer-support', request, businessHours))
+      .toEqual({ agentName: 'premium-support', matchedRule: 'premium-voice' });
+    expect(selectAgent(routing, 'customer-support', { ...request, channel: 'sms' }, businessHours).agentName)
+      .toBe('customer-support');
+  });
+
+  it('should route by the number that was contacted', () => {
+    expect(selectAgent(routing, 'customer-support', { channel: 'sms', to: '+15550001111' }, businessHours))
+      .toEqual({ agentName: 'billing', matchedRule: 'billing-line' });
+  });
+
+  it('should use the first matching rule', () => {
+    const request = { channel: 'voice', to: '+15550001111', profile: { customerTier: 'premium' } };
+
+    expect(selectAgent(routing, 'customer-support', request, businessHours).matchedRule).toBe('premium-voice');
+  });
+
+  it('should evaluate time of day in the routing time zone', () => {
+    // 22:00 UTC is 18:00 in New York
+    expect(selectAgent(routing, 'customer-support', { channel: 'sms' }, new Date('2024-06-12T22:00:00Z')).agentName)
+      .toBe('after-hours');
+    // Saturday 12:00 in New York
+    expect(selectAgent(routing, 'customer-support', { channel: 'sms' }, new Date('2024-06-15T16:00:00Z')).agentName)
+      .toBe('after-hours');
+    // 12:00 UTC is within business hours when routing in UTC, but 08:00 in New York
+    expect(selectAgent({ ...routing, timezone: 'UTC' }, 'customer-support', { channel: 'sms' }, new Date('2024-06-12T12:00:00Z')).agentName)
+      .toBe('customer-support');
+    expect(selectAgent(routing, 'customer-support', { channel: 'sms' }, new Date('2024-06-12T12:00:00Z')).agentName)
+      .toBe('after-hours');
+  });
+});
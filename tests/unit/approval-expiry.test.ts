@@ -0,0 +1,211 @@
+import { RunState, Runner } from '@openai/agents';
+import { ConversationService } from '../../src/services/conversationService';
+import { ApprovalExpiryService, APPROVAL_EXPIRED_REASON } from '../../src/services/approvalExpiry';
+import { CustomerNotifier } from '../../src/services/customerNotifier';
+import { loadApprovalConfig, ApprovalConfig } from '../../src/config/approvals';
+import { RunStateStore, CustomerContextStore, RunStateMetadata, RunStateRecord } from '../../src/services/persistence/types';
+import { CustomerContext } from '../../src/context/types';
+import { agentRegistry } from '../../src/registry/agent-registry';
+import { eventBus } from '../../src/events';
+
+jest.mock('../../src/registry/agent-registry', () => ({
+  agentRegistry: {
+    get: jest.fn(),
+    getDefault: jest.fn(),
+    getNameForAgent: jest.fn()
+  }
+}));
+
+/**
+ * In-memory store that keeps the time each state was saved
+ */
+class InMemoryExpiryStore implements RunStateStore, CustomerContextStore {
+  public records = new Map<string, RunStateRecord>();
+  public contexts = new Map<string, CustomerContext>();
+
+  async init(): Promise<void> {}
+  async saveState(subjectId: string, runState: string, metadata: RunStateMetadata = {}): Promise<void> {
+    this.records.set(subjectId, { subjectId, runState, timestamp: Date.now(), ...metadata });
+  }
+  async loadState(subjectId: string): Promise<string | null> {
+    return this.records.get(subjectId)?.runState || null;
+  }
+  async loadStateRecord(subjectId: string): Promise<RunStateRecord | null> {
+    return this.records.get(subjectId) || null;
+  }
+  async listStates(): Promise<RunStateRecord[]> {
+    return Array.from(this.records.values());
+  }
+  async deleteState(subjectId: string): Promise<void> {
+    this.records.delete(subjectId);
+  }
+  async cleanupOldStates(): Promise<number> {
+    return 0;
+  }
+  async saveContext(subjectId: string, context: CustomerContext): Promise<void> {
+    this.contexts.set(subjectId, context);
+  }
+  async loadContext(subjectId: string): Promise<CustomerContext | null> {
+    return this.contexts.get(subjectId) || null;
+  }
+  async deleteContext(subjectId: string): Promise<void> {
+    this.contexts.delete(subjectId);
+  }
+  async listContextSubjects(): Promise<string[]> {
+    return Array.from(this.contexts.keys());
+  }
+  async cleanupOldContexts(): Promise<number> {
+    return 0;
+  }
+}
+
+describe('Approval Expiry', () => {
+  const subjectId = 'phone_15551234567';
+  const minute = 60 * 1000;
+
+  const refundApproval = {
+    type: 'tool_approval_item',
+    rawItem: {
+      type: 'function_call',
+      callId: 'call_refund',
+      name: 'process_refund',
+      arguments: '{"orderId":"ORD_12345","amount":139.97}'
+    },
+    agent: { name: 'Customer Support Agent' }
+  };
+
+  const config: ApprovalConfig = {
+    defaultTtlMs: 30 * minute,
+    toolTtlMs: { escalate_to_human: 5 * minute },
+    sweepIntervalMs: minute
+  };
+
+  let store: InMemoryExpiryStore;
+  let service: ConversationService;
+  let createMessage: jest.Mock;
+  let expiryService: ApprovalExpiryService;
+  let mockState: any;
+  let mockRun: jest.Mock;
+
+  const savePendingRefund = async (channel: string) => {
+    await store.saveState(subjectId, JSON.stringify({
+      currentAgent: { name: 'Customer Support Agent' },
+      currentStep: { type: 'next_step_interruption', data: { interruptions: [refundApproval] } },
+      generatedItems: [refundApproval]
+    }), { agentName: 'customer-support', channel });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new InMemoryExpiryStore();
+    service = new ConversationService(store);
+
+    mockState = {
+      _generatedItems: [refundApproval],
+      _originalInput: [{ type: 'message', role: 'user', content: 'I want a refund' }],
+      getInterruptions: jest.fn().mockReturnValue([refundApproval]),
+      approve: jest.fn(),
+      reject: jest.fn(),
+      toString: jest.fn().mockReturnValue('serialized-state')
+    };
+    (RunState.fromString as jest.Mock).mockResolvedValue(mockState);
+
+    mockRun = jest.fn().mockResolvedValue({
+      finalOutput: 'Sorry, I could not get your refund approved in time. A specialist will follow up.',
+      newItems: [],
+      interruptions: [],
+      history: []
+    });
+    (Runner as unknown as jest.Mock).mockImplementation(() => ({ run: mockRun }));
+    (agentRegistry.get as jest.Mock).mockResolvedValue({ name: 'Customer Support Agent' });
+
+    store.contexts.set(subjectId, {
+      sessionId: subjectId,
+      customerPhone: '+15551234567',
+      verifiedPhone: '+15551234567',
+      conversationHistory: [],
+      escalationLevel: 0,
+      sessionStartTime: new Date(),
+      lastActiveAt: new Date(),
+      resolvedIssues: [],
+      metadata: {}
+    });
+
+    createMessage = jest.fn().mockResolvedValue({ sid: 'SM123', status: 'queued' });
+    const notifier = new CustomerNotifier({
+      conversationService: service,
+      twilioClient: { messages: { create: createMessage } } as any,
+      fromNumber: '+15550000000'
+    });
+    expiryService = new ApprovalExpiryService(service, notifier, config);
+  });
+
+  afterEach(() => {
+    eventBus.removeAllListeners('approval_expired');
+  });
+
+  it('should leave approvals alone until their TTL lapses', async () => {
+    await savePendingRefund('sms');
+
+    const expired = await expiryService.sweep(Date.now() + 10 * minute);
+
+    expect(expired).toBe(0);
+    expect(mockRun).not.toHaveBeenCalled();
+    expect(store.records.has(subjectId)).toBe(true);
+  });
+
+  it('should auto-reject expired calls and text the follow-up to SMS customers', async () => {
+    await savePendingRefund('sms');
+
+    const expired = await expiryService.sweep(Date.now() + 31 * minute);
+
+    expect(expired).toBe(1);
+    expect(mockState.reject).toHaveBeenCalledWith(refundApproval);
+    expect(mockState._originalInput[1].content).toContain(APPROVAL_EXPIRED_REASON);
+    expect(createMessage).toHaveBeenCalledWith({
+      body: 'Sorry, I could not get your refund approved in time. A specialist will follow up.',
+      from: '+15550000000',
+      to: '+15551234567'
+    });
+    expect(store.records.has(subjectId)).toBe(false);
+  });
+
+  it('should queue the follow-up for the next turn of voice customers', async () => {
+    await savePendingRefund('voice');
+
+    await expiryService.sweep(Date.now() + 31 * minute);
+
+    expect(createMessage).not.toHaveBeenCalled();
+    const queued = await service.takeQueuedMessages(subjectId);
+    expect(queued).toEqual(['Sorry, I could not get your refund approved in time. A specialist will follow up.']);
+    await expect(service.takeQueuedMessages(subjectId)).resolves.toEqual([]);
+  });
+
+  it('should emit an approval_expired event for each expired call', async () => {
+    const listener = jest.fn();
+    eventBus.on('approval_expired', listener);
+    await savePendingRefund('sms');
+
+    await expiryService.sweep(Date.now() + 31 * minute);
+
+    expect(listener).toHaveBeenCalledWith({
+      subjectId,
+      toolCallId: 'call_refund',
+      toolName: 'process_refund',
+      agentName: 'Customer Support Agent',
+      channel: 'sms',
+      ttlMs: 30 * minute
+    });
+  });
+
+  it('should apply per-tool TTLs', () => {
+    const envConfig = loadApprovalConfig({
+      APPROVAL_TTL_MS: '600000',
+      APPROVAL_TTL_PROCESS_REFUND_MS: '3600000'
+    });
+
+    expect(envConfig.defaultTtlMs).toBe(600000);
+    expect(envConfig.toolTtlMs.process_refund).toBe(3600000);
+    expect(envConfig.toolTtlMs.escalate_to_human).toBe(15 * minute);
+  });
+});
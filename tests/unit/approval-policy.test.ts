@@ -0,0 +1,192 @@
+import { applyApprovalPolicy, evaluateApprovalRules, ApprovalPolicy } from '../../src/policies/approval-policy';
+import { CustomerContext } from '../../src/context/types';
+import { logger } from '../../src/utils/logger';
+import agentsConfig from '../../agents.config';
+
+describe('Approval Policy', () => {
+  const policy = agentsConfig.approvalPolicies['customer-support'] as ApprovalPolicy;
+
+  const customerContext = (overrides: Partial<CustomerContext> = {}): CustomerContext => ({
+    sessionId: 'phone_15551234567',
+    customerPhone: '+15551234567',
+    verifiedPhone: '+15551234567',
+    conversationHistory: [],
+    escalationLevel: 0,
+    sessionStartTime: new Date(),
+    lastActiveAt: new Date(),
+    resolvedIssues: [],
+    metadata: { customerProfile: { customerTier: 'premium' } },
+    ...overrides
+  });
+
+  describe('evaluateApprovalRules', () => {
+    it('should require approval for refunds over $200', () => {
+      const decision = evaluateApprovalRules(policy.process_refund, {
+        args: { orderId: 'ORD_12345', amount: 250 },
+        context: customerContext()
+      });
+
+      expect(decision).toEqual({ requiresApproval: true, matchedRules: ['refund-over-200'], approver: 'supervisor' });
+    });
+
+    it('should let small refunds for premium customers through', () => {
+      const decision = evaluateApprovalRules(policy.process_refund, {
+        args: { orderId: 'ORD_12345', amount: 139.97 },
+        context: customerContext()
+      });
+
+      expect(decision.requiresApproval).toBe(false);
+    });
+
+    it('should require approval for any refund to a basic tier customer', () => {
+      const decision = evaluateApprovalRules(policy.process_refund, {
+        args: { orderId: 'ORD_67890', amount: 49.99 },
+        context: customerContext({ metadata: { customerProfile: { customerTier: 'basic' } } })
+      });
+
+      expect(decision.matchedRules).toEqual(['basic-tier-refund']);
+      expect(decision.approver).toBe('customer');
+    });
+
+    it('should leave the decision to a supervisor unless every matched rule allows the customer', () => {
+      const decision = evaluateApprovalRules(policy.process_refund, {
+        args: { orderId: 'ORD_67890', amount: 250 },
+        context: customerContext({ metadata: { customerProfile: { customerTier: 'basic' } } })
+      });
+
+      expect(decision.matchedRules).toEqual(['refund-over-200', 'basic-tier-refund']);
+      expect(decision.approver).toBe('supervisor');
+    });
+
+    it('should only require approval for urgent escalations', () => {
+      const urgent = evaluateApprovalRules(policy.escalate_to_human, {
+        args: { priority: 'urgent' },
+        context: customerContext()
+      });
+      const low = evaluateApprovalRules(policy.escalate_to_human, {
+        args: { priority: 'low' },
+        context: customerContext()
+      });
+
+      expect(urgent.requiresApproval).toBe(true);
+      expect(low.requiresApproval).toBe(false);
+    });
+
+    it("should require approval for SMS to a number other than the customer's", () => {
+      const own = evaluateApprovalRules(policy.send_sms, {
+        args: { to: '+15551234567', message: 'Your order shipped' },
+        context: customerContext()
+      });
+      const other = evaluateApprovalRules(policy.send_sms, {
+        args: { to: '+15559999999', message: 'Your order shipped' },
+        context: customerContext()
+      });
+
+      expect(own.requiresApproval).toBe(false);
+      expect(other.requiresApproval).toBe(true);
+    });
+
+    it('should not trust a phone number the customer typed into the chat', () => {
+      const decision = evaluateApprovalRules(policy.send_sms, {
+        args: { to: '+19995550100', message: 'Your order shipped' },
+        context: customerContext({ customerPhone: '+19995550100', verifiedPhone: undefined })
+      });
+
+      expect(decision.requiresApproval).toBe(true);
+    });
+
+    it('should support all/any combinators', () => {
+      const rules = [{
+        name: 'large-refund-for-new-customer',
+        when: {
+          all: [
+            { path: 'args.amount', op: 'gte' as const, value: 100 },
+            { any: [
+              { path: 'context.customerId', op: 'exists' as const, value: false },
+              { path: 'context.escalationLevel', op: 'gt' as const, value: 1 }
+            ] }
+          ]
+        }
+      }];
+
+      expect(evaluateApprovalRules(rules, { args: { amount: 100 }, context: customerContext() }).requiresApproval).toBe(true);
+      expect(evaluateApprovalRules(rules, {
+        args: { amount: 100 },
+        context: customerContext({ customerId: 'CUST_001' })
+      }).requiresApproval).toBe(false);
+    });
+  });
+
+  describe('applyApprovalPolicy', () => {
+    const refundTool = { type: 'function', name: 'process_refund', needsApproval: jest.fn() };
+    const lookupTool = { type: 'function', name: 'lookup_order', needsApproval: jest.fn() };
+    const agent: any = {
+      name: 'Customer Support Agent',
+      tools: [refundTool, lookupTool],
+      clone: jest.fn((config: any) => ({ ...agent, ...config }))
+    };
+
+    const runContext = (decision?: boolean): any => ({
+      context: { subjectId: 'phone_15551234567' },
+      isToolApproved: jest.fn().mockReturnValue(decision)
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should replace needsApproval only on tools covered by the policy', () => {
+      const governed: any = applyApprovalPolicy(agent, 'customer-support', policy, jest.fn());
+
+      expect(governed).not.toBe(agent);
+      expect(governed.tools[0].needsApproval).not.toBe(refundTool.needsApproval);
+      expect(governed.tools[1]).toBe(lookupTool);
+    });
+
+    it('should return the agent unchanged without a policy', () => {
+      expect(applyApprovalPolicy(agent, 'customer-support', undefined)).toBe(agent);
+    });
+
+    it('should evaluate rules against the subject context and log the decision', async () => {
+      const loadContext = jest.fn().mockResolvedValue(customerContext());
+      const governed: any = applyApprovalPolicy(agent, 'customer-support', policy, loadContext);
+
+      const requiresApproval = await governed.tools[0].needsApproval(runContext(), { amount: 300 }, 'call_refund');
+
+      expect(requiresApproval).toBe(true);
+      expect(loadContext).toHaveBeenCalledWith('phone_15551234567');
+      expect(logger.info).toHaveBeenCalledWith('Approval policy evaluated', expect.objectContaining({
+        subjectId: 'phone_15551234567',
+        agentName: 'customer-support',
+        toolName: 'process_refund',
+        eventType: 'audit'
+      }), expect.objectContaining({
+        callId: 'call_refund',
+        requiresApproval: true,
+        matchedRules: ['refund-over-200']
+      }));
+    });
+
+    it('should record who may approve the call in the run context', async () => {
+      const loadContext = jest.fn().mockResolvedValue(
+        customerContext({ metadata: { customerProfile: { customerTier: 'basic' } } })
+      );
+      const governed: any = applyApprovalPolicy(agent, 'customer-support', policy, loadContext);
+      const context = runContext();
+
+      await governed.tools[0].needsApproval(context, { amount: 49.99 }, 'call_refund');
+
+      expect(context.context.approvers).toEqual({ call_refund: 'customer' });
+    });
+
+    it('should keep honouring a recorded decision when the run resumes', async () => {
+      const loadContext = jest.fn().mockResolvedValue(customerContext());
+      const governed: any = applyApprovalPolicy(agent, 'customer-support', policy, loadContext);
+
+      const requiresApproval = await governed.tools[0].needsApproval(runContext(false), { amount: 10 }, 'call_refund');
+
+      expect(requiresApproval).toBe(true);
+      expect(loadContext).not.toHaveBeenCalled();
+    });
+  });
+});
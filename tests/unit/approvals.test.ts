@@ -1,4 +1,17 @@
-import { conversationService } from '../../src/services/conversationService';
+import { RunState, Runner } from '@openai/agents';
+import { conversationService, ConversationService } from '../../src/services/conversationService';
+import {
+  RunStateStore,
+  CustomerContextStore,
+  RunStateMetadata,
+  RunStateRecord,
+  AuditStore,
+  AuditEntry,
+  AuditRecord
+} from '../../src/services/persistence/types';
+import { agentRegistry } from '../../src/registry/agent-registry';
+import { CustomerContext } from '../../src/context/types';
+import { eventBus } from '../../src/events';
 // conversationManager is now part of conversationService
 // statePersistence is now part of conversationService
 
@@ -10,6 +23,14 @@ jest.mock('../../src/agents/customer-support', () => ({
   }
 }));
 
+jest.mock('../../src/registry/agent-registry', () => ({
+  agentRegistry: {
+    get: jest.fn(),
+    getDefault: jest.fn(),
+    getNameForAgent: jest.fn()
+  }
+}));
+
 describe('Approval Workflow', () => {
   const mockSubjectId = 'test-subject-123';
   const mockRunState = 'mock-serialized-state';
@@ -38,7 +59,8 @@ describe('Approval Workflow', () => {
       // This will fail due to no pending state, but tests error handling
       try {
         const result = await conversationService.handleToolApprovals(mockSubjectId, approvals);
-        expect(result.response).toBe("I understand you don't want me to proceed with those actions. How else can I help you?");
+        // Rejections are handed back to the agent instead of a canned apology
+        expect(result.response).not.toBe("I understand you don't want me to proceed with those actions. How else can I help you?");
         expect(result.currentAgent.name).toBe('Customer Support Agent');
       } catch (error) {
         expect(error).toBeDefined();
@@ -56,7 +78,8 @@ describe('Approval Workflow', () => {
 
       try {
         const result = await conversationService.handleToolApprovals(mockSubjectId, approvals);
-        expect(result.response).toBe("I understand you don't want me to proceed with those actions. How else can I help you?");
+        // Rejections are handed back to the agent instead of a canned apology
+        expect(result.response).not.toBe("I understand you don't want me to proceed with those actions. How else can I help you?");
       } catch (error) {
         expect(error).toBeDefined();
         expect((error as Error).message).toContain('No pending state found');
@@ -174,4 +197,501 @@ describe('Approval Workflow', () => {
       ).rejects.toThrow('No pending state found');
     });
   });
-});
\ No newline at end of file
+});
+/**
+ * In-memory store implementing both persistence interfaces for approval tests
+ */
+class InMemoryApprovalStore implements RunStateStore, CustomerContextStore {
+  public states = new Map<string, string>();
+  public metadata = new Map<string, RunStateMetadata>();
+  public contexts = new Map<string, CustomerContext>();
+
+  async init(): Promise<void> {}
+  async saveState(subjectId: string, runState: string, metadata: RunStateMetadata = {}): Promise<void> {
+    this.states.set(subjectId, runState);
+    this.metadata.set(subjectId, metadata);
+  }
+  async loadState(subjectId: string): Promise<string | null> {
+    return this.states.get(subjectId) || null;
+  }
+  async loadStateRecord(subjectId: string): Promise<RunStateRecord | null> {
+    const runState = this.states.get(subjectId);
+    if (!runState) {
+      return null;
+    }
+    return { subjectId, runState, timestamp: Date.now(), ...this.metadata.get(subjectId) };
+  }
+  async listStates(): Promise<RunStateRecord[]> {
+    const records = await Promise.all(Array.from(this.states.keys()).map(id => this.loadStateRecord(id)));
+    return records.filter((record): record is RunStateRecord => record !== null);
+  }
+  async deleteState(subjectId: string): Promise<void> {
+    this.states.delete(subjectId);
+    this.metadata.delete(subjectId);
+  }
+  async cleanupOldStates(): Promise<number> {
+    return 0;
+  }
+  async saveContext(subjectId: string, context: CustomerContext): Promise<void> {
+    this.contexts.set(subjectId, context);
+  }
+  async loadContext(subjectId: string): Promise<CustomerContext | null> {
+    return this.contexts.get(subjectId) || null;
+  }
+  async deleteContext(subjectId: string): Promise<void> {
+    this.contexts.delete(subjectId);
+  }
+  async listContextSubjects(): Promise<string[]> {
+    return Array.from(this.contexts.keys());
+  }
+  async cleanupOldContexts(): Promise<number> {
+    return 0;
+  }
+}
+
+describe('Approval Resumption', () => {
+  const subjectId = 'resume-subject-123';
+  let store: InMemoryApprovalStore;
+  let service: ConversationService;
+  let mockRun: jest.Mock;
+  let mockState: any;
+
+  const defaultAgent = { name: 'Customer Support Agent' };
+  const billingAgent = { name: 'Billing Agent' };
+
+  const interruption = {
+    type: 'tool_approval_item',
+    rawItem: { type: 'function_call', callId: 'call_escalate', name: 'escalate_to_human', arguments: '{}' }
+  };
+
+  beforeEach(() => {
+    store = new InMemoryApprovalStore();
+    store.states.set(subjectId, 'serialized-pending-state');
+
+    mockState = {
+      _generatedItems: [{ type: 'message_output_item' }, interruption],
+      getInterruptions: jest.fn().mockReturnValue([interruption]),
+      approve: jest.fn(),
+      reject: jest.fn(),
+      toString: jest.fn().mockReturnValue('serialized-state')
+    };
+    (RunState.fromString as jest.Mock).mockResolvedValue(mockState);
+
+    mockRun = jest.fn().mockResolvedValue({
+      finalOutput: 'Your ticket TICKET_1 has been created.',
+      newItems: [
+        { type: 'message_output_item' },
+        { type: 'tool_call_output_item', output: 'ticket created' },
+        { type: 'message_output_item', content: 'Your ticket TICKET_1 has been created.' }
+      ],
+      interruptions: [],
+      history: []
+    });
+    (Runner as unknown as jest.Mock).mockImplementation(() => ({ run: mockRun }));
+
+    (agentRegistry.getDefault as jest.Mock).mockResolvedValue(defaultAgent);
+    (agentRegistry.get as jest.Mock).mockImplementation(async (name: string) => {
+      if (name === 'billing') {
+        return billingAgent;
+      }
+      throw new Error(`Agent '${name}' not found in configuration`);
+    });
+
+    service = new ConversationService(store);
+  });
+
+  it('should approve the interruption and resume the run from the restored state', async () => {
+    const result = await service.handleToolApprovals(subjectId, [
+      { toolCall: { id: 'call_escalate' }, approved: true }
+    ]);
+
+    expect(mockState.approve).toHaveBeenCalledWith(interruption);
+    expect(mockRun).toHaveBeenCalledWith(expect.anything(), mockState, { stream: false, signal: expect.any(AbortSignal) });
+    expect(result.finalOutput).toBe('Your ticket TICKET_1 has been created.');
+    expect(result.response).toBe('Your ticket TICKET_1 has been created.');
+  });
+
+  it('should report the channel the request was made on so the reply can be delivered', async () => {
+    store.metadata.set(subjectId, { channel: 'sms' });
+
+    const result = await service.handleToolApprovals(subjectId, [
+      { toolCall: { id: 'call_escalate' }, approved: true }
+    ]);
+
+    expect(result.channel).toBe('sms');
+  });
+
+  it('should append only the items produced after resuming to conversation history', async () => {
+    const result = await service.handleToolApprovals(subjectId, [
+      { toolCall: { id: 'call_escalate' }, approved: true }
+    ]);
+
+    const context = await service.getContext(subjectId);
+    expect(result.newItems).toHaveLength(2);
+    expect(context.conversationHistory).toHaveLength(2);
+    expect(context.conversationHistory[0].type).toBe('tool_call_output_item');
+  });
+
+  it('should delete the pending state once the resumed run completes', async () => {
+    await service.handleToolApprovals(subjectId, [
+      { toolCall: { id: 'call_escalate' }, approved: true }
+    ]);
+
+    expect(store.states.has(subjectId)).toBe(false);
+  });
+
+  it('should keep the state when the resumed run is interrupted again', async () => {
+    mockRun.mockResolvedValueOnce({
+      newItems: [{ type: 'message_output_item' }],
+      interruptions: [interruption],
+      state: mockState,
+      history: []
+    });
+
+    const result = await service.handleToolApprovals(subjectId, [
+      { toolCall: { id: 'call_escalate' }, approved: true }
+    ]);
+
+    expect(result.awaitingApprovals).toBe(true);
+    expect(store.states.get(subjectId)).toBe('serialized-state');
+  });
+
+  it('should rehydrate the state with the agent recorded alongside it', async () => {
+    store.metadata.set(subjectId, { agentName: 'billing', currentAgentName: 'Billing Agent' });
+
+    await service.handleToolApprovals(subjectId, [
+      { toolCall: { id: 'call_escalate' }, approved: true }
+    ]);
+
+    expect(agentRegistry.get).toHaveBeenCalledWith('billing');
+    expect(RunState.fromString).toHaveBeenCalledWith(billingAgent, 'serialized-pending-state');
+    expect(mockRun).toHaveBeenCalledWith(billingAgent, mockState, { stream: false, signal: expect.any(AbortSignal) });
+  });
+
+  it('should fail clearly when the owning agent is no longer registered', async () => {
+    store.metadata.set(subjectId, { agentName: 'retired-agent' });
+
+    await expect(
+      service.handleToolApprovals(subjectId, [{ toolCall: { id: 'call_escalate' }, approved: true }])
+    ).rejects.toThrow("Agent 'retired-agent' that owns the pending state is no longer registered");
+    expect(store.states.has(subjectId)).toBe(false);
+  });
+
+  it('should persist the owning agent name when interrupted again', async () => {
+    store.metadata.set(subjectId, { agentName: 'billing' });
+    mockRun.mockResolvedValueOnce({
+      newItems: [],
+      interruptions: [interruption],
+      state: mockState,
+      history: []
+    });
+
+    await service.handleToolApprovals(subjectId, [
+      { toolCall: { id: 'call_escalate' }, approved: true }
+    ]);
+
+    expect(store.metadata.get(subjectId)?.agentName).toBe('billing');
+  });
+
+  describe('partial decisions', () => {
+    const smsInterruption = {
+      type: 'tool_approval_item',
+      rawItem: { type: 'function_call', callId: 'call_sms', name: 'send_sms', arguments: '{}' }
+    };
+
+    beforeEach(() => {
+      mockState.getInterruptions.mockReturnValue([interruption, smsInterruption]);
+      mockState._originalInput = [{ type: 'message', role: 'user', content: 'Please escalate and text me' }];
+    });
+
+    it('should execute approved calls and reject the others in the same run', async () => {
+      const result = await service.handleToolApprovals(subjectId, [
+        { toolCall: { id: 'call_escalate' }, approved: true },
+        { toolCall: { id: 'call_sms' }, approved: false }
+      ]);
+
+      expect(mockState.approve).toHaveBeenCalledWith(interruption);
+      expect(mockState.reject).toHaveBeenCalledWith(smsInterruption);
+      expect(mockRun).toHaveBeenCalledWith(expect.anything(), mockState, { stream: false, signal: expect.any(AbortSignal) });
+      expect(result.response).toBe('Your ticket TICKET_1 has been created.');
+    });
+
+    it('should resume the run even when every call is rejected', async () => {
+      await service.handleToolApprovals(subjectId, [
+        { toolCall: { id: 'call_escalate' }, approved: false },
+        { toolCall: { id: 'call_sms' }, approved: false }
+      ]);
+
+      expect(mockState.approve).not.toHaveBeenCalled();
+      expect(mockState.reject).toHaveBeenCalledTimes(2);
+      expect(mockRun).toHaveBeenCalled();
+    });
+
+    it('should pass reviewer reasons to the model', async () => {
+      await service.handleToolApprovals(subjectId, [
+        { toolCall: { id: 'call_escalate' }, approved: true },
+        { toolCall: { id: 'call_sms' }, approved: false, reason: 'Number is not on file' }
+      ]);
+
+      const note = mockState._originalInput[mockState._originalInput.length - 1];
+      expect(note.role).toBe('system');
+      expect(note.content).toContain('send_sms call (call_sms) was rejected by a reviewer: Number is not on file');
+    });
+
+    it('should leave the input untouched when no reasons are given', async () => {
+      await service.handleToolApprovals(subjectId, [
+        { toolCall: { id: 'call_escalate' }, approved: true },
+        { toolCall: { id: 'call_sms' }, approved: false }
+      ]);
+
+      expect(mockState._originalInput).toHaveLength(1);
+    });
+  });
+
+  describe('follow-up messages while approval is pending', () => {
+    const requestedAt = Date.now() - 10 * 60 * 1000;
+
+    beforeEach(() => {
+      store.metadata.set(subjectId, { channel: 'sms', requestedAt });
+      mockState._originalInput = [{ type: 'message', role: 'user', content: 'Please escalate' }];
+      mockRun.mockResolvedValue({
+        newItems: [],
+        interruptions: [interruption],
+        state: mockState,
+        history: []
+      });
+    });
+
+    const followUp = () => service.processConversationTurn(
+      defaultAgent as any,
+      subjectId,
+      'Any news?',
+      { showProgress: false, stream: false, channel: 'sms' }
+    );
+
+    it('should keep the original request time when the state is saved again', async () => {
+      const result = await followUp();
+
+      expect(result.awaitingApprovals).toBe(true);
+      expect(store.metadata.get(subjectId)?.requestedAt).toBe(requestedAt);
+    });
+
+    it('should not announce calls that are already pending again', async () => {
+      const listener = jest.fn();
+      eventBus.on('approval_requested', listener);
+
+      try {
+        await followUp();
+      } finally {
+        eventBus.removeListener('approval_requested', listener);
+      }
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should give the follow-up message to the model', async () => {
+      await followUp();
+
+      expect(mockState._originalInput[mockState._originalInput.length - 1])
+        .toEqual({ type: 'message', role: 'user', content: 'Any news?' });
+    });
+
+    it('should start a new request time for calls that were not pending before', async () => {
+      const newInterruption = {
+        type: 'tool_approval_item',
+        rawItem: { type: 'function_call', callId: 'call_refund', name: 'process_refund', arguments: '{}' }
+      };
+      mockState.getInterruptions.mockReturnValue([]);
+      mockRun.mockResolvedValue({ newItems: [], interruptions: [newInterruption], state: mockState, history: [] });
+
+      await followUp();
+
+      expect(store.metadata.get(subjectId)?.requestedAt).toBeGreaterThan(requestedAt);
+    });
+  });
+
+  describe('audit log', () => {
+    let audit: AuditStore & { records: AuditRecord[] };
+
+    beforeEach(() => {
+      const records: AuditRecord[] = [];
+      audit = {
+        records,
+        init: jest.fn().mockResolvedValue(undefined),
+        append: jest.fn(async (entry: AuditEntry) => {
+          const record = { id: `audit_${records.length}`, timestamp: new Date().toISOString(), ...entry };
+          records.push(record);
+          return record;
+        }),
+        query: jest.fn(async () => records),
+        deleteSubject: jest.fn().mockResolvedValue(0)
+      };
+      service = new ConversationService(store, audit);
+
+      mockRun.mockResolvedValue({
+        finalOutput: 'Your ticket TICKET_1 has been created.',
+        newItems: [
+          { type: 'message_output_item' },
+          {
+            type: 'tool_call_output_item',
+            rawItem: { type: 'function_call_result', callId: 'call_escalate', name: 'escalate_to_human' },
+            output: 'ticket created'
+          }
+        ],
+        interruptions: [],
+        history: []
+      });
+    });
+
+    it('should record the reviewer decision and the resulting tool output', async () => {
+      store.metadata.set(subjectId, { channel: 'sms' });
+
+      await service.handleToolApprovals(subjectId, [
+        { toolCall: { id: 'call_escalate' }, approved: true, reviewer: 'jane@example.com', reason: 'Verified' }
+      ]);
+
+      expect(audit.records.map(record => record.type)).toEqual(['approval_decided', 'tool_result']);
+      expect(audit.records[0]).toEqual(expect.objectContaining({
+        subjectId,
+        toolCallId: 'call_escalate',
+        toolName: 'escalate_to_human',
+        channel: 'sms',
+        reviewer: 'jane@example.com',
+        approved: true,
+        reason: 'Verified'
+      }));
+      expect(audit.records[1]).toEqual(expect.objectContaining({
+        toolCallId: 'call_escalate',
+        result: 'ticket created'
+      }));
+    });
+
+    it('should not record a tool result for rejected calls', async () => {
+      await service.handleToolApprovals(subjectId, [
+        { toolCall: { id: 'call_escalate' }, approved: false, reviewer: 'jane@example.com' }
+      ]);
+
+      expect(audit.records.map(record => record.type)).toEqual(['approval_decided']);
+      expect(audit.records[0].approved).toBe(false);
+    });
+
+    it('should still complete the approval when the audit log is unavailable', async () => {
+      (audit.append as jest.Mock).mockRejectedValue(new Error('disk full'));
+
+      const result = await service.handleToolApprovals(subjectId, [
+        { toolCall: { id: 'call_escalate' }, approved: true }
+      ]);
+
+      expect(result.response).toBe('Your ticket TICKET_1 has been created.');
+    });
+  });
+});
+
+describe('Pending Approvals Inbox', () => {
+  let store: InMemoryApprovalStore;
+  let service: ConversationService;
+
+  const serializeInterruptedState = (interruptions: any[]) => JSON.stringify({
+    currentAgent: { name: 'Customer Support Agent' },
+    currentStep: {
+      type: 'next_step_interruption',
+      data: { interruptions }
+    },
+    generatedItems: interruptions
+  });
+
+  const refundApproval = {
+    type: 'tool_approval_item',
+    rawItem: {
+      type: 'function_call',
+      callId: 'call_refund',
+      name: 'process_refund',
+      arguments: '{"orderId":"ORD_12345","amount":139.97,"reason":"Damaged"}'
+    },
+    agent: { name: 'Customer Support Agent' }
+  };
+
+  const escalationApproval = {
+    type: 'tool_approval_item',
+    rawItem: {
+      type: 'function_call',
+      callId: 'call_escalate',
+      name: 'escalate_to_human',
+      arguments: '{"reason":"Angry customer","priority":"urgent"}'
+    },
+    agent: { name: 'Escalation Agent' }
+  };
+
+  beforeEach(() => {
+    store = new InMemoryApprovalStore();
+    service = new ConversationService(store);
+  });
+
+  it('should list pending interruptions across subjects with parsed arguments', async () => {
+    await store.saveState('phone_15551234567', serializeInterruptedState([refundApproval]), {
+      agentName: 'customer-support',
+      channel: 'sms'
+    });
+    await store.saveState('phone_15559876543', serializeInterruptedState([escalationApproval]), {
+      agentName: 'customer-support',
+      channel: 'voice'
+    });
+
+    const approvals = await service.listPendingApprovals();
+
+    expect(approvals).toHaveLength(2);
+    const refund = approvals.find(approval => approval.toolCallId === 'call_refund');
+    expect(refund).toMatchObject({
+      subjectId: 'phone_15551234567',
+      toolName: 'process_refund',
+      arguments: { orderId: 'ORD_12345', amount: 139.97, reason: 'Damaged' },
+      agentName: 'Customer Support Agent',
+      channel: 'sms'
+    });
+    expect(refund?.requestedAt).toBeInstanceOf(Date);
+  });
+
+  it('should include the customer name from the stored context', async () => {
+    await store.saveState('phone_15551234567', serializeInterruptedState([refundApproval]));
+    store.contexts.set('phone_15551234567', {
+      sessionId: 'phone_15551234567',
+      customerName: 'John Doe',
+      conversationHistory: [],
+      escalationLevel: 0,
+      sessionStartTime: new Date(),
+      lastActiveAt: new Date(),
+      resolvedIssues: [],
+      metadata: {}
+    });
+
+    const approvals = await service.listPendingApprovals();
+
+    expect(approvals[0].customerName).toBe('John Doe');
+  });
+
+  it('should report when the approval was first requested rather than last saved', async () => {
+    const requestedAt = Date.now() - 60 * 60 * 1000;
+    await store.saveState('phone_15551234567', serializeInterruptedState([refundApproval]), { requestedAt });
+
+    const [approval] = await service.listPendingApprovals();
+
+    expect(approval.requestedAt).toEqual(new Date(requestedAt));
+  });
+
+  it('should filter the inbox to a single subject', async () => {
+    await store.saveState('phone_15551234567', serializeInterruptedState([refundApproval]));
+    await store.saveState('phone_15559876543', serializeInterruptedState([escalationApproval]));
+
+    const approvals = await service.listPendingApprovals('phone_15559876543');
+
+    expect(approvals).toHaveLength(1);
+    expect(approvals[0].toolName).toBe('escalate_to_human');
+    expect(approvals[0].agentName).toBe('Escalation Agent');
+  });
+
+  it('should skip states that cannot be parsed', async () => {
+    await store.saveState('phone_15551234567', 'not-json');
+
+    await expect(service.listPendingApprovals()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { FileAuditStore } from '../../src/services/persistence/fileAuditStore';
+import { EnvelopeCipher } from '../../src/services/persistence/encryptedStore';
+import { AuditEntry } from '../../src/services/persistence/types';
+
+describe('FileAuditStore', () => {
+  let dir: string;
+  let filePath: string;
+  let store: FileAuditStore;
+
+  const entry = (overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+    type: 'approval_decided',
+    subjectId: 'phone_15551234567',
+    toolCallId: 'call_refund',
+    toolName: 'process_refund',
+    reviewer: 'jane@example.com',
+    approved: true,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    filePath = path.join(dir, 'audit', 'approvals.jsonl');
+    store = new FileAuditStore({ filePath });
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append one JSON record per line with an ID and timestamp', async () => {
+    const record = await store.append(entry());
+
+    const lines = (await fs.readFile(filePath, 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toEqual(record);
+    expect(record.id).toBeDefined();
+    expect(new Date(record.timestamp).getTime()).not.toBeNaN();
+  });
+
+  it('should keep concurrent appends in order and intact', async () => {
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => store.append(entry({ toolCallId: `call_${i}` })))
+    );
+
+    const records = await store.query();
+    expect(records.map(record => record.toolCallId)).toEqual(
+      Array.from({ length: 20 }, (_, i) => `call_${i}`)
+    );
+  });
+
+  it('should filter by subject and tool', async () => {
+    await store.append(entry());
+    await store.append(entry({ toolName: 'escalate_to_human', toolCallId: 'call_escalate' }));
+    await store.append(entry({ subjectId: 'phone_15559999999' }));
+
+    const refunds = await store.query({ subjectId: 'phone_15551234567', toolName: 'process_refund' });
+
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0].toolCallId).toBe('call_refund');
+  });
+
+  it('should filter by date range', async () => {
+    const first = await store.append(entry());
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await store.append(entry({ toolCallId: 'call_later' }));
+
+    const records = await store.query({ from: new Date(second.timestamp) });
+    expect(records.map(record => record.id)).toEqual([second.id]);
+
+    const earlier = await store.query({ to: new Date(first.timestamp) });
+    expect(earlier.map(record => record.id)).toEqual([first.id]);
+  });
+
+  it('should keep earlier records when reopened and skip unreadable lines', async () => {
+    await store.append(entry());
+    await fs.appendFile(filePath, 'not json\n');
+
+    const reopened = new FileAuditStore({ filePath });
+    await reopened.append(entry({ toolCallId: 'call_after_restart' }));
+
+    const records = await reopened.query();
+    expect(records.map(record => record.toolCallId)).toEqual(['call_refund', 'call_after_restart']);
+  });
+
+  it('should remove only the erased subject\'s records', async () => {
+    await store.append(entry());
+    await store.append(entry({ subjectId: 'phone_15559999999' }));
+    await store.append(entry({ toolCallId: 'call_second' }));
+
+    await expect(store.deleteSubject('phone_15551234567')).resolves.toBe(2);
+    await store.append(entry({ toolCallId: 'call_after_erase' }));
+
+    const records = await store.query();
+    expect(records.map(record => record.subjectId)).toEqual(['phone_15559999999', 'phone_15551234567']);
+    await expect(store.deleteSubject('phone_10000000000')).resolves.toBe(0);
+  });
+
+  it('should encrypt every record when a cipher is configured', async () => {
+    const cipher = new EnvelopeCipher({ keys: [{ id: 'k2025', key: randomBytes(32) }] });
+    const encrypted = new FileAuditStore({ filePath: path.join(dir, 'encrypted.jsonl'), cipher });
+
+    const record = await encrypted.append(entry());
+    await encrypted.append(entry({ subjectId: 'phone_15559999999' }));
+
+    const stored = await fs.readFile(path.join(dir, 'encrypted.jsonl'), 'utf-8');
+    expect(stored).not.toContain('phone_15551234567');
+    expect(stored).not.toContain('jane@example.com');
+    await expect(encrypted.query({ subjectId: 'phone_15551234567' })).resolves.toEqual([record]);
+    await expect(encrypted.deleteSubject('phone_15551234567')).resolves.toBe(1);
+  });
+
+  it('should return no records before anything is audited', async () => {
+    await expect(new FileAuditStore({ filePath: path.join(dir, 'missing.jsonl') }).query()).resolves.toEqual([]);
+  });
+});
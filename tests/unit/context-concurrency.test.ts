@@ -0,0 +1,136 @@
+import { ConversationService } from '../../src/services/conversationService';
+import { SqliteStateStore } from '../../src/services/persistence/sqliteStore';
+import { ContextVersionConflictError } from '../../src/services/persistence/types';
+import { HistoryCompactor } from '../../src/services/historyCompactor';
+
+describe('CustomerContext optimistic concurrency', () => {
+  const subjectId = 'phone_15551234567';
+
+  let store: SqliteStateStore;
+  let smsService: ConversationService;
+  let voiceService: ConversationService;
+
+  beforeEach(async () => {
+    store = new SqliteStateStore({ filePath: ':memory:' });
+    await store.init();
+
+    // Two service instances sharing one store, like two channels on separate processes
+    smsService = new ConversationService(store);
+    voiceService = new ConversationService(store);
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should keep turns from both writers when saves interleave', async () => {
+    const smsContext = await smsService.getContext(subjectId);
+    const voiceContext = await voiceService.getContext(subjectId);
+
+    smsContext.conversationHistory.push({ role: 'user', content: 'sms: where is my order?' });
+    voiceContext.conversationHistory.push({ role: 'user', content: 'voice: I want a refund' });
+
+    await smsService.saveContext(subjectId, smsContext);
+    await voiceService.saveContext(subjectId, voiceContext);
+
+    const stored = await store.loadContext(subjectId);
+    expect(stored?.conversationHistory).toEqual([
+      { role: 'user', content: 'sms: where is my order?' },
+      { role: 'user', content: 'voice: I want a refund' }
+    ]);
+    expect(stored?.version).toBe(2);
+
+    // The losing writer's in-memory copy now matches the store
+    expect(voiceContext.conversationHistory).toEqual(stored?.conversationHistory);
+    expect(voiceContext.version).toBe(2);
+  });
+
+  it('should keep field changes from both writers', async () => {
+    await smsService.saveContext(subjectId, await smsService.getContext(subjectId));
+
+    const smsContext = await smsService.getContext(subjectId);
+    const voiceContext = await voiceService.getContext(subjectId);
+
+    smsContext.customerEmail = 'jane@example.com';
+    smsContext.metadata.lastChannel = 'sms';
+    voiceContext.escalationLevel = 2;
+    voiceContext.metadata.callSid = 'CA123';
+
+    await smsService.saveContext(subjectId, smsContext);
+    await voiceService.saveContext(subjectId, voiceContext);
+
+    const stored = await store.loadContext(subjectId);
+    expect(stored).toMatchObject({
+      customerEmail: 'jane@example.com',
+      escalationLevel: 2,
+      metadata: { subjectId, lastChannel: 'sms', callSid: 'CA123' }
+    });
+  });
+
+  it('should merge again when a later save conflicts', async () => {
+    const smsContext = await smsService.getContext(subjectId);
+    const voiceContext = await voiceService.getContext(subjectId);
+
+    for (let turn = 1; turn <= 3; turn++) {
+      smsContext.conversationHistory.push({ role: 'user', content: `sms ${turn}` });
+      voiceContext.conversationHistory.push({ role: 'user', content: `voice ${turn}` });
+      await smsService.saveContext(subjectId, smsContext);
+      await voiceService.saveContext(subjectId, voiceContext);
+    }
+
+    const stored = await store.loadContext(subjectId);
+    expect(stored?.conversationHistory.map(item => item.content)).toEqual([
+      'sms 1', 'voice 1', 'sms 2', 'voice 2', 'sms 3', 'voice 3'
+    ]);
+  });
+
+  it('should drop turns the other writer compacted into its summary', async () => {
+    const smsContext = await smsService.getContext(subjectId);
+    for (let turn = 1; turn <= 6; turn++) {
+      smsContext.conversationHistory.push({ role: 'user', content: `turn ${turn}` });
+    }
+    await smsService.saveContext(subjectId, smsContext);
+
+    const voiceContext = await voiceService.getContext(subjectId);
+    const compactor = new HistoryCompactor(
+      { enabled: true, maxMessages: 4, maxTokens: 100000, keepRecentMessages: 2, summaryModel: 'gpt-4o-mini' },
+      { summarize: jest.fn().mockResolvedValue('Turns 1 to 4.') }
+    );
+    await compactor.compact(subjectId, voiceContext);
+    voiceContext.conversationHistory.push({ role: 'user', content: 'voice turn' });
+
+    smsContext.conversationHistory.push({ role: 'user', content: 'sms turn' });
+    await smsService.saveContext(subjectId, smsContext);
+    await voiceService.saveContext(subjectId, voiceContext);
+
+    const stored = await store.loadContext(subjectId);
+    expect(stored?.conversationSummary).toMatchObject({ text: 'Turns 1 to 4.', summarizedItemCount: 4 });
+    expect(stored?.conversationHistory.map(item => item.content)).toEqual(['turn 5', 'turn 6', 'sms turn', 'voice turn']);
+  });
+
+  it('should give up after repeated conflicts', async () => {
+    const context = await smsService.getContext(subjectId);
+    jest.spyOn(store, 'saveContext').mockRejectedValue(new ContextVersionConflictError(subjectId, 0, 1));
+
+    await expect(smsService.saveContext(subjectId, context)).rejects.toBeInstanceOf(ContextVersionConflictError);
+    expect(store.saveContext).toHaveBeenCalledTimes(3);
+  });
+
+  it('should overwrite contexts it did not load', async () => {
+    await smsService.saveContext(subjectId, await smsService.getContext(subjectId));
+
+    const now = new Date();
+    await voiceService.saveContext(subjectId, {
+      sessionId: subjectId,
+      conversationHistory: [{ role: 'user', content: 'replacement' }],
+      escalationLevel: 0,
+      sessionStartTime: now,
+      lastActiveAt: now,
+      resolvedIssues: [],
+      metadata: {}
+    });
+
+    const stored = await store.loadContext(subjectId);
+    expect(stored?.conversationHistory).toEqual([{ role: 'user', content: 'replacement' }]);
+  });
+});
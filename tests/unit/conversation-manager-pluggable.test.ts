@@ -1,5 +1,5 @@
 import { ConversationService } from '../../src/services/conversationService';
-import { RunStateStore } from '../../src/services/persistence/types';
+import { RunStateStore, RunStateRecord } from '../../src/services/persistence/types';
 import { RunState } from '@openai/agents';
 
 /**
@@ -68,6 +68,30 @@ class MockRunStateStore implements RunStateStore {
     return stored.state;
   }
 
+  async loadStateRecord(subjectId: string): Promise<RunStateRecord | null> {
+    const state = await this.loadState(subjectId);
+    if (!state) {
+      return null;
+    }
+
+    return {
+      subjectId,
+      runState: state,
+      timestamp: this.states.get(subjectId)!.timestamp
+    };
+  }
+
+  async listStates(): Promise<RunStateRecord[]> {
+    const records: RunStateRecord[] = [];
+    for (const subjectId of Array.from(this.states.keys())) {
+      const record = await this.loadStateRecord(subjectId);
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
   async deleteState(subjectId: string): Promise<void> {
     const start = Date.now();
     
@@ -0,0 +1,208 @@
+import { CustomerNotifier } from '../../src/services/customerNotifier';
+import { ConversationService } from '../../src/services/conversationService';
+import { LiveConnectionRegistry, liveConnections } from '../../src/channels/LiveConnectionRegistry';
+import { WebChatAdapter, createUpdateStreamHandler, createUpdateStreamToken } from '../../src/channels/web/adapter';
+import express from 'express';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+describe('CustomerNotifier', () => {
+  const subjectId = 'phone_15551234567';
+  const message = 'Good news, your refund of $139.97 has been approved.';
+
+  let service: { getContext: jest.Mock; queueCustomerMessage: jest.Mock };
+  let registry: LiveConnectionRegistry;
+  let createMessage: jest.Mock;
+  let notifier: CustomerNotifier;
+
+  beforeEach(() => {
+    service = {
+      getContext: jest.fn().mockResolvedValue({ customerPhone: '+15551234567', verifiedPhone: '+15551234567' }),
+      queueCustomerMessage: jest.fn().mockResolvedValue(undefined)
+    };
+    registry = new LiveConnectionRegistry();
+    createMessage = jest.fn().mockResolvedValue({ sid: 'SM123', status: 'queued' });
+
+    notifier = new CustomerNotifier({
+      conversationService: service as unknown as ConversationService,
+      liveConnections: registry,
+      twilioClient: { messages: { create: createMessage } } as any,
+      fromNumber: '+15550000000'
+    });
+  });
+
+  it('should text customers whose request came in over SMS', async () => {
+    const result = await notifier.deliver(subjectId, message, 'sms');
+
+    expect(result.method).toBe('sms');
+    expect(createMessage).toHaveBeenCalledWith({ body: message, from: '+15550000000', to: '+15551234567' });
+    expect(service.queueCustomerMessage).not.toHaveBeenCalled();
+  });
+
+  it('should not text a number the customer only typed into the chat', async () => {
+    service.getContext.mockResolvedValue({ customerPhone: '+15559990000' });
+
+    const result = await notifier.deliver(subjectId, message, 'sms');
+
+    expect(result.method).toBe('queued');
+    expect(createMessage).not.toHaveBeenCalled();
+  });
+
+  it('should push to a live voice call that is still up', async () => {
+    const send = jest.fn().mockResolvedValue(undefined);
+    registry.register(subjectId, 'voice', send);
+
+    const result = await notifier.deliver(subjectId, message, 'voice');
+
+    expect(result.method).toBe('live');
+    expect(send).toHaveBeenCalledWith(message);
+    expect(createMessage).not.toHaveBeenCalled();
+  });
+
+  it('should queue the message once the call has ended', async () => {
+    const unregister = registry.register(subjectId, 'voice', jest.fn());
+    unregister?.();
+
+    const result = await notifier.deliver(subjectId, message, 'voice');
+
+    expect(result.method).toBe('queued');
+    expect(service.queueCustomerMessage).toHaveBeenCalledWith(subjectId, message);
+  });
+
+  it('should queue the message when the live connection fails', async () => {
+    registry.register(subjectId, 'web', jest.fn().mockRejectedValue(new Error('stream closed')));
+
+    const result = await notifier.deliver(subjectId, message, 'web');
+
+    expect(result.method).toBe('queued');
+  });
+
+  it('should queue the message when the SMS cannot be sent', async () => {
+    createMessage.mockRejectedValue(new Error('Twilio unavailable'));
+
+    const result = await notifier.deliver(subjectId, message, 'sms');
+
+    expect(result.method).toBe('queued');
+    expect(service.queueCustomerMessage).toHaveBeenCalledWith(subjectId, message);
+  });
+
+  it('should keep the open connection when another registers for the same subject', () => {
+    const open = jest.fn();
+    registry.register(subjectId, 'voice', open);
+
+    const unregister = registry.register(subjectId, 'voice', jest.fn());
+
+    expect(unregister).toBeUndefined();
+    expect(registry.get(subjectId, 'voice')).toBe(open);
+  });
+
+  describe('web chat update stream', () => {
+    const secret = 'test-stream-secret';
+    const config = { updateTokenSecret: secret, updateTokenTtlMs: 60000, allowedOrigins: ['https://shop.example.com'] };
+
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      const app = express();
+      app.get('/web/:subjectId/updates', createUpdateStreamHandler(new WebChatAdapter(), config));
+      server = app.listen(0);
+      await new Promise(resolve => server.once('listening', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    /**
+     * Open the stream and collect the data of each event it sends
+     */
+    const openStream = async (id: string, token = createUpdateStreamToken(id, secret), origin = 'https://shop.example.com') => {
+      const events: any[] = [];
+      const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+        http.get(`${baseUrl}/web/${id}/updates?token=${encodeURIComponent(token)}`, { headers: { Origin: origin } }, resolve)
+          .on('error', reject);
+      });
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        for (const line of chunk.split('\n')) {
+          if (line.startsWith('data: ')) {
+            events.push(JSON.parse(line.slice('data: '.length)));
+          }
+        }
+      });
+      return { response, events };
+    };
+
+    const waitFor = async (check: () => boolean) => {
+      for (let attempt = 0; attempt < 100 && !check(); attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    };
+
+    it('should push the message to the web chat stream', async () => {
+      const { response, events } = await openStream(subjectId);
+      await waitFor(() => events.length > 0);
+
+      const webNotifier = new CustomerNotifier({
+        conversationService: service as unknown as ConversationService,
+        liveConnections,
+        twilioClient: { messages: { create: createMessage } } as any
+      });
+      const result = await webNotifier.deliver(subjectId, message, 'web');
+      await waitFor(() => events.length > 1);
+
+      expect(response.headers['content-type']).toBe('text/event-stream');
+      expect(response.headers['access-control-allow-origin']).toBe('https://shop.example.com');
+      expect(result.method).toBe('live');
+      expect(events).toEqual([
+        { type: 'connected' },
+        expect.objectContaining({ type: 'message', content: message })
+      ]);
+      expect(service.queueCustomerMessage).not.toHaveBeenCalled();
+    });
+
+    it('should stop pushing once the stream is closed', async () => {
+      const { response, events } = await openStream(subjectId);
+      await waitFor(() => events.length > 0);
+
+      response.destroy();
+      await waitFor(() => !liveConnections.get(subjectId, 'web'));
+
+      expect(liveConnections.get(subjectId, 'web')).toBeUndefined();
+    });
+
+    it('should refuse a stream without a token signed for the subject', async () => {
+      const { response } = await openStream(subjectId, createUpdateStreamToken('phone_15559990000', secret));
+      const expired = await openStream(subjectId, createUpdateStreamToken(subjectId, secret, -1000));
+
+      expect(response.statusCode).toBe(401);
+      expect(expired.response.statusCode).toBe(401);
+      expect(liveConnections.get(subjectId, 'web')).toBeUndefined();
+    });
+
+    it('should not let other origins read the stream', async () => {
+      const { response, events } = await openStream(subjectId, undefined, 'https://evil.example.com');
+      await waitFor(() => events.length > 0);
+
+      expect(response.headers['access-control-allow-origin']).toBeUndefined();
+      response.destroy();
+      await waitFor(() => !liveConnections.get(subjectId, 'web'));
+    });
+
+    it('should keep the open stream when a second one is requested', async () => {
+      const first = await openStream(subjectId);
+      await waitFor(() => first.events.length > 0);
+      const open = liveConnections.get(subjectId, 'web');
+
+      const second = await openStream(subjectId);
+
+      expect(second.response.statusCode).toBe(409);
+      expect(liveConnections.get(subjectId, 'web')).toBe(open);
+      first.response.destroy();
+      await waitFor(() => !liveConnections.get(subjectId, 'web'));
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DataSubjectService, LogFileDataSource } from '../../src/services/dataSubjectService';
+import { ConversationService } from '../../src/services/conversationService';
+import { SqliteStateStore } from '../../src/services/persistence/sqliteStore';
+import { FileAuditStore } from '../../src/services/persistence/fileAuditStore';
+import { FileTranscriptStore } from '../../src/services/persistence/fileTranscriptStore';
+import { SegmentRegulationClient, createSegmentDeletionClient } from '../../src/identity/segment-deletion';
+import { SubjectDataSource } from '../../src/types/common';
+import { isValidSubjectId } from '../../src/identity/subject-id';
+import { requireAdminToken } from '../../src/utils/adminAuth';
+import { FileStateStore } from '../../src/services/persistence/fileStore';
+
+describe('DataSubjectService', () => {
+  const subjectId = 'phone_15551234567';
+  const otherSubjectId = 'phone_15559999999';
+
+  let dir: string;
+  let store: SqliteStateStore;
+  let conversations: ConversationService;
+  let logs: LogFileDataSource;
+
+  // Lines as written by the application logger
+  const logLine = (message: string, id: string) => JSON.stringify({ level: 'info', message, subjectId: id });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'data-subject-'));
+    store = new SqliteStateStore({ filePath: ':memory:' });
+    await store.init();
+    const audit = new FileAuditStore({ filePath: path.join(dir, 'audit.jsonl') });
+    const transcripts = new FileTranscriptStore({ dataDir: path.join(dir, 'transcripts') });
+    conversations = new ConversationService(store, audit, undefined, undefined, transcripts);
+
+    for (const id of [subjectId, otherSubjectId]) {
+      const context = await conversations.getContext(id);
+      context.conversationHistory.push({ role: 'user', content: `hello from ${id}` });
+      await conversations.saveContext(id, context);
+      await audit.append({ type: 'approval_decided', subjectId: id, toolCallId: 'call_1', toolName: 'process_refund', approved: true });
+    }
+    await store.saveState(subjectId, '{"paused":true}', { agentName: 'Customer Support Agent' });
+
+    await fs.mkdir(path.join(dir, 'logs'));
+    await fs.writeFile(path.join(dir, 'logs', 'app.log'), [
+      logLine('turn started', subjectId),
+      logLine('turn started', otherSubjectId),
+      // Contains the subject ID without being the subject
+      logLine('turn started', `${subjectId}9`),
+      logLine('turn finished', subjectId)
+    ].join('\n'));
+    logs = new LogFileDataSource(path.join(dir, 'logs'));
+  });
+
+  afterEach(async () => {
+    await conversations.cleanup(0);
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should export everything held about the subject', async () => {
+    const service = new DataSubjectService([conversations, logs], { receiptDir: dir });
+
+    const bundle = await service.exportSubject(subjectId);
+
+    expect(bundle.errors).toEqual({});
+    expect(bundle.sources.conversation).toMatchObject({
+      context: { conversationHistory: [{ role: 'user', content: `hello from ${subjectId}` }] },
+      runState: { subjectId, runState: '{"paused":true}' },
+      auditRecords: [expect.objectContaining({ subjectId, toolCallId: 'call_1' })]
+    });
+    expect(bundle.sources.logs).toEqual({
+      lines: [logLine('turn started', subjectId), logLine('turn finished', subjectId)]
+    });
+  });
+
+  it('should erase the subject from every source and write a receipt', async () => {
+    const segmentDeletion = { requestDeletion: jest.fn().mockResolvedValue({ status: 'requested', requestId: 'reg_1' }) };
+    const service = new DataSubjectService([conversations, logs], { receiptDir: dir, segmentDeletion });
+
+    const receipt = await service.eraseSubject(subjectId);
+
+    expect(receipt).toMatchObject({
+      complete: true,
+      sources: [
+        { name: 'conversation', status: 'erased', itemsErased: 3 },
+        { name: 'logs', status: 'erased', itemsErased: 2 }
+      ],
+      segment: { status: 'requested', requestId: 'reg_1' }
+    });
+    expect(segmentDeletion.requestDeletion).toHaveBeenCalledWith(subjectId);
+
+    const stored = JSON.parse(await fs.readFile(path.join(dir, `${receipt.receiptId}.json`), 'utf-8'));
+    expect(stored).toEqual(receipt);
+    expect(JSON.stringify(stored)).not.toContain(subjectId);
+
+    expect((await service.exportSubject(subjectId)).sources).toEqual({});
+    expect(Object.keys((await service.exportSubject(otherSubjectId)).sources)).toEqual(['conversation', 'logs']);
+    expect(await fs.readFile(path.join(dir, 'logs', 'app.log'), 'utf-8')).toContain(`${subjectId}9`);
+  });
+
+  it('should keep erasing after a source fails and mark the receipt incomplete', async () => {
+    const failing: SubjectDataSource = {
+      name: 'crm',
+      exportSubject: jest.fn().mockRejectedValue(new Error('crm unavailable')),
+      eraseSubject: jest.fn().mockRejectedValue(new Error('crm unavailable'))
+    };
+    const segmentDeletion = { requestDeletion: jest.fn() };
+    const service = new DataSubjectService([failing, conversations], { receiptDir: dir, segmentDeletion });
+
+    expect((await service.exportSubject(subjectId)).errors).toEqual({ crm: 'crm unavailable' });
+
+    const receipt = await service.eraseSubject(subjectId, { segment: false });
+    expect(receipt.complete).toBe(false);
+    expect(receipt.sources).toEqual([
+      { name: 'crm', status: 'failed', itemsErased: 0, error: 'crm unavailable' },
+      { name: 'conversation', status: 'erased', itemsErased: 3 }
+    ]);
+    expect(receipt.segment.status).toBe('skipped');
+    expect(segmentDeletion.requestDeletion).not.toHaveBeenCalled();
+  });
+});
+
+describe('Privacy endpoint guards', () => {
+  it('should only accept subject IDs that cannot escape a storage directory', () => {
+    expect(isValidSubjectId('phone_15551234567')).toBe(true);
+    expect(isValidSubjectId('segment_user_abc-123')).toBe(true);
+    expect(isValidSubjectId('../../etc/passwd')).toBe(false);
+    expect(isValidSubjectId('..')).toBe(false);
+    expect(isValidSubjectId('a/b')).toBe(false);
+    expect(isValidSubjectId('')).toBe(false);
+  });
+
+  it('should refuse file store paths outside the data directory', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'data-subject-paths-'));
+    const store = new FileStateStore({ dataDir: path.join(dir, 'states') });
+    await store.init();
+
+    await expect(store.saveState('../escaped', 'state')).rejects.toThrow('Invalid subject ID');
+    await expect(fs.readdir(dir)).resolves.toEqual(['states']);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should require the admin token', () => {
+    const respond = () => {
+      const res: any = { status: jest.fn(() => res), json: jest.fn() };
+      return res;
+    };
+    const request = (authorization?: string): any => ({ method: 'DELETE', get: () => authorization });
+    const next = jest.fn();
+
+    const missing = respond();
+    requireAdminToken('s3cret')(request(), missing, next);
+    const wrong = respond();
+    requireAdminToken('s3cret')(request('Bearer nope'), wrong, next);
+    const unconfigured = respond();
+    requireAdminToken(undefined)(request('Bearer '), unconfigured, next);
+
+    expect(next).not.toHaveBeenCalled();
+    for (const res of [missing, wrong, unconfigured]) {
+      expect(res.status).toHaveBeenCalledWith(401);
+    }
+
+    requireAdminToken('s3cret')(request('Bearer s3cret'), respond(), next);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('SegmentRegulationClient', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should request deletion of Segment users', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: { regulateId: 'reg_123' } })
+    });
+    global.fetch = fetchMock as any;
+
+    const client = new SegmentRegulationClient({ apiToken: 'token', region: 'eu' });
+    await expect(client.requestDeletion('segment_user_42')).resolves.toEqual({ status: 'requested', requestId: 'reg_123' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://eu1.api.segmentapis.com/regulations');
+    expect(init.headers.Authorization).toBe('Bearer token');
+    expect(JSON.parse(init.body)).toEqual({
+      regulationType: 'SUPPRESS_WITH_DELETE',
+      subjectType: 'USER_ID',
+      subjectIds: ['42']
+    });
+  });
+
+  it('should skip subjects that were not resolved by Segment', async () => {
+    global.fetch = jest.fn() as any;
+
+    const client = new SegmentRegulationClient({ apiToken: 'token' });
+    await expect(client.requestDeletion('phone_15551234567')).resolves.toMatchObject({ status: 'skipped' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should only be created when a Public API token is configured', () => {
+    expect(createSegmentDeletionClient({})).toBeUndefined();
+    expect(createSegmentDeletionClient({ SEGMENT_PUBLIC_API_TOKEN: 'token' })).toBeInstanceOf(SegmentRegulationClient);
+  });
+});
@@ -0,0 +1,156 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { FileStateStore } from '../../src/services/persistence/fileStore';
+import {
+  EncryptedStateStore,
+  EncryptionKey,
+  StateDecryptionError,
+  parseEncryptionKeys
+} from '../../src/services/persistence/encryptedStore';
+import { CustomerContext } from '../../src/context/types';
+
+describe('EncryptedStateStore', () => {
+  let dir: string;
+  let inner: FileStateStore;
+  let store: EncryptedStateStore;
+
+  const oldKey: EncryptionKey = { id: 'k2024', key: randomBytes(32) };
+  const newKey: EncryptionKey = { id: 'k2025', key: randomBytes(32) };
+
+  const customerContext = (): CustomerContext => ({
+    sessionId: 'phone_15551234567',
+    customerPhone: '+15551234567',
+    customerEmail: 'john@example.com',
+    customerName: 'John Doe',
+    conversationHistory: [{ role: 'user', content: 'My card ends in 4242' }],
+    escalationLevel: 0,
+    sessionStartTime: new Date('2024-01-01T10:00:00.000Z'),
+    lastActiveAt: new Date('2024-01-01T10:05:00.000Z'),
+    resolvedIssues: [],
+    metadata: { customerProfile: { traits: { plan: 'premium' } } }
+  });
+
+  const readStoredFiles = async (): Promise<string> => {
+    const files = await fs.readdir(dir);
+    const contents = await Promise.all(files.map(file => fs.readFile(path.join(dir, file), 'utf-8')));
+    return contents.join('\n');
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'encrypted-store-'));
+    inner = new FileStateStore({ dataDir: dir });
+    store = new EncryptedStateStore(inner, { keys: [oldKey] });
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip states and contexts', async () => {
+    await store.saveState('subject-1', '{"secret":"run state"}', { agentName: 'customer-support' });
+    await store.saveContext('subject-1', customerContext());
+
+    await expect(store.loadState('subject-1')).resolves.toBe('{"secret":"run state"}');
+    await expect(store.loadStateRecord('subject-1')).resolves.toEqual(
+      expect.objectContaining({ agentName: 'customer-support' })
+    );
+    await expect(store.listStates()).resolves.toEqual([
+      expect.objectContaining({ subjectId: 'subject-1', runState: '{"secret":"run state"}' })
+    ]);
+    await expect(store.loadContext('subject-1')).resolves.toEqual({ ...customerContext(), version: 1 });
+  });
+
+  it('should not write plaintext to the wrapped store', async () => {
+    await store.saveState('subject-1', 'run state with 4242');
+    await store.saveContext('subject-1', customerContext());
+
+    const stored = await readStoredFiles();
+    expect(stored).not.toContain('4242');
+    expect(stored).not.toContain('john@example.com');
+    expect(stored).not.toContain('+15551234567');
+    expect(await inner.loadState('subject-1')).toMatch(/^enc:v1:k2024:/);
+  });
+
+  it('should read data written with an older key after rotation', async () => {
+    await store.saveState('subject-1', 'old state');
+    await store.saveContext('subject-1', customerContext());
+
+    const rotated = new EncryptedStateStore(inner, { keys: [oldKey, newKey], activeKeyId: 'k2025' });
+
+    await expect(rotated.loadState('subject-1')).resolves.toBe('old state');
+    await expect(rotated.loadContext('subject-1')).resolves.toEqual({ ...customerContext(), version: 1 });
+
+    await rotated.saveState('subject-1', 'new state');
+    expect(await inner.loadState('subject-1')).toMatch(/^enc:v1:k2025:/);
+  });
+
+  it('should raise a decryption error when the key is no longer configured', async () => {
+    await store.saveState('subject-1', 'state');
+    await store.saveContext('subject-1', customerContext());
+
+    const withoutOldKey = new EncryptedStateStore(inner, { keys: [newKey] });
+
+    await expect(withoutOldKey.loadState('subject-1')).rejects.toBeInstanceOf(StateDecryptionError);
+    await expect(withoutOldKey.loadContext('subject-1')).rejects.toMatchObject({ subjectId: 'subject-1' });
+    await expect(withoutOldKey.listStates()).resolves.toEqual([]);
+  });
+
+  it('should reject tampered or moved ciphertexts', async () => {
+    await store.saveState('subject-1', 'state');
+    const sealed = (await inner.loadState('subject-1'))!;
+
+    await inner.saveState('subject-2', sealed);
+    await expect(store.loadState('subject-2')).rejects.toBeInstanceOf(StateDecryptionError);
+
+    await inner.saveState('subject-1', sealed.slice(0, -4) + 'AAAA');
+    await expect(store.loadState('subject-1')).rejects.toBeInstanceOf(StateDecryptionError);
+  });
+
+  it('should reject truncated authentication tags', async () => {
+    await store.saveState('subject-1', 'state');
+    const [prefix, version, keyId, iv, tag, ciphertext] = (await inner.loadState('subject-1'))!.split(':');
+    const shortTag = Buffer.from(tag, 'base64').subarray(0, 4).toString('base64');
+
+    await inner.saveState('subject-1', [prefix, version, keyId, iv, shortTag, ciphertext].join(':'));
+
+    await expect(store.loadState('subject-1')).rejects.toThrow('authentication tag is 4 bytes');
+  });
+
+  it('should reject values written before encryption was enabled', async () => {
+    await inner.saveState('subject-1', 'plain state');
+    await inner.saveContext('subject-1', customerContext());
+
+    await expect(store.loadState('subject-1')).rejects.toBeInstanceOf(StateDecryptionError);
+    await expect(store.loadContext('subject-1')).rejects.toBeInstanceOf(StateDecryptionError);
+    await expect(store.loadContext('subject-2')).resolves.toBeNull();
+  });
+
+  it('should pass through values written before encryption was enabled while migrating', async () => {
+    await inner.saveState('subject-1', 'plain state');
+    await inner.saveContext('subject-1', customerContext());
+
+    const migrating = new EncryptedStateStore(inner, { keys: [oldKey], allowPlaintext: true });
+
+    await expect(migrating.loadState('subject-1')).resolves.toBe('plain state');
+    await expect(migrating.loadContext('subject-1')).resolves.toEqual({ ...customerContext(), version: 1 });
+  });
+
+  it('should validate keys', () => {
+    expect(() => new EncryptedStateStore(inner, { keys: [] })).toThrow('at least one encryption key');
+    expect(() => new EncryptedStateStore(inner, { keys: [{ id: 'short', key: randomBytes(16) }] })).toThrow('32 bytes');
+    expect(() => new EncryptedStateStore(inner, { keys: [oldKey], activeKeyId: 'missing' })).toThrow('not configured');
+  });
+
+  it('should parse key configuration', () => {
+    const key = randomBytes(32);
+
+    expect(parseEncryptionKeys(` k1:${key.toString('base64')} , k0:${key.toString('base64')}`)).toEqual([
+      { id: 'k1', key },
+      { id: 'k0', key }
+    ]);
+    expect(() => parseEncryptionKeys('no-separator')).toThrow('expected id:base64key');
+  });
+});
@@ -0,0 +1,96 @@
+import { Runner } from '@openai/agents';
+import { ConversationService } from '../../src/services/conversationService';
+import { SqliteStateStore } from '../../src/services/persistence/sqliteStore';
+import { TurnQueue } from '../../src/services/turnQueue';
+import { agentRegistry } from '../../src/registry/agent-registry';
+import { eventBus } from '../../src/events';
+
+jest.mock('../../src/registry/agent-registry', () => ({
+  agentRegistry: {
+    get: jest.fn(),
+    getDefault: jest.fn(),
+    getNameForAgent: jest.fn()
+  }
+}));
+
+describe('ConversationService handoffs', () => {
+  const subjectId = 'phone_15551234567';
+  const options = { showProgress: false, stream: false, channel: 'sms' };
+  const supportAgent = { name: 'Customer Support Agent' } as any;
+  const billingAgent = { name: 'Billing Agent' } as any;
+  const agents: Record<string, any> = { 'customer-support': supportAgent, billing: billingAgent };
+
+  let store: SqliteStateStore;
+  let service: ConversationService;
+  let run: jest.Mock;
+
+  beforeEach(async () => {
+    store = new SqliteStateStore({ filePath: ':memory:' });
+    await store.init();
+    const queue = new TurnQueue({ maxQueueDepth: 5, queueTimeoutMs: 1000, coalesceMessages: false });
+    service = new ConversationService(store, undefined, queue);
+
+    (agentRegistry.get as jest.Mock).mockImplementation(async (name: string) => {
+      if (!agents[name]) {
+        throw new Error(`Agent '${name}' not found in configuration`);
+      }
+      return agents[name];
+    });
+    (agentRegistry.getNameForAgent as jest.Mock).mockImplementation((agent: any) =>
+      Object.keys(agents).find(name => agents[name] === agent)
+    );
+
+    run = jest.fn();
+    (Runner as unknown as jest.Mock).mockImplementation(() => ({ run }));
+  });
+
+  afterEach(async () => {
+    eventBus.removeAllListeners('handoff');
+    await service.cleanup(0);
+    await store.close();
+  });
+
+  it('should emit a handoff event and resume the next turn with the new agent', async () => {
+    const listener = jest.fn();
+    eventBus.on('handoff', listener);
+
+    run.mockResolvedValueOnce({
+      finalOutput: 'Let me pass you to billing.',
+      history: [],
+      currentAgent: billingAgent,
+      newItems: [
+        { type: 'handoff_call_item', rawItem: { name: 'transfer_to_billing' }, agent: supportAgent },
+        { type: 'handoff_output_item', rawItem: { name: 'transfer_to_billing' }, sourceAgent: supportAgent, targetAgent: billingAgent }
+      ]
+    });
+    run.mockResolvedValueOnce({ finalOutput: 'Your invoice is attached.', history: [], currentAgent: billingAgent, newItems: [] });
+
+    await service.processConversationTurn('customer-support', subjectId, 'I was charged twice', options);
+
+    expect(listener).toHaveBeenCalledWith({
+      subjectId,
+      fromAgent: 'customer-support',
+      toAgent: 'billing',
+      channel: 'sms'
+    });
+    expect((await store.loadContext(subjectId))?.lastAgent).toBe('billing');
+
+    await service.processConversationTurn('customer-support', subjectId, 'Can I get the invoice?', options);
+
+    expect(run.mock.calls[1][0]).toBe(billingAgent);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the given agent when the last agent is no longer registered', async () => {
+    const context = await service.getContext(subjectId);
+    context.lastAgent = 'retired-agent';
+    await service.saveContext(subjectId, context);
+
+    run.mockResolvedValue({ finalOutput: 'Hi!', history: [], currentAgent: supportAgent, newItems: [] });
+
+    await service.processConversationTurn('customer-support', subjectId, 'Hello', options);
+
+    expect(run.mock.calls[0][0]).toBe(supportAgent);
+    expect((await store.loadContext(subjectId))?.lastAgent).toBe('customer-support');
+  });
+});
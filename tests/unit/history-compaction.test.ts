@@ -0,0 +1,245 @@
+import { Runner } from '@openai/agents';
+import { HistoryCompactor, HistorySummarizer, estimateTokens, extractKeyFacts } from '../../src/services/historyCompactor';
+import { HistoryCompactionConfig, loadHistoryCompactionConfig } from '../../src/config/history';
+import { ConversationService } from '../../src/services/conversationService';
+import { TurnQueue } from '../../src/services/turnQueue';
+import { SqliteStateStore } from '../../src/services/persistence/sqliteStore';
+import { CustomerContext } from '../../src/context/types';
+
+function customerContext(turns: number): CustomerContext {
+  const now = new Date();
+  const conversationHistory: any[] = [];
+  for (let turn = 1; turn <= turns; turn++) {
+    conversationHistory.push({ role: 'user', content: `question ${turn}` });
+    conversationHistory.push({ role: 'assistant', content: `answer ${turn}` });
+  }
+
+  return {
+    sessionId: 'phone_15551234567',
+    conversationHistory,
+    escalationLevel: 0,
+    sessionStartTime: now,
+    lastActiveAt: now,
+    resolvedIssues: [],
+    metadata: {}
+  };
+}
+
+describe('HistoryCompactor', () => {
+  const subjectId = 'phone_15551234567';
+  const config: HistoryCompactionConfig = {
+    enabled: true,
+    maxMessages: 10,
+    maxTokens: 100000,
+    keepRecentMessages: 4,
+    summaryModel: 'gpt-4o-mini'
+  };
+
+  let summarizer: jest.Mocked<HistorySummarizer>;
+
+  beforeEach(() => {
+    summarizer = { summarize: jest.fn().mockResolvedValue('Customer asked several questions.') };
+  });
+
+  it('should compact only past the message or token budget', () => {
+    const compactor = new HistoryCompactor(config, summarizer);
+
+    expect(compactor.needsCompaction(customerContext(5))).toBe(false);
+    expect(compactor.needsCompaction(customerContext(6))).toBe(true);
+
+    const longTurn = customerContext(2);
+    longTurn.conversationHistory.push({ role: 'user', content: 'x'.repeat(4000) });
+    expect(estimateTokens(longTurn.conversationHistory)).toBeGreaterThan(1000);
+    expect(new HistoryCompactor({ ...config, maxTokens: 1000 }, summarizer).needsCompaction(longTurn)).toBe(true);
+
+    expect(new HistoryCompactor({ ...config, enabled: false }, summarizer).needsCompaction(customerContext(20))).toBe(false);
+  });
+
+  it('should replace older turns with a summary and keep recent turns verbatim', async () => {
+    const compactor = new HistoryCompactor(config, summarizer);
+    const context = customerContext(6);
+    context.conversationHistory[0].content = 'Where is order ORD_12345? Email me at jane@example.com';
+    context.resolvedIssues = ['Refund for ORD_99999'];
+
+    await expect(compactor.compact(subjectId, context)).resolves.toBe(true);
+
+    expect(summarizer.summarize).toHaveBeenCalledWith(expect.any(Array), undefined, undefined);
+    expect(summarizer.summarize.mock.calls[0][0]).toHaveLength(8);
+    expect(context.conversationHistory.map(item => item.content)).toEqual([
+      'question 5', 'answer 5', 'question 6', 'answer 6'
+    ]);
+    expect(context.conversationSummary).toEqual({
+      text: 'Customer asked several questions.',
+      keyFacts: ['Order number: ORD_12345', 'Email: jane@example.com', 'Resolved issue: Refund for ORD_99999'],
+      summarizedItemCount: 8,
+      updatedAt: expect.any(String)
+    });
+  });
+
+  it('should keep tool calls with the user message that started them', async () => {
+    const compactor = new HistoryCompactor({ ...config, keepRecentMessages: 3 }, summarizer);
+    const context = customerContext(5);
+    context.conversationHistory.push(
+      { role: 'user', content: 'track ORD_12345' },
+      { type: 'function_call', name: 'track_order', arguments: '{"orderId":"ORD_12345"}' },
+      { type: 'function_call_result', output: 'In transit' },
+      { role: 'assistant', content: 'It is in transit.' }
+    );
+
+    await compactor.compact(subjectId, context);
+
+    expect(context.conversationHistory[0]).toEqual({ role: 'user', content: 'track ORD_12345' });
+    expect(context.conversationHistory).toHaveLength(4);
+  });
+
+  it('should fold the previous summary into the next compaction', async () => {
+    const compactor = new HistoryCompactor(config, summarizer);
+    const context = customerContext(6);
+    context.conversationHistory[0].content = 'order ORD_11111';
+    await compactor.compact(subjectId, context);
+    const first = context.conversationSummary;
+
+    summarizer.summarize.mockResolvedValue('Updated summary.');
+    for (let turn = 7; turn <= 10; turn++) {
+      context.conversationHistory.push({ role: 'user', content: `question ${turn} about ORD_22222` });
+      context.conversationHistory.push({ role: 'assistant', content: `answer ${turn}` });
+    }
+    await compactor.compact(subjectId, context);
+
+    expect(summarizer.summarize).toHaveBeenLastCalledWith(expect.any(Array), first, undefined);
+    expect(context.conversationSummary).toMatchObject({
+      text: 'Updated summary.',
+      keyFacts: ['Order number: ORD_11111', 'Order number: ORD_22222'],
+      summarizedItemCount: 16
+    });
+  });
+
+  it('should leave the history unchanged when summarization fails', async () => {
+    summarizer.summarize.mockRejectedValue(new Error('model unavailable'));
+    const compactor = new HistoryCompactor(config, summarizer);
+    const context = customerContext(6);
+
+    await expect(compactor.compact(subjectId, context)).resolves.toBe(false);
+    expect(context.conversationHistory).toHaveLength(12);
+    expect(context.conversationSummary).toBeUndefined();
+  });
+
+  it('should stop and rethrow when the turn is aborted', async () => {
+    summarizer.summarize.mockImplementation((_items, _previous, signal) => new Promise((_, reject) => {
+      signal!.addEventListener('abort', () => reject(new Error('Request aborted')));
+    }));
+    const compactor = new HistoryCompactor(config, summarizer);
+    const context = customerContext(6);
+    const controller = new AbortController();
+
+    const compaction = compactor.compact(subjectId, context, controller.signal);
+    controller.abort('interrupt');
+
+    await expect(compaction).rejects.toBe('interrupt');
+    expect(context.conversationHistory).toHaveLength(12);
+  });
+
+  it('should extract the current order as a key fact', () => {
+    const context = { ...customerContext(1), currentOrder: 'ORD_55555' };
+    expect(extractKeyFacts([], context)).toEqual(['Current order: ORD_55555']);
+  });
+
+  it('should load configuration from the environment', () => {
+    expect(loadHistoryCompactionConfig({})).toEqual({
+      enabled: true,
+      maxMessages: 50,
+      maxTokens: 8000,
+      keepRecentMessages: 10,
+      summaryModel: 'gpt-4o-mini'
+    });
+    expect(loadHistoryCompactionConfig({ HISTORY_COMPACTION_ENABLED: 'false', AGENT_MODEL: 'gpt-4o' })).toMatchObject({
+      enabled: false,
+      summaryModel: 'gpt-4o'
+    });
+  });
+});
+
+describe('ConversationService history compaction', () => {
+  const subjectId = 'phone_15551234567';
+  let store: SqliteStateStore;
+
+  beforeEach(async () => {
+    store = new SqliteStateStore({ filePath: ':memory:' });
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should send the summary and recent turns instead of the full history', async () => {
+    const run = jest.fn().mockResolvedValue({ finalOutput: 'Sure!', newItems: [], history: [] });
+    (Runner as unknown as jest.Mock).mockImplementation(() => ({ run }));
+
+    const summarizer = { summarize: jest.fn().mockResolvedValue('Customer is waiting on order ORD_12345.') };
+    const compactor = new HistoryCompactor({
+      enabled: true,
+      maxMessages: 10,
+      maxTokens: 100000,
+      keepRecentMessages: 4,
+      summaryModel: 'gpt-4o-mini'
+    }, summarizer);
+    const queue = new TurnQueue({ maxQueueDepth: 5, queueTimeoutMs: 1000, coalesceMessages: false });
+    const service = new ConversationService(store, undefined, queue, compactor);
+
+    await store.saveContext(subjectId, customerContext(6));
+    await service.processConversationTurn({ name: 'Customer Support Agent' } as any, subjectId, 'any update?', {
+      showProgress: false,
+      stream: false
+    });
+
+    const input = run.mock.calls[0][1];
+    expect(input[0]).toEqual({
+      role: 'system',
+      content: 'Summary of the earlier conversation:\nCustomer is waiting on order ORD_12345.'
+    });
+    expect(input.slice(1).map((item: any) => item.content)).toEqual([
+      'question 5', 'answer 5', 'question 6', 'answer 6', 'any update?'
+    ]);
+
+    const stored = await store.loadContext(subjectId);
+    expect(stored?.conversationSummary).toMatchObject({ summarizedItemCount: 8 });
+    expect(stored?.conversationHistory).toHaveLength(5);
+  });
+
+  it('should count summarization against the turn timeout and abort it', async () => {
+    const run = jest.fn();
+    (Runner as unknown as jest.Mock).mockImplementation(() => ({ run }));
+
+    // Only settles once its signal is aborted, like a slow summary model call
+    const summarize = jest.fn((_items: any[], _previous: any, signal?: AbortSignal) => new Promise<string>((_, reject) => {
+      signal!.addEventListener('abort', () => reject(signal!.reason));
+    }));
+    const compactor = new HistoryCompactor({
+      enabled: true,
+      maxMessages: 10,
+      maxTokens: 100000,
+      keepRecentMessages: 4,
+      summaryModel: 'gpt-4o-mini'
+    }, { summarize });
+    const queue = new TurnQueue({ maxQueueDepth: 5, queueTimeoutMs: 1000, coalesceMessages: false });
+    const service = new ConversationService(store, undefined, queue, compactor, undefined, {
+      holdingReplies: { default: 'Please try again.' },
+      deliverLateResults: false,
+      lateResultTimeoutMs: 1000
+    });
+
+    await store.saveContext(subjectId, customerContext(6));
+    const result = await service.processConversationTurn({ name: 'Customer Support Agent' } as any, subjectId, 'any update?', {
+      showProgress: false,
+      stream: false,
+      timeoutMs: 10
+    });
+
+    expect(result).toMatchObject({ response: 'Please try again.', timedOut: true });
+    expect(summarize.mock.calls[0][2]!.aborted).toBe(true);
+    expect(run).not.toHaveBeenCalled();
+    expect((await store.loadContext(subjectId))?.conversationSummary).toBeUndefined();
+    await service.cleanup(0);
+  });
+});
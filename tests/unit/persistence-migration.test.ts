@@ -0,0 +1,137 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStateStore } from '../../src/services/persistence/fileStore';
+import { SqliteStateStore } from '../../src/services/persistence/sqliteStore';
+import {
+  collectRecords,
+  writeRecords,
+  verifyRecords,
+  writeArchive,
+  readArchive
+} from '../../src/services/persistence/migration';
+import { CustomerContext } from '../../src/context/types';
+
+describe('Persistence Migration', () => {
+  let dir: string;
+  let source: FileStateStore;
+  let target: SqliteStateStore;
+  let sourceMap: string;
+  let targetMap: string;
+  const lastActiveAt = new Date();
+
+  const customerContext = (sessionId: string): CustomerContext => ({
+    sessionId,
+    customerPhone: '+15551234567',
+    conversationHistory: [{ role: 'user', content: 'Where is my order?' }],
+    escalationLevel: 0,
+    sessionStartTime: new Date('2024-01-01T10:00:00.000Z'),
+    lastActiveAt,
+    resolvedIssues: [],
+    metadata: { customerProfile: { customerTier: 'premium' } }
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migration-'));
+    sourceMap = path.join(dir, 'subject-map.json');
+    targetMap = path.join(dir, 'target', 'subject-map.json');
+
+    source = new FileStateStore({ dataDir: path.join(dir, 'states') });
+    await source.init();
+    target = new SqliteStateStore({ filePath: ':memory:' });
+    await target.init();
+
+    await source.saveState('phone_15551234567', 'state-1', { agentName: 'customer-support', channel: 'sms' });
+    await source.saveContext('phone_15551234567', customerContext('phone_15551234567'));
+    await source.saveContext('phone_15559999999', customerContext('phone_15559999999'));
+    await fs.writeFile(sourceMap, JSON.stringify({
+      '+15551234567': 'phone_15551234567',
+      '+15559999999': 'phone_15559999999'
+    }));
+  });
+
+  afterEach(async () => {
+    await target.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should copy states, contexts and subject mappings and verify them', async () => {
+    const records = await collectRecords(source, { subjectMapPath: sourceMap });
+
+    await expect(writeRecords(target, records, { subjectMapPath: targetMap })).resolves.toEqual({
+      states: 1,
+      contexts: 2,
+      mappings: 2
+    });
+
+    await expect(verifyRecords(target, records, targetMap)).resolves.toEqual([]);
+    await expect(target.loadStateRecord('phone_15551234567')).resolves.toEqual(
+      expect.objectContaining({ runState: 'state-1', agentName: 'customer-support', channel: 'sms' })
+    );
+    await expect(target.loadContext('phone_15559999999')).resolves.toEqual({ ...customerContext('phone_15559999999'), version: 1 });
+    expect(JSON.parse(await fs.readFile(targetMap, 'utf-8'))).toEqual({
+      '+15551234567': 'phone_15551234567',
+      '+15559999999': 'phone_15559999999'
+    });
+  });
+
+  it('should only copy the requested subjects', async () => {
+    const records = await collectRecords(source, { subjectIds: ['phone_15559999999'], subjectMapPath: sourceMap });
+
+    expect(records.map(record => `${record.type}:${record.subjectId}`)).toEqual([
+      'context:phone_15559999999',
+      'subject_map:phone_15559999999'
+    ]);
+  });
+
+  it('should not write anything on a dry run', async () => {
+    const records = await collectRecords(source, { subjectMapPath: sourceMap });
+
+    await expect(writeRecords(target, records, { subjectMapPath: targetMap, dryRun: true })).resolves.toEqual({
+      states: 1,
+      contexts: 2,
+      mappings: 2
+    });
+
+    await expect(target.listStates()).resolves.toEqual([]);
+    await expect(target.listContextSubjects()).resolves.toEqual([]);
+    await expect(fs.access(targetMap)).rejects.toThrow();
+  });
+
+  it('should report records that are missing or differ in the target', async () => {
+    const records = await collectRecords(source, { subjectMapPath: sourceMap });
+    await writeRecords(target, records, { subjectMapPath: targetMap });
+
+    await target.saveState('phone_15551234567', 'changed-state', { agentName: 'customer-support', channel: 'sms' });
+    await target.deleteContext('phone_15559999999');
+
+    await expect(verifyRecords(target, records, targetMap)).resolves.toEqual([
+      'state phone_15551234567: checksum mismatch',
+      'context phone_15559999999: missing in target'
+    ]);
+  });
+
+  it('should round-trip a JSONL archive', async () => {
+    const archive = path.join(dir, 'backup', 'states.jsonl');
+    const records = await collectRecords(source, { subjectMapPath: sourceMap });
+
+    await writeArchive(archive, records);
+    const imported = await readArchive(archive);
+
+    expect(imported).toEqual(records);
+    await writeRecords(target, imported, { subjectMapPath: targetMap });
+    await expect(verifyRecords(target, records, targetMap)).resolves.toEqual([]);
+  });
+
+  it('should reject archives that were modified or truncated', async () => {
+    const archive = path.join(dir, 'states.jsonl');
+    await writeArchive(archive, await collectRecords(source, { subjectMapPath: sourceMap }));
+    const lines = (await fs.readFile(archive, 'utf-8')).trim().split('\n');
+
+    await fs.writeFile(archive, lines.map(line => line.replace('state-1', 'state-2')).join('\n'));
+    await expect(readArchive(archive)).rejects.toThrow('Checksum mismatch on line 2');
+
+    await fs.writeFile(archive, lines.slice(0, -1).join('\n'));
+    await expect(readArchive(archive)).rejects.toThrow('do not match its header');
+  });
+});
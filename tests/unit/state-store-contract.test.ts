@@ -0,0 +1,640 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStateStore } from '../../src/services/persistence/fileStore';
+import { RedisStateStore, RedisClient } from '../../src/services/persistence/redisStore';
+import { PostgresStateStore } from '../../src/services/persistence/postgresStore';
+import { SqliteStateStore } from '../../src/services/persistence/sqliteStore';
+import { newDb, IMemoryDb, DataType } from 'pg-mem';
+import { RunStateStore, CustomerContextStore } from '../../src/services/persistence/types';
+import { ContextVersionConflictError } from '../../src/services/persistence/types';
+import { CustomerContext } from '../../src/context/types';
+
+type StateStore = RunStateStore & CustomerContextStore;
+
+/**
+ * In-memory stand-in for a node-redis client, honouring PX expiry
+ */
+class InMemoryRedisClient implements RedisClient {
+  public values = new Map<string, { value: string; expiresAt?: number }>();
+  public sets = new Map<string, Set<string>>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.values.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== undefined && Date.now() >= entry.expiresAt) {
+      this.values.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, options: { PX?: number } = {}): Promise<string> {
+    this.values.set(key, { value, expiresAt: options.PX ? Date.now() + options.PX : undefined });
+    return 'OK';
+  }
+
+  async del(key: string): Promise<number> {
+    return this.values.delete(key) ? 1 : 0;
+  }
+
+  async sAdd(key: string, member: string): Promise<number> {
+    const set = this.sets.get(key) || new Set<string>();
+    this.sets.set(key, set);
+    const added = !set.has(member);
+    set.add(member);
+    return added ? 1 : 0;
+  }
+
+  async sRem(key: string, member: string): Promise<number> {
+    return this.sets.get(key)?.delete(member) ? 1 : 0;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return Array.from(this.sets.get(key) || []);
+  }
+
+  /**
+   * Emulates RedisStateStore's context compare-and-set script
+   */
+  async eval(_script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }): Promise<unknown> {
+    const [expected, value, ttl] = args;
+    const current = await this.get(keys[0]);
+    const version = Number(current?.match(/^{"version":(\d+),/)?.[1] || 0);
+
+    if (expected !== '' && Number(expected) !== version) {
+      return [0, version];
+    }
+
+    await this.set(keys[0], `{"version":${version + 1},${value.slice(1)}`, { PX: Number(ttl) });
+    return [1, version + 1];
+  }
+}
+
+const MAX_AGE = 60 * 1000;
+const CONTEXT_MAX_AGE = 10 * 60 * 1000;
+
+interface StoreFactory {
+  create(): Promise<StateStore>;
+  destroy(): Promise<void>;
+}
+
+const fileStore = (): StoreFactory => {
+  let dir: string;
+  return {
+    async create() {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-'));
+      return new FileStateStore({ dataDir: dir, maxAge: MAX_AGE, contextMaxAge: CONTEXT_MAX_AGE });
+    },
+    async destroy() {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  };
+};
+
+const redisStore = (): StoreFactory => ({
+  async create() {
+    return new RedisStateStore({ maxAge: MAX_AGE, contextMaxAge: CONTEXT_MAX_AGE }, new InMemoryRedisClient());
+  },
+  async destroy() {}
+});
+
+/**
+ * pg-mem reports CREATE TABLE IF NOT EXISTS on an existing table as unsupported
+ * unless its AST coverage check is off
+ */
+const createPgMemDb = () => newDb({ noAstCoverageCheck: true });
+
+/**
+ * In-process Postgres stand-in speaking the node-postgres Pool API
+ *
+ * pg-mem runs one query at a time, so the migration advisory lock always succeeds.
+ */
+const createPgMemPool = (db: IMemoryDb = createPgMemDb()) => {
+  for (const name of ['pg_advisory_lock', 'pg_advisory_unlock']) {
+    db.public.registerFunction({
+      name,
+      args: [DataType.bigint],
+      returns: DataType.bool,
+      impure: true,
+      implementation: () => true
+    }, true);
+  }
+  const { Pool } = db.adapters.createPg();
+  return new Pool();
+};
+
+const postgresStore = (): StoreFactory => {
+  let store: PostgresStateStore;
+  return {
+    async create() {
+      store = new PostgresStateStore({ maxAge: MAX_AGE, contextMaxAge: CONTEXT_MAX_AGE }, createPgMemPool());
+      return store;
+    },
+    async destroy() {
+      await store.close();
+    }
+  };
+};
+
+const sqliteStore = (): StoreFactory => {
+  let store: SqliteStateStore;
+  return {
+    async create() {
+      store = new SqliteStateStore({ filePath: ':memory:', maxAge: MAX_AGE, contextMaxAge: CONTEXT_MAX_AGE });
+      return store;
+    },
+    async destroy() {
+      await store.close();
+    }
+  };
+};
+
+describe.each([
+  ['FileStateStore', fileStore],
+  ['RedisStateStore', redisStore],
+  ['PostgresStateStore', postgresStore],
+  ['SqliteStateStore', sqliteStore]
+])('%s contract', (_name, makeFactory) => {
+  let factory: StoreFactory;
+  let store: StateStore;
+  let now: number;
+
+  const advance = (ms: number) => { now += ms; };
+
+  const customerContext = (): CustomerContext => ({
+    sessionId: 'phone_15551234567',
+    customerPhone: '+15551234567',
+    customerName: 'John Doe',
+    conversationHistory: [{ role: 'user', content: 'Where is my order?' }],
+    escalationLevel: 1,
+    sessionStartTime: new Date('2024-01-01T10:00:00.000Z'),
+    lastActiveAt: new Date('2024-01-01T10:05:00.000Z'),
+    resolvedIssues: ['shipping'],
+    metadata: { customerProfile: { customerTier: 'premium' } }
+  });
+
+  beforeEach(async () => {
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    factory = makeFactory();
+    store = await factory.create();
+    await store.init();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await factory.destroy();
+  });
+
+  describe('RunState', () => {
+    it('should round-trip a state with its metadata', async () => {
+      await store.saveState('subject-1', 'serialized-state', {
+        agentName: 'customer-support',
+        currentAgentName: 'Customer Support Agent',
+        channel: 'sms',
+        requestedAt: now - 60000
+      });
+
+      await expect(store.loadState('subject-1')).resolves.toBe('serialized-state');
+      await expect(store.loadStateRecord('subject-1')).resolves.toEqual(expect.objectContaining({
+        subjectId: 'subject-1',
+        runState: 'serialized-state',
+        timestamp: now,
+        agentName: 'customer-support',
+        currentAgentName: 'Customer Support Agent',
+        channel: 'sms',
+        requestedAt: now - 60000
+      }));
+    });
+
+    it('should return null for unknown subjects', async () => {
+      await expect(store.loadState('missing')).resolves.toBeNull();
+      await expect(store.loadStateRecord('missing')).resolves.toBeNull();
+    });
+
+    it('should overwrite the previous state for a subject', async () => {
+      await store.saveState('subject-1', 'first');
+      await store.saveState('subject-1', 'second');
+
+      await expect(store.loadState('subject-1')).resolves.toBe('second');
+      await expect(store.listStates()).resolves.toHaveLength(1);
+    });
+
+    it('should list stored states', async () => {
+      await store.saveState('subject-1', 'state-1');
+      await store.saveState('subject-2', 'state-2');
+
+      const records = await store.listStates();
+      expect(records.map(record => record.subjectId).sort()).toEqual(['subject-1', 'subject-2']);
+    });
+
+    it('should delete states, ignoring unknown subjects', async () => {
+      await store.saveState('subject-1', 'state-1');
+
+      await store.deleteState('subject-1');
+      await store.deleteState('missing');
+
+      await expect(store.loadState('subject-1')).resolves.toBeNull();
+      await expect(store.listStates()).resolves.toEqual([]);
+    });
+
+    it('should stop returning states older than maxAge', async () => {
+      await store.saveState('subject-1', 'state-1');
+      advance(MAX_AGE + 1);
+
+      await expect(store.loadState('subject-1')).resolves.toBeNull();
+      await expect(store.listStates()).resolves.toEqual([]);
+    });
+
+    it('should clean up states older than the given age', async () => {
+      await store.saveState('old', 'old-state');
+      advance(30 * 1000);
+      await store.saveState('fresh', 'fresh-state');
+      advance(1000);
+
+      await expect(store.cleanupOldStates(10 * 1000)).resolves.toBe(1);
+      await expect(store.loadState('old')).resolves.toBeNull();
+      await expect(store.loadState('fresh')).resolves.toBe('fresh-state');
+    });
+  });
+
+  describe('CustomerContext', () => {
+    it('should round-trip a context and rehydrate its dates', async () => {
+      const context = customerContext();
+      await store.saveContext('subject-1', context);
+
+      const loaded = await store.loadContext('subject-1');
+
+      expect(loaded).toEqual(context);
+      expect(loaded!.sessionStartTime).toBeInstanceOf(Date);
+      expect(loaded!.lastActiveAt).toBeInstanceOf(Date);
+    });
+
+    it('should return null for unknown subjects', async () => {
+      await expect(store.loadContext('missing')).resolves.toBeNull();
+    });
+
+    it('should delete contexts', async () => {
+      await store.saveContext('subject-1', customerContext());
+
+      await store.deleteContext('subject-1');
+
+      await expect(store.loadContext('subject-1')).resolves.toBeNull();
+      await expect(store.listContextSubjects()).resolves.toEqual([]);
+    });
+
+    it('should list subjects with stored contexts', async () => {
+      await store.saveContext('subject-1', customerContext());
+      await store.saveContext('subject-2', customerContext());
+
+      await expect(store.listContextSubjects().then(ids => ids.sort())).resolves.toEqual(['subject-1', 'subject-2']);
+
+      advance(CONTEXT_MAX_AGE + 1);
+      await expect(store.listContextSubjects()).resolves.toEqual([]);
+    });
+
+    it('should stop returning contexts older than contextMaxAge', async () => {
+      await store.saveContext('subject-1', customerContext());
+      advance(CONTEXT_MAX_AGE + 1);
+
+      await expect(store.loadContext('subject-1')).resolves.toBeNull();
+    });
+
+    it('should clean up contexts older than the given age', async () => {
+      await store.saveContext('old', customerContext());
+      advance(60 * 1000);
+      await store.saveContext('fresh', customerContext());
+
+      await expect(store.cleanupOldContexts(30 * 1000)).resolves.toBe(1);
+      await expect(store.loadContext('old')).resolves.toBeNull();
+      await expect(store.loadContext('fresh')).resolves.not.toBeNull();
+    });
+
+    it('should increment the version on every save', async () => {
+      const context = customerContext();
+
+      await store.saveContext('subject-1', context);
+      expect(context.version).toBe(1);
+      await store.saveContext('subject-1', context);
+      expect(context.version).toBe(2);
+
+      await expect(store.loadContext('subject-1')).resolves.toEqual(expect.objectContaining({ version: 2 }));
+    });
+
+    it('should only save when the expected version matches', async () => {
+      await store.saveContext('subject-1', customerContext(), { expectedVersion: 0 });
+      const first = (await store.loadContext('subject-1'))!;
+      const second = (await store.loadContext('subject-1'))!;
+
+      first.conversationHistory.push({ role: 'user', content: 'From SMS' });
+      await store.saveContext('subject-1', first, { expectedVersion: first.version });
+
+      second.conversationHistory.push({ role: 'user', content: 'From voice' });
+      const conflict = store.saveContext('subject-1', second, { expectedVersion: second.version });
+
+      await expect(conflict).rejects.toBeInstanceOf(ContextVersionConflictError);
+      await expect(conflict).rejects.toMatchObject({ subjectId: 'subject-1', expectedVersion: 1, actualVersion: 2 });
+      await expect(store.loadContext('subject-1')).resolves.toEqual(expect.objectContaining({
+        conversationHistory: [...customerContext().conversationHistory, { role: 'user', content: 'From SMS' }]
+      }));
+    });
+
+    it('should treat expected version 0 as "not stored yet"', async () => {
+      await store.saveContext('subject-1', customerContext());
+
+      await expect(store.saveContext('subject-1', customerContext(), { expectedVersion: 0 }))
+        .rejects.toBeInstanceOf(ContextVersionConflictError);
+      await expect(store.saveContext('subject-2', customerContext(), { expectedVersion: 3 }))
+        .rejects.toBeInstanceOf(ContextVersionConflictError);
+    });
+
+    it('should keep states and contexts for the same subject separate', async () => {
+      await store.saveState('subject-1', 'state-1');
+      await store.saveContext('subject-1', customerContext());
+
+      await store.deleteState('subject-1');
+
+      await expect(store.loadContext('subject-1')).resolves.not.toBeNull();
+    });
+  });
+});
+
+describe('FileStateStore', () => {
+  let dir: string;
+  let store: FileStateStore;
+
+  const readJson = async (file: string) => JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'));
+
+  const customerContext = (): CustomerContext => ({
+    sessionId: 'subject-1',
+    conversationHistory: [{ role: 'user', content: 'Where is my order?' }],
+    escalationLevel: 0,
+    sessionStartTime: new Date(),
+    lastActiveAt: new Date(),
+    resolvedIssues: [],
+    metadata: {}
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-'));
+    store = new FileStateStore({ dataDir: dir, maxAge: MAX_AGE, contextMaxAge: CONTEXT_MAX_AGE });
+    await store.init();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep every subject in the index when saves run concurrently', async () => {
+    const subjects = Array.from({ length: 20 }, (_, i) => `subject-${i}`);
+
+    await Promise.all(subjects.map(subjectId => store.saveState(subjectId, 'state')));
+
+    expect(Object.keys(await readJson('index.json')).sort()).toEqual([...subjects].sort());
+    expect((await fs.readdir(dir)).filter(file => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('should leave the previous file intact when a write fails', async () => {
+    await store.saveState('subject-1', 'state-1');
+    // Spy on the module itself; the namespace import above is a read-only copy
+    jest.spyOn(jest.requireActual('fs/promises'), 'rename').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(store.saveState('subject-1', 'state-2')).rejects.toThrow('disk full');
+
+    await expect(store.loadState('subject-1')).resolves.toBe('state-1');
+    expect((await fs.readdir(dir)).filter(file => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('should rebuild indexes from the files on disk at startup', async () => {
+    await store.saveState('subject-1', 'state-1');
+    await store.saveContext('subject-1', customerContext());
+    await fs.writeFile(path.join(dir, 'index.json'), JSON.stringify({ 'subject-gone': Date.now() }));
+    await fs.writeFile(path.join(dir, 'context-index.json'), '{"subject-1": 17');
+    await fs.writeFile(path.join(dir, 'runstate-subject-2.json.123.1.tmp'), '{"subjectId": "subj');
+
+    const restarted = new FileStateStore({ dataDir: dir, maxAge: MAX_AGE, contextMaxAge: CONTEXT_MAX_AGE });
+    const report = await restarted.checkIntegrity();
+
+    expect(report).toEqual({ stateFiles: 1, contextFiles: 1, quarantined: [], tempFilesRemoved: 1 });
+    expect(Object.keys(await readJson('index.json'))).toEqual(['subject-1']);
+    expect(Object.keys(await readJson('context-index.json'))).toEqual(['subject-1']);
+    await expect(restarted.listContextSubjects()).resolves.toEqual(['subject-1']);
+  });
+
+  it('should quarantine unreadable files instead of deleting them', async () => {
+    await store.saveState('subject-1', 'state-1');
+    await fs.writeFile(path.join(dir, 'runstate-subject-2.json'), '{"subjectId": "subj');
+    await fs.writeFile(path.join(dir, 'context-subject-3.json'), '');
+
+    const report = await store.checkIntegrity();
+
+    expect(report.quarantined.sort()).toEqual(['context-subject-3.json', 'runstate-subject-2.json']);
+    expect((await fs.readdir(path.join(dir, 'quarantine'))).sort()).toEqual([
+      expect.stringMatching(/^context-subject-3\.json\.\d+$/),
+      expect.stringMatching(/^runstate-subject-2\.json\.\d+$/)
+    ]);
+    expect(Object.keys(await readJson('index.json'))).toEqual(['subject-1']);
+  });
+
+  it('should quarantine a file that becomes unreadable after startup', async () => {
+    await store.saveContext('subject-1', customerContext());
+    await fs.writeFile(path.join(dir, 'context-subject-1.json'), '{"subjectId": "subj');
+
+    await expect(store.loadContext('subject-1')).resolves.toBeNull();
+
+    const quarantined = await fs.readdir(path.join(dir, 'quarantine'));
+    expect(await fs.readFile(path.join(dir, 'quarantine', quarantined[0]), 'utf-8')).toBe('{"subjectId": "subj');
+    expect(await readJson('context-index.json')).toEqual({});
+  });
+});
+
+describe('RedisStateStore', () => {
+  let client: InMemoryRedisClient;
+  let store: RedisStateStore;
+
+  beforeEach(async () => {
+    client = new InMemoryRedisClient();
+    store = new RedisStateStore({ keyPrefix: 'test:', maxAge: MAX_AGE, contextMaxAge: CONTEXT_MAX_AGE }, client);
+    await store.init();
+  });
+
+  it('should write values with a TTL so Redis expires them', async () => {
+    const before = Date.now();
+    await store.saveState('subject-1', 'state-1');
+
+    const entry = client.values.get('test:state:subject-1');
+    expect(entry?.expiresAt).toBeGreaterThanOrEqual(before + MAX_AGE);
+    expect(client.sets.get('test:index:states')).toEqual(new Set(['subject-1']));
+  });
+
+  it('should drop index entries whose keys Redis has expired', async () => {
+    await store.saveState('subject-1', 'state-1');
+    client.values.delete('test:state:subject-1');
+
+    await expect(store.listStates()).resolves.toEqual([]);
+    expect(client.sets.get('test:index:states')?.size).toBe(0);
+  });
+
+  it('should remove corrupted values', async () => {
+    await client.set('test:context:subject-1', '{not json');
+    await client.sAdd('test:index:contexts', 'subject-1');
+
+    await expect(store.loadContext('subject-1')).resolves.toBeNull();
+    expect(client.values.has('test:context:subject-1')).toBe(false);
+  });
+
+  it('should require init() before use', async () => {
+    const uninitialized = new RedisStateStore();
+
+    await expect(uninitialized.saveState('subject-1', 'state-1')).rejects.toThrow('not initialized');
+  });
+});
+
+describe('PostgresStateStore', () => {
+  let db: IMemoryDb;
+  let store: PostgresStateStore;
+
+  beforeEach(async () => {
+    db = createPgMemDb();
+    store = new PostgresStateStore({ maxAge: MAX_AGE, contextMaxAge: CONTEXT_MAX_AGE }, createPgMemPool(db));
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should record applied migrations and skip them on the next init', async () => {
+    const restarted = new PostgresStateStore({}, createPgMemPool(db));
+    await restarted.init();
+
+    const versions = db.public.many('SELECT version, name FROM schema_migrations ORDER BY version');
+    expect(versions).toEqual([
+      { version: 1, name: 'create_run_states' },
+      { version: 2, name: 'create_customer_contexts' },
+      { version: 3, name: 'add_customer_context_version' },
+      { version: 4, name: 'add_run_state_requested_at' }
+    ]);
+  });
+
+  it('should hold the migration lock while checking and applying migrations', async () => {
+    const queries: string[] = [];
+    const subscription = db.on('query', query => queries.push(query));
+    const restarted = new PostgresStateStore({}, createPgMemPool(db));
+    await restarted.init();
+    subscription.unsubscribe();
+
+    const lock = queries.findIndex(query => query.includes('pg_advisory_lock'));
+    const create = queries.findIndex(query => query.includes('CREATE TABLE IF NOT EXISTS schema_migrations'));
+    const unlock = queries.findIndex(query => query.includes('pg_advisory_unlock'));
+    expect(lock).toBeGreaterThanOrEqual(0);
+    expect(create).toBeGreaterThan(lock);
+    expect(unlock).toBe(queries.length - 1);
+  });
+
+  it('should store conversation history and metadata as JSONB', async () => {
+    await store.saveContext('subject-1', {
+      sessionId: 'phone_15551234567',
+      conversationHistory: [{ role: 'user', content: 'Hi' }],
+      escalationLevel: 0,
+      sessionStartTime: new Date(),
+      lastActiveAt: new Date(),
+      resolvedIssues: [],
+      metadata: { customerProfile: { customerTier: 'premium' } }
+    });
+
+    const rows = db.public.many(
+      "SELECT conversation_history->0->>'content' AS first_message, metadata->'customerProfile'->>'customerTier' AS tier FROM customer_contexts"
+    );
+    expect(rows).toEqual([{ first_message: 'Hi', tier: 'premium' }]);
+  });
+
+  it('should index updated_at for expiry cleanup', () => {
+    for (const table of ['conversation_states', 'customer_contexts']) {
+      const indexed = db.public.getTable(table).listIndices().map(index => index.expressions.join(','));
+      expect(indexed).toContain('updated_at');
+    }
+  });
+
+  it('should reject table names that are not plain identifiers', () => {
+    expect(() => new PostgresStateStore({ tableName: 'states; DROP TABLE users' })).toThrow('Invalid PostgreSQL table name');
+  });
+
+  it('should require init() before use', async () => {
+    const uninitialized = new PostgresStateStore();
+
+    await expect(uninitialized.saveState('subject-1', 'state-1')).rejects.toThrow('not initialized');
+  });
+});
+
+describe('SqliteStateStore', () => {
+  let dir: string;
+  let filePath: string;
+  let store: SqliteStateStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-store-'));
+    filePath = path.join(dir, 'nested', 'states.sqlite');
+    store = new SqliteStateStore({ filePath, maxAge: MAX_AGE, contextMaxAge: CONTEXT_MAX_AGE });
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should create the database file in WAL mode', async () => {
+    await store.saveState('subject-1', 'state-1');
+
+    await expect(fs.access(filePath)).resolves.toBeUndefined();
+    await expect(fs.access(`${filePath}-wal`)).resolves.toBeUndefined();
+  });
+
+  it('should keep data and skip applied migrations when reopened', async () => {
+    await store.saveState('subject-1', 'state-1');
+    await store.close();
+
+    store = new SqliteStateStore({ filePath, maxAge: MAX_AGE, contextMaxAge: CONTEXT_MAX_AGE });
+    await store.init();
+
+    await expect(store.loadState('subject-1')).resolves.toBe('state-1');
+  });
+
+  it('should remove corrupted context rows', async () => {
+    await store.saveContext('subject-1', {
+      sessionId: 'phone_15551234567',
+      conversationHistory: [],
+      escalationLevel: 0,
+      sessionStartTime: new Date(),
+      lastActiveAt: new Date(),
+      resolvedIssues: [],
+      metadata: {}
+    });
+    (store as any).db.prepare("UPDATE customer_contexts SET metadata = '{not json'").run();
+
+    await expect(store.loadContext('subject-1')).resolves.toBeNull();
+    expect((store as any).db.prepare('SELECT COUNT(*) AS count FROM customer_contexts').get().count).toBe(0);
+  });
+
+  it('should use the updated_at index for cleanup', () => {
+    const plan = (store as any).db
+      .prepare('EXPLAIN QUERY PLAN DELETE FROM run_states WHERE updated_at < ?')
+      .all(Date.now())
+      .map((step: { detail: string }) => step.detail)
+      .join('\n');
+
+    expect(plan).toContain('idx_run_states_updated_at');
+  });
+
+  it('should require init() before use', async () => {
+    const uninitialized = new SqliteStateStore({ filePath: ':memory:' });
+
+    await expect(uninitialized.saveState('subject-1', 'state-1')).rejects.toThrow('not initialized');
+  });
+});
@@ -0,0 +1,145 @@
+import twilio from 'twilio';
+import {
+  SupervisorApprovalService,
+  approvalShortCode,
+  parseSupervisorReply
+} from '../../src/services/supervisorApprovals';
+import { ConversationService, PendingApproval } from '../../src/services/conversationService';
+import { CustomerNotifier } from '../../src/services/customerNotifier';
+import { loadApprovalConfig } from '../../src/config/approvals';
+import { eventBus } from '../../src/events';
+
+describe('Supervisor Approvals', () => {
+  const supervisorPhone = '+15557654321';
+  const pendingRefund: PendingApproval = {
+    subjectId: 'phone_15551234567',
+    toolCallId: 'call_refund_1',
+    toolName: 'process_refund',
+    arguments: { orderId: 'ORD_12345', amount: 250 },
+    agentName: 'customer-support',
+    channel: 'sms',
+    requestedAt: new Date(),
+    customerName: 'John Doe',
+    approver: 'supervisor'
+  };
+  const code = approvalShortCode(pendingRefund.toolCallId);
+  const authToken = 'test-auth-token';
+
+  let service: { listPendingApprovals: jest.Mock; handleToolApprovals: jest.Mock };
+  let notifier: { sendSmsTo: jest.Mock; deliver: jest.Mock };
+  let supervisor: SupervisorApprovalService;
+
+  beforeEach(() => {
+    service = {
+      listPendingApprovals: jest.fn().mockResolvedValue([pendingRefund]),
+      handleToolApprovals: jest.fn().mockResolvedValue({
+        response: 'Your refund of $250 has been processed.',
+        awaitingApprovals: false,
+        channel: 'sms'
+      })
+    };
+    notifier = {
+      sendSmsTo: jest.fn().mockResolvedValue(true),
+      deliver: jest.fn().mockResolvedValue({ method: 'sms' })
+    };
+    supervisor = new SupervisorApprovalService(
+      notifier as unknown as CustomerNotifier,
+      service as unknown as ConversationService,
+      loadApprovalConfig({ SUPERVISOR_PHONE_NUMBER: supervisorPhone, TWILIO_AUTH_TOKEN: authToken })
+    );
+  });
+
+  afterEach(() => {
+    supervisor.stop();
+  });
+
+  describe('parseSupervisorReply', () => {
+    it('should parse approvals and rejections with reasons', () => {
+      expect(parseSupervisorReply('YES 4821')).toEqual({ approved: true, code: '4821' });
+      expect(parseSupervisorReply('no 4821 over the refund limit ')).toEqual({
+        approved: false,
+        code: '4821',
+        reason: 'over the refund limit'
+      });
+    });
+
+    it('should ignore messages that are not decisions', () => {
+      expect(parseSupervisorReply('yes please')).toBeNull();
+      expect(parseSupervisorReply('MAYBE 4821')).toBeNull();
+    });
+  });
+
+  it('should derive a stable four-digit code from the tool call ID', () => {
+    expect(code).toMatch(/^\d{4}$/);
+    expect(approvalShortCode(pendingRefund.toolCallId)).toBe(code);
+  });
+
+  it('should recognise the supervisor number in any format', () => {
+    expect(supervisor.isSupervisor('+1 (555) 765-4321')).toBe(true);
+    expect(supervisor.isSupervisor('+15551234567')).toBe(false);
+    expect(supervisor.isSupervisor(undefined)).toBe(false);
+  });
+
+  it('should only accept supervisor replies signed by Twilio', () => {
+    const url = 'https://support.example.com/sms';
+    const params = { From: supervisorPhone, Body: `YES ${code}` };
+    const signature = twilio.getExpectedTwilioSignature(authToken, url, params);
+
+    expect(supervisor.isSignedByTwilio(signature, url, params)).toBe(true);
+    expect(supervisor.isSignedByTwilio(signature, url, { ...params, Body: `NO ${code}` })).toBe(false);
+    expect(supervisor.isSignedByTwilio(undefined, url, params)).toBe(false);
+
+    const unconfigured = new SupervisorApprovalService(
+      notifier as unknown as CustomerNotifier,
+      service as unknown as ConversationService,
+      loadApprovalConfig({ SUPERVISOR_PHONE_NUMBER: supervisorPhone })
+    );
+    expect(unconfigured.isSignedByTwilio(signature, url, params)).toBe(false);
+  });
+
+  it('should text the supervisor a summary when approval is requested', async () => {
+    supervisor.start();
+
+    eventBus.emit('approval_requested', {
+      subjectId: pendingRefund.subjectId,
+      toolCallId: pendingRefund.toolCallId,
+      toolName: pendingRefund.toolName,
+      channel: 'sms'
+    });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(service.listPendingApprovals).toHaveBeenCalledWith(pendingRefund.subjectId);
+    expect(notifier.sendSmsTo).toHaveBeenCalledWith(supervisorPhone, expect.stringContaining(`[${code}]: process_refund for John Doe`));
+    expect(notifier.sendSmsTo.mock.calls[0][1]).toContain(`YES ${code}`);
+  });
+
+  it('should apply an approval and deliver the reply to the customer', async () => {
+    const reply = await supervisor.handleReply(`YES ${code}`);
+
+    expect(service.handleToolApprovals).toHaveBeenCalledWith(pendingRefund.subjectId, [{
+      toolCall: { id: pendingRefund.toolCallId },
+      approved: true,
+      reason: undefined,
+      reviewer: `sms:${supervisorPhone}`
+    }]);
+    expect(notifier.deliver).toHaveBeenCalledWith(pendingRefund.subjectId, 'Your refund of $250 has been processed.', 'sms');
+    expect(reply).toContain('Approved process_refund for John Doe');
+  });
+
+  it('should pass the rejection reason to the agent', async () => {
+    await supervisor.handleReply(`NO ${code} needs a manager`);
+
+    expect(service.handleToolApprovals).toHaveBeenCalledWith(pendingRefund.subjectId, [
+      expect.objectContaining({ approved: false, reason: 'needs a manager' })
+    ]);
+  });
+
+  it('should report unknown codes without applying a decision', async () => {
+    const otherCode = code === '1000' ? '1001' : '1000';
+
+    const reply = await supervisor.handleReply(`YES ${otherCode}`);
+
+    expect(reply).toContain(`No pending request with code ${otherCode}`);
+    expect(service.handleToolApprovals).not.toHaveBeenCalled();
+  });
+});
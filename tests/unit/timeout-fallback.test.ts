@@ -0,0 +1,224 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Runner } from '@openai/agents';
+import { ConversationService } from '../../src/services/conversationService';
+import { SqliteStateStore } from '../../src/services/persistence/sqliteStore';
+import { FileTranscriptStore } from '../../src/services/persistence/fileTranscriptStore';
+import { TurnQueue } from '../../src/services/turnQueue';
+import { CustomerNotifier } from '../../src/services/customerNotifier';
+import { LiveConnectionRegistry } from '../../src/channels/LiveConnectionRegistry';
+import { loadTimeoutFallbackConfig, getHoldingReply, TimeoutFallbackConfig } from '../../src/config/timeouts';
+
+describe('Timeout Fallback', () => {
+  describe('configuration', () => {
+    it('should promise a follow-up only when late results are delivered', () => {
+      const config = loadTimeoutFallbackConfig({ TURN_TIMEOUT_LATE_DELIVERY: 'true' });
+
+      expect(config.deliverLateResults).toBe(true);
+      expect(config.lateResultTimeoutMs).toBe(120000);
+      expect(getHoldingReply(config, 'sms')).toBe("I'm still checking on that, I'll text you shortly.");
+      expect(getHoldingReply(config, 'web')).toBe(config.holdingReplies.default);
+
+      const retry = loadTimeoutFallbackConfig({});
+      expect(retry.deliverLateResults).toBe(false);
+      expect(getHoldingReply(retry, 'sms')).toMatch(/try asking again/);
+    });
+
+    it('should read per-channel replies from the environment', () => {
+      const config = loadTimeoutFallbackConfig({
+        TURN_TIMEOUT_REPLY: 'One moment please.',
+        TURN_TIMEOUT_REPLY_VOICE: 'Still looking, stay on the line.',
+        TURN_TIMEOUT_LATE_MAX_MS: '30000'
+      });
+
+      expect(getHoldingReply(config, 'voice')).toBe('Still looking, stay on the line.');
+      expect(getHoldingReply(config, 'web')).toBe('One moment please.');
+      expect(getHoldingReply(config)).toBe('One moment please.');
+      expect(config.lateResultTimeoutMs).toBe(30000);
+    });
+  });
+
+  describe('timed-out turns', () => {
+    const subjectId = 'phone_15551234567';
+    const agent = { name: 'Customer Support Agent' } as any;
+    const options = { showProgress: false, stream: false, channel: 'sms', timeoutMs: 10 };
+    const config: TimeoutFallbackConfig = {
+      holdingReplies: { default: 'Still working on it.', sms: "I'm still checking on that, I'll text you shortly." },
+      deliverLateResults: true,
+      lateResultTimeoutMs: 1000
+    };
+
+    let dir: string;
+    let store: SqliteStateStore;
+    let service: ConversationService;
+    let run: jest.Mock;
+    let finishRun: (result: any) => void;
+
+    const createService = (overrides: Partial<TimeoutFallbackConfig> = {}) => {
+      const created = new ConversationService(
+        store,
+        undefined,
+        new TurnQueue({ maxQueueDepth: 5, queueTimeoutMs: 1000, coalesceMessages: false }),
+        undefined,
+        new FileTranscriptStore({ dataDir: dir }),
+        { ...config, ...overrides }
+      );
+      created.setLateResultNotifier(new CustomerNotifier({
+        conversationService: created,
+        liveConnections: new LiveConnectionRegistry()
+      }));
+      return created;
+    };
+
+    const waitFor = async (check: () => Promise<boolean>) => {
+      for (let attempt = 0; attempt < 100 && !(await check()); attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    };
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'timeout-fallback-'));
+      store = new SqliteStateStore({ filePath: ':memory:' });
+      await store.init();
+      service = createService();
+
+      // Finishes when the test says so, or fails when its signal is aborted
+      run = jest.fn((_agent: any, _input: any, runOptions: any) => new Promise((resolve, reject) => {
+        finishRun = resolve;
+        runOptions.signal.addEventListener('abort', () => reject(runOptions.signal.reason));
+      }));
+      (Runner as unknown as jest.Mock).mockImplementation(() => ({ run }));
+    });
+
+    afterEach(async () => {
+      await service.cleanup(0);
+      await store.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should answer with the holding reply and keep the session', async () => {
+      const result = await service.processConversationTurn(agent, subjectId, 'Where is my order?', options);
+
+      expect(result).toMatchObject({
+        response: "I'm still checking on that, I'll text you shortly.",
+        timedOut: true,
+        currentAgent: agent
+      });
+      expect(run.mock.calls[0][2].signal.aborted).toBe(false);
+      expect(await service.getSessionInfo(subjectId)).not.toBeNull();
+      expect((await store.loadContext(subjectId))?.conversationHistory).toEqual([
+        { role: 'user', content: 'Where is my order?' },
+        { role: 'assistant', content: "I'm still checking on that, I'll text you shortly." }
+      ]);
+
+      finishRun({ finalOutput: 'It ships tomorrow.', newItems: [] });
+      await waitFor(async () => (await service.getTranscripts({ subjectId })).length === 2);
+    });
+
+    it('should deliver the late result once the run completes', async () => {
+      await service.processConversationTurn(agent, subjectId, 'Where is my order?', options);
+
+      finishRun({
+        finalOutput: 'It ships tomorrow.',
+        newItems: [{ role: 'assistant', content: 'It ships tomorrow.' }]
+      });
+      // No phone number on file, so the SMS falls back to the queue
+      await waitFor(async () => !!(await store.loadContext(subjectId))?.queuedMessages?.length);
+
+      const saved = await store.loadContext(subjectId);
+      expect(saved?.queuedMessages).toEqual(['It ships tomorrow.']);
+      expect(saved?.conversationHistory.slice(-1)).toEqual([{ role: 'assistant', content: 'It ships tomorrow.' }]);
+
+      const statuses = (await service.getTranscripts({ subjectId })).map(record => record.status);
+      expect(statuses.sort()).toEqual(['completed', 'timed_out']);
+    });
+
+    it('should abort a late run that passes its limit', async () => {
+      service = createService({ lateResultTimeoutMs: 20 });
+
+      await service.processConversationTurn(agent, subjectId, 'Where is my order?', options);
+      await waitFor(async () => (await service.getTranscripts({ subjectId })).length === 2);
+
+      expect(run.mock.calls[0][2].signal.aborted).toBe(true);
+      const statuses = (await service.getTranscripts({ subjectId })).map(record => record.status);
+      expect(statuses.sort()).toEqual(['failed', 'timed_out']);
+      expect((await store.loadContext(subjectId))?.queuedMessages || []).toEqual([]);
+    });
+
+    it('should abort the late run once a newer turn has started', async () => {
+      const held = await service.processConversationTurn(agent, subjectId, 'Where is my order?', options);
+
+      run.mockResolvedValueOnce({
+        finalOutput: 'Anything else I can help with?',
+        newItems: [{ role: 'assistant', content: 'Anything else I can help with?' }]
+      });
+      await service.processConversationTurn(agent, subjectId, 'Hello?', { ...options, timeoutMs: 1000 });
+      await held.lateDelivery;
+
+      const lateSignal: AbortSignal = run.mock.calls[0][2].signal;
+      expect(lateSignal.aborted).toBe(true);
+      expect(lateSignal.reason).toMatchObject({ name: 'TurnCancelledError', reason: 'superseded' });
+
+      const saved = await store.loadContext(subjectId);
+      expect(saved?.conversationHistory.slice(-2)).toEqual([
+        { role: 'user', content: 'Hello?' },
+        { role: 'assistant', content: 'Anything else I can help with?' }
+      ]);
+      expect(saved?.queuedMessages || []).toEqual([]);
+
+      const statuses = (await service.getTranscripts({ subjectId })).map(record => record.status);
+      expect(statuses.sort()).toEqual(['cancelled', 'completed', 'timed_out']);
+    });
+
+    it('should abort the late run when the session ends', async () => {
+      const held = await service.processConversationTurn(agent, subjectId, 'Where is my order?', options);
+
+      await service.endSession(subjectId);
+      await held.lateDelivery;
+
+      expect(run.mock.calls[0][2].signal.aborted).toBe(true);
+      const statuses = (await service.getTranscripts({ subjectId })).map(record => record.status);
+      expect(statuses.sort()).toEqual(['cancelled', 'timed_out']);
+    });
+
+    it('should queue the late reply when no notifier is set', async () => {
+      service = new ConversationService(
+        store,
+        undefined,
+        new TurnQueue({ maxQueueDepth: 5, queueTimeoutMs: 1000, coalesceMessages: false }),
+        undefined,
+        new FileTranscriptStore({ dataDir: dir }),
+        config
+      );
+      const held = await service.processConversationTurn(agent, subjectId, 'Where is my order?', {
+        ...options,
+        channel: 'web'
+      });
+
+      finishRun({
+        finalOutput: 'It ships tomorrow.',
+        newItems: [{ role: 'assistant', content: 'It ships tomorrow.' }]
+      });
+      await held.lateDelivery;
+
+      expect((await store.loadContext(subjectId))?.queuedMessages).toEqual(['It ships tomorrow.']);
+    });
+
+    it('should let the caller cancel a late run', async () => {
+      const controller = new AbortController();
+      const held = await service.processConversationTurn(agent, subjectId, 'Where is my order?', {
+        ...options,
+        signal: controller.signal
+      });
+
+      controller.abort('hangup');
+      await held.lateDelivery;
+
+      expect(run.mock.calls[0][2].signal.aborted).toBe(true);
+      const statuses = (await service.getTranscripts({ subjectId })).map(record => record.status);
+      expect(statuses.sort()).toEqual(['cancelled', 'timed_out']);
+      expect((await store.loadContext(subjectId))?.queuedMessages || []).toEqual([]);
+    });
+  });
+});
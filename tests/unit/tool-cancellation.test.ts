@@ -0,0 +1,40 @@
+import { cancellableDelay } from '../../src/tools/cancellation';
+import { orderLookupTool, processRefundTool } from '../../src/tools/orders';
+
+describe('Tool cancellation', () => {
+  const runContext = (signal: AbortSignal) => ({ context: { signal } }) as any;
+
+  it('should stop waiting as soon as the turn is aborted', async () => {
+    const controller = new AbortController();
+    const wait = cancellableDelay(60000, controller.signal);
+
+    controller.abort('interrupt');
+
+    await expect(wait).rejects.toBe('interrupt');
+  });
+
+  it('should let an aborted lookup end the run instead of reporting a failure', async () => {
+    const controller = new AbortController();
+    const lookup = (orderLookupTool as any).execute({ orderId: 'ORD_12345' }, runContext(controller.signal));
+
+    controller.abort('timeout');
+
+    await expect(lookup).rejects.toBe('timeout');
+  });
+
+  it('should not issue a refund once the turn is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort('hangup');
+
+    await expect((processRefundTool as any).execute(
+      { orderId: 'ORD_12345', amount: 50, reason: 'Damaged' },
+      runContext(controller.signal)
+    )).rejects.toBe('hangup');
+  });
+
+  it('should run normally without a turn signal', async () => {
+    const result = await (orderLookupTool as any).execute({ orderId: 'ORD_12345' });
+
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,203 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Runner } from '@openai/agents';
+import { randomBytes } from 'crypto';
+import { FileTranscriptStore } from '../../src/services/persistence/fileTranscriptStore';
+import { EnvelopeCipher } from '../../src/services/persistence/encryptedStore';
+import { TranscriptEntry } from '../../src/services/persistence/types';
+import { ConversationService } from '../../src/services/conversationService';
+import { SqliteStateStore } from '../../src/services/persistence/sqliteStore';
+import { TurnQueue } from '../../src/services/turnQueue';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('FileTranscriptStore', () => {
+  let dir: string;
+  let store: FileTranscriptStore;
+
+  const entry = (overrides: Partial<TranscriptEntry> = {}): TranscriptEntry => ({
+    subjectId: 'phone_15551234567',
+    sessionId: 'session-1',
+    trigger: 'message',
+    status: 'completed',
+    channel: 'sms',
+    agentName: 'Customer Support Agent',
+    userMessage: 'Where is my order?',
+    agentOutput: 'It ships tomorrow.',
+    toolCalls: [],
+    guardrails: [],
+    latencyMs: 120,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'transcripts-'));
+    store = new FileTranscriptStore({ dataDir: dir, retentionMs: 30 * DAY_MS });
+    await store.init();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append records to a file per day', async () => {
+    const record = await store.append(entry());
+
+    const lines = (await fs.readFile(path.join(dir, `${record.timestamp.slice(0, 10)}.jsonl`), 'utf-8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual([record]);
+    expect(record.id).toBeDefined();
+  });
+
+  it('should filter by subject, session and time range', async () => {
+    await fs.writeFile(path.join(dir, '2024-01-01.jsonl'), JSON.stringify({
+      ...entry({ userMessage: 'old' }), id: 'old', timestamp: '2024-01-01T12:00:00.000Z'
+    }) + '\n');
+    await store.append(entry({ userMessage: 'first' }));
+    await store.append(entry({ sessionId: 'session-2', userMessage: 'second' }));
+    await store.append(entry({ subjectId: 'phone_15559999999', userMessage: 'other' }));
+
+    const bySubject = await store.query({ subjectId: 'phone_15551234567' });
+    expect(bySubject.map(record => record.userMessage)).toEqual(['old', 'first', 'second']);
+
+    const bySession = await store.query({ subjectId: 'phone_15551234567', sessionId: 'session-2' });
+    expect(bySession.map(record => record.userMessage)).toEqual(['second']);
+
+    const recent = await store.query({ from: new Date('2024-06-01'), limit: 2 });
+    expect(recent.map(record => record.userMessage)).toEqual(['first', 'second']);
+
+    const early = await store.query({ to: new Date('2024-01-02') });
+    expect(early.map(record => record.userMessage)).toEqual(['old']);
+  });
+
+  it('should remove whole days past retention', async () => {
+    const old = new Date(Date.now() - 40 * DAY_MS).toISOString();
+    await fs.writeFile(path.join(dir, `${old.slice(0, 10)}.jsonl`), [
+      JSON.stringify({ ...entry(), id: 'a', timestamp: old }),
+      JSON.stringify({ ...entry(), id: 'b', timestamp: old })
+    ].join('\n') + '\n');
+    await store.append(entry());
+
+    await expect(store.cleanupOldEntries()).resolves.toBe(2);
+    await expect(store.query()).resolves.toHaveLength(1);
+    await expect(store.cleanupOldEntries(DAY_MS * 365)).resolves.toBe(0);
+  });
+
+  it('should delete only the erased subject\'s records', async () => {
+    await store.append(entry());
+    await store.append(entry({ subjectId: 'phone_15559999999' }));
+
+    await expect(store.deleteSubject('phone_15551234567')).resolves.toBe(1);
+    await expect(store.query()).resolves.toEqual([expect.objectContaining({ subjectId: 'phone_15559999999' })]);
+  });
+
+  it('should encrypt every record when a cipher is configured', async () => {
+    const key = { id: 'k2025', key: randomBytes(32) };
+    const encrypted = new FileTranscriptStore({ dataDir: dir, cipher: new EnvelopeCipher({ keys: [key] }) });
+
+    const record = await encrypted.append(entry());
+
+    const stored = await fs.readFile(path.join(dir, `${record.timestamp.slice(0, 10)}.jsonl`), 'utf-8');
+    expect(stored).not.toContain('Where is my order?');
+    expect(stored).toMatch(/^enc:v1:k2025:/);
+    await expect(encrypted.query({ subjectId: 'phone_15551234567' })).resolves.toEqual([record]);
+
+    // Without the key the records cannot be read
+    const otherKey = new FileTranscriptStore({
+      dataDir: dir,
+      cipher: new EnvelopeCipher({ keys: [{ id: 'k2026', key: randomBytes(32) }] })
+    });
+    await expect(otherKey.query()).resolves.toEqual([]);
+  });
+});
+
+describe('ConversationService transcripts', () => {
+  const subjectId = 'phone_15551234567';
+  const agent = { name: 'Customer Support Agent' } as any;
+  const options = { showProgress: false, stream: false, channel: 'sms' };
+
+  let dir: string;
+  let store: SqliteStateStore;
+  let transcripts: FileTranscriptStore;
+  let service: ConversationService;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'transcripts-'));
+    store = new SqliteStateStore({ filePath: ':memory:' });
+    await store.init();
+    transcripts = new FileTranscriptStore({ dataDir: dir });
+    const queue = new TurnQueue({ maxQueueDepth: 5, queueTimeoutMs: 1000, coalesceMessages: false });
+    service = new ConversationService(store, undefined, queue, undefined, transcripts);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should record each turn with its tool calls and guardrail results', async () => {
+    const run = jest.fn().mockResolvedValue({
+      finalOutput: 'Your order ships tomorrow.',
+      history: [],
+      state: undefined,
+      newItems: [
+        { type: 'tool_call_item', rawItem: { callId: 'call_1', name: 'lookup_order', arguments: '{"orderId":"ORD_12345"}' } },
+        { type: 'tool_call_output_item', rawItem: { callId: 'call_1' }, output: 'Ships tomorrow' },
+        { type: 'message_output_item', rawItem: { role: 'assistant', content: 'Your order ships tomorrow.' } }
+      ],
+      inputGuardrailResults: [{ guardrail: { name: 'pii_detection' }, output: { tripwireTriggered: false } }],
+      outputGuardrailResults: []
+    });
+    (Runner as unknown as jest.Mock).mockImplementation(() => ({ run }));
+
+    await service.processConversationTurn(agent, subjectId, 'Where is ORD_12345?', options);
+    await service.processConversationTurn(agent, subjectId, 'Thanks', options);
+
+    const records = await service.getTranscripts({ subjectId });
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      subjectId,
+      trigger: 'message',
+      status: 'completed',
+      channel: 'sms',
+      agentName: 'Customer Support Agent',
+      userMessage: 'Where is ORD_12345?',
+      agentOutput: 'Your order ships tomorrow.',
+      toolCalls: [{ callId: 'call_1', name: 'lookup_order', arguments: { orderId: 'ORD_12345' }, output: 'Ships tomorrow' }],
+      guardrails: [{ name: 'pii_detection', stage: 'input', triggered: false }],
+      latencyMs: expect.any(Number)
+    });
+    expect(records[1].sessionId).toBe(records[0].sessionId);
+  });
+
+  it('should keep the transcript when the context is compacted or the session ends', async () => {
+    const run = jest.fn().mockResolvedValue({ finalOutput: 'Hi!', history: [], newItems: [] });
+    (Runner as unknown as jest.Mock).mockImplementation(() => ({ run }));
+
+    await service.processConversationTurn(agent, subjectId, 'Hello', options);
+    await service.endSession(subjectId);
+    await store.deleteContext(subjectId);
+    await service.processConversationTurn(agent, subjectId, 'Hello again', options);
+
+    const records = await service.getTranscripts({ subjectId });
+    expect(records.map(record => record.userMessage)).toEqual(['Hello', 'Hello again']);
+    expect(records[1].sessionId).not.toBe(records[0].sessionId);
+  });
+
+  it('should record failed turns and the guardrail that stopped them', async () => {
+    const tripwire = Object.assign(new Error('Input guardrail triggered'), {
+      result: { guardrail: { name: 'pii_detection' }, output: { tripwireTriggered: true, outputInfo: { blocked: true } } }
+    });
+    (Runner as unknown as jest.Mock).mockImplementation(() => ({ run: jest.fn().mockRejectedValue(tripwire) }));
+
+    await expect(service.processConversationTurn(agent, subjectId, 'My SSN is 123-45-6789', options)).rejects.toThrow();
+
+    const [record] = await service.getTranscripts({ subjectId });
+    expect(record).toMatchObject({
+      status: 'failed',
+      error: 'Input guardrail triggered',
+      guardrails: [{ name: 'pii_detection', stage: 'input', triggered: true, info: { blocked: true } }]
+    });
+  });
+});
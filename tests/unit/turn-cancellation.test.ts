@@ -0,0 +1,167 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Runner } from '@openai/agents';
+import { ConversationService, TurnCancelledError } from '../../src/services/conversationService';
+import { SqliteStateStore } from '../../src/services/persistence/sqliteStore';
+import { FileTranscriptStore } from '../../src/services/persistence/fileTranscriptStore';
+import { TurnQueue } from '../../src/services/turnQueue';
+import { eventBus } from '../../src/events';
+
+describe('Turn cancellation', () => {
+  const subjectId = 'phone_15551234567';
+  const agent = { name: 'Customer Support Agent' } as any;
+  const options = { showProgress: false, stream: false, channel: 'voice' };
+
+  let dir: string;
+  let store: SqliteStateStore;
+  let transcripts: FileTranscriptStore;
+  let service: ConversationService;
+  let run: jest.Mock;
+
+  /**
+   * A run that only settles when its signal is aborted, like a model call in flight
+   */
+  const hangingRun = () => jest.fn((_agent: any, _input: any, runOptions: any) => new Promise((_, reject) => {
+    runOptions.signal.addEventListener('abort', () => reject(runOptions.signal.reason));
+  }));
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'turn-cancellation-'));
+    store = new SqliteStateStore({ filePath: ':memory:' });
+    await store.init();
+    transcripts = new FileTranscriptStore({ dataDir: dir });
+    const queue = new TurnQueue({ maxQueueDepth: 5, queueTimeoutMs: 1000, coalesceMessages: false });
+    service = new ConversationService(store, undefined, queue, undefined, transcripts);
+
+    run = hangingRun();
+    (Runner as unknown as jest.Mock).mockImplementation(() => ({ run }));
+  });
+
+  afterEach(async () => {
+    eventBus.removeAllListeners('turn_cancelled');
+    await service.cleanup(0);
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should abort the run and commit nothing from the cancelled turn', async () => {
+    const listener = jest.fn();
+    eventBus.on('turn_cancelled', listener);
+    const controller = new AbortController();
+
+    const turn = service.processConversationTurn(agent, subjectId, 'Where is my order?', { ...options, signal: controller.signal });
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort('interrupt');
+
+    await expect(turn).rejects.toBeInstanceOf(TurnCancelledError);
+    await expect(turn).rejects.toMatchObject({ subjectId, reason: 'interrupt' });
+
+    const runSignal: AbortSignal = run.mock.calls[0][2].signal;
+    expect(runSignal.aborted).toBe(true);
+    expect(run.mock.calls[0][2].context.signal).toBe(runSignal);
+
+    expect((await service.getContext(subjectId)).conversationHistory).toEqual([]);
+    expect(await store.loadContext(subjectId)).toBeNull();
+
+    expect(listener).toHaveBeenCalledWith({
+      subjectId,
+      reason: 'interrupt',
+      agentName: 'Customer Support Agent',
+      channel: 'voice'
+    });
+
+    const [record] = await service.getTranscripts({ subjectId });
+    expect(record).toMatchObject({ status: 'cancelled', userMessage: 'Where is my order?' });
+  });
+
+  it('should not start a turn whose signal was already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(service.processConversationTurn(agent, subjectId, 'Hello', { ...options, signal: controller.signal }))
+      .rejects.toMatchObject({ reason: 'aborted' });
+    expect(run.mock.calls[0][2].signal.aborted).toBe(true);
+  });
+
+  it('should keep the conversation going after a cancelled turn', async () => {
+    const controller = new AbortController();
+    const cancelled = service.processConversationTurn(agent, subjectId, 'First question', { ...options, signal: controller.signal });
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort('interrupt');
+    await expect(cancelled).rejects.toBeInstanceOf(TurnCancelledError);
+
+    run.mockResolvedValueOnce({ finalOutput: 'It ships tomorrow.', history: [], newItems: [
+      { role: 'assistant', content: 'It ships tomorrow.' }
+    ] });
+    await service.processConversationTurn(agent, subjectId, 'Second question', options);
+
+    expect(run.mock.calls[1][1]).toEqual([{ role: 'user', content: 'Second question' }]);
+    expect((await store.loadContext(subjectId))?.conversationHistory).toEqual([
+      { role: 'user', content: 'Second question' },
+      { role: 'assistant', content: 'It ships tomorrow.' }
+    ]);
+  });
+
+  describe('streamed runs', () => {
+    /**
+     * A streamed run that starts right away and, like the SDK, never settles
+     * `completed` once its signal has cancelled the stream
+     */
+    const streamingRun = () => jest.fn(async (..._args: any[]) => ({ completed: new Promise(() => {}) }));
+
+    it('should abort a run that is cancelled while it is still generating', async () => {
+      run = streamingRun();
+      const controller = new AbortController();
+
+      const turn = service.processConversationTurn(agent, subjectId, 'Where is my order?', {
+        ...options,
+        stream: true,
+        signal: controller.signal
+      });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(run).toHaveBeenCalled();
+      controller.abort('interrupt');
+
+      await expect(turn).rejects.toMatchObject({ subjectId, reason: 'interrupt' });
+      expect(run.mock.calls[0][2].signal.aborted).toBe(true);
+      expect(await store.loadContext(subjectId)).toBeNull();
+
+      const [record] = await service.getTranscripts({ subjectId });
+      expect(record).toMatchObject({ status: 'cancelled' });
+    });
+
+    it('should abort a run that times out while it is still generating', async () => {
+      run = streamingRun();
+      const queue = new TurnQueue({ maxQueueDepth: 5, queueTimeoutMs: 1000, coalesceMessages: false });
+      service = new ConversationService(store, undefined, queue, undefined, transcripts, {
+        holdingReplies: { default: 'Please try again.' },
+        deliverLateResults: false,
+        lateResultTimeoutMs: 1000
+      });
+
+      const result = await service.processConversationTurn(agent, subjectId, 'Hello', {
+        ...options,
+        stream: true,
+        timeoutMs: 10
+      });
+
+      expect(result).toMatchObject({ response: 'Please try again.', timedOut: true });
+      expect(run.mock.calls[0][2].signal.aborted).toBe(true);
+    });
+  });
+
+  it('should abort the run when the turn times out', async () => {
+    const queue = new TurnQueue({ maxQueueDepth: 5, queueTimeoutMs: 1000, coalesceMessages: false });
+    service = new ConversationService(store, undefined, queue, undefined, transcripts, {
+      holdingReplies: { default: 'Please try again.' },
+      deliverLateResults: false,
+      lateResultTimeoutMs: 1000
+    });
+
+    const result = await service.processConversationTurn(agent, subjectId, 'Hello', { ...options, timeoutMs: 10 });
+
+    expect(result).toMatchObject({ response: 'Please try again.', timedOut: true });
+    expect(run.mock.calls[0][2].signal.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,248 @@
+import { Runner } from '@openai/agents';
+import {
+  TurnQueue,
+  TurnQueueFullError,
+  TurnQueueTimeoutError,
+  InMemoryTurnLockProvider,
+  RedisTurnLockProvider,
+  RedisLockClient
+} from '../../src/services/turnQueue';
+import { TurnQueueConfig, loadTurnQueueConfig } from '../../src/config/turnQueue';
+import { ConversationService } from '../../src/services/conversationService';
+import { SqliteStateStore } from '../../src/services/persistence/sqliteStore';
+
+/**
+ * Promise that resolves when the test says so
+ */
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => { resolve = res; });
+  return { promise, resolve };
+}
+
+/**
+ * Minimal Redis emulation of SET NX PX and the lock release script
+ */
+class InMemoryRedisLockClient implements RedisLockClient {
+  private values = new Map<string, string>();
+
+  async set(key: string, value: string): Promise<string | null> {
+    if (this.values.has(key)) {
+      return null;
+    }
+    this.values.set(key, value);
+    return 'OK';
+  }
+
+  async eval(_script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown> {
+    const [key] = options.keys;
+    if (this.values.get(key) === options.arguments[0]) {
+      this.values.delete(key);
+      return 1;
+    }
+    return 0;
+  }
+}
+
+describe('TurnQueue', () => {
+  const subjectId = 'phone_15551234567';
+  const config: TurnQueueConfig = { maxQueueDepth: 2, queueTimeoutMs: 1000, coalesceMessages: false };
+
+  it('should run turns for the same subject one at a time, in order', async () => {
+    const queue = new TurnQueue(config);
+    const events: string[] = [];
+    const first = deferred();
+
+    const turn = (name: string, wait?: Promise<void>) => queue.runTurn(subjectId, name, async message => {
+      events.push(`start ${message}`);
+      await wait;
+      events.push(`end ${message}`);
+      return message;
+    });
+
+    const results = Promise.all([turn('one', first.promise), turn('two'), turn('three')]);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(events).toEqual(['start one']);
+
+    first.resolve();
+    await expect(results).resolves.toEqual([
+      { result: 'one', coalesced: false },
+      { result: 'two', coalesced: false },
+      { result: 'three', coalesced: false }
+    ]);
+    expect(events).toEqual(['start one', 'end one', 'start two', 'end two', 'start three', 'end three']);
+  });
+
+  it('should run turns for different subjects concurrently', async () => {
+    const queue = new TurnQueue(config);
+    const blocked = deferred();
+
+    const slow = queue.runTurn('subject-a', 'hello', async () => blocked.promise);
+    await expect(queue.runTurn('subject-b', 'hello', async () => 'done')).resolves.toEqual({ result: 'done', coalesced: false });
+
+    blocked.resolve();
+    await slow;
+  });
+
+  it('should reject turns beyond the queue depth', async () => {
+    const queue = new TurnQueue(config);
+    const blocked = deferred();
+
+    const running = queue.runTurn(subjectId, 'one', async () => blocked.promise);
+    const waiting = [queue.runTurn(subjectId, 'two', async () => undefined), queue.runTurn(subjectId, 'three', async () => undefined)];
+
+    await expect(queue.runTurn(subjectId, 'four', async () => undefined)).rejects.toBeInstanceOf(TurnQueueFullError);
+    expect(queue.getQueueDepth(subjectId)).toBe(2);
+
+    blocked.resolve();
+    await Promise.all([running, ...waiting]);
+    expect(queue.getQueueDepth(subjectId)).toBe(0);
+  });
+
+  it('should reject turns that wait longer than the timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      const queue = new TurnQueue(config);
+      const blocked = deferred();
+      const run = jest.fn();
+
+      const running = queue.runTurn(subjectId, 'one', async () => blocked.promise);
+      const waiting = queue.runTurn(subjectId, 'two', run);
+
+      jest.advanceTimersByTime(1000);
+      await expect(waiting).rejects.toBeInstanceOf(TurnQueueTimeoutError);
+
+      blocked.resolve();
+      await running;
+      expect(run).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should keep running later turns after one fails', async () => {
+    const queue = new TurnQueue(config);
+
+    const failing = queue.runTurn(subjectId, 'one', async () => { throw new Error('agent failed'); });
+    const next = queue.runTurn(subjectId, 'two', async message => message);
+
+    await expect(failing).rejects.toThrow('agent failed');
+    await expect(next).resolves.toEqual({ result: 'two', coalesced: false });
+  });
+
+  it('should coalesce messages that arrive while a turn is waiting', async () => {
+    const queue = new TurnQueue({ ...config, coalesceMessages: true });
+    const blocked = deferred();
+    const run = jest.fn(async (message: string) => `reply to ${message}`);
+
+    const running = queue.runTurn(subjectId, 'hi', async () => blocked.promise);
+    const second = queue.runTurn(subjectId, 'my order is late', run);
+    const third = queue.runTurn(subjectId, 'order ORD_12345', run);
+
+    blocked.resolve();
+    await running;
+
+    await expect(second).resolves.toEqual({ result: 'reply to my order is late\norder ORD_12345', coalesced: false });
+    await expect(third).resolves.toEqual({ result: 'reply to my order is late\norder ORD_12345', coalesced: true });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not coalesce messages into non-message work', async () => {
+    const queue = new TurnQueue({ ...config, coalesceMessages: true });
+    const blocked = deferred();
+
+    const running = queue.runTurn(subjectId, 'hi', async () => blocked.promise);
+    const approval = queue.run(subjectId, async () => 'approved');
+    const message = queue.runTurn(subjectId, 'thanks', async text => text);
+
+    blocked.resolve();
+    await running;
+    await expect(approval).resolves.toBe('approved');
+    await expect(message).resolves.toEqual({ result: 'thanks', coalesced: false });
+  });
+
+  it('should serialize across queues sharing a lock provider', async () => {
+    const provider = new RedisTurnLockProvider(new InMemoryRedisLockClient(), { retryIntervalMs: 5 });
+    const instanceA = new TurnQueue(config, provider);
+    const instanceB = new TurnQueue(config, provider);
+    const events: string[] = [];
+    const blocked = deferred();
+
+    const first = instanceA.runTurn(subjectId, 'a', async () => {
+      events.push('start a');
+      await blocked.promise;
+      events.push('end a');
+    });
+    await new Promise(resolve => setImmediate(resolve));
+
+    const second = instanceB.runTurn(subjectId, 'b', async () => {
+      events.push('start b');
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(events).toEqual(['start a']);
+
+    blocked.resolve();
+    await Promise.all([first, second]);
+    expect(events).toEqual(['start a', 'end a', 'start b']);
+  });
+
+  it('should time out waiting for a lock held elsewhere', async () => {
+    const provider = new InMemoryTurnLockProvider();
+    const held = await provider.acquire(subjectId, 1000);
+    const queue = new TurnQueue({ ...config, queueTimeoutMs: 20 }, provider);
+
+    await expect(queue.runTurn(subjectId, 'hi', async () => undefined)).rejects.toBeInstanceOf(TurnQueueTimeoutError);
+    await held.release();
+    await expect(queue.runTurn(subjectId, 'hi', async () => 'ok')).resolves.toEqual({ result: 'ok', coalesced: false });
+  });
+
+  it('should load configuration from the environment', () => {
+    expect(loadTurnQueueConfig({})).toEqual({ maxQueueDepth: 5, queueTimeoutMs: 60000, coalesceMessages: false });
+    expect(loadTurnQueueConfig({
+      TURN_QUEUE_MAX_DEPTH: '1',
+      TURN_QUEUE_TIMEOUT_MS: '5000',
+      TURN_QUEUE_COALESCE: 'true'
+    })).toEqual({ maxQueueDepth: 1, queueTimeoutMs: 5000, coalesceMessages: true });
+  });
+});
+
+describe('ConversationService turn serialization', () => {
+  const subjectId = 'phone_15551234567';
+  let store: SqliteStateStore;
+
+  beforeEach(async () => {
+    store = new SqliteStateStore({ filePath: ':memory:' });
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('should not start a turn while another for the same subject is running', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const run = jest.fn(async (_agent: any, input: any[]) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+      const last = input[input.length - 1];
+      return { finalOutput: `reply to ${last.content}`, newItems: [], history: [] };
+    });
+    (Runner as unknown as jest.Mock).mockImplementation(() => ({ run }));
+
+    const service = new ConversationService(store, undefined, new TurnQueue({ maxQueueDepth: 5, queueTimeoutMs: 1000, coalesceMessages: false }));
+    const agent = { name: 'Customer Support Agent' } as any;
+    const options = { showProgress: false, stream: false };
+
+    const results = await Promise.all([
+      service.processConversationTurn(agent, subjectId, 'first', options),
+      service.processConversationTurn(agent, subjectId, 'second', options)
+    ]);
+
+    expect(maxActive).toBe(1);
+    expect(results.map(result => result.finalOutput)).toEqual(['reply to first', 'reply to second']);
+    expect((await store.loadContext(subjectId))?.conversationHistory.map(item => item.content)).toEqual(['first', 'second']);
+  });
+});
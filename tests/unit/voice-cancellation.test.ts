@@ -0,0 +1,92 @@
+import { VoiceAdapter } from '../../src/channels/voice/adapter';
+import { conversationService, TurnCancelledError } from '../../src/services/conversationService';
+import { Agent } from '@openai/agents';
+import { WebSocket } from 'ws';
+
+jest.mock('../../src/services/conversationService');
+
+describe('Voice turn cancellation', () => {
+  const subjectId = 'phone_15551234567';
+  const mockService = conversationService as jest.Mocked<typeof conversationService>;
+
+  let adapter: VoiceAdapter;
+  let ws: any;
+  let session: any;
+  let spoken: string[];
+
+  const prompt = (text: string) => (adapter as any).processRequestWithKnownSubject(
+    { type: 'prompt', voicePrompt: text, sessionSetup: { from: '+15551234567' } },
+    ws,
+    {} as Agent,
+    subjectId
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adapter = new VoiceAdapter();
+    ws = { readyState: WebSocket.OPEN, send: jest.fn(), subjectId };
+    session = { getSessionId: () => 'voice-1', handleInterrupt: jest.fn().mockResolvedValue(null) };
+    spoken = [];
+
+    jest.spyOn(adapter, 'sendResponse').mockImplementation(async (_ws, stream) => {
+      for await (const chunk of stream) {
+        spoken.push(chunk);
+      }
+    });
+
+    mockService.getContext.mockResolvedValue({ customerPhone: '+15551234567', metadata: {} } as any);
+    // Settles only when the turn is aborted, like a run still waiting on the model
+    mockService.processConversationTurn.mockImplementation((_agent, _subjectId, _message, options) =>
+      new Promise((_, reject) => {
+        options!.signal!.addEventListener('abort', () => reject(new TurnCancelledError(subjectId, options!.signal!.reason)));
+      })
+    );
+  });
+
+  it('should abort the turn in flight when the caller interrupts', async () => {
+    const turn = prompt('Where is my order?');
+    await new Promise(resolve => setImmediate(resolve));
+
+    await (adapter as any).processVoiceMessage(session, { type: 'interrupt' }, ws);
+    await turn;
+
+    const signal: AbortSignal = mockService.processConversationTurn.mock.calls[0][3]!.signal!;
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe('interrupt');
+    expect(session.handleInterrupt).toHaveBeenCalled();
+    expect(ws.activeTurns.size).toBe(0);
+
+    // No apology for technical difficulties; the caller moved on
+    expect(spoken).toEqual([]);
+  });
+
+  it('should keep a timed-out run cancellable after the holding reply', async () => {
+    mockService.takeQueuedMessages.mockResolvedValue([]);
+    mockService.processConversationTurn.mockImplementation(async (_agent, _subjectId, _message, options) => ({
+      response: 'Still looking, stay on the line.',
+      history: [],
+      newItems: [],
+      currentAgent: {} as Agent,
+      timedOut: true,
+      // Settles once the run still going in the background is aborted
+      lateDelivery: new Promise<void>(resolve => options!.signal!.addEventListener('abort', () => resolve()))
+    }));
+
+    await prompt('Where is my order?');
+    expect(spoken.join('')).toContain('Still looking');
+    expect(ws.activeTurns.size).toBe(1);
+
+    await (adapter as any).processVoiceMessage(session, { type: 'interrupt' }, ws);
+
+    const signal: AbortSignal = mockService.processConversationTurn.mock.calls[0][3]!.signal!;
+    expect(signal.aborted).toBe(true);
+    expect(ws.activeTurns.size).toBe(0);
+  });
+
+  it('should leave the call alone when no turn is in flight', async () => {
+    await (adapter as any).processVoiceMessage(session, { type: 'interrupt' }, ws);
+
+    expect(session.handleInterrupt).toHaveBeenCalled();
+    expect(spoken).toEqual([]);
+  });
+});
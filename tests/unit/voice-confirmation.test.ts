@@ -0,0 +1,169 @@
+import { VoiceAdapter } from '../../src/channels/voice/adapter';
+import {
+  buildConfirmationPrompt,
+  interpretConfirmation,
+  CONFIRMATION_RETRY_PROMPT
+} from '../../src/channels/voice/confirmation';
+import { conversationService, PendingApproval } from '../../src/services/conversationService';
+import { Agent } from '@openai/agents';
+import { WebSocket } from 'ws';
+
+jest.mock('../../src/services/conversationService');
+
+describe('Voice Confirmation', () => {
+  const subjectId = 'phone_15551234567';
+  const pendingRefund: PendingApproval = {
+    subjectId,
+    toolCallId: 'call_refund_1',
+    toolName: 'process_refund',
+    arguments: { orderId: 'ORD_67890', amount: 49.99, reason: 'Damaged item' },
+    agentName: 'customer-support',
+    channel: 'voice',
+    requestedAt: new Date(),
+    approver: 'customer'
+  };
+
+  describe('interpretConfirmation', () => {
+    it('should understand spoken answers', () => {
+      expect(interpretConfirmation('Yes, please.')).toBe(true);
+      expect(interpretConfirmation('okay go ahead')).toBe(true);
+      expect(interpretConfirmation('No thanks')).toBe(false);
+      expect(interpretConfirmation("don't do that")).toBe(false);
+    });
+
+    it('should understand DTMF 1 and 2', () => {
+      expect(interpretConfirmation('1')).toBe(true);
+      expect(interpretConfirmation('DTMF: 2')).toBe(false);
+    });
+
+    it('should return null for unclear answers', () => {
+      expect(interpretConfirmation('what was the amount again?')).toBeNull();
+      expect(interpretConfirmation('nothing')).toBeNull();
+    });
+
+    it('should not read agreeing phrases that start with no as a refusal', () => {
+      expect(interpretConfirmation('No problem, go ahead.')).toBe(true);
+      expect(interpretConfirmation('no worries, yes please')).toBe(true);
+      expect(interpretConfirmation('No problem')).toBe(true);
+    });
+
+    it('should ask again when an answer says both yes and no', () => {
+      expect(interpretConfirmation('No wait, yes do it')).toBeNull();
+      expect(interpretConfirmation('no, go ahead')).toBeNull();
+      expect(interpretConfirmation("yes, actually don't")).toBeNull();
+    });
+  });
+
+  it('should read the action back to the caller', () => {
+    expect(buildConfirmationPrompt([pendingRefund])).toBe(
+      "I'm about to refund $49.99 on order ORD_67890. Shall I go ahead? You can say yes or no, or press 1 for yes and 2 for no."
+    );
+  });
+
+  describe('VoiceAdapter', () => {
+    const mockService = conversationService as jest.Mocked<typeof conversationService>;
+    let adapter: VoiceAdapter;
+    let ws: any;
+    let spoken: string[];
+
+    const prompt = (text: string) => (adapter as any).processRequestWithKnownSubject(
+      { type: 'prompt', voicePrompt: text, sessionSetup: { from: '+15551234567' } },
+      ws,
+      {} as Agent,
+      subjectId
+    );
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      adapter = new VoiceAdapter();
+      ws = { readyState: WebSocket.OPEN, send: jest.fn(), subjectId };
+      spoken = [];
+
+      jest.spyOn(adapter, 'sendResponse').mockImplementation(async (_ws, stream) => {
+        for await (const chunk of stream) {
+          spoken.push(chunk);
+        }
+      });
+
+      mockService.getContext.mockResolvedValue({ customerPhone: '+15551234567', metadata: {} } as any);
+      mockService.processConversationTurn.mockResolvedValue({ awaitingApprovals: true } as any);
+      mockService.listPendingApprovals.mockResolvedValue([pendingRefund]);
+      mockService.handleToolApprovals.mockResolvedValue({
+        response: 'Done, your refund of $49.99 is on its way.',
+        awaitingApprovals: false
+      } as any);
+    });
+
+    it('should ask the caller to confirm customer-approvable calls', async () => {
+      await prompt('I want a refund for order ORD_67890');
+
+      expect(spoken).toEqual([buildConfirmationPrompt([pendingRefund])]);
+      expect(ws.pendingConfirmation).toEqual([pendingRefund]);
+    });
+
+    it('should send calls that need a supervisor for review', async () => {
+      mockService.listPendingApprovals.mockResolvedValue([{ ...pendingRefund, approver: 'supervisor' }]);
+
+      await prompt('I want a refund for order ORD_67890');
+
+      expect(spoken[0]).toContain('passed your request to our team');
+      expect(ws.pendingConfirmation).toBeUndefined();
+    });
+
+    it('should approve the call when the caller says yes', async () => {
+      await prompt('I want a refund for order ORD_67890');
+      await prompt('yes please');
+
+      expect(mockService.handleToolApprovals).toHaveBeenCalledWith(subjectId, [
+        { toolCall: { id: 'call_refund_1' }, approved: true, reviewer: 'customer' }
+      ]);
+      expect(mockService.processConversationTurn).toHaveBeenCalledTimes(1);
+      expect(spoken[1]).toBe('Done, your refund of $49.99 is on its way.');
+      expect(ws.pendingConfirmation).toBeUndefined();
+    });
+
+    it('should reject the call when the caller presses 2', async () => {
+      await prompt('I want a refund for order ORD_67890');
+      await (adapter as any).handleConfirmationAnswer(ws, subjectId, '2');
+
+      expect(mockService.handleToolApprovals).toHaveBeenCalledWith(subjectId, [
+        expect.objectContaining({ toolCall: { id: 'call_refund_1' }, approved: false, reason: expect.any(String) })
+      ]);
+    });
+
+    it('should ask again when the answer is unclear', async () => {
+      await prompt('I want a refund for order ORD_67890');
+      await prompt('hmm how much was it');
+
+      expect(spoken[1]).toBe(CONFIRMATION_RETRY_PROMPT);
+      expect(mockService.handleToolApprovals).not.toHaveBeenCalled();
+      expect(ws.pendingConfirmation).toEqual([pendingRefund]);
+    });
+
+    it('should pass the caller on to the agent once a supervisor settled the call', async () => {
+      await prompt('I want a refund for order ORD_67890');
+      mockService.listPendingApprovals.mockResolvedValue([]);
+      mockService.processConversationTurn.mockResolvedValue({ finalOutput: 'Your refund was approved.' } as any);
+      mockService.takeQueuedMessages.mockResolvedValue([]);
+
+      await prompt('yes, and can you check my other order?');
+
+      expect(mockService.handleToolApprovals).not.toHaveBeenCalled();
+      expect(mockService.processConversationTurn).toHaveBeenCalledTimes(2);
+      expect(spoken[1]).toBe('Your refund was approved.');
+      expect(ws.pendingConfirmation).toBeUndefined();
+    });
+
+    it('should leave keypad presses to the session once the call has expired', async () => {
+      const session = { getSessionId: () => 'voice-1', handleDtmf: jest.fn().mockResolvedValue(null) };
+      await prompt('I want a refund for order ORD_67890');
+      mockService.listPendingApprovals.mockResolvedValue([]);
+
+      await (adapter as any).processVoiceMessage(session, { type: 'dtmf', digits: { digit: '1' } }, ws);
+
+      expect(mockService.handleToolApprovals).not.toHaveBeenCalled();
+      expect(session.handleDtmf).toHaveBeenCalledWith('1');
+      expect(ws.pendingConfirmation).toBeUndefined();
+    });
+  });
+});